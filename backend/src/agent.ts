@@ -45,12 +45,24 @@ import {
   createShapeSchema,
   duplicateFrame,
   duplicateFrameSchema,
+  adaptAd,
+  adaptAdSchema,
+  buildVariantMatrix,
+  buildVariantMatrixSchema,
+  lintFrame,
+  lintFrameSchema,
+  checkContrast,
+  checkContrastSchema,
   exportAd,
   exportAdSchema,
   readBrandData,
   readBrandDataSchema,
+  getBrandTokens,
+  getBrandTokensSchema,
   browseAdLibrary,
   browseAdLibrarySchema,
+  checkVariety,
+  checkVarietySchema,
   completeConcept,
   completeConceptSchema,
   logLearning,
@@ -65,6 +77,14 @@ import {
   removeBackgroundSchema,
   estimateCost,
   estimateCostSchema,
+  browseAssets,
+  browseAssetsSchema,
+  reuseAsset,
+  reuseAssetSchema,
+  startGeneration,
+  startGenerationSchema,
+  checkGenerations,
+  checkGenerationsSchema,
   batchUpdate,
   batchUpdateSchema,
   saveCheckpoint,
@@ -73,6 +93,10 @@ import {
   restoreCheckpointSchema,
   listCheckpoints,
   listCheckpointsSchema,
+  pruneCheckpoints,
+  pruneCheckpointsSchema,
+  diffCheckpoints,
+  diffCheckpointsSchema,
   batchPipeline,
   batchPipelineSchema,
   batchOperations,
@@ -86,6 +110,11 @@ import {
 } from './tools/index.js';
 import { buildHooks } from './hooks/index.js';
 import { getSessionState, addSessionCost } from './session-state.js';
+import { formatRecentConcepts } from './data/angle-index.js';
+import { formatVarietyHistory, getVarietyHistory } from './tools/check-variety.js';
+import { recordAgentNote } from './concept-tracker.js';
+import { buildBudgetExceeded, buildCostUpdate, checkBudget, formatBudgetStatus, getBudgetStatus, holdQueryInference, releaseQueryInference } from './budget.js';
+import { formatGenerationJob, getGenerationJobs, getPendingGenerationCost, takeFinishedGenerations } from './generation-jobs.js';
 
 // Tool handler result type (SDK MCP CallToolResult shape)
 type ToolResult = {
@@ -121,12 +150,13 @@ export async function setupAgent(config: AgentConfig): Promise<void> {
   // Schemas are z.object() — we pass .shape to get raw ZodRawShape
   const buildAdSkeletonTool = tool(
     'build_ad_skeleton',
-    `Create the root frame for a new ad. ALWAYS start here — this sets up dimensions, auto-layout, padding, and safe zones correctly. Formats: story (1080x1920, 9:16), feed (1080x1080, 1:1), or custom. Returns the frame ID you'll use for all subsequent tools.
+    `Create the root frame for a new ad. ALWAYS start here — this sets up dimensions, auto-layout, padding, and safe zones correctly. Formats: story (1080x1920, 9:16), feed (1080x1080, 1:1), or custom. Pass platform (meta-feed, meta-stories, meta-reels, tiktok, google-display, linkedin, pinterest) to use that platform's size and pad each side clear of its UI overlay zones. Returns the frame ID you'll use for all subsequent tools.
 
 Examples:
 - Story ad with dark bg: { format: "story", backgroundColor: "#0a0a0a", name: "Sintra — Time Theft — C1" }
 - Feed ad, custom padding: { format: "feed", backgroundColor: "#1a1a2e", padding: 64 }
-- Custom dimensions: { format: "custom", width: 1200, height: 628, name: "Facebook Ad" }`,
+- Custom dimensions: { format: "custom", width: 1200, height: 628, name: "Facebook Ad" }
+- TikTok-safe story: { format: "story", platform: "tiktok", backgroundColor: "#0a0a0a" }`,
     buildAdSkeletonSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await buildAdSkeleton(input as any, bridge);
@@ -140,11 +170,14 @@ Examples:
 
 Use insertIndex to control z-order (layer order). 0 = behind all siblings, higher = in front. Without it, text is added on top of all existing children. Use fontStyle for non-standard weight names (e.g., "Ultralight", "Italic").
 
+Mixed styling inside one node: **bold**, ==highlight== (highlightColor, default brand.accent), __underline__, ~~strike~~, or [text]{#FF5500 64px 700} for color/size/weight. Or pass runs: [{ text, fontWeight?, fontColor?, fontSize?, underline?, strikethrough? }] instead of text.
+
 Examples:
 - Fine print: { parentId: "1:23", text: "*Results may vary", fontSize: 24, fontColor: "#666666" }
 - Brand label: { parentId: "1:23", text: "SINTRA", fontSize: 32, fontWeight: 500, fontColor: "#FFFFFF" }
 - Non-standard font style: { parentId: "1:23", text: "Elegant", fontFamily: "PP Editorial Old", fontStyle: "Ultralight" }
-- Text behind product (z-order): { parentId: "1:23", text: "700", fontSize: 400, fontColor: "#FFFFFF", insertIndex: 0 }`,
+- Text behind product (z-order): { parentId: "1:23", text: "700", fontSize: 400, fontColor: "#FFFFFF", insertIndex: 0 }
+- Price with struck-out original: { parentId: "1:23", runs: [{ text: "$49 ", fontWeight: 700 }, { text: "$89", strikethrough: true, fontColor: "#888888" }], fontSize: 48 }`,
     addTextSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await addText(input as any, bridge);
@@ -199,14 +232,16 @@ Examples:
 
   const applyTypographyTool = tool(
     'apply_typography',
-    `Add a multi-element text composition. Use for headline + subhead + body layouts. Each element has a semantic role with smart defaults (headline=120px, subhead=48px, body=40px). Automatically handles tight line-height on multi-line headlines via split-and-stack. Prefer this over add_text for any layout with 2+ text elements. Use clearExisting=true to wipe all children before rebuilding.
+    `Add a multi-element text composition. Use for headline + subhead + body layouts. Each element has a semantic role with smart defaults (headline=120px, subhead=48px, body=40px). Automatically handles tight line-height on multi-line headlines via split-and-stack. Prefer this over add_text for any layout with 2+ text elements. Use clearExisting=true to wipe all children before rebuilding. Add fit to an element to stop guessing sizes: the text is measured and set at the largest size within the role's bounds (headline 72-200px, subhead 40-72px, body 40-56px) that fits the box — the frame's inner width by default, fill: true for the height still free — and the result reports the chosen size and line breaks. balance: true evens out the line lengths. Element text takes inline spans for mixed weights and colors in one line — **bold**, ==highlight==, __underline__, ~~strike~~, [text]{brand.accent 700} — or runs: [{ text, ... }]; split-stack lines keep their spans.
 
 Examples:
 - Headline + body: { frameId: "1:23", elements: [{ role: "headline", text: "Finally." }, { role: "body", text: "The brush that changes everything" }] }
 - Multi-line headline (split-and-stack): { frameId: "1:23", elements: [{ role: "headline", text: "Your morning\\nroutine is broken" }] }
 - Full composition: { frameId: "1:23", elements: [{ role: "headline", text: "2 minutes.", fontSize: 200, fontColor: "#FFFFFF" }, { role: "subhead", text: "That's all it takes to feel human again", fontColor: "#CCCCCC" }, { role: "fine_print", text: "*Based on clinical studies", fontColor: "#666666" }], spacing: 40 }
 - Custom font with style override: { frameId: "1:23", elements: [{ role: "headline", text: "Bold move.", fontFamily: "PP Editorial Old", fontStyle: "Ultralight" }] }
-- Rebuild text from scratch: { frameId: "1:23", clearExisting: true, elements: [{ role: "headline", text: "New headline" }] }`,
+- Rebuild text from scratch: { frameId: "1:23", clearExisting: true, elements: [{ role: "headline", text: "New headline" }] }
+- Emphasis in a headline: { frameId: "1:23", elements: [{ role: "headline", text: "Your mouth has **no data**" }, { role: "subhead", text: "Track ==every bite== automatically", highlightColor: "brand.accent" }] }
+- Fitted headline with balanced lines: { frameId: "1:23", elements: [{ role: "headline", text: "Your whole marketing team in one app", fit: { balance: true, maxHeight: 500 } }, { role: "subhead", text: "Ten AI helpers", fit: { fill: true } }] }`,
     applyTypographySchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await applyTypography(input as any, bridge);
@@ -343,13 +378,72 @@ Examples:
     }
   );
 
+  const adaptAdTool = tool(
+    'adapt_ad',
+    `Reflow a finished ad into other placements: 4:5 (1080x1350), 1:1 (1080x1080), 1.91:1 (1200x628), 16:9 (1920x1080) or 9:16 (1080x1920). Creates one sibling frame per format to the right of the source and re-lays out typography, product (same place_product preset — landscape formats move the product into a side column) and backgrounds, respecting each format's safe zones. Returns the new frame IDs and, per frame, any elements that didn't fit — screenshot and fix those before exporting.
+
+Examples:
+- All feed placements from a story: { frameId: "1:23" }
+- Just square and landscape: { frameId: "1:23", formats: ["1:1", "1.91:1"] }
+- Story from a square ad: { frameId: "1:23", formats: ["9:16"], gap: 200 }`,
+    adaptAdSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await adaptAd(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const buildVariantMatrixTool = tool(
+    'build_variant_matrix',
+    `Build an A/B test grid from a finished ad: one duplicate of the base frame per combination of the axes, laid out in a grid to its right (last axis across the columns, the others down the rows) and named systematically ("Base — T2 · B3"). Axes: text (a text node → list of copies), background (list of hex colors or brand tokens on the frame, or on a background layer via nodeId), image (a node such as the Product frame → list of image paths). Up to 3 axes and 36 frames. Returns a manifest of frame IDs and the values in each, also saved to the session's matrices folder. Use instead of duplicate_frame + update_node per variant.
+
+Examples:
+- 5 headlines × 3 backgrounds: { frameId: "1:23", axes: [{ kind: "text", nodeId: "1:25", name: "H", values: ["Stop guessing", "Ship faster", "Meet Buddy", "Your AI team", "Hire Buddy"] }, { kind: "background", values: ["#0F172A", "brand.primary", "#F5E6D3"] }] }
+- Product shots × CTAs: { frameId: "1:23", axes: [{ kind: "image", nodeId: "1:30", values: ["/path/v1.png", "/path/v2.png"] }, { kind: "text", nodeId: "1:28", name: "CTA", values: ["Try free", "Get started"] }] }`,
+    buildVariantMatrixSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await buildVariantMatrix(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const lintFrameTool = tool(
+    'lint_frame',
+    `Deterministic design lint for a frame: text below the type minimums (32px for any copy, 40px for layers named as headline/subhead/body/CTA, 24px for layers named as fine print or disclaimer), text or product inside the 250px story safe zones, auto-layout spacing/padding off the 8px grid, text/background contrast below 4.5:1, text cut off by the frame edge, and overlapping text nodes. Returns errors (hard failures — export_ad is blocked until they're fixed) and warnings. Run after a draft and before export.
+
+Examples:
+- Lint a story ad: { frameId: "1:23" }`,
+    lintFrameSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await lintFrame(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const checkContrastTool = tool(
+    'check_contrast',
+    `Measure WCAG contrast of every text node against its actual rendered background. Exports the frame with text hidden and samples the pixels under each text box, so it handles photos, gradients and overlays. Returns per-node ratio (worst 10% of the background), median, worst background color, WCAG level and pass/fail against the node's AA threshold — 4.5:1, or 3:1 for large text (24px+, or 18.66px+ bold). Use whenever text sits over a product photo or gradient.
+
+Examples:
+- Whole frame: { frameId: "1:23" }
+- Just the headline lines: { frameId: "1:23", nodeIds: ["1:25", "1:26"] }`,
+    checkContrastSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await checkContrast(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
   const exportAdTool = tool(
     'export_ad',
-    `Export a completed ad frame as a high-res PNG file to disk. Use at the end of the workflow when the ad is finalized and reviewed. Default scale is 2x for production quality. Returns the file path.
+    `Export finished ad frames to disk. Use at the end of the workflow when the ads are finalized and reviewed. Formats: png (default), jpg/webp (with maxKB, quality is tuned down until each file fits the platform cap), svg, and pdf (one contact sheet of all frames). Several frames export in one call with names from a pattern (default "{brand}_{angle}_{format}_{size}"); an export-manifest.json sidecar records dimensions, checksums and concept metadata. Default scale is 2x. With platforms, each frame is validated against that platform's spec (aspect ratio, its own safe zones, text coverage, file-size cap), rendered at every platform size it fits, and zipped into one bundle per platform with a manifest.json; frames that fail are reported and left out. Blocked while lint_frame reports errors on any of the frames.
 
 Examples:
-- Standard export: { frameId: "1:23", outputPath: "/Users/me/Desktop/sintra-ad-01.png" }
-- 3x for retina: { frameId: "1:23", outputPath: "/Users/me/exports/ad.png", scale: 3 }`,
+- Single PNG: { frameId: "1:23", outputPath: "/Users/me/Desktop/sintra-ad-01.png" }
+- 3x for retina: { frameId: "1:23", outputPath: "/Users/me/exports/ad.png", scale: 3 }
+- All placements under a 500 KB cap: { frameIds: ["1:23", "1:80", "1:95"], formats: ["jpg", "webp"], maxKB: 500, outputDir: "/Users/me/exports/sintra" }
+- Review pack: { frameIds: ["1:23", "1:80"], formats: ["png", "pdf"] }
+- Platform bundles: { frameIds: ["1:23", "1:80", "1:95"], platforms: ["meta-stories", "tiktok", "meta-feed", "linkedin"] }`,
     exportAdSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await exportAd(input as any, bridge);
@@ -375,6 +469,20 @@ Examples:
     }
   );
 
+  const getBrandTokensTool = tool(
+    'get_brand_tokens',
+    `Load the brand's design tokens from brand/tokens.json: palette, fonts, per-role typography defaults, corner radii, logo paths. Call once per session after read_brand_data. Then pass token references instead of hex values — colors as "brand.primary" (or "brand.primary/40" for 40% opacity), fonts as "brand.heading". apply_typography already uses the brand's role fonts and colors when you leave them unset. Literal colors that aren't in the palette come back as PALETTE WARNINGS.
+
+Examples:
+- Active session brand: {}
+- Specific brand: { brand: "feno" }`,
+    getBrandTokensSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await getBrandTokens(input as any);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
   const browseAdLibraryTool = tool(
     'browse_ad_library',
     `Browse the ad library for visual references. Returns thumbnail images with metadata. Use during ideation to find references matching your chosen format category. Map format categories to library categories: Editorial→"Strong Copy","Simple Layout"; Comparison→"Comparison","Before & After"; Social Proof→"Social Proof","Testimonial"; Borrowed Interface→"IG Story","iPhone Notes","Texting"; etc.
@@ -389,6 +497,20 @@ Examples:
     }
   );
 
+  const checkVarietyTool = tool(
+    'check_variety',
+    `Score a planned concept against the brand's concept history and this session's finished concepts BEFORE building it. Flags a third ad in a row in the same format category, re-used angles, and product position/shot or background treatments that match specific prior ads. Returns a 0-100 score, pass/fail, each conflict with the prior ads it matches, and unused format categories to switch to.
+
+Examples:
+- Full plan: { angle: "Parents have no time for themselves", formatCategory: "Borrowed Interface", productPosition: "center-bottom", productShot: "hand-held", background: "dark gradient" }
+- Other brand: { brand: "feno", angle: "You track everything except your mouth", formatCategory: "Editorial" }`,
+    checkVarietySchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await checkVariety(input as any);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
   const completeConceptTool = tool(
     'complete_concept',
     `Log a completed ad concept to the brand's concepts-log and angle index. Call this AFTER an ad is finalized — records L1 angle, L2 format category, L3 execution details for variety tracking. The concepts-log prevents repeating the same format/angle combinations.
@@ -417,16 +539,17 @@ Examples:
     }
   );
 
-  // --- Phase 3b: Asset Generation Tools (no Bridge needed — fal.ai + filesystem) ---
+  // --- Phase 3b: Asset Generation Tools (no Bridge needed — image providers + filesystem) ---
 
   const generateProductPhotoTool = tool(
     'generate_product_photo',
-    `Generate a product photo using reference images via fal.ai. Takes 5-15 seconds. Returns a local file path — then use place_product to put it on the canvas. Supports up to 12 reference images for better fidelity. Use removeBg: true to get a cutout-ready image.
+    `Generate a product photo using reference images via the configured image provider (fal.ai by default). Takes 5-15 seconds. Returns a local file path — then use place_product to put it on the canvas. Supports up to 12 reference images for better fidelity. Use removeBg: true to get a cutout-ready image (removeBgMethod: "auto" cuts plain backdrops out locally for free). An identical request (same prompt, references, aspect ratio, resolution) returns the cached image for $0 — pass fresh: true when you want a new take.
 
 Examples:
 - Simple: { prompt: "Product held in hand against warm sunlight", referenceImages: ["/path/to/product.png"] }
 - Multiple refs + bg removal: { prompt: "Product on marble surface, editorial style", referenceImages: ["/path/front.png", "/path/side.png"], removeBg: true }
-- Square format: { prompt: "Flat lay with product centered", referenceImages: ["/path/product.png"], aspectRatio: "1:1" }`,
+- Square format: { prompt: "Flat lay with product centered", referenceImages: ["/path/product.png"], aspectRatio: "1:1" }
+- Another take of the same request: { prompt: "Product held in hand against warm sunlight", referenceImages: ["/path/to/product.png"], fresh: true }`,
     generateProductPhotoSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await generateProductPhoto(input as any);
@@ -436,7 +559,7 @@ Examples:
 
   const generateAssetTool = tool(
     'generate_asset',
-    `Generate a non-product asset: backgrounds, UI elements, props, textures, or people. Cheaper and faster than product photos (1K default). Returns a file path — use place_product or set_background to add it to the canvas. The type parameter affects prompt engineering for better results.
+    `Generate a non-product asset: backgrounds, UI elements, props, textures, or people. Cheaper and faster than product photos (1K default). Returns a file path — use place_product or set_background to add it to the canvas. The type parameter affects prompt engineering for better results. An identical request (same prompt, type, size, seed) returns the cached image for $0 — pass fresh: true for a new take.
 
 Examples:
 - iOS keyboard: { prompt: "iOS keyboard, light mode, QWERTY layout", type: "ui_element", aspectRatio: "16:9" }
@@ -452,10 +575,12 @@ Examples:
 
   const removeBackgroundTool = tool(
     'remove_background',
-    `Remove the background from an existing image using AI. Saves the result as a new file with _nobg suffix in the same directory. Use when you have an existing image that needs its background removed.
+    `Remove the background from an existing image. Saves the result as a PNG with _nobg suffix in the same directory. method: "provider" (AI model, paid), "local" (free flat-background cutout for plain white or solid backdrops), or "auto" (local when the backdrop is flat, else the provider).
 
 Examples:
-- Remove bg: { imagePath: "/path/to/image.png" }`,
+- Remove bg: { imagePath: "/path/to/image.png" }
+- White studio shot, free: { imagePath: "/path/to/packshot.jpg", method: "local" }
+- Let it decide: { imagePath: "/path/to/image.png", method: "auto" }`,
     removeBackgroundSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await removeBackground(input as any);
@@ -465,7 +590,7 @@ Examples:
 
   const estimateCostTool = tool(
     'estimate_cost',
-    `Estimate the fal.ai generation cost before building a concept. Call during ideation to present a cost breakdown to the user. Wait for confirmation before proceeding with expensive operations.
+    `Estimate the image generation cost before building a concept, priced from the configured providers' cost tables. Call during ideation to present a cost breakdown to the user. Wait for confirmation before proceeding with expensive operations. Also returns the remaining budget — generation tools are blocked once the session, concept or brand cap is reached.
 
 Examples:
 - Typical concept: { numProductPhotos: 1, numAssets: 2 }
@@ -478,6 +603,63 @@ Examples:
     }
   );
 
+  const browseAssetsTool = tool(
+    'browse_assets',
+    `Browse images generated in earlier sessions (and this one) — product photos, assets, cutouts — with thumbnails, prompt, size, cost and brand/product. Check here BEFORE generating: a product photo from last week on the right backdrop is free to reuse. Filter by prompt words, type, product, or rank by visual similarity to an asset or image (perceptual hash). Defaults to the session brand.
+
+Examples:
+- Past product photos: { type: "product_photo", excludeCurrentSession: true }
+- By prompt: { query: "marble bathroom counter", count: 4 }
+- Transparent props: { type: "asset", kind: "prop" }
+- Near-duplicates of an asset: { similarTo: "3f9a0c12be" }`,
+    browseAssetsSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      return await browseAssets(input as any);
+    }
+  );
+
+  const reuseAssetTool = tool(
+    'reuse_asset',
+    `Reuse an asset found with browse_assets in this session instead of regenerating it. Free — returns the image's local path, size and original prompt, and records it in this session's asset manifest. Then use place_product or set_background as with a freshly generated image.
+
+Examples:
+- Reuse by ID: { assetId: "3f9a0c12be" }`,
+    reuseAssetSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await reuseAsset(input as any);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const startGenerationTool = tool(
+    'start_generation',
+    `Start generate_product_photo, generate_asset or remove_background in the BACKGROUND and get a job ID immediately — keep building (skeleton, typography, shapes) while images render. Use variants: 2-4 for several distinct takes of one prompt in parallel, then pick the best. params takes the same fields as the tool itself. You're told when a job finishes (after your next tool call, or at the start of your next turn); call check_generations to see results or wait for them.
+
+Examples:
+- Product photo, 3 takes: { tool: "generate_product_photo", params: { prompt: "Product on marble counter, morning light", referenceImages: ["/path/product.png"], removeBg: true }, variants: 3 }
+- Background while you build: { tool: "generate_asset", params: { prompt: "soft navy to amber gradient", type: "background" }, label: "hero background" }
+- Cutout: { tool: "remove_background", params: { imagePath: "/path/photo.png", method: "auto" } }`,
+    startGenerationSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await startGeneration(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const checkGenerationsTool = tool(
+    'check_generations',
+    `Check background generation jobs from start_generation: status, and for finished jobs each variant's image path, size and cost (or error). waitSeconds blocks until the jobs finish (up to 60s) — use it when you've built everything else and need the images.
+
+Examples:
+- All jobs this session: {}
+- Wait for specific jobs: { jobIds: ["gen_1", "gen_2"], waitSeconds: 30 }`,
+    checkGenerationsSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await checkGenerations(input as any);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
   // --- Phase 4: Batch Operations + Checkpoints ---
 
   const batchUpdateTool = tool(
@@ -497,7 +679,7 @@ Examples:
 
   const saveCheckpointTool = tool(
     'save_checkpoint',
-    `Save the current state of a frame for potential rollback. Use before risky iterations — if the changes make things worse, you can restore to this point. Checkpoints are stored in memory by label.
+    `Save the current state of a frame for potential rollback. Use before risky iterations — if the changes make things worse, you can restore to this point. Checkpoints are scoped per frame (the same label can exist on several frames) and persisted to disk, so they survive backend restarts.
 
 Examples:
 - Before iteration: { frameId: "1:23", label: "pre-iteration" }
@@ -512,11 +694,12 @@ Examples:
 
   const restoreCheckpointTool = tool(
     'restore_checkpoint',
-    `Restore a frame to a previously saved checkpoint. Completely replaces the frame's children with the saved state. Use when iteration made things worse and you want to go back. The label must match a previously saved checkpoint.
+    `Restore a frame to a previously saved checkpoint. Completely replaces the frame's children with the saved state. Use when iteration made things worse and you want to go back. The label must match a previously saved checkpoint. Pass frameId when the same label was saved on more than one frame.
 
 Examples:
 - Rollback: { label: "pre-iteration" }
-- Go back to first draft: { label: "first-draft" }`,
+- Go back to first draft: { label: "first-draft" }
+- Specific frame: { label: "pre-iteration", frameId: "1:23" }`,
     restoreCheckpointSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await restoreCheckpoint(input as any, bridge);
@@ -526,10 +709,11 @@ Examples:
 
   const listCheckpointsTool = tool(
     'list_checkpoints',
-    `List all saved checkpoints and their labels. Use to see what rollback points are available.
+    `List saved checkpoints and their labels, optionally for one frame. Use to see what rollback points are available.
 
 Examples:
-- List all: {}`,
+- List all: {}
+- One frame: { frameId: "1:23" }`,
     listCheckpointsSchema.shape,
     async (_input, _extra): Promise<ToolResult> => {
       const result = await listCheckpoints(_input as any);
@@ -537,6 +721,37 @@ Examples:
     }
   );
 
+  const pruneCheckpointsTool = tool(
+    'prune_checkpoints',
+    `Delete checkpoints for a frame. Either delete specific labels, or keep only the N most recent — both together keep the N most recent of the given labels. Use to tidy up after a frame is finalized or when many iteration checkpoints have piled up.
+
+Examples:
+- Drop all for a frame: { frameId: "1:23" }
+- Keep the last 3: { frameId: "1:23", keepLatest: 3 }
+- Drop specific ones: { frameId: "1:23", labels: ["after-typography", "first-draft"] }
+- Of these labels, keep the newest: { frameId: "1:23", labels: ["try-1", "try-2", "try-3"], keepLatest: 1 }`,
+    pruneCheckpointsSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await pruneCheckpoints(input as any);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
+  const diffCheckpointsTool = tool(
+    'diff_checkpoints',
+    `Report what changed between two checkpoints of a frame, or between a checkpoint and the live frame. Lists added, removed and moved nodes plus property-level changes (fills, fontSize, characters, position, auto-layout). Use after an iteration round to see exactly what the changes did, or before restore_checkpoint to know what will be undone.
+
+Examples:
+- What changed since the checkpoint: { from: "pre-iteration" }
+- Compare two checkpoints: { from: "first-draft", to: "after-typography" }
+- Specific frame: { from: "pre-iteration", frameId: "1:23" }`,
+    diffCheckpointsSchema.shape,
+    async (input, _extra): Promise<ToolResult> => {
+      const result = await diffCheckpoints(input as any, bridge);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+    }
+  );
+
   // --- Phase 5a: Batch Pipeline + Operations + Templates ---
 
   const batchPipelineTool = tool(
@@ -585,9 +800,12 @@ Examples:
     'save_template',
     `Save a completed ad frame as a reusable template. Stores the full node tree + thumbnail. Use after completing a concept to build a template library. Browse saved templates with browse_templates and apply them as starting points with apply_template.
 
+Slots: name nodes {{headline}}, {{product}}, {{bg}} etc. before saving (or pass slots) so apply_template can fill them in one call. Slot kind defaults to text for TEXT nodes, image for nodes with an image fill, color otherwise.
+
 Examples:
 - Save with metadata: { frameId: "1:23", name: "Dark Story — Borrowed Interface", formatCategory: "Borrowed Interface", brand: "sintra", tags: ["dark", "story", "IG"], description: "IG story chrome overlay with product reveal" }
-- Simple save: { frameId: "1:23", name: "Feed — Editorial Bold" }`,
+- Simple save: { frameId: "1:23", name: "Feed — Editorial Bold" }
+- Frame background as a slot: { frameId: "1:23", name: "Feed — Editorial Bold", slots: [{ name: "bg", nodeId: "1:23", kind: "color" }] }`,
     saveTemplateSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await saveTemplate(input as any, bridge);
@@ -597,26 +815,31 @@ Examples:
 
   const browseTemplatesTool = tool(
     'browse_templates',
-    `Browse saved templates with optional filtering. Returns thumbnail images for visual browsing. Use during ideation to find a template that matches the target format, or when a user asks to reuse a past layout.
+    `Browse saved templates with optional filtering. Returns thumbnail images for visual browsing. Use during ideation to find a template that matches the target format, or when a user asks to reuse a past layout. Newest first by default; sort: "usage" puts the most applied first. similarTo ranks by layout and palette similarity to a template, a canvas frame or a screenshot.
 
 Examples:
 - Browse all: {}
 - Filter by format: { formatCategory: "Borrowed Interface" }
 - Search by name/tags: { query: "dark story" }
-- Filter by brand: { brand: "sintra", limit: 5 }`,
+- Filter by brand: { brand: "sintra", limit: 5 }
+- Stories, most used first: { aspectRatio: "9:16", sort: "usage" }
+- Templates like a frame: { similarTo: "1:23", limit: 5 }
+- Templates like a screenshot: { similarTo: "/abs/path/reference.png" }`,
     browseTemplatesSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
-      return await browseTemplates(input as any);
+      return await browseTemplates(input as any, bridge);
     }
   );
 
   const applyTemplateTool = tool(
     'apply_template',
-    `Apply a saved template as a starting point for a new concept. Creates a new frame with the template's full node tree. Then modify the applied frame to fit the new concept — change text, swap product images, adjust colors.
+    `Apply a saved template as a starting point for a new concept. Creates a new frame with the template's full node tree and fills its slots (see browse_templates) — copy, product images and colors (hex or brand tokens) — in the same call. Returns slotNodeIds (slot → node ID in the new frame) for follow-up edits.
 
 Examples:
 - Apply at origin: { templateId: "abc-123" }
-- Apply with offset and new name: { templateId: "abc-123", x: 1200, y: 0, name: "Sintra — New Concept — C3" }`,
+- Apply with offset and new name: { templateId: "abc-123", x: 1200, y: 0, name: "Sintra — New Concept — C3" }
+- Fill slots: { templateId: "abc-123", slots: { headline: "Your gums are talking", product: "/abs/path/product.png", bg: "brand.primary" } }
+- Copy and color together: { templateId: "abc-123", slots: { headline: { text: "Ship faster", color: "brand.accent" } } }`,
     applyTemplateSchema.shape,
     async (input, _extra): Promise<ToolResult> => {
       const result = await applyTemplate(input as any, bridge);
@@ -624,7 +847,7 @@ Examples:
     }
   );
 
-  // Create MCP server with all 32 custom tools
+  // Create MCP server with all 44 custom tools
   const mcpServer = createSdkMcpServer({
     name: 'figma-design',
     version: '0.6.0',
@@ -643,19 +866,31 @@ Examples:
       reorderChildrenTool,
       createShapeTool,
       duplicateFrameTool,
+      adaptAdTool,
+      buildVariantMatrixTool,
+      lintFrameTool,
+      checkContrastTool,
       exportAdTool,
       readBrandDataTool,
+      getBrandTokensTool,
       browseAdLibraryTool,
+      checkVarietyTool,
       completeConceptTool,
       logLearningTool,
       generateProductPhotoTool,
       generateAssetTool,
       removeBackgroundTool,
       estimateCostTool,
+      browseAssetsTool,
+      reuseAssetTool,
+      startGenerationTool,
+      checkGenerationsTool,
       batchUpdateTool,
       saveCheckpointTool,
       restoreCheckpointTool,
       listCheckpointsTool,
+      pruneCheckpointsTool,
+      diffCheckpointsTool,
       batchPipelineTool,
       batchOperationsTool,
       saveTemplateTool,
@@ -664,7 +899,7 @@ Examples:
     ],
   });
 
-  console.log('[Agent] MCP server created with 32 tools');
+  console.log('[Agent] MCP server created with 44 tools');
 
   // Register user message handler
   // Uses session persistence for conversation history
@@ -692,6 +927,19 @@ Examples:
         message: 'Processing your request...',
       });
 
+      // Hard spending caps: don't start a query with no budget left
+      const budget = checkBudget();
+      if (!budget.allowed && budget.blocking) {
+        console.warn(`[Agent] ${budget.blocking.scope} budget reached — query not started`);
+        bridge.sendUIUpdate(buildBudgetExceeded(budget.blocking));
+        bridge.sendUIUpdate({
+          type: 'status',
+          phase: 'idle',
+          message: 'Budget reached — raise it to continue',
+        });
+        return;
+      }
+
       // Build dynamic system prompt with brand context
       const session = getSessionState();
       let dynamicPrompt = systemPrompt;
@@ -700,20 +948,55 @@ Examples:
       }
 
       // Add previous concept summaries (concept boundary pruning)
-      if (session && session.conceptSummaries && session.conceptSummaries.length > 0) {
+      // Entries with neither an angle nor an execution are blank boundaries from older sessions
+      const previousConcepts = session?.conceptSummaries?.filter(cs => cs.angle || cs.execution) ?? [];
+      if (session && previousConcepts.length > 0) {
         dynamicPrompt += '\n\n## Previous Concepts This Session\n';
-        for (const cs of session.conceptSummaries) {
-          dynamicPrompt += `- **${cs.formatCategory}**: "${cs.angle}" — ${cs.execution}`;
+        for (const cs of previousConcepts) {
+          dynamicPrompt += cs.angle
+            ? `- **${cs.formatCategory}**: "${cs.angle}" — ${cs.execution}`
+            : `- **Unlogged concept** — ${cs.execution}`;
           if (cs.frameId) dynamicPrompt += ` (frame: ${cs.frameId})`;
+          if (cs.productPosition || cs.productShot) {
+            dynamicPrompt += ` [product: ${[cs.productPosition, cs.productShot].filter(Boolean).join(', ')}]`;
+          }
+          if (cs.keyDecisions.length > 0) dynamicPrompt += `\n  Decisions: ${cs.keyDecisions.slice(0, 4).join('; ')}`;
+          if (cs.issues.length > 0) dynamicPrompt += `\n  Issues: ${cs.issues.slice(0, 3).join('; ')}`;
           dynamicPrompt += '\n';
         }
         dynamicPrompt += '\nAvoid repeating the same format category, visual treatment, or product position as previous concepts.';
       }
 
+      // Brand concept history from the angle index (variety across sessions)
+      let conceptHistory = '';
+      let varietyHistory = '';
+      if (session) {
+        try {
+          conceptHistory = formatRecentConcepts(session.brand);
+          varietyHistory = formatVarietyHistory(getVarietyHistory(session.brand, session.conceptSummaries));
+        } catch (error) {
+          console.warn('[Agent] Could not read angle index:', error);
+        }
+      }
+      if (conceptHistory) {
+        dynamicPrompt += `\n\n## Recent ${session!.brand} Ads (newest first)\n${conceptHistory}\n\nPick a format category that isn't in the last 2-3 ads.`;
+      }
+
       // Add session cost
       if (session && session.totalCost > 0) {
         dynamicPrompt += `\n\nSession cost so far: $${session.totalCost.toFixed(2)}`;
       }
+      if (budget.status) {
+        dynamicPrompt += `\nBudget (hard caps — generation tools are blocked once one is reached): ${formatBudgetStatus(budget.status)}`;
+      }
+
+      // Background generation jobs: results that arrived after the last turn, and jobs still running
+      const finishedJobs = takeFinishedGenerations();
+      const runningJobs = getGenerationJobs().filter(j => j.status === 'queued' || j.status === 'running');
+      if (finishedJobs.length > 0 || runningJobs.length > 0) {
+        dynamicPrompt += '\n\n## Background Generations\n';
+        dynamicPrompt += [...finishedJobs, ...runningJobs].map(j => `- ${formatGenerationJob(j)}`).join('\n');
+      }
 
       // Build query options
       const options: any = {
@@ -741,20 +1024,32 @@ Examples:
           'mcp__figma-design__reorder_children',
           'mcp__figma-design__create_shape',
           'mcp__figma-design__duplicate_frame',
+          'mcp__figma-design__adapt_ad',
+          'mcp__figma-design__build_variant_matrix',
+          'mcp__figma-design__lint_frame',
+          'mcp__figma-design__check_contrast',
           'mcp__figma-design__export_ad',
           'mcp__figma-design__read_brand_data',
+          'mcp__figma-design__get_brand_tokens',
           'mcp__figma-design__browse_ad_library',
+          'mcp__figma-design__check_variety',
           'mcp__figma-design__complete_concept',
           'mcp__figma-design__log_learning',
           'mcp__figma-design__generate_product_photo',
           'mcp__figma-design__generate_asset',
           'mcp__figma-design__remove_background',
           'mcp__figma-design__estimate_cost',
+          'mcp__figma-design__browse_assets',
+          'mcp__figma-design__reuse_asset',
+          'mcp__figma-design__start_generation',
+          'mcp__figma-design__check_generations',
           // Phase 4 tools
           'mcp__figma-design__batch_update',
           'mcp__figma-design__save_checkpoint',
           'mcp__figma-design__restore_checkpoint',
           'mcp__figma-design__list_checkpoints',
+          'mcp__figma-design__prune_checkpoints',
+          'mcp__figma-design__diff_checkpoints',
           // Phase 5a tools
           'mcp__figma-design__batch_pipeline',
           'mcp__figma-design__batch_operations',
@@ -773,19 +1068,28 @@ Examples:
           } as AgentDefinition,
           'contextual-critic': {
             description: 'Concept-aware creative director. Give it a screenshot file path AND the concept brief (angle, format category, execution plan, previous ads). Returns PASS/FAIL with concept alignment score and variety audit.',
-            prompt: contextualCriticPrompt,
+            prompt: varietyHistory
+              ? `${contextualCriticPrompt}\n\n## Brand History (newest first)\n\nThe brand's recent ads, this session's included. Use them for the variety audit — they're authoritative even if the brief leaves some out:\n${varietyHistory}`
+              : contextualCriticPrompt,
             tools: ['Read'],
             model: 'sonnet',
             maxTurns: 3,
           } as AgentDefinition,
         },
-        hooks: buildHooks(),
+        hooks: buildHooks(bridge),
         permissionMode: 'bypassPermissions',
         allowDangerouslySkipPermissions: true,
         maxTurns: 50,
         persistSession: true,
       };
 
+      // Inference stops at its share of the headroom; the share stays held until the
+      // result is billed, so the PreToolUse gate keeps fal.ai spend to the rest
+      const inferenceCap = holdQueryInference(getPendingGenerationCost());
+      if (inferenceCap !== null) {
+        options.maxBudgetUsd = inferenceCap;
+      }
+
       // Resume existing session if available
       if (currentSessionId) {
         options.resume = currentSessionId;
@@ -809,6 +1113,7 @@ Examples:
           // BetaMessage.content is an array of content blocks
           for (const block of msg.message.content) {
             if (block.type === 'text') {
+              recordAgentNote(block.text);
               bridge.sendUIUpdate({
                 type: 'agent_text',
                 content: block.text,
@@ -830,19 +1135,26 @@ Examples:
             }
           }
         } else if (msg.type === 'result') {
-          // SDKResultMessage — query completed
+          // SDKResultMessage — query completed. Failed queries cost money too.
+          if (msg.total_cost_usd !== undefined) {
+            console.log(`[Agent] Cost: $${msg.total_cost_usd.toFixed(4)}`);
+            // Accumulate cost in session state, replacing the query's inference hold
+            releaseQueryInference();
+            try { addSessionCost(msg.total_cost_usd); } catch { /* no session active */ }
+            const status = getBudgetStatus();
+            if (status) bridge.sendUIUpdate(buildCostUpdate(status));
+          }
+
           if (msg.subtype === 'success') {
             console.log('[Agent] Query completed successfully');
-            if (msg.total_cost_usd !== undefined) {
-              bridge.sendUIUpdate({
-                type: 'cost_update',
-                spent: msg.total_cost_usd,
-                budget: 10.0,
-              });
-              console.log(`[Agent] Cost: $${msg.total_cost_usd.toFixed(4)}`);
-              // Accumulate cost in session state
-              try { addSessionCost(msg.total_cost_usd); } catch { /* no session active */ }
-            }
+          } else if (msg.subtype === 'error_max_budget_usd') {
+            console.warn('[Agent] Query stopped at the budget cap');
+            const { blocking } = checkBudget();
+            if (blocking) bridge.sendUIUpdate(buildBudgetExceeded(blocking));
+            bridge.sendUIUpdate({
+              type: 'error_friendly',
+              message: 'Stopped: the budget cap was reached mid-request. Raise the budget to continue.',
+            });
           } else if (msg.subtype === 'error') {
             console.error('[Agent] Query error:', msg.error);
             bridge.sendUIUpdate({
@@ -852,6 +1164,8 @@ Examples:
           }
         }
       }
+      // A query that ended without a result never billed its inference
+      releaseQueryInference();
 
       bridge.sendUIUpdate({
         type: 'status',
@@ -861,6 +1175,7 @@ Examples:
 
       console.log('[Agent] Request completed');
     } catch (error) {
+      releaseQueryInference();
       console.error('[Agent] Error processing message:', error);
 
       // If resume fails, reset and let user retry
@@ -32,7 +32,7 @@ export interface Bridge {
     | { type: 'export_node'; nodeId: string; format: 'PNG' | 'SVG' | 'JPG'; scale: number }
     | { type: 'get_state' }
     | { type: 'serialize_frame'; frameId: string }
-    | { type: 'restore_checkpoint'; frameId: string; serialized: any }
+    | { type: 'restore_checkpoint'; frameId: string; serialized: any; images?: Record<string, string> }
     | { type: 'get_selection' }
     | { type: 'image_data'; base64: string; targetNodeId: string; scaleMode: 'FILL' | 'FIT' | 'CROP' | 'TILE' }
     | { type: 'batch_update'; updates: Array<{ nodeId: string; properties: any }> }
@@ -41,6 +41,9 @@ export interface Bridge {
         props?: Record<string, any>; fontFamily?: string; fontStyle?: string;
         base64?: string; scaleMode?: string; newParent?: string; index?: number;
       }> }
+    | { type: 'measure_text'; texts: string[]; fontFamily: string; fontStyle: string; fontSize: number }
+    | { type: 'read_images'; hashes: string[] }
+    | { type: 'find_missing_images'; hashes: string[] }
   ): Promise<any>;
 
   /**
@@ -0,0 +1,330 @@
+/**
+ * Spending budgets
+ *
+ * Hard caps on what a session, a concept and a brand (per calendar month) may spend.
+ * Spend is the session's totalCost: agent inference (SDKResultMessage.total_cost_usd)
+ * plus fal.ai generation costs, both added through addSessionCost.
+ *
+ * Limits come from the brand's {brand}/brand/budget.json, falling back to env:
+ *   BUDGET_SESSION_USD        per session (default 20)
+ *   BUDGET_CONCEPT_USD        per concept (default 10)
+ *   BUDGET_BRAND_MONTHLY_USD  per brand per calendar month, all sessions (default: none)
+ *   BUDGET_CEILING_USD        absolute session maximum (default 50)
+ *
+ * The ceiling is env-only: neither brand config nor a user approval can lift a
+ * session past it. Approved raises are in-memory — after a restart the configured
+ * limits apply again.
+ *
+ * Enforcement: the PreToolUse hook denies generation tools whose projected cost
+ * would cross a cap, and each agent query runs with maxBudgetUsd set to its share
+ * of the remaining headroom, so inference stops at the cap too. A query's inference
+ * is only billed at its final result, so its share stays held until then and the
+ * gate counts it as spent — the two can't spend the same headroom twice.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { addSessionCost, getSessionState } from './session-state.js';
+import { getBrandSpend } from './session-persistence.js';
+import { getBrandDir } from './data/concepts-log.js';
+import type { BudgetScope, UIUpdate } from '../../shared/protocol.js';
+
+export interface BudgetLimits {
+  session: number;
+  concept?: number;
+  /** Per brand per calendar month, across sessions */
+  brandMonthly?: number;
+  /** Absolute session maximum */
+  ceiling: number;
+}
+
+export interface ScopeBudget {
+  scope: BudgetScope;
+  spent: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface BudgetStatus {
+  brand: string;
+  scopes: ScopeBudget[];
+  /** Headroom of the tightest scope */
+  remaining: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Tightest scope the projected spend would exceed */
+  blocking?: ScopeBudget;
+  status: BudgetStatus | null;
+}
+
+export const brandBudgetFileSchema = z.object({
+  sessionUsd: z.number().positive().optional(),
+  conceptUsd: z.number().positive().optional(),
+  monthlyUsd: z.number().positive().optional(),
+});
+
+export type BrandBudgetFile = z.infer<typeof brandBudgetFileSchema>;
+
+const DEFAULT_SESSION_USD = 20;
+const DEFAULT_CONCEPT_USD = 10;
+const DEFAULT_CEILING_USD = 50;
+/** Share of the headroom a query may spend on inference; the rest is left for generation */
+const QUERY_INFERENCE_SHARE = 0.5;
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: 'session',
+  concept: 'concept',
+  brand: 'monthly brand',
+};
+
+interface BudgetState {
+  sessionId: string;
+  /** Session totalCost when the current concept started */
+  conceptStartCost: number;
+  /** Limits the user approved raising, by scope */
+  raised: Partial<Record<BudgetScope, number>>;
+  /** Inference cap of the running query, held until its result is billed */
+  inferenceHold: number;
+}
+
+let state: BudgetState | null = null;
+
+function envUsd(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    console.warn(`[Budget] Ignoring ${name}=${raw} — expected a positive number`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * The brand's budget.json, or null when it has none. Invalid files and brand names
+ * are reported and ignored so a typo can't remove the env limits.
+ */
+export function loadBrandBudget(brand: string): BrandBudgetFile | null {
+  let budgetPath: string;
+  try {
+    budgetPath = path.join(getBrandDir(brand), 'brand', 'budget.json');
+  } catch (error: any) {
+    console.warn(`[Budget] ${error.message}, using env limits`);
+    return null;
+  }
+  if (!fs.existsSync(budgetPath)) return null;
+  try {
+    const parsed = brandBudgetFileSchema.safeParse(JSON.parse(fs.readFileSync(budgetPath, 'utf-8')));
+    if (parsed.success) return parsed.data;
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    console.warn(`[Budget] Invalid ${budgetPath}, using env limits: ${issues}`);
+  } catch (error: any) {
+    console.warn(`[Budget] Could not read ${budgetPath}, using env limits: ${error.message}`);
+  }
+  return null;
+}
+
+/**
+ * Configured limits for a brand, before any approved raise
+ */
+export function getBudgetLimits(brand?: string): BudgetLimits {
+  const brandBudget = brand ? loadBrandBudget(brand) : null;
+  const ceiling = envUsd('BUDGET_CEILING_USD') ?? DEFAULT_CEILING_USD;
+  const session = brandBudget?.sessionUsd ?? envUsd('BUDGET_SESSION_USD') ?? DEFAULT_SESSION_USD;
+  return {
+    session: Math.min(session, ceiling),
+    concept: brandBudget?.conceptUsd ?? envUsd('BUDGET_CONCEPT_USD') ?? DEFAULT_CONCEPT_USD,
+    brandMonthly: brandBudget?.monthlyUsd ?? envUsd('BUDGET_BRAND_MONTHLY_USD'),
+    ceiling,
+  };
+}
+
+/**
+ * Budget state for the active session, started on first use
+ */
+function current(): { session: NonNullable<ReturnType<typeof getSessionState>>; budget: BudgetState } | null {
+  const session = getSessionState();
+  if (!session) return null;
+  if (!state || state.sessionId !== session.sessionId) {
+    state = { sessionId: session.sessionId, conceptStartCost: session.totalCost, raised: {}, inferenceHold: 0 };
+  }
+  return { session, budget: state };
+}
+
+function monthStart(): string {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+}
+
+function scope(scopeName: BudgetScope, spent: number, limit: number): ScopeBudget {
+  return { scope: scopeName, spent, limit, remaining: Math.max(0, limit - spent) };
+}
+
+/**
+ * Spend and limits for every capped scope. Null when no session is active.
+ */
+export function getBudgetStatus(): BudgetStatus | null {
+  const active = current();
+  if (!active) return null;
+  const { session, budget } = active;
+  const limits = getBudgetLimits(session.brand);
+
+  const scopes: ScopeBudget[] = [
+    scope('session', session.totalCost, Math.min(budget.raised.session ?? limits.session, limits.ceiling)),
+  ];
+  const conceptLimit = budget.raised.concept ?? limits.concept;
+  if (conceptLimit !== undefined) {
+    scopes.push(scope('concept', Math.max(0, session.totalCost - budget.conceptStartCost), conceptLimit));
+  }
+  const brandLimit = budget.raised.brand ?? limits.brandMonthly;
+  if (brandLimit !== undefined) {
+    scopes.push(scope('brand', getBrandSpend(session.brand, monthStart()), brandLimit));
+  }
+
+  return {
+    brand: session.brand,
+    scopes,
+    remaining: Math.min(...scopes.map(s => s.remaining)),
+  };
+}
+
+/**
+ * Can `projectedCost` more be spent without crossing a cap? Always allowed without
+ * a session — there's nothing to attribute the spend to. The running query's
+ * inference hold counts as spent.
+ */
+export function checkBudget(projectedCost = 0): BudgetCheck {
+  const status = getBudgetStatus();
+  if (!status) return { allowed: true, status };
+
+  const committed = projectedCost + (state?.inferenceHold ?? 0);
+  const blocking = status.scopes
+    .filter(s => s.spent + committed > s.limit || s.remaining <= 0)
+    .sort((a, b) => a.remaining - b.remaining)[0];
+  return { allowed: !blocking, blocking, status };
+}
+
+/**
+ * Start a query's inference hold: its share of the headroom left after
+ * `reservedGeneration` (generations already queued). Returns the query's
+ * maxBudgetUsd, or null when no session is active.
+ */
+export function holdQueryInference(reservedGeneration = 0): number | null {
+  const active = current();
+  const status = getBudgetStatus();
+  if (!active || !status) return null;
+  const hold = Math.max(0, status.remaining - reservedGeneration) * QUERY_INFERENCE_SHARE;
+  active.budget.inferenceHold = hold;
+  return hold;
+}
+
+/**
+ * The query's result arrived (or it failed) — its inference is billed, release the hold
+ */
+export function releaseQueryInference(): void {
+  if (state) state.inferenceHold = 0;
+}
+
+/**
+ * The limit to offer when a scope runs out: double it, never past the ceiling for
+ * the session. Null when the session is already at the ceiling.
+ */
+export function suggestedRaise(blocked: ScopeBudget): number | null {
+  const target = Math.max(blocked.limit * 2, blocked.spent + blocked.limit);
+  if (blocked.scope !== 'session') return Math.round(target * 100) / 100;
+
+  const ceiling = getBudgetLimits(getSessionState()?.brand).ceiling;
+  if (blocked.limit >= ceiling) return null;
+  return Math.round(Math.min(target, ceiling) * 100) / 100;
+}
+
+/**
+ * User-approved raise. Session raises are clamped to the ceiling; a raise below the
+ * current limit is ignored. Returns the scope's new budget.
+ */
+export function raiseBudget(scopeName: BudgetScope, limit: number): ScopeBudget {
+  const active = current();
+  if (!active) throw new Error('No session active. Select a brand first.');
+
+  const limits = getBudgetLimits(active.session.brand);
+  const requested = scopeName === 'session' ? Math.min(limit, limits.ceiling) : limit;
+  const existing = getBudgetStatus()?.scopes.find(s => s.scope === scopeName);
+  if (!existing || requested > existing.limit) {
+    active.budget.raised[scopeName] = requested;
+  }
+
+  const updated = getBudgetStatus()!.scopes.find(s => s.scope === scopeName)!;
+  console.log(`[Budget] ${SCOPE_LABELS[scopeName]} budget raised to $${updated.limit.toFixed(2)}`);
+  return updated;
+}
+
+/**
+ * Concept boundary: concept spend starts from zero and a concept raise expires
+ */
+export function startConceptBudget(): void {
+  const active = current();
+  if (!active) return;
+  active.budget.conceptStartCost = active.session.totalCost;
+  delete active.budget.raised.concept;
+}
+
+/**
+ * Spend that belongs to the concept before the boundary (its summary call, which
+ * finishes after startConceptBudget): billed to the session, kept out of the
+ * concept now running
+ */
+export function addPreviousConceptCost(amount: number): void {
+  addSessionCost(amount);
+  const active = current();
+  if (active) active.budget.conceptStartCost += amount;
+}
+
+/**
+ * User-facing explanation for a blocked scope
+ */
+export function describeBudgetBlock(blocked: ScopeBudget, projectedCost = 0): string {
+  const label = SCOPE_LABELS[blocked.scope];
+  const projected = projectedCost > 0 ? ` — this step would add ~$${projectedCost.toFixed(2)}` : '';
+  return `The ${label} budget is used up: $${blocked.spent.toFixed(2)} of $${blocked.limit.toFixed(2)} spent${projected}.`;
+}
+
+/**
+ * One-line budget summary for prompts and hook context
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  return status.scopes
+    .map(s => `${SCOPE_LABELS[s.scope]} $${s.spent.toFixed(2)} of $${s.limit.toFixed(2)}`)
+    .join(', ');
+}
+
+/**
+ * Plugin cost display update: session spend against its cap, plus the concept's
+ */
+export function buildCostUpdate(status: BudgetStatus): UIUpdate {
+  const session = status.scopes.find(s => s.scope === 'session')!;
+  const concept = status.scopes.find(s => s.scope === 'concept');
+  return {
+    type: 'cost_update',
+    spent: session.spent,
+    budget: session.limit,
+    conceptSpent: concept?.spent,
+    conceptBudget: concept?.limit,
+  };
+}
+
+/**
+ * Plugin prompt asking the user to approve a higher cap
+ */
+export function buildBudgetExceeded(blocked: ScopeBudget, projectedCost = 0): UIUpdate {
+  return {
+    type: 'budget_exceeded',
+    scope: blocked.scope,
+    spent: blocked.spent,
+    limit: blocked.limit,
+    suggestedLimit: suggestedRaise(blocked),
+    message: describeBudgetBlock(blocked, projectedCost),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Checkpoint store — frame-scoped, file-backed
+ *
+ * Checkpoints are keyed by (frameId, label), so two frames can both have a
+ * "pre-iteration" checkpoint without overwriting each other.
+ *
+ * Storage: backend/data/sessions/{sessionId}/checkpoints/{frameId}/{label}.json
+ * (frameId and label are URI-encoded for the filesystem)
+ *
+ * The in-memory cache mirrors the active session's directory. It is loaded when
+ * getSessionState() rehydrates a session after a restart, so iteration history
+ * survives backend crashes. Without an active session, checkpoints live in memory only.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SerializedNode } from '../../shared/protocol.js';
+import { getSessionDir } from './session-persistence.js';
+import { getSessionState } from './session-state.js';
+
+export interface CheckpointRecord {
+  frameId: string;
+  label: string;
+  data: SerializedNode;
+  nodeCount: number;
+  savedAt: string;
+}
+
+// Cache for the active session: "frameId\u0000label" → record
+const cache = new Map<string, CheckpointRecord>();
+let cacheSessionId: string | null = null;
+
+function cacheKey(frameId: string, label: string): string {
+  return `${frameId}\u0000${label}`;
+}
+
+function getCheckpointsDir(sessionId: string): string {
+  return path.join(getSessionDir(sessionId), 'checkpoints');
+}
+
+function getFrameDir(sessionId: string, frameId: string): string {
+  return path.join(getCheckpointsDir(sessionId), encodeURIComponent(frameId));
+}
+
+function getCheckpointPath(sessionId: string, frameId: string, label: string): string {
+  return path.join(getFrameDir(sessionId, frameId), `${encodeURIComponent(label)}.json`);
+}
+
+/**
+ * Session whose files a delete applies to. After a restart or reconnect the cache
+ * stays unloaded until a checkpoint tool runs, but the files are already on disk.
+ * Resolved before touching the cache — rehydrating a session reloads it.
+ */
+function deleteSessionId(): string | null {
+  return cacheSessionId ?? getSessionState()?.sessionId ?? null;
+}
+
+/**
+ * Replace the cache with the checkpoints persisted for a session.
+ * Called when a session is created or rehydrated. Returns the number loaded.
+ */
+export function loadSessionCheckpoints(sessionId: string): number {
+  cache.clear();
+  cacheSessionId = sessionId;
+
+  const dir = getCheckpointsDir(sessionId);
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+
+  for (const frameDir of fs.readdirSync(dir)) {
+    const framePath = path.join(dir, frameDir);
+    if (!fs.statSync(framePath).isDirectory()) continue;
+
+    for (const file of fs.readdirSync(framePath)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const record: CheckpointRecord = JSON.parse(fs.readFileSync(path.join(framePath, file), 'utf-8'));
+        cache.set(cacheKey(record.frameId, record.label), record);
+      } catch (error) {
+        console.warn(`[Checkpoints] Skipping unreadable checkpoint ${frameDir}/${file}:`, error);
+      }
+    }
+  }
+
+  console.log(`[Checkpoints] Loaded ${cache.size} checkpoints for session ${sessionId}`);
+  return cache.size;
+}
+
+/**
+ * Store a checkpoint, overwriting any existing one with the same frame + label
+ */
+export function putCheckpoint(record: CheckpointRecord): void {
+  cache.set(cacheKey(record.frameId, record.label), record);
+
+  if (cacheSessionId) {
+    const filePath = getCheckpointPath(cacheSessionId, record.frameId, record.label);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(record), 'utf-8');
+  }
+}
+
+export function getCheckpoint(frameId: string, label: string): CheckpointRecord | undefined {
+  return cache.get(cacheKey(frameId, label));
+}
+
+/**
+ * Find checkpoints by label across all frames (for callers that omit frameId)
+ */
+export function findCheckpointsByLabel(label: string): CheckpointRecord[] {
+  return Array.from(cache.values()).filter(cp => cp.label === label);
+}
+
+/**
+ * List checkpoints, optionally for one frame, oldest first
+ */
+export function listCheckpointRecords(frameId?: string): CheckpointRecord[] {
+  return Array.from(cache.values())
+    .filter(cp => frameId === undefined || cp.frameId === frameId)
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+}
+
+/**
+ * Delete a single checkpoint. Returns true if it existed.
+ */
+export function deleteCheckpoint(frameId: string, label: string): boolean {
+  const sessionId = deleteSessionId();
+  const existed = cache.delete(cacheKey(frameId, label));
+
+  if (sessionId) {
+    fs.rmSync(getCheckpointPath(sessionId, frameId, label), { force: true });
+  }
+
+  return existed;
+}
+
+/**
+ * Drop every checkpoint for the active session — memory and disk
+ */
+export function deleteAllCheckpoints(): void {
+  const sessionId = deleteSessionId();
+  cache.clear();
+  if (sessionId) {
+    fs.rmSync(getCheckpointsDir(sessionId), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Forget the cached session without touching disk (e.g. on disconnect).
+ * The next loadSessionCheckpoints() call reloads from disk.
+ */
+export function unloadCheckpoints(): void {
+  cache.clear();
+  cacheSessionId = null;
+}
@@ -0,0 +1,375 @@
+/**
+ * Concept activity tracker
+ *
+ * Collects what happens between two new_concept boundaries: frames touched, tool
+ * calls, generated assets, the session cost delta, issues (blocked exports, failed
+ * lint/contrast/variety checks, tool errors) and whatever complete_concept logged.
+ * When the boundary fires, finishConcept() turns that into the ConceptSummary the
+ * "Previous Concepts This Session" prompt section is built from.
+ *
+ * Key decisions come from the tool inputs (format, background, product placement).
+ * With CONCEPT_SUMMARY_MODEL set (e.g. "haiku"), a short model call rewrites them,
+ * and the issues, from the tool log and the agent's own notes.
+ *
+ * In-memory only: a concept in progress is lost on restart, finished summaries are
+ * persisted with the session.
+ */
+
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { addSessionCost, getSessionState } from './session-state.js';
+import { addPreviousConceptCost } from './budget.js';
+import {
+  addAssetEntry,
+  addConceptSummary,
+  loadSession,
+  updateConceptSummary,
+  updateSessionCost,
+  type AssetEntry,
+  type ConceptSummary,
+} from './session-persistence.js';
+import { indexAsset } from './data/asset-index.js';
+
+const TOOL_PREFIX = 'mcp__figma-design__';
+
+/** Tools that produce an asset, and the AssetEntry type they record */
+const ASSET_TOOLS: Record<string, AssetEntry['type']> = {
+  generate_product_photo: 'product_photo',
+  generate_asset: 'asset',
+  remove_background: 'bg_removed',
+};
+
+/** Tool inputs worth recording as decisions, by tool */
+const DECISION_FIELDS: Record<string, string[]> = {
+  build_ad_skeleton: ['format', 'platform', 'backgroundColor'],
+  set_background: ['type', 'color'],
+  place_product: ['position', 'scale'],
+  adapt_ad: ['formats'],
+  apply_template: ['templateId'],
+  export_ad: ['formats', 'platforms'],
+};
+
+/** Bounds so a long concept can't grow the tracker without limit */
+const MAX_DECISIONS = 12;
+const MAX_ISSUES = 12;
+const MAX_NOTES = 30;
+
+const SUMMARY_TIMEOUT_MS = 30_000;
+
+interface ConceptActivity {
+  sessionId: string;
+  startedAt: string;
+  startCost: number;
+  frames: string[];
+  tools: Record<string, number>;
+  assets: AssetEntry[];
+  decisions: string[];
+  issues: string[];
+  /** Agent text blocks, for the optional model summary */
+  notes: string[];
+  /** Position of complete_concept's summary in the session's conceptSummaries */
+  completedIndex?: number;
+}
+
+let activity: ConceptActivity | null = null;
+
+/**
+ * Current concept for the active session, started on first use
+ */
+function current(): ConceptActivity | null {
+  const session = getSessionState();
+  if (!session) return null;
+  if (!activity || activity.sessionId !== session.sessionId) {
+    activity = {
+      sessionId: session.sessionId,
+      startedAt: new Date().toISOString(),
+      startCost: session.totalCost,
+      frames: [],
+      tools: {},
+      assets: [],
+      decisions: [],
+      issues: [],
+      notes: [],
+    };
+  }
+  return activity;
+}
+
+function pushBounded(list: string[], value: string, max: number): void {
+  if (list.includes(value)) return;
+  list.push(value);
+  if (list.length > max) list.shift();
+}
+
+function touchFrame(a: ConceptActivity, frameId: unknown): void {
+  if (typeof frameId === 'string' && frameId && !a.frames.includes(frameId)) {
+    a.frames.push(frameId);
+  }
+}
+
+/**
+ * MCP tool responses arrive as { content: [{ type: 'text', text: '<json>' }] }
+ */
+function parseToolResponse(response: unknown): any {
+  const content = (response as { content?: Array<{ type: string; text?: string }> })?.content;
+  const text = Array.isArray(content) ? content.find(c => c.type === 'text')?.text : undefined;
+  if (text === undefined) return response;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+}
+
+/**
+ * Record one tool call. Called from the PostToolUse hook for every tool.
+ */
+export function recordToolUse(toolName: string, toolInput: unknown, toolResponse: unknown): void {
+  const a = current();
+  if (!a) return;
+
+  const name = toolName.startsWith(TOOL_PREFIX) ? toolName.slice(TOOL_PREFIX.length) : toolName;
+  a.tools[name] = (a.tools[name] ?? 0) + 1;
+
+  const input = (toolInput ?? {}) as Record<string, any>;
+  const result = parseToolResponse(toolResponse) ?? {};
+
+  touchFrame(a, input.frameId);
+  (Array.isArray(input.frameIds) ? input.frameIds : []).forEach((id: unknown) => touchFrame(a, id));
+  touchFrame(a, result.frameId);
+  (Array.isArray(result.adaptations) ? result.adaptations : []).forEach((r: any) => touchFrame(a, r?.frameId));
+  (Array.isArray(result.cells) ? result.cells : []).forEach((c: any) => touchFrame(a, c?.frameId));
+
+  const fields = DECISION_FIELDS[name];
+  if (fields) {
+    const chosen = fields
+      .filter(f => input[f] !== undefined)
+      .map(f => `${f}=${Array.isArray(input[f]) ? input[f].join('/') : input[f]}`);
+    if (chosen.length > 0) pushBounded(a.decisions, `${name}: ${chosen.join(', ')}`, MAX_DECISIONS);
+  }
+
+  if (result.isError || result.error) {
+    pushBounded(a.issues, `${name} failed: ${String(result.message ?? result.error ?? 'error').slice(0, 160)}`, MAX_ISSUES);
+  } else if (name === 'lint_frame' && Array.isArray(result.errors) && result.errors.length > 0) {
+    pushBounded(a.issues, `lint_frame: ${result.errors.length} error(s) on "${result.frameName}"`, MAX_ISSUES);
+  } else if (name === 'check_contrast' && Array.isArray(result.results) && result.results.some((r: any) => !r.pass)) {
+    pushBounded(a.issues, `check_contrast: ${String(result.message).slice(0, 160)}`, MAX_ISSUES);
+  } else if (name === 'check_variety' && result.pass === false) {
+    pushBounded(a.issues, `check_variety: score ${result.score} for "${input.angle}" (${input.formatCategory})`, MAX_ISSUES);
+  }
+
+  recordAsset(a, name, input, result);
+}
+
+/**
+ * Record a generated (or reused) image in the session's asset manifest and the asset
+ * index, and count its provider cost toward the session. No-op for results without
+ * an imagePath.
+ */
+function toAssetEntry(name: string, input: Record<string, any>, result: any): AssetEntry | null {
+  // reuse_asset reports the original asset's type
+  const assetType = name === 'reuse_asset' ? result.type as AssetEntry['type'] | undefined : ASSET_TOOLS[name];
+  if (!assetType || typeof result.imagePath !== 'string') return null;
+
+  return {
+    taskId: result.taskId ?? `${name}-${Date.now()}`,
+    type: assetType,
+    path: result.imagePath,
+    prompt: result.prompt ?? input.prompt ?? input.imagePath ?? '',
+    cost: typeof result.cost === 'number' ? result.cost : 0,
+    createdAt: new Date().toISOString(),
+    kind: name === 'generate_asset' ? input.type : result.kind,
+    reusedFrom: result.reusedFrom,
+  };
+}
+
+function recordAsset(a: ConceptActivity, name: string, input: Record<string, any>, result: any): void {
+  const entry = toAssetEntry(name, input, result);
+  if (!entry) return;
+
+  a.assets.push(entry);
+  try {
+    addAssetEntry(a.sessionId, entry);
+    // fal.ai spend isn't part of the agent's query cost — count it toward the session
+    if (entry.cost > 0) addSessionCost(entry.cost);
+  } catch (error) {
+    console.warn('[ConceptTracker] Failed to record asset:', error);
+  }
+
+  const session = getSessionState();
+  if (session && !entry.reusedFrom) {
+    indexAsset(entry, session).catch(error => console.warn('[ConceptTracker] Failed to index asset:', error));
+  }
+}
+
+/**
+ * Record an image a background generation job produced (see generation-jobs.ts).
+ * If the session it was started in is no longer the active one, the asset and its
+ * spend go to that session's file instead — the money was spent there.
+ */
+export function recordGeneratedAsset(sessionId: string, toolName: string, toolInput: Record<string, any>, result: any): void {
+  const a = current();
+  if (a && a.sessionId === sessionId) {
+    recordAsset(a, toolName, toolInput, result);
+    return;
+  }
+
+  const entry = toAssetEntry(toolName, toolInput, result);
+  const session = sessionId ? loadSession(sessionId) : null;
+  if (!entry || !session) {
+    console.warn(`[ConceptTracker] Generation finished after session ${sessionId || '(none)'} ended — asset not recorded: ${result?.imagePath}`);
+    return;
+  }
+  try {
+    addAssetEntry(sessionId, entry);
+    if (entry.cost > 0) updateSessionCost(sessionId, entry.cost);
+  } catch (error) {
+    console.warn('[ConceptTracker] Failed to record asset:', error);
+  }
+  if (!entry.reusedFrom) {
+    indexAsset(entry, session).catch(error => console.warn('[ConceptTracker] Failed to index asset:', error));
+  }
+}
+
+/**
+ * Record a problem the tool log can't show (e.g. an export the quality gate blocked)
+ */
+export function recordConceptIssue(issue: string): void {
+  const a = current();
+  if (a) pushBounded(a.issues, issue, MAX_ISSUES);
+}
+
+/**
+ * Record agent commentary for the optional model summary
+ */
+export function recordAgentNote(text: string): void {
+  const a = current();
+  if (!a || !text.trim()) return;
+  a.notes.push(text.trim().slice(0, 600));
+  if (a.notes.length > MAX_NOTES) a.notes.shift();
+}
+
+/**
+ * complete_concept just added its summary at this index of the session's conceptSummaries.
+ * The boundary fills in the rest of that summary instead of adding a second one.
+ */
+export function recordConceptCompletion(summaryIndex: number): void {
+  const a = current();
+  if (a) a.completedIndex = summaryIndex;
+}
+
+interface ModelSummary {
+  keyDecisions: string[];
+  issues: string[];
+}
+
+/**
+ * Ask a small model to condense the concept's tool log and notes. `condensed` is
+ * null on any failure; `cost` is what the call spent either way.
+ */
+async function summarizeWithModel(
+  a: ConceptActivity,
+  base: ConceptSummary,
+  model: string,
+): Promise<{ condensed: ModelSummary | null; cost: number }> {
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(), SUMMARY_TIMEOUT_MS);
+  const prompt = [
+    'Summarize this ad design concept for the designer working on the next one.',
+    'Reply with JSON only: {"keyDecisions": string[], "issues": string[]} — at most 5 short items each.',
+    'keyDecisions: the creative and layout choices that define this ad. issues: problems hit and whether they were fixed.',
+    '',
+    `Concept: ${base.angle || '(not logged)'} / ${base.formatCategory || '(no format category)'} — ${base.execution}`,
+    `Tools: ${Object.entries(a.tools).map(([t, n]) => `${t} x${n}`).join(', ')}`,
+    `Tool decisions:\n${a.decisions.map(d => `- ${d}`).join('\n') || '- none'}`,
+    `Tool issues:\n${a.issues.map(i => `- ${i}`).join('\n') || '- none'}`,
+    `Designer notes:\n${a.notes.map(n => `- ${n}`).join('\n') || '- none'}`,
+  ].join('\n');
+
+  let cost = 0;
+  try {
+    let text = '';
+    for await (const message of query({ prompt, options: { model, tools: [], maxTurns: 1, abortController } })) {
+      const msg = message as any;
+      if (msg.type !== 'result') continue;
+      if (msg.subtype === 'success') text = msg.result ?? '';
+      if (msg.total_cost_usd) {
+        cost = msg.total_cost_usd;
+        // The boundary already started the next concept's budget — this is the finished one's spend
+        try { addPreviousConceptCost(cost); } catch { /* no session active */ }
+      }
+    }
+    const json = text.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return { condensed: null, cost };
+    const parsed = JSON.parse(json);
+    const strings = (v: unknown) => (Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string').slice(0, 5) : []);
+    return { condensed: { keyDecisions: strings(parsed.keyDecisions), issues: strings(parsed.issues) }, cost };
+  } catch (error) {
+    console.warn('[ConceptTracker] Model summary failed, keeping tool-derived summary:', error);
+    return { condensed: null, cost };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Close the current concept: complete its summary (or write one for a concept that
+ * was never logged) and persist it. Returns null when nothing happened.
+ */
+export async function finishConcept(): Promise<ConceptSummary | null> {
+  const session = getSessionState();
+  const a = activity;
+  activity = null;
+  if (!session || !a || a.sessionId !== session.sessionId) return null;
+
+  const toolCalls = Object.values(a.tools).reduce((sum, n) => sum + n, 0);
+  const logged = a.completedIndex !== undefined ? session.conceptSummaries[a.completedIndex] : undefined;
+  if (!logged && toolCalls === 0) return null;
+
+  const summary: ConceptSummary = {
+    angle: logged?.angle ?? '',
+    formatCategory: logged?.formatCategory ?? '',
+    execution: logged?.execution
+      ?? `Not logged with complete_concept — ${toolCalls} tool call${toolCalls === 1 ? '' : 's'}` +
+        (a.frames.length > 0 ? ` on ${a.frames.join(', ')}` : ''),
+    frameId: logged?.frameId || a.frames[0] || '',
+    productPosition: logged?.productPosition,
+    productShot: logged?.productShot,
+    background: logged?.background,
+    keyDecisions: [...(logged?.keyDecisions ?? []), ...a.decisions],
+    issues: [...(logged?.issues ?? []), ...a.issues],
+    // Before any await: once this yields, the server starts the next concept and
+    // session.totalCost grows with its spend
+    cost: Math.max(0, session.totalCost - a.startCost),
+    completedAt: logged?.completedAt ?? new Date().toISOString(),
+    logged: Boolean(logged),
+    startedAt: a.startedAt,
+    framesTouched: a.frames,
+    toolsUsed: a.tools,
+    assets: a.assets.map(asset => asset.path),
+  };
+
+  const model = process.env.CONCEPT_SUMMARY_MODEL;
+  if (model) {
+    const { condensed, cost } = await summarizeWithModel(a, summary, model);
+    if (condensed) {
+      summary.keyDecisions = condensed.keyDecisions;
+      summary.issues = condensed.issues;
+    }
+    // The summary call's own cost belongs to this concept
+    summary.cost += cost;
+  }
+
+  try {
+    if (logged) {
+      session.conceptSummaries[a.completedIndex!] = summary;
+      updateConceptSummary(session.sessionId, a.completedIndex!, summary);
+    } else {
+      session.conceptSummaries.push(summary);
+      addConceptSummary(session.sessionId, summary);
+    }
+  } catch (error) {
+    console.error('[ConceptTracker] Failed to save concept summary:', error);
+  }
+
+  return summary;
+}
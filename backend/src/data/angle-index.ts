@@ -0,0 +1,257 @@
+/**
+ * Angle index
+ *
+ * Machine-readable concept history per brand, stored next to the concepts log at
+ * {brand}/ads/angle-index.json. Every logged concept keeps its L1 angle, L2 format
+ * category and L3 execution fields; the angles map rolls them up per angle for
+ * "have we done this before" checks.
+ *
+ * The log stays the source of truth: the index records a hash of the concepts-log.md
+ * it was built from, and is rebuilt from the log whenever that no longer matches —
+ * no index yet (hand-written history), or the log was edited by hand since. Frame IDs
+ * only live in the index and are carried over by ad number. The query helpers feed
+ * the system prompt's variety context and the contextual critic's variety audit.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getBrandDir, getConceptsLogPath, readConceptsLog } from './concepts-log.js';
+
+export interface IndexedConcept {
+  /** Ad number in the concepts log, when known */
+  number?: number;
+  angle: string;
+  formatCategory: string;
+  execution: string;
+  productPosition?: string;
+  productShot?: string;
+  background?: string;
+  reference?: string;
+  frameId?: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+export interface AngleSummary {
+  angle: string;
+  title: string;
+  /** Format categories this angle has been executed in, first use first */
+  formatCategories: string[];
+  uses: number;
+  firstUsed: string;
+  lastUsed: string;
+}
+
+export interface AngleIndex {
+  brand: string;
+  updatedAt: string;
+  /** Keyed by normalized angle text */
+  angles: Record<string, AngleSummary>;
+  /** Every logged concept, oldest first */
+  concepts: IndexedConcept[];
+  /** sha256 of the concepts-log.md this index matches (absent: no log) */
+  logHash?: string;
+}
+
+export interface AngleIndexUpdate {
+  formatCategory: string;
+  /** L3 execution. Default: description */
+  execution?: string;
+  /** Legacy name for execution */
+  description?: string;
+  title?: string;
+  productPosition?: string;
+  productShot?: string;
+  background?: string;
+  reference?: string;
+  frameId?: string;
+  number?: number;
+  date?: string;
+}
+
+export function getAngleIndexPath(brand: string): string {
+  return path.join(getBrandDir(brand), 'ads', 'angle-index.json');
+}
+
+function angleKey(angle: string): string {
+  return angle.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Fold one concept into the per-angle rollup
+ */
+function addToAngles(angles: Record<string, AngleSummary>, concept: IndexedConcept, title?: string): void {
+  const key = angleKey(concept.angle);
+  const summary = angles[key] ?? {
+    angle: concept.angle,
+    title: title ?? concept.angle,
+    formatCategories: [],
+    uses: 0,
+    firstUsed: concept.date,
+    lastUsed: concept.date,
+  };
+  if (!summary.formatCategories.some(c => c.toLowerCase() === concept.formatCategory.toLowerCase())) {
+    summary.formatCategories.push(concept.formatCategory);
+  }
+  summary.uses += 1;
+  if (concept.date && (!summary.firstUsed || concept.date < summary.firstUsed)) summary.firstUsed = concept.date;
+  if (concept.date > summary.lastUsed) summary.lastUsed = concept.date;
+  angles[key] = summary;
+}
+
+function conceptsLogHash(brand: string): string | undefined {
+  const logPath = getConceptsLogPath(brand);
+  if (!fs.existsSync(logPath)) return undefined;
+  return createHash('sha256').update(fs.readFileSync(logPath)).digest('hex');
+}
+
+/**
+ * Build the index from the brand's concepts-log.md
+ */
+export function rebuildAngleIndex(brand: string): AngleIndex {
+  const index: AngleIndex = {
+    brand,
+    updatedAt: new Date().toISOString(),
+    angles: {},
+    concepts: [],
+    logHash: conceptsLogHash(brand),
+  };
+  for (const entry of readConceptsLog(brand)) {
+    const concept: IndexedConcept = {
+      number: entry.number,
+      angle: entry.angle,
+      formatCategory: entry.formatCategory,
+      execution: entry.execution,
+      productPosition: entry.productPosition,
+      productShot: entry.productShot,
+      background: entry.background,
+      reference: entry.reference,
+      date: entry.date,
+    };
+    index.concepts.push(concept);
+    addToAngles(index.angles, concept, entry.title);
+  }
+  return index;
+}
+
+function writeAngleIndex(brand: string, index: AngleIndex): void {
+  const indexPath = getAngleIndexPath(brand);
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf-8');
+}
+
+/**
+ * The stored index when it matches the concepts log, else a rebuild from the log
+ */
+function loadAngleIndex(brand: string): { index: AngleIndex; rebuilt: boolean } {
+  const indexPath = getAngleIndexPath(brand);
+  let stored: AngleIndex | undefined;
+  if (fs.existsSync(indexPath)) {
+    try {
+      stored = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as AngleIndex;
+    } catch {
+      console.warn(`[AngleIndex] Rebuilding unreadable index ${indexPath}`);
+    }
+  }
+  if (stored && stored.logHash === conceptsLogHash(brand)) return { index: stored, rebuilt: false };
+
+  const index = rebuildAngleIndex(brand);
+  if (stored) {
+    for (const concept of index.concepts) {
+      concept.frameId = stored.concepts.find(c => c.number !== undefined && c.number === concept.number)?.frameId;
+    }
+  }
+  return { index, rebuilt: true };
+}
+
+/**
+ * The brand's index, rebuilt from the concepts log when missing, unreadable or
+ * behind the log
+ */
+export function readAngleIndex(brand: string): AngleIndex {
+  return loadAngleIndex(brand).index;
+}
+
+/**
+ * Record a completed concept. Call after appendConceptEntry so a first-time rebuild
+ * from the log doesn't count the new concept twice.
+ */
+export function updateAngleIndex(brand: string, angle: string, update: AngleIndexUpdate): AngleIndex {
+  const { index, rebuilt: fromLog } = loadAngleIndex(brand);
+
+  const concept: IndexedConcept = {
+    number: update.number,
+    angle,
+    formatCategory: update.formatCategory,
+    execution: update.execution ?? update.description ?? '',
+    productPosition: update.productPosition,
+    productShot: update.productShot,
+    background: update.background,
+    reference: update.reference,
+    frameId: update.frameId,
+    date: update.date ?? today(),
+  };
+
+  // A rebuild already picked this concept up from the log — enrich it instead
+  const rebuilt = fromLog
+    ? index.concepts.find(c => c.number !== undefined && c.number === update.number)
+    : undefined;
+  if (rebuilt) {
+    Object.assign(rebuilt, { ...concept, number: rebuilt.number });
+  } else {
+    index.concepts.push(concept);
+    addToAngles(index.angles, concept, update.title);
+  }
+
+  index.updatedAt = new Date().toISOString();
+  index.logHash = conceptsLogHash(brand);
+  writeAngleIndex(brand, index);
+  return index;
+}
+
+/**
+ * The most recent concepts, newest first
+ */
+export function getRecentConcepts(brand: string, limit: number): IndexedConcept[] {
+  return readAngleIndex(brand).concepts.slice(-limit).reverse();
+}
+
+/**
+ * Format categories of the last N concepts, newest first — the variety audit input
+ */
+export function getRecentFormatCategories(brand: string, limit: number): string[] {
+  return getRecentConcepts(brand, limit).map(c => c.formatCategory);
+}
+
+/**
+ * Format category used by every one of the last `streak` concepts, if any.
+ * Two in a row already means the next ad must pick a different one.
+ */
+export function getRepeatedFormatCategory(brand: string, streak = 2): string | undefined {
+  const recent = getRecentFormatCategories(brand, streak);
+  if (recent.length < streak) return undefined;
+  return recent.every(c => c.toLowerCase() === recent[0].toLowerCase()) ? recent[0] : undefined;
+}
+
+/**
+ * Markdown block listing recent concepts for prompts. Empty string when there's no history.
+ */
+export function formatRecentConcepts(brand: string, limit = 5): string {
+  const recent = getRecentConcepts(brand, limit);
+  if (recent.length === 0) return '';
+
+  const lines = recent.map(c =>
+    `- ${c.date || 'undated'} — **${c.formatCategory}**: "${c.angle}" — ${c.execution}` +
+      (c.productPosition ? ` (product: ${c.productPosition})` : ''),
+  );
+  const repeated = getRepeatedFormatCategory(brand);
+  if (repeated) {
+    lines.push(`\nThe last 2 ads were both ${repeated} — this one must use a different format category.`);
+  }
+  return lines.join('\n');
+}
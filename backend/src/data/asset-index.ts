@@ -0,0 +1,283 @@
+/**
+ * Asset index
+ *
+ * One index of generated images across every session, stored at
+ * backend/data/assets/asset-index.json. Each session file keeps its own
+ * assetManifest; this rolls them up with the session's brand and product, the
+ * image's dimensions and a perceptual hash, so browse_assets can find last week's
+ * product photo and reuse_asset can put it back on a canvas instead of paying to
+ * regenerate it.
+ *
+ * Assets are indexed as they're recorded (see concept-tracker.ts). syncAssetIndex()
+ * catches up on anything recorded while the index wasn't written (older sessions,
+ * a crash) and drops entries whose file is gone. Entries are keyed by file path, so
+ * a reuse never shows up twice. Describing an image is async and jobs finish in
+ * parallel, so every write re-reads the index right before saving — load, change
+ * and save never straddle an await, and concurrent writers can't drop each other's
+ * entries or reuse counts.
+ *
+ * Perceptual hash: 64-bit dHash (9x8 grayscale, adjacent-pixel gradients) as 16 hex
+ * chars. Hamming distance ≤ ~10 means visually the same image.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { listSessions, loadSession, type AssetEntry } from '../session-persistence.js';
+
+const ASSETS_DIR = path.join(process.cwd(), 'data', 'assets');
+const INDEX_PATH = path.join(ASSETS_DIR, 'asset-index.json');
+
+export interface IndexedAsset {
+  /** Stable short ID derived from the path */
+  id: string;
+  path: string;
+  sessionId: string;
+  brand: string;
+  product: string;
+  type: AssetEntry['type'];
+  /** generate_asset type (background, prop, ...) */
+  kind?: string;
+  prompt: string;
+  cost: number;
+  width: number;
+  height: number;
+  /** Has transparent pixels (a cutout) */
+  hasAlpha: boolean;
+  /** dHash, 16 hex chars */
+  phash: string;
+  createdAt: string;
+  reuseCount: number;
+  lastReusedAt?: string;
+}
+
+export interface AssetIndex {
+  updatedAt: string;
+  assets: IndexedAsset[];
+}
+
+export interface AssetQuery {
+  brand?: string;
+  product?: string;
+  type?: AssetEntry['type'];
+  kind?: string;
+  /** Words matched against the prompt */
+  text?: string;
+  /** Perceptual hash to rank by similarity */
+  similarTo?: string;
+  /** Max Hamming distance for similarTo. Default: 16 */
+  maxDistance?: number;
+  excludeSessionId?: string;
+}
+
+export interface AssetMatch {
+  asset: IndexedAsset;
+  /** Hamming distance to similarTo, when given */
+  distance?: number;
+}
+
+const DEFAULT_MAX_DISTANCE = 16;
+
+export function assetId(assetPath: string): string {
+  return createHash('sha1').update(path.resolve(assetPath)).digest('hex').slice(0, 10);
+}
+
+/**
+ * 64-bit difference hash of an image file (or its bytes). Transparent areas are
+ * flattened onto white first so a cutout and its source hash alike.
+ */
+export async function perceptualHash(image: string | Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+}
+
+export function loadAssetIndex(): AssetIndex {
+  try {
+    return JSON.parse(fs.readFileSync(INDEX_PATH, 'utf-8')) as AssetIndex;
+  } catch {
+    return { updatedAt: new Date(0).toISOString(), assets: [] };
+  }
+}
+
+function saveAssetIndex(index: AssetIndex): void {
+  fs.mkdirSync(ASSETS_DIR, { recursive: true });
+  index.updatedAt = new Date().toISOString();
+  fs.writeFileSync(INDEX_PATH, JSON.stringify(index, null, 2), 'utf-8');
+}
+
+/**
+ * Build the index record for a manifest entry. Null when the file is missing.
+ */
+async function describeAsset(
+  entry: AssetEntry,
+  session: { sessionId: string; brand: string; product: string },
+  index: AssetIndex,
+): Promise<IndexedAsset | null> {
+  if (!fs.existsSync(entry.path)) return null;
+
+  const metadata = await sharp(entry.path).metadata();
+  // An alpha channel alone doesn't make a cutout — generators often write opaque RGBA
+  const hasAlpha = metadata.hasAlpha === true && !(await sharp(entry.path).stats()).isOpaque;
+  // remove_background records its source path as the prompt — inherit the source's prompt
+  const source = index.assets.find(a => a.path === entry.prompt);
+
+  return {
+    id: assetId(entry.path),
+    path: entry.path,
+    sessionId: session.sessionId,
+    brand: session.brand,
+    product: session.product,
+    type: entry.type,
+    kind: entry.kind ?? source?.kind,
+    prompt: source?.prompt ?? entry.prompt,
+    cost: entry.cost,
+    width: metadata.width ?? 0,
+    height: metadata.height ?? 0,
+    hasAlpha,
+    phash: await perceptualHash(entry.path),
+    createdAt: entry.createdAt,
+    reuseCount: 0,
+  };
+}
+
+/**
+ * Add one session's newly recorded asset to the index. Reuses are skipped — the
+ * original is already indexed under the same path.
+ */
+export async function indexAsset(
+  entry: AssetEntry,
+  session: { sessionId: string; brand: string; product: string },
+): Promise<IndexedAsset | null> {
+  if (entry.reusedFrom) return null;
+
+  const asset = await describeAsset(entry, session, loadAssetIndex());
+  if (!asset) return null;
+
+  const index = loadAssetIndex();
+  index.assets = index.assets.filter(a => a.path !== asset.path);
+  index.assets.push(asset);
+  saveAssetIndex(index);
+  return asset;
+}
+
+/**
+ * Catch up with every session's assetManifest: index entries that are missing and
+ * drop entries whose file no longer exists. Unreadable session files are skipped.
+ */
+export async function syncAssetIndex(): Promise<AssetIndex> {
+  const snapshot = loadAssetIndex();
+  const known = new Set(snapshot.assets.map(a => a.path));
+  const added: IndexedAsset[] = [];
+
+  for (const meta of listSessions()) {
+    let session;
+    try {
+      session = loadSession(meta.sessionId);
+    } catch {
+      continue;
+    }
+    for (const entry of session?.assetManifest ?? []) {
+      if (entry.reusedFrom || known.has(entry.path)) continue;
+      try {
+        const asset = await describeAsset(entry, session!, snapshot);
+        if (!asset) continue;
+        added.push(asset);
+        known.add(asset.path);
+      } catch (error) {
+        console.warn(`[AssetIndex] Skipping unreadable asset ${entry.path}:`, error);
+      }
+    }
+  }
+
+  // Fresh read: indexAsset/markAssetReused may have written while we were hashing
+  const index = loadAssetIndex();
+  const indexed = new Set(index.assets.map(a => a.path));
+  const fresh = added.filter(a => !indexed.has(a.path));
+  const present = [...index.assets, ...fresh].filter(a => fs.existsSync(a.path));
+  if (fresh.length > 0 || present.length !== index.assets.length) {
+    index.assets = present;
+    saveAssetIndex(index);
+  }
+  return index;
+}
+
+/**
+ * Look up an asset by ID or file path
+ */
+export function findAsset(index: AssetIndex, idOrPath: string): IndexedAsset | undefined {
+  return index.assets.find(a => a.id === idOrPath || a.path === idOrPath);
+}
+
+/**
+ * Filter the index. Newest first; with text, best prompt match first; with
+ * similarTo, most similar first.
+ */
+export function queryAssets(index: AssetIndex, query: AssetQuery): AssetMatch[] {
+  const words = (query.text ?? '').toLowerCase().split(/\W+/).filter(w => w.length > 2);
+  const maxDistance = query.maxDistance ?? DEFAULT_MAX_DISTANCE;
+
+  const matches: Array<AssetMatch & { score: number }> = [];
+  for (const asset of index.assets) {
+    if (query.brand && asset.brand.toLowerCase() !== query.brand.toLowerCase()) continue;
+    if (query.product && !asset.product.toLowerCase().includes(query.product.toLowerCase())) continue;
+    if (query.type && asset.type !== query.type) continue;
+    if (query.kind && asset.kind !== query.kind) continue;
+    if (query.excludeSessionId && asset.sessionId === query.excludeSessionId) continue;
+
+    const prompt = asset.prompt.toLowerCase();
+    const score = words.filter(w => prompt.includes(w)).length;
+    if (words.length > 0 && score === 0) continue;
+
+    const distance = query.similarTo ? hashDistance(query.similarTo, asset.phash) : undefined;
+    if (distance !== undefined && distance > maxDistance) continue;
+
+    matches.push({ asset, distance, score });
+  }
+
+  matches.sort((a, b) =>
+    (a.distance ?? 0) - (b.distance ?? 0) ||
+    b.score - a.score ||
+    b.asset.createdAt.localeCompare(a.asset.createdAt),
+  );
+  return matches.map(({ asset, distance }) => ({ asset, distance }));
+}
+
+/**
+ * Count a reuse (ranks proven assets and shows what regeneration was avoided)
+ */
+export function markAssetReused(id: string): IndexedAsset | undefined {
+  const index = loadAssetIndex();
+  const asset = index.assets.find(a => a.id === id);
+  if (!asset) return undefined;
+  asset.reuseCount += 1;
+  asset.lastReusedAt = new Date().toISOString();
+  saveAssetIndex(index);
+  return asset;
+}
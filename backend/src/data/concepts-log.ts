@@ -0,0 +1,206 @@
+/**
+ * Concepts log
+ *
+ * Reads and appends the brand's human-readable concept history at
+ * {brand}/ads/concepts-log.md. Each ad is a "## Ad #N: Title (date)" section with an
+ * L1/L2/L3 field table and an optional "### Learnings" list:
+ *
+ *   ## Ad #1: Health Blind Spot (2026-02-16)
+ *   | Level | Field |
+ *   |-------|-------|
+ *   | **L1: Angle** | You track everything except your mouth |
+ *   | **L2: Format Category** | Borrowed Interface |
+ *   | **L3: Execution** | Health app dashboard with ... |
+ *
+ * The markdown stays the source of truth people edit; angle-index.ts keeps the
+ * machine-readable view in sync with it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBrandRoot } from '../tools/read-brand-data.js';
+
+export interface ConceptLogEntry {
+  /** Ad number in the log. Assigned on append. */
+  number?: number;
+  /** Short name for the heading. Default: the angle */
+  title?: string;
+  /** L1: the insight/tension driving the concept */
+  angle: string;
+  /** L2: format category (Editorial, Comparison, Borrowed Interface, ...) */
+  formatCategory: string;
+  /** L3: visual treatment */
+  execution: string;
+  productPosition?: string;
+  productShot?: string;
+  background?: string;
+  reference?: string;
+  /** YYYY-MM-DD */
+  date: string;
+  learnings?: string[];
+}
+
+type FieldKey = 'angle' | 'formatCategory' | 'execution' | 'productPosition' | 'productShot' | 'background' | 'reference';
+
+/** Table labels in log order */
+const FIELD_LABELS: Array<[FieldKey, string]> = [
+  ['angle', 'L1: Angle'],
+  ['formatCategory', 'L2: Format Category'],
+  ['execution', 'L3: Execution'],
+  ['productPosition', 'L3: Product position'],
+  ['productShot', 'L3: Product shot'],
+  ['background', 'L3: Background'],
+  ['reference', 'L3: Reference'],
+];
+
+const HEADING_PATTERN = /^##\s+Ad\s+#(\d+):\s*(.*?)(?:\s+\((\d{4}-\d{2}-\d{2})\))?\s*$/;
+
+/**
+ * Brand directory, matching read_brand_data: exact name first, then lowercase.
+ * Throws when the brand resolves outside the brand root (e.g. "../..") — the
+ * concepts log, angle index and budget are written under this path.
+ */
+export function getBrandDir(brand: string): string {
+  const brandRoot = path.resolve(getBrandRoot());
+  const exact = path.resolve(brandRoot, brand);
+  const brandDir = fs.existsSync(exact) ? exact : path.resolve(brandRoot, brand.toLowerCase());
+
+  if (!brandDir.startsWith(brandRoot + path.sep)) {
+    throw new Error(`Invalid brand "${brand}" — must name a brand directory inside ${brandRoot}`);
+  }
+  return brandDir;
+}
+
+export function getConceptsLogPath(brand: string): string {
+  return path.join(getBrandDir(brand), 'ads', 'concepts-log.md');
+}
+
+/**
+ * Map a table label like "**L3: Product shot**" to its field
+ */
+function fieldForLabel(label: string): FieldKey | undefined {
+  const clean = label.replace(/\*/g, '').trim().toLowerCase();
+  const bare = clean.replace(/^l\d:\s*/, '');
+  const match = FIELD_LABELS.find(([, l]) => {
+    const known = l.toLowerCase();
+    return known === clean || known.replace(/^l\d:\s*/, '') === bare;
+  });
+  return match?.[0];
+}
+
+/**
+ * Split a markdown table row into cells, honoring escaped pipes
+ */
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+/**
+ * Parse a concepts-log.md document. Sections without an angle or format category are skipped.
+ */
+export function parseConceptsLog(markdown: string): ConceptLogEntry[] {
+  const entries: ConceptLogEntry[] = [];
+  let current: Partial<ConceptLogEntry> | null = null;
+  let inLearnings = false;
+
+  const flush = () => {
+    if (current?.angle && current.formatCategory) {
+      entries.push({
+        execution: '',
+        date: '',
+        ...current,
+      } as ConceptLogEntry);
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      current = { number: Number(heading[1]), title: heading[2] || undefined, date: heading[3] ?? '' };
+      inLearnings = false;
+      continue;
+    }
+    if (!current) continue;
+
+    if (/^#{2,3}\s/.test(line)) {
+      inLearnings = /^###\s+Learnings/i.test(line);
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      const [label, value] = tableCells(line);
+      const field = label ? fieldForLabel(label) : undefined;
+      if (field && value) current[field] = value;
+      continue;
+    }
+
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (inLearnings && bullet) {
+      current.learnings = [...(current.learnings ?? []), bullet[1].trim()];
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Render one entry as a log section
+ */
+export function formatConceptEntry(entry: ConceptLogEntry, number: number): string {
+  const rows = FIELD_LABELS
+    .filter(([key]) => entry[key])
+    .map(([key, label]) => `| **${label}** | ${escapeCell(entry[key]!)} |`);
+
+  const lines = [
+    `## Ad #${number}: ${(entry.title ?? entry.angle).replace(/\r?\n/g, ' ').trim()} (${entry.date})`,
+    '| Level | Field |',
+    '|-------|-------|',
+    ...rows,
+  ];
+  if (entry.learnings && entry.learnings.length > 0) {
+    lines.push('', '### Learnings', ...entry.learnings.map(l => `- ${l}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * All logged concepts for a brand, oldest first. Empty when the brand has no log yet.
+ */
+export function readConceptsLog(brand: string): ConceptLogEntry[] {
+  const logPath = getConceptsLogPath(brand);
+  if (!fs.existsSync(logPath)) return [];
+  return parseConceptsLog(fs.readFileSync(logPath, 'utf-8'));
+}
+
+/**
+ * Append a concept to the brand's log, creating the file if needed.
+ * Numbers continue from the highest existing ad number.
+ */
+export function appendConceptEntry(brand: string, entry: ConceptLogEntry): { number: number; path: string } {
+  const logPath = getConceptsLogPath(brand);
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+
+  let existing = '';
+  if (fs.existsSync(logPath)) {
+    existing = fs.readFileSync(logPath, 'utf-8');
+  } else {
+    existing = `# ${brand} — Concepts Log\n`;
+  }
+
+  const number = parseConceptsLog(existing).reduce((max, e) => Math.max(max, e.number ?? 0), 0) + 1;
+  const separator = existing.endsWith('\n\n') ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+  fs.writeFileSync(logPath, `${existing}${separator}${formatConceptEntry(entry, number)}\n`, 'utf-8');
+
+  return { number, path: logPath };
+}
@@ -0,0 +1,443 @@
+/**
+ * Template index
+ *
+ * SQLite index of the template library, stored next to the templates at
+ * backend/data/templates/index.db. Each row carries the entry save_template writes
+ * plus a fingerprint of its thumbnail — perceptual hash and dominant colors, the
+ * same pair the ad library DB keeps — and a usage count bumped by apply_template.
+ *
+ * Text search runs on an FTS5 table over name, tags, description and format
+ * category (prefix match per word, bm25-ranked). Similarity ranks by dHash Hamming
+ * distance plus palette distance, so "find templates like this frame" works on a
+ * screenshot as well as on a saved template.
+ *
+ * Libraries from before the DB kept an index.json; syncTemplateIndex() imports it
+ * once (renamed to index.json.migrated) and fingerprints any row whose thumbnail
+ * hasn't been hashed yet.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import Database from 'better-sqlite3';
+import { perceptualHash, hashDistance } from './asset-index.js';
+
+export const TEMPLATES_DIR = path.join(process.cwd(), 'backend', 'data', 'templates');
+const DB_PATH = path.join(TEMPLATES_DIR, 'index.db');
+const LEGACY_INDEX_PATH = path.join(TEMPLATES_DIR, 'index.json');
+
+export type SlotKind = 'text' | 'image' | 'color';
+
+export interface TemplateSlot {
+  name: string;
+  kind: SlotKind;
+  /** Child indices from the template root ([] = the frame itself) */
+  path: number[];
+  nodeName: string;
+}
+
+export interface TemplateEntry {
+  templateId: string;
+  name: string;
+  formatCategory?: string;
+  brand?: string;
+  dimensions?: { width: number; height: number };
+  tags?: string[];
+  description?: string;
+  slots?: TemplateSlot[];
+  thumbnailPath: string;
+  framePath: string;
+  createdAt: string;
+}
+
+export interface ImageFingerprint {
+  /** dHash, 16 hex chars */
+  phash: string;
+  /** Most common colors first, "#RRGGBB" */
+  dominantColors: string[];
+}
+
+export interface IndexedTemplate extends TemplateEntry {
+  /** "9:16", "4:5", "1:1", ... — reduced ratio when it isn't a common one */
+  aspectRatio?: string;
+  phash?: string;
+  dominantColors?: string[];
+  usageCount: number;
+  lastUsedAt?: string;
+}
+
+export interface TemplateQuery {
+  brand?: string;
+  formatCategory?: string;
+  /** Words matched (as prefixes) against name, tags, description and format category */
+  text?: string;
+  width?: number;
+  height?: number;
+  /** "9:16", "1:1", ... or a decimal width/height ratio; matched within 2% */
+  aspectRatio?: string;
+  /** Rank by similarity to this fingerprint (overrides sort) */
+  similarTo?: ImageFingerprint;
+  /** Default: recent */
+  sort?: 'recent' | 'usage';
+  limit?: number;
+}
+
+export interface TemplateMatch {
+  template: IndexedTemplate;
+  /** dHash Hamming distance (0-64) plus palette distance scaled to 0-32, when similarTo is given */
+  distance?: number;
+}
+
+const DOMINANT_COLOR_COUNT = 5;
+const ASPECT_TOLERANCE = 0.02;
+const PALETTE_WEIGHT = 32;
+const MAX_RGB_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+const COMMON_RATIOS: Array<[string, number]> = [
+  ['9:16', 9 / 16],
+  ['4:5', 4 / 5],
+  ['1:1', 1],
+  ['16:9', 16 / 9],
+  ['2:3', 2 / 3],
+  ['3:2', 3 / 2],
+  ['3:4', 3 / 4],
+  ['4:3', 4 / 3],
+  ['1.91:1', 1.91],
+];
+
+type TemplateRow = {
+  template_id: string;
+  name: string;
+  format_category: string | null;
+  brand: string | null;
+  width: number | null;
+  height: number | null;
+  aspect_ratio: number | null;
+  aspect_ratio_label: string | null;
+  tags: string | null;
+  description: string | null;
+  slots: string | null;
+  thumbnail_path: string;
+  frame_path: string;
+  phash: string | null;
+  dominant_colors: string | null;
+  created_at: string;
+  usage_count: number;
+  last_used_at: string | null;
+};
+
+// Cached DB connection (opened once, reused across calls)
+let db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (db) return db;
+
+  fs.mkdirSync(TEMPLATES_DIR, { recursive: true });
+  db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS templates (
+      template_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      format_category TEXT,
+      brand TEXT,
+      width INTEGER,
+      height INTEGER,
+      aspect_ratio REAL,
+      aspect_ratio_label TEXT,
+      tags TEXT,
+      description TEXT,
+      slots TEXT,
+      thumbnail_path TEXT NOT NULL,
+      frame_path TEXT NOT NULL,
+      phash TEXT,
+      dominant_colors TEXT,
+      created_at TEXT NOT NULL,
+      usage_count INTEGER NOT NULL DEFAULT 0,
+      last_used_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS templates_brand ON templates (brand COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS templates_format_category ON templates (format_category COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS templates_aspect_ratio ON templates (aspect_ratio);
+    CREATE INDEX IF NOT EXISTS templates_created_at ON templates (created_at);
+    CREATE VIRTUAL TABLE IF NOT EXISTS templates_fts USING fts5 (
+      template_id UNINDEXED, name, tags, description, format_category
+    );
+  `);
+  return db;
+}
+
+export function aspectRatioLabel(width: number, height: number): string {
+  const ratio = width / height;
+  const common = COMMON_RATIOS.find(([, r]) => Math.abs(ratio - r) <= r * ASPECT_TOLERANCE);
+  if (common) return common[0];
+
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const d = gcd(Math.round(width), Math.round(height)) || 1;
+  return `${Math.round(width) / d}:${Math.round(height) / d}`;
+}
+
+function parseAspectRatio(value: string): number {
+  const parts = value.split(':').map(Number);
+  const ratio = parts.length === 2 ? parts[0] / parts[1] : parts[0];
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    throw new Error(`Invalid aspect ratio "${value}" — use "9:16", "1:1", ... or a width/height decimal`);
+  }
+  return ratio;
+}
+
+/**
+ * Most common colors of an image: 32x32 thumbnail, channels quantized to 3 bits,
+ * each bucket averaged. Transparent areas are flattened onto white.
+ */
+async function dominantColors(image: string | Buffer, count = DOMINANT_COLOR_COUNT): Promise<string[]> {
+  const pixels = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize(32, 32, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const buckets = new Map<number, { n: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < pixels.length; i += 3) {
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { n: 0, r: 0, g: 0, b: 0 };
+    bucket.n++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const hex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+  return [...buckets.values()]
+    .sort((a, b) => b.n - a.n)
+    .slice(0, count)
+    .map(c => `#${hex(c.r / c.n)}${hex(c.g / c.n)}${hex(c.b / c.n)}`.toUpperCase());
+}
+
+export async function fingerprintImage(image: string | Buffer): Promise<ImageFingerprint> {
+  return {
+    phash: await perceptualHash(image),
+    dominantColors: await dominantColors(image),
+  };
+}
+
+/**
+ * Symmetric mean nearest-color distance between two palettes, 0 (same) to 1
+ */
+function paletteDistance(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 1;
+  const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const [pa, pb] = [a.map(rgb), b.map(rgb)];
+  const nearest = (from: number[][], to: number[][]) =>
+    from.reduce((sum, c) => sum + Math.min(...to.map(d => Math.hypot(c[0] - d[0], c[1] - d[1], c[2] - d[2]))), 0) / from.length;
+  return (nearest(pa, pb) + nearest(pb, pa)) / 2 / MAX_RGB_DISTANCE;
+}
+
+function fingerprintDistance(a: ImageFingerprint, b: ImageFingerprint): number {
+  return hashDistance(a.phash, b.phash) + Math.round(paletteDistance(a.dominantColors, b.dominantColors) * PALETTE_WEIGHT);
+}
+
+function fromRow(row: TemplateRow): IndexedTemplate {
+  return {
+    templateId: row.template_id,
+    name: row.name,
+    formatCategory: row.format_category ?? undefined,
+    brand: row.brand ?? undefined,
+    dimensions: row.width && row.height ? { width: row.width, height: row.height } : undefined,
+    tags: row.tags ? JSON.parse(row.tags) : undefined,
+    description: row.description ?? undefined,
+    slots: row.slots ? JSON.parse(row.slots) : undefined,
+    thumbnailPath: row.thumbnail_path,
+    framePath: row.frame_path,
+    createdAt: row.created_at,
+    aspectRatio: row.aspect_ratio_label ?? undefined,
+    phash: row.phash ?? undefined,
+    dominantColors: row.dominant_colors ? JSON.parse(row.dominant_colors) : undefined,
+    usageCount: row.usage_count,
+    lastUsedAt: row.last_used_at ?? undefined,
+  };
+}
+
+function writeTemplate(database: Database.Database, entry: TemplateEntry, fingerprint?: ImageFingerprint) {
+  const { width, height } = entry.dimensions ?? {};
+  database.prepare(`
+    INSERT OR REPLACE INTO templates (
+      template_id, name, format_category, brand, width, height, aspect_ratio, aspect_ratio_label,
+      tags, description, slots, thumbnail_path, frame_path, phash, dominant_colors, created_at
+    ) VALUES (
+      @templateId, @name, @formatCategory, @brand, @width, @height, @aspectRatio, @aspectRatioLabel,
+      @tags, @description, @slots, @thumbnailPath, @framePath, @phash, @dominantColors, @createdAt
+    )
+  `).run({
+    templateId: entry.templateId,
+    name: entry.name,
+    formatCategory: entry.formatCategory ?? null,
+    brand: entry.brand ?? null,
+    width: width ?? null,
+    height: height ?? null,
+    aspectRatio: width && height ? width / height : null,
+    aspectRatioLabel: width && height ? aspectRatioLabel(width, height) : null,
+    tags: entry.tags ? JSON.stringify(entry.tags) : null,
+    description: entry.description ?? null,
+    slots: entry.slots ? JSON.stringify(entry.slots) : null,
+    thumbnailPath: entry.thumbnailPath,
+    framePath: entry.framePath,
+    phash: fingerprint?.phash ?? null,
+    dominantColors: fingerprint ? JSON.stringify(fingerprint.dominantColors) : null,
+    createdAt: entry.createdAt,
+  });
+
+  database.prepare('DELETE FROM templates_fts WHERE template_id = ?').run(entry.templateId);
+  database.prepare(`
+    INSERT INTO templates_fts (template_id, name, tags, description, format_category) VALUES (?, ?, ?, ?, ?)
+  `).run(entry.templateId, entry.name, (entry.tags ?? []).join(' '), entry.description ?? '', entry.formatCategory ?? '');
+}
+
+/**
+ * Fingerprint a template's thumbnail; undefined when it's missing or unreadable
+ */
+async function fingerprintThumbnail(thumbnailPath: string): Promise<ImageFingerprint | undefined> {
+  const absPath = path.join(TEMPLATES_DIR, thumbnailPath);
+  if (!fs.existsSync(absPath)) return undefined;
+  try {
+    return await fingerprintImage(absPath);
+  } catch (error) {
+    console.warn(`[TemplateIndex] Skipping unreadable thumbnail ${absPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Add (or replace) a template, fingerprinting its thumbnail
+ */
+export async function indexTemplate(entry: TemplateEntry): Promise<IndexedTemplate> {
+  const fingerprint = await fingerprintThumbnail(entry.thumbnailPath);
+  const database = getDb();
+  database.transaction(() => writeTemplate(database, entry, fingerprint))();
+  return getTemplate(entry.templateId)!;
+}
+
+/**
+ * Import a legacy index.json and fingerprint rows that have no hash yet
+ * (imported rows, or thumbnails that were unreadable when saved).
+ */
+export async function syncTemplateIndex(): Promise<void> {
+  const database = getDb();
+
+  if (fs.existsSync(LEGACY_INDEX_PATH)) {
+    let legacy: TemplateEntry[] = [];
+    try {
+      legacy = JSON.parse(fs.readFileSync(LEGACY_INDEX_PATH, 'utf8'));
+    } catch {
+      console.warn(`[TemplateIndex] Unreadable ${LEGACY_INDEX_PATH} — skipping import`);
+    }
+    const exists = database.prepare('SELECT 1 FROM templates WHERE template_id = ?');
+    database.transaction(() => {
+      for (const entry of legacy) {
+        if (!exists.get(entry.templateId)) writeTemplate(database, entry);
+      }
+    })();
+    fs.renameSync(LEGACY_INDEX_PATH, `${LEGACY_INDEX_PATH}.migrated`);
+  }
+
+  const unhashed = database.prepare('SELECT template_id, thumbnail_path FROM templates WHERE phash IS NULL')
+    .all() as Array<Pick<TemplateRow, 'template_id' | 'thumbnail_path'>>;
+  const update = database.prepare('UPDATE templates SET phash = ?, dominant_colors = ? WHERE template_id = ?');
+  for (const row of unhashed) {
+    const fingerprint = await fingerprintThumbnail(row.thumbnail_path);
+    if (fingerprint) update.run(fingerprint.phash, JSON.stringify(fingerprint.dominantColors), row.template_id);
+  }
+}
+
+export function getTemplate(templateId: string): IndexedTemplate | undefined {
+  const row = getDb().prepare('SELECT * FROM templates WHERE template_id = ?').get(templateId) as TemplateRow | undefined;
+  return row ? fromRow(row) : undefined;
+}
+
+export function countTemplates(): number {
+  return (getDb().prepare('SELECT COUNT(*) AS total FROM templates').get() as { total: number }).total;
+}
+
+/**
+ * Name and ID of the most recent templates (for "not found" hints)
+ */
+export function listTemplateNames(limit = 20): Array<{ templateId: string; name: string }> {
+  return (getDb().prepare('SELECT template_id, name FROM templates ORDER BY created_at DESC LIMIT ?')
+    .all(limit) as Array<Pick<TemplateRow, 'template_id' | 'name'>>)
+    .map(row => ({ templateId: row.template_id, name: row.name }));
+}
+
+/**
+ * Filter the index. Newest (or most used) first; with text, best match first;
+ * with similarTo, most similar first.
+ */
+export function queryTemplates(query: TemplateQuery): TemplateMatch[] {
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (query.brand) {
+    where.push('t.brand = ? COLLATE NOCASE');
+    params.push(query.brand);
+  }
+  if (query.formatCategory) {
+    where.push('t.format_category = ? COLLATE NOCASE');
+    params.push(query.formatCategory);
+  }
+  if (query.width !== undefined) {
+    where.push('t.width = ?');
+    params.push(query.width);
+  }
+  if (query.height !== undefined) {
+    where.push('t.height = ?');
+    params.push(query.height);
+  }
+  if (query.aspectRatio) {
+    const ratio = parseAspectRatio(query.aspectRatio);
+    where.push('ABS(t.aspect_ratio - ?) <= ?');
+    params.push(ratio, ratio * ASPECT_TOLERANCE);
+  }
+
+  const words = (query.text ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  let from = 'templates t';
+  if (words.length > 0) {
+    from = 'templates t JOIN templates_fts f ON f.template_id = t.template_id';
+    where.push('templates_fts MATCH ?');
+    params.push(words.map(w => `"${w}"*`).join(' '));
+  }
+
+  const order = [
+    ...(words.length > 0 ? ['bm25(templates_fts)'] : []),
+    ...(query.sort === 'usage' ? ['t.usage_count DESC', 't.last_used_at DESC'] : []),
+    't.created_at DESC',
+  ].join(', ');
+
+  // Similarity ranks the whole filtered set, so the SQL limit only applies without it
+  const limit = query.similarTo ? -1 : query.limit ?? -1;
+  const rows = getDb().prepare(
+    `SELECT t.* FROM ${from}${where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY ${order} LIMIT ?`
+  ).all(...params, limit) as TemplateRow[];
+
+  const matches: TemplateMatch[] = rows.map(row => ({ template: fromRow(row) }));
+  if (!query.similarTo) return matches;
+
+  const target = query.similarTo;
+  return matches
+    .filter(m => m.template.phash)
+    .map(m => ({
+      ...m,
+      distance: fingerprintDistance(target, { phash: m.template.phash!, dominantColors: m.template.dominantColors ?? [] }),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, query.limit);
+}
+
+/**
+ * Count an apply (ranks proven templates under sort: usage)
+ */
+export function markTemplateUsed(templateId: string): void {
+  getDb().prepare('UPDATE templates SET usage_count = usage_count + 1, last_used_at = ? WHERE template_id = ?')
+    .run(new Date().toISOString(), templateId);
+}
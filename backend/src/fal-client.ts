@@ -2,11 +2,15 @@
  * fal.ai client singleton and upload/download helpers
  *
  * Provides configured fal client + utilities for uploading reference images
- * and downloading generated results. Caches uploads to avoid redundant transfers.
+ * and downloading generated results. Caches uploads to avoid redundant transfers:
+ * keyed by file content (an edited file gets a fresh upload, a copy reuses the
+ * original's URL) and persisted to backend/data/cache/fal-uploads.json so restarts
+ * don't re-upload every reference image.
  */
 
 import { fal } from '@fal-ai/client';
-import { readFileSync, writeFileSync } from 'fs';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
 import path from 'path';
 
 // Configure fal client with API key from env (lazy — warns on startup if missing)
@@ -24,21 +28,57 @@ function ensureConfigured(): void {
   }
 }
 
-// Upload cache: absolute path → fal URL
-const uploadCache = new Map<string, string>();
+// Upload cache: SHA-256 of file content → fal URL, persisted across restarts
+const UPLOAD_CACHE_PATH = path.join(process.cwd(), 'data', 'cache', 'fal-uploads.json');
+
+// fal storage URLs don't live forever — re-upload after this long
+const UPLOAD_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+type UploadCacheEntry = { url: string; uploadedAt: string };
+
+let uploadCache: Map<string, UploadCacheEntry> | null = null;
+
+function getUploadCache(): Map<string, UploadCacheEntry> {
+  if (uploadCache) return uploadCache;
+  try {
+    uploadCache = new Map(Object.entries(JSON.parse(readFileSync(UPLOAD_CACHE_PATH, 'utf-8'))));
+  } catch {
+    uploadCache = new Map();
+  }
+  return uploadCache;
+}
+
+function rememberUpload(contentHash: string, url: string): void {
+  const cache = getUploadCache();
+  const now = Date.now();
+  cache.set(contentHash, { url, uploadedAt: new Date(now).toISOString() });
+  for (const [key, entry] of cache) {
+    if (now - Date.parse(entry.uploadedAt) > UPLOAD_CACHE_TTL_MS) cache.delete(key);
+  }
+  try {
+    mkdirSync(path.dirname(UPLOAD_CACHE_PATH), { recursive: true });
+    writeFileSync(UPLOAD_CACHE_PATH, JSON.stringify(Object.fromEntries(cache), null, 2), 'utf-8');
+  } catch (error) {
+    console.warn('[fal-client] Failed to persist upload cache:', error);
+  }
+}
 
 /**
  * Upload a file to fal.ai storage and return the fal URL.
- * Uses cache to avoid re-uploading the same file.
+ * Uses cache to avoid re-uploading the same content.
  */
 export async function uploadFile(absolutePath: string): Promise<string> {
   ensureConfigured();
 
+  // Read file into buffer — the cache key is its content, not its path
+  const buffer = readFileSync(absolutePath);
+  const contentHash = createHash('sha256').update(buffer).digest('hex');
+
   // Check cache first
-  const cached = uploadCache.get(absolutePath);
-  if (cached) {
-    console.log(`[fal-client] Using cached upload: ${path.basename(absolutePath)} → ${cached}`);
-    return cached;
+  const cached = getUploadCache().get(contentHash);
+  if (cached && Date.now() - Date.parse(cached.uploadedAt) <= UPLOAD_CACHE_TTL_MS) {
+    console.log(`[fal-client] Using cached upload: ${path.basename(absolutePath)} → ${cached.url}`);
+    return cached.url;
   }
 
   // Determine content type from extension
@@ -51,14 +91,11 @@ export async function uploadFile(absolutePath: string): Promise<string> {
   };
   const contentType = contentTypeMap[ext] || 'image/png';
 
-  // Read file into buffer
-  const buffer = readFileSync(absolutePath);
-
   // Try SDK upload first
   try {
     const blob = new Blob([buffer], { type: contentType });
     const url = await fal.storage.upload(blob);
-    uploadCache.set(absolutePath, url);
+    rememberUpload(contentHash, url);
     console.log(`[fal-client] Uploaded via SDK: ${path.basename(absolutePath)} → ${url}`);
     return url;
   } catch (sdkError) {
@@ -98,7 +135,7 @@ export async function uploadFile(absolutePath: string): Promise<string> {
     }
 
     // Step 3: Cache and return file_url
-    uploadCache.set(absolutePath, initData.file_url);
+    rememberUpload(contentHash, initData.file_url);
     console.log(`[fal-client] Uploaded via HTTP: ${path.basename(absolutePath)} → ${initData.file_url}`);
     return initData.file_url;
   }
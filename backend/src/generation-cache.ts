@@ -0,0 +1,146 @@
+/**
+ * Generation cache
+ *
+ * Content-addressed store in front of the image providers. Re-running a concept
+ * with the same model, prompt, aspect ratio, resolution, seed and reference images
+ * gets the earlier file back at zero cost instead of a near-identical paid
+ * regeneration. Reference images are keyed by content, so an edited file with the
+ * same name is a miss.
+ *
+ * Storage: backend/data/cache/generations/{key}.png + {key}.json (metadata)
+ * GENERATION_CACHE=off disables it; the generation tools' fresh flag skips it for
+ * one call (a new take on the same prompt).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { ImageOperation, ProviderImage } from './providers/index.js';
+
+const CACHE_DIR = path.join(process.cwd(), 'data', 'cache', 'generations');
+
+export interface GenerationKey {
+  operation: ImageOperation;
+  provider: string;
+  model: string;
+  prompt?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  seed?: number;
+  /** Absolute paths — hashed by content, in order */
+  images?: string[];
+  /** Variant number within a multi-variant job; 0 is the plain request */
+  variant?: number;
+}
+
+export interface CachedImage extends ProviderImage {
+  /** True when served from the cache (cost is then 0) */
+  cached: boolean;
+  /** What the original generation cost — saved by this hit */
+  savedCost: number;
+}
+
+interface CacheEntry {
+  key: string;
+  operation: ImageOperation;
+  provider: string;
+  model: string;
+  prompt?: string;
+  cost: number;
+  createdAt: string;
+  hits: number;
+}
+
+function cacheEnabled(): boolean {
+  return !['off', 'false', '0'].includes((process.env.GENERATION_CACHE ?? '').trim().toLowerCase());
+}
+
+/**
+ * SHA-256 of a file's bytes
+ */
+export function hashFile(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function generationCacheKey(key: GenerationKey): string {
+  const material = {
+    operation: key.operation,
+    provider: key.provider,
+    model: key.model,
+    prompt: key.prompt !== undefined ? normalizePrompt(key.prompt) : null,
+    aspectRatio: key.aspectRatio ?? null,
+    resolution: key.resolution ?? null,
+    seed: key.seed ?? null,
+    images: (key.images ?? []).map(hashFile),
+    variant: key.variant || null,
+  };
+  return createHash('sha256').update(JSON.stringify(material)).digest('hex').slice(0, 32);
+}
+
+function entryPaths(key: string): { image: string; meta: string } {
+  return { image: path.join(CACHE_DIR, `${key}.png`), meta: path.join(CACHE_DIR, `${key}.json`) };
+}
+
+function readEntry(key: string): CacheEntry | null {
+  const paths = entryPaths(key);
+  if (!fs.existsSync(paths.image)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(paths.meta, 'utf-8')) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serve a generation from the cache, or run it and store the result. The result is
+ * always written to outputPath, so each session keeps its own copy.
+ */
+export async function withGenerationCache(
+  key: GenerationKey,
+  outputPath: string,
+  run: () => Promise<ProviderImage>,
+  options: { bypass?: boolean } = {},
+): Promise<CachedImage> {
+  if (!cacheEnabled()) {
+    return { ...(await run()), cached: false, savedCost: 0 };
+  }
+
+  const cacheKey = generationCacheKey(key);
+  const paths = entryPaths(cacheKey);
+
+  if (!options.bypass) {
+    const entry = readEntry(cacheKey);
+    if (entry) {
+      fs.copyFileSync(paths.image, outputPath);
+      entry.hits += 1;
+      fs.writeFileSync(paths.meta, JSON.stringify(entry, null, 2), 'utf-8');
+      console.log(`[GenerationCache] Hit ${cacheKey} (${entry.model}) — saved $${entry.cost.toFixed(2)}`);
+      return { path: outputPath, cost: 0, provider: entry.provider, model: entry.model, cached: true, savedCost: entry.cost };
+    }
+  }
+
+  const result = await run();
+  try {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.copyFileSync(result.path, paths.image);
+    const entry: CacheEntry = {
+      key: cacheKey,
+      operation: key.operation,
+      provider: result.provider,
+      model: result.model,
+      prompt: key.prompt?.slice(0, 200),
+      cost: result.cost,
+      createdAt: new Date().toISOString(),
+      hits: 0,
+    };
+    fs.writeFileSync(paths.meta, JSON.stringify(entry, null, 2), 'utf-8');
+  } catch (error) {
+    // A cache write failure shouldn't fail a paid generation
+    console.warn('[GenerationCache] Failed to store result:', error);
+  }
+  return { ...result, cached: false, savedCost: 0 };
+}
@@ -0,0 +1,293 @@
+/**
+ * Background generation jobs
+ *
+ * Fire-and-continue image generation: start_generation queues a job (one or more
+ * variants of a generate_product_photo, generate_asset or remove_background call)
+ * and returns its ID at once, so the agent keeps building while images render.
+ * Variants run through one FIFO, GENERATION_CONCURRENCY at a time (default 3).
+ *
+ * Every state change streams a generation_progress update to the plugin's
+ * generation tray. Finished jobs are reported to the agent once: by
+ * check_generations, by the PostToolUse hook after its next tool call, or in the
+ * next prompt if the turn ended first. Finished images are recorded in the asset
+ * manifest and session cost like direct generation calls.
+ *
+ * In-memory only: jobs still running when the backend stops are lost.
+ */
+
+import sharp from 'sharp';
+import type { Bridge } from './bridge.js';
+import type { GenerationJobStatus } from '../../shared/protocol.js';
+import { getSessionState } from './session-state.js';
+import { recordConceptIssue, recordGeneratedAsset } from './concept-tracker.js';
+import { buildCostUpdate, getBudgetStatus } from './budget.js';
+import { estimateToolCost } from './tools/estimate-cost.js';
+import { generateProductPhoto } from './tools/generate-product-photo.js';
+import { generateAsset } from './tools/generate-asset.js';
+import { removeBackground } from './tools/remove-background.js';
+
+export const GENERATION_TOOLS = ['generate_product_photo', 'generate_asset', 'remove_background'] as const;
+
+export type GenerationTool = typeof GENERATION_TOOLS[number];
+
+export interface VariantResult {
+  variant: number;
+  status: GenerationJobStatus;
+  imagePath?: string;
+  width?: number;
+  height?: number;
+  cost: number;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  tool: GenerationTool;
+  label: string;
+  input: Record<string, any>;
+  sessionId: string;
+  status: GenerationJobStatus;
+  variants: VariantResult[];
+  /** Estimated cost per variant, for the budget gate while the job is pending */
+  estimatedCost: number;
+  cost: number;
+  createdAt: string;
+  finishedAt?: string;
+  /** The agent has been told about the finished job */
+  reported: boolean;
+}
+
+interface QueuedVariant {
+  job: GenerationJob;
+  variant: number;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_JOBS = 50;
+const THUMBNAIL_SIZE = 96;
+
+const RUNNERS: Record<GenerationTool, (input: any, variant?: number) => Promise<any>> = {
+  generate_product_photo: (input, variant) => generateProductPhoto(input, { variant }),
+  generate_asset: (input, variant) => generateAsset(input, { variant }),
+  remove_background: input => removeBackground(input),
+};
+
+const jobs = new Map<string, GenerationJob>();
+const thumbnails = new Map<string, string[]>();
+const waiters = new Map<string, Array<() => void>>();
+const queue: QueuedVariant[] = [];
+let running = 0;
+let jobCounter = 0;
+
+function concurrency(): number {
+  const configured = Number(process.env.GENERATION_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+function isFinished(job: GenerationJob): boolean {
+  return job.status === 'done' || job.status === 'failed';
+}
+
+async function renderThumbnail(imagePath: string): Promise<string | null> {
+  try {
+    const buffer = await sharp(imagePath)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside' })
+      .flatten({ background: '#e6e6e6' })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+    return buffer.toString('base64');
+  } catch {
+    return null;
+  }
+}
+
+function sendProgress(bridge: Bridge, job: GenerationJob): void {
+  const finished = job.variants.filter(v => v.status === 'done' || v.status === 'failed');
+  bridge.sendUIUpdate({
+    type: 'generation_progress',
+    jobId: job.id,
+    label: job.label,
+    status: job.status,
+    completed: finished.length,
+    total: job.variants.length,
+    failed: job.variants.filter(v => v.status === 'failed').length,
+    cost: job.cost,
+    thumbnails: thumbnails.get(job.id) ?? [],
+  });
+}
+
+/**
+ * Drop the oldest reported jobs once the list grows past MAX_JOBS
+ */
+function pruneJobs(): void {
+  for (const job of jobs.values()) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (isFinished(job) && job.reported) {
+      jobs.delete(job.id);
+      thumbnails.delete(job.id);
+    }
+  }
+}
+
+function finishJob(bridge: Bridge, job: GenerationJob): void {
+  job.status = job.variants.some(v => v.status === 'done') ? 'done' : 'failed';
+  job.finishedAt = new Date().toISOString();
+  console.log(`[GenerationJobs] ${job.id} ${job.status}: ${formatGenerationJob(job)}`);
+  sendProgress(bridge, job);
+
+  const budget = getBudgetStatus();
+  if (budget) bridge.sendUIUpdate(buildCostUpdate(budget));
+
+  for (const resolve of waiters.get(job.id) ?? []) resolve();
+  waiters.delete(job.id);
+}
+
+async function runVariant(bridge: Bridge, { job, variant }: QueuedVariant): Promise<void> {
+  const slot = job.variants[variant];
+  slot.status = 'running';
+  if (job.status === 'queued') job.status = 'running';
+  sendProgress(bridge, job);
+
+  try {
+    const result = await RUNNERS[job.tool](job.input, job.variants.length > 1 ? variant : undefined);
+    if (result?.error) throw new Error(result.message ?? 'Generation failed');
+
+    slot.status = 'done';
+    slot.imagePath = result.imagePath;
+    slot.width = result.width;
+    slot.height = result.height;
+    slot.cost = typeof result.cost === 'number' ? result.cost : 0;
+    slot.cached = result.cached;
+    job.cost += slot.cost;
+
+    recordGeneratedAsset(job.sessionId, job.tool, job.input, result);
+    const thumbnail = await renderThumbnail(result.imagePath);
+    if (thumbnail) thumbnails.set(job.id, [...(thumbnails.get(job.id) ?? []), thumbnail]);
+  } catch (error: any) {
+    slot.status = 'failed';
+    slot.error = error?.message ?? String(error);
+    recordConceptIssue(`start_generation ${job.id} variant ${variant + 1} failed: ${slot.error!.slice(0, 160)}`);
+  }
+
+  if (job.variants.every(v => v.status === 'done' || v.status === 'failed')) {
+    finishJob(bridge, job);
+  } else {
+    sendProgress(bridge, job);
+  }
+}
+
+function pump(bridge: Bridge): void {
+  while (running < concurrency() && queue.length > 0) {
+    const next = queue.shift()!;
+    running++;
+    runVariant(bridge, next)
+      .catch(error => console.error('[GenerationJobs] Variant crashed:', error))
+      .finally(() => {
+        running--;
+        pump(bridge);
+      });
+  }
+}
+
+/**
+ * Queue a job of `variants` takes of one generation tool call. Returns immediately.
+ */
+export function startGenerationJob(
+  bridge: Bridge,
+  tool: GenerationTool,
+  input: Record<string, any>,
+  variants: number,
+  label?: string,
+): GenerationJob {
+  const session = getSessionState();
+  const job: GenerationJob = {
+    id: `gen_${++jobCounter}`,
+    tool,
+    label: label || String(input.prompt ?? input.imagePath ?? tool).slice(0, 60),
+    input,
+    sessionId: session?.sessionId ?? '',
+    status: 'queued',
+    variants: Array.from({ length: variants }, (_, variant) => ({ variant, status: 'queued' as const, cost: 0 })),
+    estimatedCost: estimateToolCost(tool, input),
+    cost: 0,
+    createdAt: new Date().toISOString(),
+    reported: false,
+  };
+  jobs.set(job.id, job);
+  pruneJobs();
+
+  for (let variant = 0; variant < variants; variant++) queue.push({ job, variant });
+  sendProgress(bridge, job);
+  pump(bridge);
+  return job;
+}
+
+/**
+ * Jobs by ID (all jobs of the current session when ids is empty), oldest first
+ */
+export function getGenerationJobs(ids: string[] = []): GenerationJob[] {
+  if (ids.length > 0) return ids.map(id => jobs.get(id)).filter((j): j is GenerationJob => !!j);
+  const sessionId = getSessionState()?.sessionId ?? '';
+  return [...jobs.values()].filter(j => j.sessionId === sessionId);
+}
+
+/**
+ * Resolve when every given job has finished, or after timeoutMs
+ */
+export async function waitForGenerations(ids: string[], timeoutMs: number): Promise<void> {
+  const pending = getGenerationJobs(ids).filter(j => !isFinished(j));
+  if (pending.length === 0 || timeoutMs <= 0) return;
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.all(pending.map(job => new Promise<void>(resolve => {
+      waiters.set(job.id, [...(waiters.get(job.id) ?? []), resolve]);
+    }))),
+    new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Finished jobs of the current session the agent hasn't been told about. Marks them
+ * reported.
+ */
+export function takeFinishedGenerations(): GenerationJob[] {
+  const finished = getGenerationJobs().filter(j => isFinished(j) && !j.reported);
+  finished.forEach(j => { j.reported = true; });
+  return finished;
+}
+
+export function markGenerationsReported(list: GenerationJob[]): void {
+  list.filter(isFinished).forEach(j => { j.reported = true; });
+}
+
+/**
+ * Projected cost of the active session's variants still queued or running — the
+ * budget gate adds it so parallel jobs can't overshoot a cap together
+ */
+export function getPendingGenerationCost(): number {
+  const sessionId = getSessionState()?.sessionId ?? '';
+  let pending = 0;
+  for (const job of jobs.values()) {
+    if (job.sessionId !== sessionId) continue;
+    pending += job.variants.filter(v => v.status === 'queued' || v.status === 'running').length * job.estimatedCost;
+  }
+  return pending;
+}
+
+/**
+ * One-line job summary for tool results, hook context and prompts
+ */
+export function formatGenerationJob(job: GenerationJob): string {
+  const head = `${job.id} (${job.tool}, "${job.label}")`;
+  if (!isFinished(job)) {
+    const finished = job.variants.filter(v => v.status === 'done' || v.status === 'failed').length;
+    return `${head}: ${job.status}, ${finished}/${job.variants.length} variants finished`;
+  }
+  const results = job.variants.map(v => v.status === 'done'
+    ? `v${v.variant + 1} ${v.imagePath} (${v.width}x${v.height}${v.cached ? ', cached' : ''})`
+    : `v${v.variant + 1} failed: ${v.error}`);
+  return `${head}: ${job.status}, $${job.cost.toFixed(2)} — ${results.join('; ')}`;
+}
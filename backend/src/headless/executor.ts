@@ -0,0 +1,957 @@
+/**
+ * Headless command executor
+ *
+ * Executes PluginCommand messages against an in-memory SceneGraph, mirroring the
+ * handlers in plugin/src/code.ts one-for-one (figma_call methods, batch operations
+ * with $variable refs, checkpoint restore, image fills, export).
+ *
+ * Every command returns a PluginResponse, exactly as the plugin would post it.
+ * Errors become { type: 'error' } responses — nothing throws out of execute().
+ */
+
+import type { PluginCommand, PluginResponse, NodeInfo, SerializedNode, SerializedPaint, SerializedEffect, SerializedTextRun } from '../../../shared/protocol.js';
+import { createSceneGraph, serializeMockNode, normalizePaint, normalizeEffect, measureText, lineHeightPx } from './scene-graph.js';
+import type { SceneGraph, MockNode } from './scene-graph.js';
+import { rasterizeNode } from './rasterize.js';
+
+type FontName = { family: string; style: string };
+
+export interface MockExecutorOptions {
+  /** Scene graph to operate on (a fresh one is created if omitted) */
+  graph?: SceneGraph;
+  /**
+   * Fonts that "load" successfully. Omit to accept every font.
+   * Set it to exercise the plugin's font fallback logic.
+   */
+  availableFonts?: FontName[];
+}
+
+export interface MockExecutor {
+  graph: SceneGraph;
+  execute(command: PluginCommand): Promise<PluginResponse>;
+}
+
+export function createMockExecutor(options: MockExecutorOptions = {}): MockExecutor {
+  const graph = options.graph ?? createSceneGraph();
+  const availableFonts = options.availableFonts;
+
+  // ─── Fonts ───
+
+  function loadFont(font: FontName): void {
+    if (!availableFonts) return;
+    const ok = availableFonts.some(f => f.family === font.family && f.style === font.style);
+    if (!ok) throw new Error(`The font "${font.family} ${font.style}" could not be loaded`);
+  }
+
+  /**
+   * Same fallback chain as the plugin: exact → case-insensitive style →
+   * Regular → first style in family → Inter/Regular
+   */
+  function resolveFont(requestedFamily: string, requestedStyle: string): FontName {
+    try {
+      loadFont({ family: requestedFamily, style: requestedStyle });
+      return { family: requestedFamily, style: requestedStyle };
+    } catch {
+      const familyFonts = (availableFonts ?? []).filter(f => f.family === requestedFamily);
+      if (familyFonts.length > 0) {
+        const exactMatch = familyFonts.find(f => f.style.toLowerCase() === requestedStyle.toLowerCase());
+        const fallback = exactMatch || familyFonts.find(f => f.style === 'Regular') || familyFonts[0];
+        return { family: requestedFamily, style: fallback.style };
+      }
+      return { family: 'Inter', style: 'Regular' };
+    }
+  }
+
+  // ─── Lookup ───
+
+  function getNode(id: string): MockNode | undefined {
+    return graph.getNode(id);
+  }
+
+  function requireNode(id: string, label = 'Node'): MockNode {
+    const node = getNode(id);
+    if (!node) throw new Error(`${label} not found: ${id}`);
+    return node;
+  }
+
+  function attach(node: MockNode, parentId: string | null | undefined, insertIndex?: number): void {
+    if (!parentId) return;
+    const parent = getNode(parentId);
+    if (parent && canHaveChildren(parent)) {
+      graph.appendChild(parent, node, insertIndex);
+    }
+  }
+
+  function canHaveChildren(node: MockNode): boolean {
+    return ['FRAME', 'GROUP', 'PAGE', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'BOOLEAN_OPERATION'].includes(node.type);
+  }
+
+  // ─── Property setters (Figma semantics) ───
+
+  function isAutoLayoutFrame(node: MockNode): boolean {
+    return node.type === 'FRAME' && node.layoutMode !== 'NONE';
+  }
+
+  function syncLayoutSizingFromModes(frame: MockNode): void {
+    if (!isAutoLayoutFrame(frame)) return;
+    const horizontalMode = frame.layoutMode === 'HORIZONTAL' ? frame.primaryAxisSizingMode : frame.counterAxisSizingMode;
+    const verticalMode = frame.layoutMode === 'VERTICAL' ? frame.primaryAxisSizingMode : frame.counterAxisSizingMode;
+    if (frame.layoutSizingHorizontal !== 'FILL') frame.layoutSizingHorizontal = horizontalMode === 'AUTO' ? 'HUG' : 'FIXED';
+    if (frame.layoutSizingVertical !== 'FILL') frame.layoutSizingVertical = verticalMode === 'AUTO' ? 'HUG' : 'FIXED';
+  }
+
+  function resize(node: MockNode, width: number, height: number): void {
+    node.width = width;
+    node.height = height;
+    if (isAutoLayoutFrame(node)) {
+      node.primaryAxisSizingMode = 'FIXED';
+      node.counterAxisSizingMode = 'FIXED';
+      syncLayoutSizingFromModes(node);
+    }
+  }
+
+  function setLayoutMode(frame: MockNode, mode: MockNode['layoutMode']): void {
+    const wasNone = frame.layoutMode === 'NONE';
+    frame.layoutMode = mode;
+    if (wasNone && mode !== 'NONE') {
+      // Enabling auto-layout makes the frame hug its content
+      frame.primaryAxisSizingMode = 'AUTO';
+      frame.counterAxisSizingMode = 'AUTO';
+    }
+    syncLayoutSizingFromModes(frame);
+  }
+
+  function setLayoutSizing(node: MockNode, axis: 'horizontal' | 'vertical', value: 'FIXED' | 'HUG' | 'FILL'): void {
+    // Sizing is recorded even when it has no effect yet (e.g. HUG set in the same
+    // call that enables layoutMode) — layout() only honours it where Figma would
+    if (axis === 'horizontal') node.layoutSizingHorizontal = value;
+    else node.layoutSizingVertical = value;
+
+    if (isAutoLayoutFrame(node)) {
+      const isPrimary = (axis === 'horizontal') === (node.layoutMode === 'HORIZONTAL');
+      const mode = value === 'HUG' ? 'AUTO' : 'FIXED';
+      if (isPrimary) node.primaryAxisSizingMode = mode;
+      else node.counterAxisSizingMode = mode;
+    } else if (node.type === 'TEXT') {
+      if (axis === 'horizontal') {
+        if (value === 'HUG') node.textAutoResize = 'WIDTH_AND_HEIGHT';
+        else if (node.textAutoResize === 'WIDTH_AND_HEIGHT') node.textAutoResize = 'HEIGHT';
+      } else if (value === 'HUG' && node.textAutoResize === 'NONE') {
+        node.textAutoResize = 'HEIGHT';
+      }
+    }
+  }
+
+  function setTextAutoResize(text: MockNode, value: MockNode['textAutoResize']): void {
+    text.textAutoResize = value;
+    if (value === 'WIDTH_AND_HEIGHT') {
+      text.layoutSizingHorizontal = 'HUG';
+      text.layoutSizingVertical = 'HUG';
+    } else {
+      if (text.layoutSizingHorizontal === 'HUG') text.layoutSizingHorizontal = 'FIXED';
+      if (value === 'HEIGHT') text.layoutSizingVertical = 'HUG';
+      else if (text.layoutSizingVertical === 'HUG') text.layoutSizingVertical = 'FIXED';
+    }
+  }
+
+  function setFills(node: MockNode, fills: any[]): void {
+    node.fills = fills.map(normalizePaint);
+    if (node.textRuns) overrideTextRuns(node, { fills: node.fills });
+  }
+
+  // ─── Rich text runs ───
+
+  function nodeTextSegment(node: MockNode): SerializedTextRun {
+    return {
+      start: 0,
+      end: node.characters.length,
+      fontName: { ...node.fontName },
+      fontSize: node.fontSize,
+      fills: node.fills.map(normalizePaint),
+      textDecoration: node.textDecoration,
+    };
+  }
+
+  /**
+   * Merge neighbours with identical styling; a single segment means the text
+   * isn't mixed any more, like getStyledTextSegments returning one entry
+   */
+  function setTextSegments(node: MockNode, segments: SerializedTextRun[]): void {
+    const style = (s: SerializedTextRun) => JSON.stringify([s.fontName, s.fontSize, s.fills, s.textDecoration]);
+    const merged: SerializedTextRun[] = [];
+    for (const segment of segments) {
+      const last = merged[merged.length - 1];
+      if (last && style(last) === style(segment)) last.end = segment.end;
+      else merged.push({ ...segment });
+    }
+    node.textRuns = merged.length > 1 ? merged : undefined;
+  }
+
+  /**
+   * A node-level write (fontSize, fills, ...) applies to every run, as in Figma
+   */
+  function overrideTextRuns(node: MockNode, patch: Partial<SerializedTextRun>): void {
+    if (!node.textRuns) return;
+    setTextSegments(node, node.textRuns.map(run => ({ ...run, ...patch })));
+  }
+
+  /**
+   * Same contract as the plugin's applyTextRuns: style [start, end) ranges on top
+   * of the current styling, with createText's font fallback per run
+   */
+  function applyTextRuns(node: MockNode, runs: SerializedTextRun[]): Array<{ requested: FontName; applied: FontName }> {
+    const fallbacks: Array<{ requested: FontName; applied: FontName }> = [];
+    const length = node.characters.length;
+    let segments = node.textRuns ?? [nodeTextSegment(node)];
+
+    for (const run of runs) {
+      const start = Math.max(0, run.start);
+      const end = Math.min(length, run.end);
+      if (end <= start) continue;
+
+      const patch: Partial<SerializedTextRun> = {};
+      if (run.fontName) {
+        const applied = resolveFont(run.fontName.family, run.fontName.style);
+        if (applied.family !== run.fontName.family || applied.style !== run.fontName.style) {
+          fallbacks.push({ requested: run.fontName, applied });
+        }
+        patch.fontName = applied;
+      }
+      if (run.fontSize !== undefined) patch.fontSize = run.fontSize;
+      if (run.fills) patch.fills = run.fills.map(restorePaint).filter((p): p is SerializedPaint => p !== null);
+      if (run.textDecoration !== undefined) patch.textDecoration = run.textDecoration;
+
+      segments = segments.flatMap(segment => {
+        if (segment.end <= start || segment.start >= end) return [segment];
+        const parts: SerializedTextRun[] = [];
+        if (segment.start < start) parts.push({ ...segment, end: start });
+        parts.push({ ...segment, ...patch, start: Math.max(segment.start, start), end: Math.min(segment.end, end) });
+        if (segment.end > end) parts.push({ ...segment, start: end });
+        return parts;
+      });
+    }
+
+    setTextSegments(node, segments);
+    return fallbacks;
+  }
+
+  function setStrokes(node: MockNode, strokes: any[]): void {
+    node.strokes = strokes.map(normalizePaint);
+  }
+
+  function setEffects(node: MockNode, effects: any[]): void {
+    node.effects = effects.map(normalizeEffect);
+  }
+
+  /**
+   * Mirror of applyNodeProperties() in plugin/src/code.ts
+   */
+  function applyNodeProperties(node: MockNode, props: any): void {
+    if (props.x !== undefined) node.x = props.x;
+    if (props.y !== undefined) node.y = props.y;
+    if (props.width !== undefined || props.height !== undefined) {
+      resize(node, props.width ?? node.width, props.height ?? node.height);
+    }
+    if (props.rotation !== undefined) node.rotation = props.rotation;
+
+    if (props.fills !== undefined) setFills(node, props.fills);
+    if (props.strokes !== undefined) setStrokes(node, props.strokes);
+    if (props.strokeWeight !== undefined) node.strokeWeight = props.strokeWeight;
+    if (props.cornerRadius !== undefined) node.cornerRadius = props.cornerRadius;
+    if (props.effects !== undefined) setEffects(node, props.effects);
+    if (props.addEffects && Array.isArray(props.addEffects)) {
+      setEffects(node, [...node.effects, ...props.addEffects]);
+    }
+    if (props.opacity !== undefined) node.opacity = props.opacity;
+    if (props.visible !== undefined) node.visible = props.visible;
+    if (props.locked !== undefined) node.locked = props.locked;
+    if (props.name !== undefined) node.name = props.name;
+
+    if (props.layoutPositioning !== undefined) node.layoutPositioning = props.layoutPositioning;
+    if (props.layoutSizingHorizontal !== undefined) setLayoutSizing(node, 'horizontal', props.layoutSizingHorizontal);
+    if (props.layoutSizingVertical !== undefined) setLayoutSizing(node, 'vertical', props.layoutSizingVertical);
+
+    if (node.type === 'FRAME') {
+      if (props.layoutMode !== undefined) setLayoutMode(node, props.layoutMode);
+      if (props.itemSpacing !== undefined) node.itemSpacing = props.itemSpacing;
+      if (props.paddingTop !== undefined) node.paddingTop = props.paddingTop;
+      if (props.paddingRight !== undefined) node.paddingRight = props.paddingRight;
+      if (props.paddingBottom !== undefined) node.paddingBottom = props.paddingBottom;
+      if (props.paddingLeft !== undefined) node.paddingLeft = props.paddingLeft;
+      if (props.primaryAxisAlignItems !== undefined) node.primaryAxisAlignItems = props.primaryAxisAlignItems;
+      if (props.counterAxisAlignItems !== undefined) node.counterAxisAlignItems = props.counterAxisAlignItems;
+
+      const hasExplicitDims = props.width !== undefined || props.height !== undefined;
+      const isAutoLayout = props.layoutMode !== undefined && props.layoutMode !== 'NONE';
+      if (hasExplicitDims && isAutoLayout) {
+        if (props.primaryAxisSizingMode === undefined) node.primaryAxisSizingMode = 'FIXED';
+        if (props.counterAxisSizingMode === undefined) node.counterAxisSizingMode = 'FIXED';
+      }
+
+      if (props.primaryAxisSizingMode !== undefined) node.primaryAxisSizingMode = props.primaryAxisSizingMode;
+      if (props.counterAxisSizingMode !== undefined) node.counterAxisSizingMode = props.counterAxisSizingMode;
+      syncLayoutSizingFromModes(node);
+      if (props.clipsContent !== undefined) node.clipsContent = props.clipsContent;
+
+      if (hasExplicitDims && (isAutoLayout || props.primaryAxisSizingMode !== undefined || props.counterAxisSizingMode !== undefined)) {
+        node.width = props.width ?? node.width;
+        node.height = props.height ?? node.height;
+      }
+    }
+
+    if (node.type === 'TEXT') {
+      if (props.fontName !== undefined) {
+        loadFont(props.fontName);
+        node.fontName = { ...props.fontName };
+        overrideTextRuns(node, { fontName: node.fontName });
+      } else if (props.fontWeight !== undefined) {
+        const fontName = { family: node.fontName.family, style: mapWeightToStyle(props.fontWeight) };
+        loadFont(fontName);
+        node.fontName = fontName;
+        overrideTextRuns(node, { fontName });
+      }
+
+      if (props.fontSize !== undefined) {
+        node.fontSize = props.fontSize;
+        overrideTextRuns(node, { fontSize: props.fontSize });
+      }
+      if (props.characters !== undefined) {
+        // New characters take the style of the first one
+        if (node.textRuns && props.characters !== node.characters) {
+          const first = node.textRuns[0];
+          node.fontName = { ...first.fontName! };
+          node.fontSize = first.fontSize!;
+          node.fills = first.fills!.map(normalizePaint);
+          node.textDecoration = first.textDecoration!;
+          node.textRuns = undefined;
+        }
+        node.characters = props.characters;
+      }
+      if (props.textAlignHorizontal !== undefined) node.textAlignHorizontal = props.textAlignHorizontal;
+      if (props.textAlignVertical !== undefined) node.textAlignVertical = props.textAlignVertical;
+      if (props.textAutoResize !== undefined) setTextAutoResize(node, props.textAutoResize);
+      if (props.lineHeight !== undefined) node.lineHeight = { ...props.lineHeight };
+      if (props.letterSpacing !== undefined) node.letterSpacing = { ...props.letterSpacing };
+      if (props.textCase !== undefined) node.textCase = props.textCase;
+      if (props.textDecoration !== undefined) {
+        node.textDecoration = props.textDecoration;
+        overrideTextRuns(node, { textDecoration: props.textDecoration });
+      }
+    }
+  }
+
+  function mapWeightToStyle(weight: number): string {
+    if (weight <= 200) return 'Ultralight';
+    if (weight <= 300) return 'Light';
+    if (weight <= 400) return 'Regular';
+    if (weight <= 500) return 'Medium';
+    if (weight <= 600) return 'SemiBold';
+    if (weight <= 700) return 'Bold';
+    return 'Black';
+  }
+
+  function toNodeInfo(node: MockNode): NodeInfo {
+    return {
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      fontSize: node.type === 'TEXT' ? node.fontSize : undefined,
+      characters: node.type === 'TEXT' ? node.characters : undefined,
+    };
+  }
+
+  // ─── figma_call ───
+
+  function createText(opts: any): { id: string; fontApplied: FontName; runFontFallbacks?: Array<{ requested: FontName; applied: FontName }> } {
+    const text = graph.createNode('TEXT');
+
+    const requestedFamily = opts.fontFamily || (opts.fontName && opts.fontName.family) || 'Inter';
+    const requestedStyle = opts.fontStyle || (opts.fontName && opts.fontName.style) || 'Regular';
+    const font = resolveFont(requestedFamily, requestedStyle);
+    text.fontName = font;
+
+    if (opts.characters) text.characters = opts.characters;
+    if (opts.fontSize) text.fontSize = opts.fontSize;
+    if (opts.fontColor) {
+      setFills(text, [opts.fontOpacity !== undefined
+        ? { type: 'SOLID', color: opts.fontColor, opacity: opts.fontOpacity }
+        : { type: 'SOLID', color: opts.fontColor }]);
+    }
+    setTextAutoResize(text, opts.textAutoResize || 'WIDTH_AND_HEIGHT');
+
+    attach(text, opts.parentId, opts.insertIndex);
+    applyNodeProperties(text, opts);
+
+    const runFontFallbacks = Array.isArray(opts.textRuns) && opts.textRuns.length > 0
+      ? applyTextRuns(text, opts.textRuns)
+      : [];
+
+    return { id: text.id, fontApplied: font, runFontFallbacks: runFontFallbacks.length > 0 ? runFontFallbacks : undefined };
+  }
+
+  function createShape(type: string, opts: any): { id: string } {
+    const node = graph.createNode(type);
+    attach(node, opts.parentId, opts.insertIndex);
+    applyNodeProperties(node, opts);
+    return { id: node.id };
+  }
+
+  const figmaCallHandlers: Record<string, (...args: any[]) => any> = {
+    createFrame: (opts: any) => createShape('FRAME', opts),
+    createText,
+    createRectangle: (opts: any) => createShape('RECTANGLE', opts),
+    createEllipse: (opts: any) => createShape('ELLIPSE', opts),
+    getNodeById: (nodeId: string) => {
+      graph.layout();
+      return serializeMockNode(requireNode(nodeId), 2);
+    },
+    updateNode: (nodeId: string, props: any) => {
+      applyNodeProperties(requireNode(nodeId), props);
+      return { success: true };
+    },
+    deleteNode: (nodeId: string) => {
+      graph.removeNode(requireNode(nodeId));
+      return { success: true };
+    },
+    appendChild: (parentId: string, childId: string, index?: number) => {
+      const parent = getNode(parentId);
+      const child = getNode(childId);
+      if (!parent || !child) throw new Error('Parent or child node not found');
+      graph.appendChild(parent, child, index);
+      return { success: true };
+    },
+    cloneNode: (nodeId: string) => {
+      const clone = graph.cloneNode(requireNode(nodeId));
+      return { id: clone.id };
+    },
+  };
+
+  // ─── Checkpoint restore ───
+
+  function restorePaint(fill: SerializedPaint): SerializedPaint | null {
+    if (fill.type === 'SOLID' && fill.color) {
+      return normalizePaint({ type: 'SOLID', color: fill.color, opacity: fill.opacity, visible: fill.visible });
+    }
+    if (fill.type.startsWith('GRADIENT') && fill.gradientStops) {
+      return normalizePaint({
+        type: fill.type,
+        gradientStops: fill.gradientStops.map(s => ({ position: s.position, color: s.color })),
+        gradientTransform: fill.gradientTransform || [[1, 0, 0], [0, 1, 0]],
+        opacity: fill.opacity,
+        visible: fill.visible,
+      });
+    }
+    if (fill.type === 'IMAGE' && fill.imageHash && graph.images.has(fill.imageHash)) {
+      return normalizePaint({
+        type: 'IMAGE',
+        imageHash: fill.imageHash,
+        scaleMode: fill.scaleMode || 'FILL',
+        imageTransform: fill.imageTransform || [[1, 0, 0], [0, 1, 0]],
+        opacity: fill.opacity,
+        visible: fill.visible,
+      });
+    }
+    return null;
+  }
+
+  function restoreEffect(data: SerializedEffect): SerializedEffect {
+    const base: SerializedEffect = { type: data.type, visible: data.visible ?? true };
+    if (data.radius !== undefined) base.radius = data.radius;
+    if (data.color !== undefined) base.color = data.color;
+    if (data.offset !== undefined) base.offset = data.offset;
+    if (data.spread !== undefined) base.spread = data.spread;
+    if (data.blendMode !== undefined) base.blendMode = data.blendMode;
+    else if (data.type === 'DROP_SHADOW' || data.type === 'INNER_SHADOW') base.blendMode = 'NORMAL';
+    return base;
+  }
+
+  /**
+   * Mirror of restoreNodeProperties() in plugin/src/serialization.ts. geometry:
+   * false is for instance layers; groups and boolean operations keep their saved
+   * bounds here, since the mock doesn't derive them.
+   */
+  function restoreNodeProperties(node: MockNode, data: SerializedNode, opts: { geometry?: boolean } = {}): void {
+    if (data.name) node.name = data.name;
+    if (opts.geometry ?? true) {
+      if (data.x !== undefined) node.x = data.x;
+      if (data.y !== undefined) node.y = data.y;
+      if (data.width !== undefined && data.height !== undefined) resize(node, data.width, node.type === 'LINE' ? 0 : data.height);
+      if (data.rotation !== undefined) node.rotation = data.rotation;
+    }
+    if (data.visible === false) node.visible = false;
+    if (data.locked === true) node.locked = true;
+    if (data.opacity !== undefined) node.opacity = data.opacity;
+
+    if (data.fills) {
+      const restored = data.fills.map(restorePaint).filter((p): p is SerializedPaint => p !== null);
+      if (restored.length > 0 || data.fills.length === 0) node.fills = restored;
+    }
+    if (data.strokes) {
+      const restored = data.strokes.map(restorePaint).filter((p): p is SerializedPaint => p !== null);
+      if (restored.length > 0 || data.strokes.length === 0) node.strokes = restored;
+    }
+    if (data.strokeWeight !== undefined) node.strokeWeight = data.strokeWeight;
+    if (data.cornerRadius !== undefined) node.cornerRadius = data.cornerRadius;
+    if (data.effects) node.effects = data.effects.map(restoreEffect);
+
+    if (data.strokeAlign !== undefined) node.strokeAlign = data.strokeAlign;
+    if (data.strokeCap !== undefined) node.strokeCap = data.strokeCap;
+    if (data.strokeJoin !== undefined) node.strokeJoin = data.strokeJoin;
+    if (data.dashPattern !== undefined) node.dashPattern = [...data.dashPattern];
+    if (data.cornerRadii !== undefined) node.cornerRadii = [...data.cornerRadii];
+    if (data.blendMode !== undefined) node.blendMode = data.blendMode;
+    if (data.constraints !== undefined) node.constraints = { ...data.constraints };
+
+    if (data.layoutPositioning !== undefined) node.layoutPositioning = data.layoutPositioning;
+
+    if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'INSTANCE') {
+      if (data.layoutMode !== undefined && data.layoutMode !== 'GRID') setLayoutMode(node, data.layoutMode);
+      if (data.layoutMode && data.layoutMode !== 'NONE') {
+        if (data.itemSpacing !== undefined) node.itemSpacing = data.itemSpacing;
+        if (data.paddingTop !== undefined) node.paddingTop = data.paddingTop;
+        if (data.paddingRight !== undefined) node.paddingRight = data.paddingRight;
+        if (data.paddingBottom !== undefined) node.paddingBottom = data.paddingBottom;
+        if (data.paddingLeft !== undefined) node.paddingLeft = data.paddingLeft;
+        if (data.primaryAxisAlignItems !== undefined) node.primaryAxisAlignItems = data.primaryAxisAlignItems;
+        if (data.counterAxisAlignItems !== undefined) node.counterAxisAlignItems = data.counterAxisAlignItems;
+        if (data.primaryAxisSizingMode !== undefined) node.primaryAxisSizingMode = data.primaryAxisSizingMode;
+        if (data.counterAxisSizingMode !== undefined) node.counterAxisSizingMode = data.counterAxisSizingMode;
+        syncLayoutSizingFromModes(node);
+      }
+      if (data.clipsContent !== undefined) node.clipsContent = data.clipsContent;
+      if (data.width !== undefined && data.height !== undefined) {
+        node.width = data.width;
+        node.height = data.height;
+      }
+    }
+
+    // Layout sizing — last, as the plugin does for frames (after layoutMode and resize)
+    if (data.layoutSizingHorizontal !== undefined) {
+      setLayoutSizing(node, 'horizontal', data.layoutSizingHorizontal);
+    }
+    if (data.layoutSizingVertical !== undefined) {
+      setLayoutSizing(node, 'vertical', data.layoutSizingVertical);
+    }
+
+    if (node.type === 'TEXT') {
+      if (data.fontName) {
+        try {
+          loadFont(data.fontName);
+          node.fontName = { ...data.fontName };
+        } catch {
+          // Fallback — font already set in rebuildNode
+        }
+      }
+      if (data.characters !== undefined) {
+        node.characters = data.characters;
+        node.textRuns = undefined;
+      }
+      if (data.fontSize !== undefined) node.fontSize = data.fontSize;
+      if (data.textAlignHorizontal !== undefined) node.textAlignHorizontal = data.textAlignHorizontal;
+      if (data.textAlignVertical !== undefined) node.textAlignVertical = data.textAlignVertical;
+      if (data.textAutoResize !== undefined) setTextAutoResize(node, data.textAutoResize);
+      if (data.lineHeight !== undefined) node.lineHeight = { ...data.lineHeight };
+      if (data.letterSpacing !== undefined) node.letterSpacing = { ...data.letterSpacing };
+      if (data.textCase !== undefined) node.textCase = data.textCase;
+      if (data.textDecoration !== undefined) node.textDecoration = data.textDecoration;
+
+      if (data.textRuns && data.textRuns.length > 0) applyTextRuns(node, data.textRuns);
+    }
+  }
+
+  /**
+   * Same contract as the plugin's ensureImages: create missing images from the
+   * bytes provided, return the hashes still missing
+   */
+  function ensureImages(serialized: SerializedNode, images: Record<string, string>): string[] {
+    const hashes = new Set<string>();
+    const walk = (data: SerializedNode) => {
+      const paints = [
+        ...(data.fills ?? []),
+        ...(data.strokes ?? []),
+        ...(data.textRuns ?? []).flatMap(run => run.fills ?? []),
+        ...(data.vectorNetwork?.regions ?? []).flatMap(region => region.fills ?? []),
+      ];
+      for (const paint of paints) if (paint.type === 'IMAGE' && paint.imageHash) hashes.add(paint.imageHash);
+      (data.children ?? []).forEach(walk);
+    };
+    walk(serialized);
+
+    const missing: string[] = [];
+    for (const hash of hashes) {
+      if (graph.images.has(hash)) continue;
+      if (images[hash]) graph.createImage(Buffer.from(images[hash], 'base64'));
+      else missing.push(hash);
+    }
+    return missing;
+  }
+
+  function rebuildNode(data: SerializedNode, parent: MockNode, warnings: string[]): MockNode {
+    let node: MockNode;
+
+    switch (data.type) {
+      case 'FRAME':
+      case 'COMPONENT':
+      case 'COMPONENT_SET':
+      case 'GROUP':
+      case 'BOOLEAN_OPERATION': {
+        node = graph.createNode(data.type);
+        graph.appendChild(parent, node);
+        restoreNodeProperties(node, data);
+        for (const childData of data.children ?? []) {
+          rebuildNode(childData, node, warnings);
+        }
+        break;
+      }
+      case 'INSTANCE': {
+        const main = data.mainComponentId ? getNode(data.mainComponentId) : undefined;
+        if (!main || main.type !== 'COMPONENT') {
+          warnings.push(`Instance "${data.name}": main component not found — restored as a detached frame`);
+          return rebuildNode({ ...data, type: 'FRAME', mainComponentId: undefined, componentKey: undefined, componentProperties: undefined }, parent, warnings);
+        }
+        node = graph.createNode('INSTANCE');
+        graph.appendChild(parent, node);
+        restoreNodeProperties(node, data);
+        for (const childData of data.children ?? []) {
+          rebuildNode(childData, node, warnings);
+        }
+        break;
+      }
+      case 'TEXT': {
+        node = graph.createNode('TEXT');
+        const family = data.fontName?.family || 'Inter';
+        const style = data.fontName?.style || 'Regular';
+        try {
+          loadFont({ family, style });
+          node.fontName = { family, style };
+        } catch {
+          node.fontName = { family: 'Inter', style: 'Regular' };
+        }
+        graph.appendChild(parent, node);
+        restoreNodeProperties(node, data);
+        break;
+      }
+      case 'RECTANGLE':
+      case 'ELLIPSE':
+      case 'LINE':
+      case 'POLYGON':
+      case 'STAR':
+      case 'VECTOR': {
+        node = graph.createNode(data.type);
+        graph.appendChild(parent, node);
+        if (data.vectorNetwork) node.vectorNetwork = JSON.parse(JSON.stringify(data.vectorNetwork));
+        if (data.vectorPaths) node.vectorPaths = data.vectorPaths.map(p => ({ ...p }));
+        if (data.pointCount !== undefined) node.pointCount = data.pointCount;
+        if (data.innerRadius !== undefined) node.innerRadius = data.innerRadius;
+        restoreNodeProperties(node, data);
+        break;
+      }
+      default: {
+        node = graph.createNode('RECTANGLE');
+        graph.appendChild(parent, node);
+        node.name = `[${data.type}] ${data.name}`;
+        resize(node, data.width || 100, data.height || 100);
+        node.x = data.x || 0;
+        node.y = data.y || 0;
+        warnings.push(`${data.type} "${data.name}" can't be rebuilt — placeholder rectangle`);
+        break;
+      }
+    }
+
+    if (data.booleanOperation !== undefined) node.booleanOperation = data.booleanOperation;
+    if (data.mainComponentId !== undefined) node.mainComponentId = data.mainComponentId;
+    if (data.componentKey !== undefined) node.componentKey = data.componentKey;
+    if (data.componentProperties !== undefined) node.componentProperties = { ...data.componentProperties };
+    if (data.componentPropertyDefinitions !== undefined) node.componentPropertyDefinitions = JSON.parse(JSON.stringify(data.componentPropertyDefinitions));
+    if (data.componentPropertyReferences !== undefined) node.componentPropertyReferences = { ...data.componentPropertyReferences };
+    return node;
+  }
+
+  // ─── batch_operations ───
+
+  function resolveVarRef(ref: string | null | undefined, variables: Map<string, string>): string | null {
+    if (ref === null || ref === undefined) return null;
+    if (ref.startsWith('$')) {
+      const resolved = variables.get(ref.substring(1));
+      if (!resolved) throw new Error(`Unresolved variable: ${ref}`);
+      return resolved;
+    }
+    return ref;
+  }
+
+  function runBatchOperations(operations: Extract<PluginCommand, { type: 'batch_operations' }>['operations']) {
+    const variables = new Map<string, string>();
+    const results: Array<{ op: string; variable?: string; nodeId?: string; success: boolean; error?: string }> = [];
+
+    for (const op of operations) {
+      try {
+        switch (op.op) {
+          case 'CREATE_FRAME':
+          case 'CREATE_RECT': {
+            const node = graph.createNode(op.op === 'CREATE_FRAME' ? 'FRAME' : 'RECTANGLE');
+            attach(node, resolveVarRef(op.parent, variables));
+            if (op.props) applyNodeProperties(node, op.props);
+            if (op.variable) variables.set(op.variable, node.id);
+            results.push({ op: op.op, variable: op.variable, nodeId: node.id, success: true });
+            break;
+          }
+
+          case 'CREATE_TEXT': {
+            const text = graph.createNode('TEXT');
+            text.fontName = resolveFont(op.fontFamily || 'Inter', op.fontStyle || 'Regular');
+
+            const props = { ...(op.props ?? {}) };
+            if (props.characters) {
+              text.characters = props.characters;
+              delete props.characters;
+            }
+            if (props.fontSize) {
+              text.fontSize = props.fontSize;
+              delete props.fontSize;
+            }
+
+            attach(text, resolveVarRef(op.parent, variables));
+            applyNodeProperties(text, props);
+            if (op.variable) variables.set(op.variable, text.id);
+            results.push({ op: op.op, variable: op.variable, nodeId: text.id, success: true });
+            break;
+          }
+
+          case 'SET_IMAGE_FILL': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('SET_IMAGE_FILL: missing node reference');
+            const node = getNode(nodeId);
+            if (!node) throw new Error(`SET_IMAGE_FILL: node not found: ${nodeId}`);
+            if (!op.base64) throw new Error('SET_IMAGE_FILL: missing image data');
+            const hash = graph.createImage(Buffer.from(op.base64, 'base64'));
+            setFills(node, [{ type: 'IMAGE', scaleMode: op.scaleMode || 'FILL', imageHash: hash }]);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'TRIM': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('TRIM: missing node reference');
+            if (!getNode(nodeId)) throw new Error(`TRIM: node not found: ${nodeId}`);
+            // No-op, same as the plugin — place_product trims on the backend
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'UPDATE': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('UPDATE: missing node reference');
+            const node = getNode(nodeId);
+            if (!node) throw new Error(`UPDATE: node not found: ${nodeId}`);
+            if (op.props) applyNodeProperties(node, op.props);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'SET_GRADIENT': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('SET_GRADIENT: missing node reference');
+            const node = getNode(nodeId);
+            if (!node) throw new Error(`SET_GRADIENT: node not found: ${nodeId}`);
+            const gradientType = op.props?.gradientType || 'GRADIENT_LINEAR';
+            setFills(node, [{
+              type: gradientType.startsWith('GRADIENT_') ? gradientType : `GRADIENT_${gradientType}`,
+              gradientStops: (op.props?.gradientStops || []).map((s: any) => ({ position: s.position, color: s.color })),
+              gradientTransform: op.props?.gradientTransform || [[1, 0, 0], [0, 1, 0]],
+            }]);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'ADD_EFFECT': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('ADD_EFFECT: missing node reference');
+            const node = getNode(nodeId);
+            if (!node) throw new Error(`ADD_EFFECT: node not found: ${nodeId}`);
+            const effect: any = { type: op.props?.type || 'DROP_SHADOW', visible: true };
+            if (op.props?.radius !== undefined) effect.radius = op.props.radius;
+            if (op.props?.color) effect.color = op.props.color;
+            if (op.props?.offset) effect.offset = op.props.offset;
+            if (op.props?.spread !== undefined) effect.spread = op.props.spread;
+            setEffects(node, [...node.effects, effect]);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'DELETE': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            if (!nodeId) throw new Error('DELETE: missing node reference');
+            const node = getNode(nodeId);
+            if (!node) throw new Error(`DELETE: node not found: ${nodeId}`);
+            graph.removeNode(node);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          case 'REPARENT': {
+            const nodeId = resolveVarRef(op.nodeId, variables);
+            const newParentId = resolveVarRef(op.newParent, variables);
+            if (!nodeId) throw new Error('REPARENT: missing node reference');
+            if (!newParentId) throw new Error('REPARENT: missing new parent reference');
+            const node = getNode(nodeId);
+            const newParent = getNode(newParentId);
+            if (!node) throw new Error(`REPARENT: node not found: ${nodeId}`);
+            if (!newParent) throw new Error(`REPARENT: parent not found: ${newParentId}`);
+            graph.appendChild(newParent, node, op.index);
+            results.push({ op: op.op, nodeId, success: true });
+            break;
+          }
+
+          default:
+            results.push({ op: op.op, success: false, error: `Unknown operation: ${op.op}` });
+        }
+      } catch (error: any) {
+        results.push({ op: op.op, variable: op.variable, success: false, error: error.message || String(error) });
+        // Stop on first error — return partial results
+        break;
+      }
+    }
+
+    return {
+      results,
+      variableBindings: Object.fromEntries(variables),
+      errors: results.filter(r => !r.success),
+    };
+  }
+
+  // ─── Dispatch ───
+
+  async function run(command: PluginCommand): Promise<any> {
+    switch (command.type) {
+      case 'figma_call': {
+        const handler = figmaCallHandlers[command.method];
+        if (!handler) throw new Error(`Unknown method: ${command.method}`);
+        return handler(...command.args);
+      }
+
+      case 'export_node': {
+        graph.layout();
+        const node = requireNode(command.nodeId);
+        const bytes = await rasterizeNode(graph, node, command.format, command.scale);
+        return { base64: bytes.toString('base64') };
+      }
+
+      case 'get_state':
+        return {
+          pageId: graph.page.id,
+          pageName: graph.page.name,
+          selection: graph.selection.map(toNodeInfo),
+        };
+
+      case 'get_selection':
+        return graph.selection.map(toNodeInfo);
+
+      case 'serialize_frame': {
+        graph.layout();
+        return serializeMockNode(requireNode(command.frameId, 'Frame'), 10);
+      }
+
+      case 'restore_checkpoint': {
+        const target = requireNode(command.frameId, 'Frame');
+        const warnings: string[] = [];
+        const missingImages = ensureImages(command.serialized, command.images ?? {});
+        if (missingImages.length > 0) {
+          warnings.push(`${missingImages.length} image fill${missingImages.length === 1 ? '' : 's'} skipped — image not in this file and no bytes stored`);
+        }
+        for (const child of [...target.children]) {
+          graph.removeNode(child);
+        }
+        restoreNodeProperties(target, command.serialized);
+        for (const childData of command.serialized.children ?? []) {
+          rebuildNode(childData, target, warnings);
+        }
+        return {
+          success: true,
+          frameId: command.frameId,
+          childrenRestored: command.serialized.children?.length ?? 0,
+          missingImages: missingImages.length > 0 ? missingImages : undefined,
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
+
+      case 'image_data': {
+        const node = requireNode(command.targetNodeId, 'Target node');
+        const hash = graph.createImage(Buffer.from(command.base64, 'base64'));
+        setFills(node, [{ type: 'IMAGE', scaleMode: command.scaleMode, imageHash: hash }]);
+        return { success: true, imageHash: hash };
+      }
+
+      case 'batch_update': {
+        const errors: Array<{ nodeId: string; error: string }> = [];
+        for (const update of command.updates) {
+          const node = getNode(update.nodeId);
+          if (!node) {
+            errors.push({ nodeId: update.nodeId, error: `Node not found: ${update.nodeId}` });
+            continue;
+          }
+          try {
+            applyNodeProperties(node, update.properties);
+          } catch (error: any) {
+            errors.push({ nodeId: update.nodeId, error: error.message || String(error) });
+          }
+        }
+        return {
+          success: errors.length === 0,
+          updated: command.updates.length - errors.length,
+          errors,
+        };
+      }
+
+      case 'batch_operations':
+        return runBatchOperations(command.operations);
+
+      case 'measure_text': {
+        const fontApplied = resolveFont(command.fontFamily, command.fontStyle);
+        return {
+          widths: command.texts.map(text => text ? measureText(text, { fontSize: command.fontSize }).width : 0),
+          lineHeight: lineHeightPx(command.fontSize, { unit: 'AUTO' }),
+          fontApplied,
+        };
+      }
+
+      case 'read_images': {
+        const images: Record<string, string> = {};
+        const missing: string[] = [];
+        for (const hash of command.hashes) {
+          const bytes = graph.images.get(hash);
+          if (bytes) images[hash] = bytes.toString('base64');
+          else missing.push(hash);
+        }
+        return { images, missing };
+      }
+
+      case 'find_missing_images':
+        return { missing: command.hashes.filter(hash => !graph.images.has(hash)) };
+
+      default: {
+        const unhandled = command as PluginCommand;
+        throw new Error(`Unknown command type: ${(unhandled as any).type}`);
+      }
+    }
+  }
+
+  return {
+    graph,
+
+    async execute(command: PluginCommand): Promise<PluginResponse> {
+      try {
+        const data = await run(command);
+        // Figma re-runs layout before the next read — do the same after every mutation
+        graph.layout();
+        return { type: 'result', id: command.id, data };
+      } catch (error: any) {
+        graph.layout();
+        return { type: 'error', id: command.id, error: error.message || String(error) };
+      }
+    },
+  };
+}
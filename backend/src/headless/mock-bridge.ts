@@ -0,0 +1,146 @@
+/**
+ * Headless bridges — run tools without Figma
+ *
+ * Two ways to plug the mock executor in:
+ * - createMockBridge(): a direct Bridge implementation. Tools call sendCommand()
+ *   and the executor answers in-process. Used by the smoke script and CI.
+ * - connectMockPlugin(): a WebSocket client that connects to a running backend
+ *   the same way plugin/src/ui.ts does and answers every PluginCommand.
+ *   Run directly (`npm run mock-plugin`) to drive the full agent without Figma.
+ */
+
+import { WebSocket } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { pathToFileURL } from 'url';
+import type { PluginCommand, UIUpdate, UserAction } from '../../../shared/protocol.js';
+import { isPluginCommand, isUIUpdate } from '../../../shared/protocol.js';
+import type { Bridge } from '../bridge.js';
+import { createMockExecutor } from './executor.js';
+import type { MockExecutor, MockExecutorOptions } from './executor.js';
+
+export interface MockBridge extends Bridge {
+  executor: MockExecutor;
+  /** Every UI update sent through the bridge, in order */
+  uiUpdates: UIUpdate[];
+  /** Every command executed through the bridge, in order */
+  commands: PluginCommand[];
+}
+
+export function createMockBridge(options: MockExecutorOptions = {}): MockBridge {
+  const executor = createMockExecutor(options);
+  const uiUpdates: UIUpdate[] = [];
+  const commands: PluginCommand[] = [];
+  let userMessageHandler: ((action: UserAction) => void) | null = null;
+  let connected = true;
+
+  return {
+    executor,
+    uiUpdates,
+    commands,
+
+    async sendCommand(command: Parameters<Bridge['sendCommand']>[0]): Promise<any> {
+      if (!connected) {
+        throw new Error('WebSocket not connected');
+      }
+
+      // Round-trip through JSON so tools see exactly what the wire would deliver
+      const fullCommand = JSON.parse(JSON.stringify({ ...command, id: uuidv4() })) as PluginCommand;
+      commands.push(fullCommand);
+
+      const response = JSON.parse(JSON.stringify(await executor.execute(fullCommand)));
+      if (response.type === 'error') {
+        throw new Error(response.error);
+      }
+      return response.data;
+    },
+
+    handleResponse(): void {
+      // Responses are delivered synchronously by sendCommand — nothing to correlate
+    },
+
+    sendUIUpdate(update: UIUpdate): void {
+      uiUpdates.push(update);
+    },
+
+    onUserMessage(handler: (action: UserAction) => void): void {
+      userMessageHandler = handler;
+    },
+
+    triggerUserMessage(action: UserAction): void {
+      if (userMessageHandler) {
+        userMessageHandler(action);
+      } else {
+        console.warn('[MockBridge] No user message handler registered');
+      }
+    },
+
+    isConnected(): boolean {
+      return connected;
+    },
+
+    close(): void {
+      connected = false;
+    },
+  };
+}
+
+/**
+ * Connect to a running backend as if we were the Figma plugin UI.
+ * Resolves once the socket is open; commands are answered until it closes.
+ */
+export function connectMockPlugin(
+  url: string,
+  options: MockExecutorOptions & { onUIUpdate?: (update: UIUpdate) => void } = {},
+): Promise<{ socket: WebSocket; executor: MockExecutor }> {
+  const executor = createMockExecutor(options);
+  const socket = new WebSocket(url);
+
+  socket.on('message', async (data: Buffer) => {
+    let message: any;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      console.warn('[MockPlugin] Ignoring non-JSON message');
+      return;
+    }
+
+    if (isPluginCommand(message)) {
+      const response = await executor.execute(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(response));
+      }
+      return;
+    }
+
+    if (isUIUpdate(message)) {
+      options.onUIUpdate?.(message);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve({ socket, executor }));
+    socket.once('error', reject);
+  });
+}
+
+// Run standalone: tsx src/headless/mock-bridge.ts [ws://localhost:3001]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const url = process.argv[2] || `ws://localhost:${process.env.PORT || '3001'}`;
+  connectMockPlugin(url, {
+    onUIUpdate: update => {
+      if (update.type === 'agent_text') process.stdout.write(update.content);
+      if (update.type === 'tool_start') console.log(`\n[tool] ${update.tool}`);
+    },
+  })
+    .then(({ socket }) => {
+      console.log(`[MockPlugin] Connected to ${url}`);
+      socket.on('close', () => {
+        console.log('[MockPlugin] Disconnected');
+        process.exit(0);
+      });
+    })
+    .catch(error => {
+      console.error(`[MockPlugin] Failed to connect to ${url}:`, error.message);
+      process.exit(1);
+    });
+}
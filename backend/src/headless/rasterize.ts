@@ -0,0 +1,291 @@
+/**
+ * Placeholder rasterizer for headless export_node
+ *
+ * Paints a MockNode subtree into an RGBA buffer and encodes it with sharp.
+ * Good enough for pixel-level checks (background colour behind text, product
+ * placement, image fills) — not a faithful renderer:
+ * - SOLID, GRADIENT_* (linear interpolation via gradientTransform) and IMAGE fills
+ * - ELLIPSE masking and clipsContent clipping
+ * - Text is drawn as one solid bar per line in the text colour
+ * - Strokes, effects, corner radius and rotation are ignored
+ *
+ * SVG export returns a simple <svg> document with one element per node.
+ */
+
+import sharp from 'sharp';
+import type { SerializedPaint } from '../../../shared/protocol.js';
+import { measureText, lineHeightPx } from './scene-graph.js';
+import type { SceneGraph, MockNode } from './scene-graph.js';
+
+interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface Canvas {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export async function rasterizeNode(
+  graph: SceneGraph,
+  node: MockNode,
+  format: 'PNG' | 'SVG' | 'JPG',
+  scale: number,
+): Promise<Buffer> {
+  if (format === 'SVG') {
+    return Buffer.from(renderSvg(node));
+  }
+
+  const width = Math.max(1, Math.round(node.width * scale));
+  const height = Math.max(1, Math.round(node.height * scale));
+  const canvas: Canvas = { width, height, data: Buffer.alloc(width * height * 4) };
+
+  await paintNode(graph, canvas, node, -node.x, -node.y, scale, 1, { x0: 0, y0: 0, x1: width, y1: height });
+
+  const image = sharp(canvas.data, { raw: { width, height, channels: 4 } });
+  return format === 'JPG'
+    ? image.flatten({ background: '#ffffff' }).jpeg().toBuffer()
+    : image.png().toBuffer();
+}
+
+async function paintNode(
+  graph: SceneGraph,
+  canvas: Canvas,
+  node: MockNode,
+  offsetX: number,
+  offsetY: number,
+  scale: number,
+  parentOpacity: number,
+  clip: Rect,
+): Promise<void> {
+  if (!node.visible) return;
+
+  const absX = offsetX + node.x;
+  const absY = offsetY + node.y;
+  const box: Rect = {
+    x0: absX * scale,
+    y0: absY * scale,
+    x1: (absX + node.width) * scale,
+    y1: (absY + node.height) * scale,
+  };
+  const opacity = parentOpacity * node.opacity;
+
+  if (node.type === 'TEXT') {
+    paintText(canvas, node, box, scale, opacity, clip);
+    return;
+  }
+
+  for (const paint of node.fills) {
+    if (paint.visible === false) continue;
+    await paintFill(graph, canvas, node, paint, box, opacity, clip);
+  }
+
+  const childClip = node.clipsContent ? intersect(clip, box) : clip;
+  for (const child of node.children) {
+    await paintNode(graph, canvas, child, absX, absY, scale, opacity, childClip);
+  }
+}
+
+async function paintFill(
+  graph: SceneGraph,
+  canvas: Canvas,
+  node: MockNode,
+  paint: SerializedPaint,
+  box: Rect,
+  opacity: number,
+  clip: Rect,
+): Promise<void> {
+  const alpha = opacity * (paint.opacity ?? 1);
+  const ellipse = node.type === 'ELLIPSE';
+
+  if (paint.type === 'SOLID' && paint.color) {
+    const { r, g, b } = paint.color;
+    fillRect(canvas, box, clip, ellipse, () => [r, g, b, alpha]);
+    return;
+  }
+
+  if (paint.type.startsWith('GRADIENT') && paint.gradientStops?.length) {
+    const stops = [...paint.gradientStops].sort((a, b) => a.position - b.position);
+    const [[a, b, c]] = paint.gradientTransform ?? [[1, 0, 0], [0, 1, 0]];
+    const w = box.x1 - box.x0;
+    const h = box.y1 - box.y0;
+    fillRect(canvas, box, clip, ellipse, (px, py) => {
+      const u = (px - box.x0) / w;
+      const v = (py - box.y0) / h;
+      const color = sampleStops(stops, a * u + b * v + c);
+      return [color.r, color.g, color.b, color.a * alpha];
+    });
+    return;
+  }
+
+  if (paint.type === 'IMAGE' && paint.imageHash) {
+    const bytes = graph.images.get(paint.imageHash);
+    if (!bytes) return;
+    const w = Math.max(1, Math.round(box.x1 - box.x0));
+    const h = Math.max(1, Math.round(box.y1 - box.y0));
+    const { data } = await sharp(bytes)
+      .resize(w, h, {
+        fit: paint.scaleMode === 'FIT' ? 'contain' : 'cover',
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const left = Math.round(box.x0);
+    const top = Math.round(box.y0);
+    fillRect(canvas, box, clip, ellipse, (px, py) => {
+      const i = ((py - top) * w + (px - left)) * 4;
+      if (i < 0 || i >= data.length) return [0, 0, 0, 0];
+      return [data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, (data[i + 3] / 255) * alpha];
+    });
+  }
+}
+
+function paintText(canvas: Canvas, node: MockNode, box: Rect, scale: number, opacity: number, clip: Rect): void {
+  const paint = node.fills.find(p => p.visible !== false && p.type === 'SOLID' && p.color);
+  if (!paint?.color || !node.characters) return;
+
+  const { r, g, b } = paint.color;
+  const alpha = opacity * (paint.opacity ?? 1);
+  const maxWidth = node.textAutoResize === 'WIDTH_AND_HEIGHT' ? undefined : node.width;
+  const { lines } = measureText(node.characters, { ...node, maxWidth });
+  const lineHeight = lineHeightPx(node.fontSize, node.lineHeight) * scale;
+  const capHeight = node.fontSize * 0.7 * scale;
+
+  lines.forEach((line, i) => {
+    const lineWidth = measureText(line, node).width * scale;
+    const boxWidth = box.x1 - box.x0;
+    let x0 = box.x0;
+    if (node.textAlignHorizontal === 'CENTER') x0 += (boxWidth - lineWidth) / 2;
+    else if (node.textAlignHorizontal === 'RIGHT') x0 += boxWidth - lineWidth;
+
+    const y0 = box.y0 + i * lineHeight + (lineHeight - capHeight) / 2;
+    const bar: Rect = { x0, y0, x1: x0 + lineWidth, y1: y0 + capHeight };
+    fillRect(canvas, bar, clip, false, () => [r, g, b, alpha]);
+  });
+}
+
+// ─── Pixel helpers ───
+
+function fillRect(
+  canvas: Canvas,
+  rect: Rect,
+  clip: Rect,
+  ellipse: boolean,
+  colorAt: (px: number, py: number) => [number, number, number, number],
+): void {
+  const area = intersect(intersect(rect, clip), { x0: 0, y0: 0, x1: canvas.width, y1: canvas.height });
+  const cx = (rect.x0 + rect.x1) / 2;
+  const cy = (rect.y0 + rect.y1) / 2;
+  const rx = (rect.x1 - rect.x0) / 2;
+  const ry = (rect.y1 - rect.y0) / 2;
+
+  for (let py = Math.round(area.y0); py < Math.round(area.y1); py++) {
+    for (let px = Math.round(area.x0); px < Math.round(area.x1); px++) {
+      if (ellipse) {
+        const dx = (px + 0.5 - cx) / rx;
+        const dy = (py + 0.5 - cy) / ry;
+        if (dx * dx + dy * dy > 1) continue;
+      }
+      blend(canvas, px, py, colorAt(px, py));
+    }
+  }
+}
+
+/** Source-over compositing of a straight-alpha colour onto the canvas */
+function blend(canvas: Canvas, px: number, py: number, [r, g, b, a]: [number, number, number, number]): void {
+  if (a <= 0) return;
+  const i = (py * canvas.width + px) * 4;
+  const d = canvas.data;
+  const dstA = d[i + 3] / 255;
+  const outA = a + dstA * (1 - a);
+  if (outA <= 0) return;
+  const mix = (src: number, dst: number) => (src * a + (dst / 255) * dstA * (1 - a)) / outA;
+  d[i] = Math.round(mix(r, d[i]) * 255);
+  d[i + 1] = Math.round(mix(g, d[i + 1]) * 255);
+  d[i + 2] = Math.round(mix(b, d[i + 2]) * 255);
+  d[i + 3] = Math.round(outA * 255);
+}
+
+function intersect(a: Rect, b: Rect): Rect {
+  return {
+    x0: Math.max(a.x0, b.x0),
+    y0: Math.max(a.y0, b.y0),
+    x1: Math.min(a.x1, b.x1),
+    y1: Math.min(a.y1, b.y1),
+  };
+}
+
+function sampleStops(
+  stops: NonNullable<SerializedPaint['gradientStops']>,
+  t: number,
+): { r: number; g: number; b: number; a: number } {
+  if (t <= stops[0].position) return stops[0].color;
+  const last = stops[stops.length - 1];
+  if (t >= last.position) return last.color;
+
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    if (t <= to.position) {
+      const f = (t - from.position) / (to.position - from.position || 1);
+      return {
+        r: from.color.r + (to.color.r - from.color.r) * f,
+        g: from.color.g + (to.color.g - from.color.g) * f,
+        b: from.color.b + (to.color.b - from.color.b) * f,
+        a: from.color.a + (to.color.a - from.color.a) * f,
+      };
+    }
+  }
+  return last.color;
+}
+
+// ─── SVG ───
+
+function toCss(color: { r: number; g: number; b: number }): string {
+  const c = (v: number) => Math.round(v * 255);
+  return `rgb(${c(color.r)},${c(color.g)},${c(color.b)})`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function renderSvg(root: MockNode): string {
+  const parts: string[] = [];
+
+  const visit = (node: MockNode, offsetX: number, offsetY: number) => {
+    if (!node.visible) return;
+    const x = offsetX + node.x;
+    const y = offsetY + node.y;
+    const fill = node.fills.find(p => p.visible !== false && p.type === 'SOLID' && p.color);
+    const fillAttr = fill?.color ? toCss(fill.color) : 'none';
+
+    if (node.type === 'TEXT') {
+      parts.push(
+        `<text x="${x}" y="${y + node.fontSize}" font-family="${escapeXml(node.fontName.family)}" ` +
+        `font-size="${node.fontSize}" fill="${fillAttr}">${escapeXml(node.characters)}</text>`,
+      );
+      return;
+    }
+    if (node.type === 'ELLIPSE') {
+      parts.push(
+        `<ellipse cx="${x + node.width / 2}" cy="${y + node.height / 2}" ` +
+        `rx="${node.width / 2}" ry="${node.height / 2}" fill="${fillAttr}"/>`,
+      );
+    } else {
+      parts.push(`<rect x="${x}" y="${y}" width="${node.width}" height="${node.height}" fill="${fillAttr}"/>`);
+    }
+    for (const child of node.children) visit(child, x, y);
+  };
+
+  visit(root, -root.x, -root.y);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${root.width}" height="${root.height}" ` +
+    `viewBox="0 0 ${root.width} ${root.height}">${parts.join('')}</svg>`
+  );
+}
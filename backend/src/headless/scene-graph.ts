@@ -0,0 +1,612 @@
+/**
+ * In-memory Figma scene graph
+ *
+ * A Node-side stand-in for the parts of the figma.* API that plugin/src/code.ts uses.
+ * Nodes carry the same properties the plugin reads and writes, so serialization
+ * produces the exact SerializedNode shape that the real plugin returns.
+ *
+ * Includes a small auto-layout engine (padding, spacing, alignment, HUG/FILL sizing)
+ * and approximate text measurement, so tools that read back sizes after creating
+ * nodes (place_product, apply_typography) behave like they do in Figma.
+ */
+
+import { createHash } from 'crypto';
+import type { SerializedNode, SerializedPaint, SerializedEffect, SerializedTextRun, SerializedVectorNetwork } from '../../../shared/protocol.js';
+
+type Sizing = 'FIXED' | 'HUG' | 'FILL';
+
+export interface MockNode {
+  id: string;
+  type: string;
+  name: string;
+  parent: MockNode | null;
+  children: MockNode[];
+
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+
+  fills: SerializedPaint[];
+  strokes: SerializedPaint[];
+  strokeWeight: number;
+  cornerRadius: number;
+  effects: SerializedEffect[];
+
+  // Stored as restored (only set when they differ from Figma's defaults)
+  strokeAlign?: SerializedNode['strokeAlign'];
+  strokeCap?: string;
+  strokeJoin?: SerializedNode['strokeJoin'];
+  dashPattern?: number[];
+  cornerRadii?: [number, number, number, number];
+  blendMode?: string;
+  constraints?: SerializedNode['constraints'];
+
+  // Geometry and references of VECTOR, POLYGON, STAR, BOOLEAN_OPERATION, INSTANCE
+  vectorNetwork?: SerializedVectorNetwork;
+  vectorPaths?: SerializedNode['vectorPaths'];
+  pointCount?: number;
+  innerRadius?: number;
+  booleanOperation?: SerializedNode['booleanOperation'];
+  mainComponentId?: string;
+  componentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+  componentPropertyDefinitions?: SerializedNode['componentPropertyDefinitions'];
+  componentPropertyReferences?: Record<string, string>;
+
+  // Auto-layout (FRAME)
+  layoutMode: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  layoutPositioning: 'AUTO' | 'ABSOLUTE';
+  itemSpacing: number;
+  paddingTop: number;
+  paddingRight: number;
+  paddingBottom: number;
+  paddingLeft: number;
+  primaryAxisAlignItems: 'MIN' | 'MAX' | 'CENTER' | 'SPACE_BETWEEN';
+  counterAxisAlignItems: 'MIN' | 'MAX' | 'CENTER' | 'BASELINE';
+  primaryAxisSizingMode: 'FIXED' | 'AUTO';
+  counterAxisSizingMode: 'FIXED' | 'AUTO';
+  layoutSizingHorizontal: Sizing;
+  layoutSizingVertical: Sizing;
+  clipsContent: boolean;
+
+  // Text (TEXT)
+  characters: string;
+  fontSize: number;
+  fontName: { family: string; style: string };
+  textAlignHorizontal: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+  textAlignVertical: 'TOP' | 'CENTER' | 'BOTTOM';
+  textAutoResize: 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE';
+  lineHeight: { value?: number; unit: 'PIXELS' | 'PERCENT' | 'AUTO' };
+  letterSpacing: { value: number; unit: 'PIXELS' | 'PERCENT' };
+  textCase: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE';
+  textDecoration: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  /**
+   * Styled segments covering the whole text when styling is mixed (like
+   * getStyledTextSegments), else undefined. The node-level values above stay the
+   * base style; measurement ignores per-run sizes.
+   */
+  textRuns?: SerializedTextRun[];
+}
+
+export interface SceneGraph {
+  /** The current page — parent of all top-level frames */
+  page: MockNode;
+  /** Image store keyed by Figma-style hash (SHA-1 of the bytes) */
+  images: Map<string, Buffer>;
+  /** Current selection (set by tests to exercise selection-aware flows) */
+  selection: MockNode[];
+  getNode(id: string): MockNode | undefined;
+  createNode(type: string): MockNode;
+  appendChild(parent: MockNode, child: MockNode, index?: number): void;
+  removeNode(node: MockNode): void;
+  cloneNode(node: MockNode): MockNode;
+  createImage(bytes: Buffer): string;
+  /** Recompute auto-layout for the whole page (called after every mutation) */
+  layout(): void;
+}
+
+// ─── Defaults ───
+
+const BLACK = { r: 0, g: 0, b: 0 };
+const WHITE = { r: 1, g: 1, b: 1 };
+const LIGHT_GREY = { r: 0.85, g: 0.85, b: 0.85 };
+
+function solid(color: { r: number; g: number; b: number }): SerializedPaint {
+  return { type: 'SOLID', visible: true, opacity: 1, color: { ...color } };
+}
+
+/**
+ * Fill in the defaults Figma adds to every paint (visible, opacity)
+ */
+export function normalizePaint(paint: any): SerializedPaint {
+  const normalized: SerializedPaint = {
+    ...JSON.parse(JSON.stringify(paint)),
+    visible: paint.visible ?? true,
+    opacity: paint.opacity ?? 1,
+  };
+  if (normalized.type === 'IMAGE' && !normalized.imageTransform) {
+    normalized.imageTransform = [[1, 0, 0], [0, 1, 0]];
+  }
+  if (normalized.type.startsWith('GRADIENT') && !normalized.gradientTransform) {
+    normalized.gradientTransform = [[1, 0, 0], [0, 1, 0]];
+  }
+  return normalized;
+}
+
+export function normalizeEffect(effect: any): SerializedEffect {
+  return { ...JSON.parse(JSON.stringify(effect)), visible: effect.visible ?? true };
+}
+
+function baseNode(id: string, type: string): MockNode {
+  return {
+    id,
+    type,
+    name: type.charAt(0) + type.slice(1).toLowerCase(),
+    parent: null,
+    children: [],
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    fills: [],
+    strokes: [],
+    strokeWeight: 1,
+    cornerRadius: 0,
+    effects: [],
+    layoutMode: 'NONE',
+    layoutPositioning: 'AUTO',
+    itemSpacing: 0,
+    paddingTop: 0,
+    paddingRight: 0,
+    paddingBottom: 0,
+    paddingLeft: 0,
+    primaryAxisAlignItems: 'MIN',
+    counterAxisAlignItems: 'MIN',
+    primaryAxisSizingMode: 'AUTO',
+    counterAxisSizingMode: 'AUTO',
+    layoutSizingHorizontal: 'FIXED',
+    layoutSizingVertical: 'FIXED',
+    clipsContent: false,
+    characters: '',
+    fontSize: 12,
+    fontName: { family: 'Inter', style: 'Regular' },
+    textAlignHorizontal: 'LEFT',
+    textAlignVertical: 'TOP',
+    textAutoResize: 'NONE',
+    lineHeight: { unit: 'AUTO' },
+    letterSpacing: { value: 0, unit: 'PERCENT' },
+    textCase: 'ORIGINAL',
+    textDecoration: 'NONE',
+  };
+}
+
+// ─── Text measurement ───
+
+/** Average glyph advance as a fraction of font size (Inter-ish) */
+const AVG_CHAR_WIDTH = 0.55;
+
+/**
+ * Resolve a text node's line height in pixels
+ */
+export function lineHeightPx(fontSize: number, lineHeight: MockNode['lineHeight']): number {
+  if (lineHeight.unit === 'PIXELS' && lineHeight.value !== undefined) return lineHeight.value;
+  if (lineHeight.unit === 'PERCENT' && lineHeight.value !== undefined) return (fontSize * lineHeight.value) / 100;
+  return fontSize * 1.2;
+}
+
+function charWidth(fontSize: number, letterSpacing: MockNode['letterSpacing']): number {
+  const spacing = letterSpacing.unit === 'PIXELS' ? letterSpacing.value : (fontSize * letterSpacing.value) / 100;
+  return fontSize * AVG_CHAR_WIDTH + spacing;
+}
+
+/**
+ * Approximate Figma's text layout. Returns the wrapped lines and the box they need.
+ * maxWidth undefined = no wrapping (WIDTH_AND_HEIGHT).
+ */
+export function measureText(
+  characters: string,
+  opts: {
+    fontSize: number;
+    lineHeight?: MockNode['lineHeight'];
+    letterSpacing?: MockNode['letterSpacing'];
+    maxWidth?: number;
+  },
+): { lines: string[]; width: number; height: number } {
+  const cw = charWidth(opts.fontSize, opts.letterSpacing ?? { value: 0, unit: 'PERCENT' });
+  const lh = lineHeightPx(opts.fontSize, opts.lineHeight ?? { unit: 'AUTO' });
+  const lines: string[] = [];
+
+  for (const paragraph of characters.split('\n')) {
+    if (opts.maxWidth === undefined) {
+      lines.push(paragraph);
+      continue;
+    }
+    const maxChars = Math.max(1, Math.floor(opts.maxWidth / cw));
+    let current = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= maxChars || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    lines.push(current);
+  }
+
+  const longest = lines.reduce((max, l) => Math.max(max, l.length), 0);
+  return {
+    lines,
+    width: Math.ceil(longest * cw),
+    height: Math.ceil(lines.length * lh),
+  };
+}
+
+function resizeText(node: MockNode): void {
+  if (node.textAutoResize === 'WIDTH_AND_HEIGHT') {
+    const m = measureText(node.characters, node);
+    node.width = m.width;
+    node.height = m.height;
+  } else if (node.textAutoResize === 'HEIGHT') {
+    node.height = measureText(node.characters, { ...node, maxWidth: node.width }).height;
+  }
+}
+
+// ─── Auto-layout ───
+
+function isAutoLayout(node: MockNode): boolean {
+  return node.type === 'FRAME' && node.layoutMode !== 'NONE';
+}
+
+function layoutNode(node: MockNode): void {
+  if (node.type === 'TEXT') {
+    resizeText(node);
+    return;
+  }
+
+  if (!isAutoLayout(node)) {
+    node.children.forEach(layoutNode);
+    return;
+  }
+
+  const vertical = node.layoutMode === 'VERTICAL';
+  const primary = vertical ? 'height' : 'width';
+  const cross = vertical ? 'width' : 'height';
+  const primaryPos = vertical ? 'y' : 'x';
+  const crossPos = vertical ? 'x' : 'y';
+  const padPrimaryStart = vertical ? node.paddingTop : node.paddingLeft;
+  const padPrimaryEnd = vertical ? node.paddingBottom : node.paddingRight;
+  const padCrossStart = vertical ? node.paddingLeft : node.paddingTop;
+  const padCrossEnd = vertical ? node.paddingRight : node.paddingBottom;
+  const hugPrimary = node.primaryAxisSizingMode === 'AUTO';
+  const hugCross = node.counterAxisSizingMode === 'AUTO';
+
+  const primarySizing = (c: MockNode) => (vertical ? c.layoutSizingVertical : c.layoutSizingHorizontal);
+  const crossSizing = (c: MockNode) => (vertical ? c.layoutSizingHorizontal : c.layoutSizingVertical);
+
+  const flow = node.children.filter(c => c.visible && c.layoutPositioning !== 'ABSOLUTE');
+  const innerCross = node[cross] - padCrossStart - padCrossEnd;
+
+  // Cross-axis FILL stretches to the parent's inner size
+  if (!hugCross) {
+    for (const child of flow) {
+      if (crossSizing(child) === 'FILL') child[cross] = Math.max(0, innerCross);
+    }
+  }
+
+  node.children.forEach(layoutNode);
+
+  const gaps = node.itemSpacing * Math.max(0, flow.length - 1);
+  const fillChildren = hugPrimary ? [] : flow.filter(c => primarySizing(c) === 'FILL');
+  const fixedPrimary = flow
+    .filter(c => !fillChildren.includes(c))
+    .reduce((sum, c) => sum + c[primary], 0) + gaps;
+
+  if (hugPrimary) {
+    node[primary] = fixedPrimary + padPrimaryStart + padPrimaryEnd;
+  } else if (fillChildren.length > 0) {
+    const innerPrimary = node[primary] - padPrimaryStart - padPrimaryEnd;
+    const share = Math.max(0, (innerPrimary - fixedPrimary) / fillChildren.length);
+    for (const child of fillChildren) {
+      child[primary] = share;
+      layoutNode(child);
+    }
+  }
+
+  if (hugCross) {
+    const maxCross = flow.reduce((max, c) => Math.max(max, c[cross]), 0);
+    node[cross] = maxCross + padCrossStart + padCrossEnd;
+  }
+
+  // Position flow children
+  const innerPrimary = node[primary] - padPrimaryStart - padPrimaryEnd;
+  const used = flow.reduce((sum, c) => sum + c[primary], 0);
+  let cursor = padPrimaryStart;
+  let gap = node.itemSpacing;
+
+  if (node.primaryAxisAlignItems === 'CENTER') {
+    cursor += (innerPrimary - used - gaps) / 2;
+  } else if (node.primaryAxisAlignItems === 'MAX') {
+    cursor += innerPrimary - used - gaps;
+  } else if (node.primaryAxisAlignItems === 'SPACE_BETWEEN' && flow.length > 1) {
+    gap = (innerPrimary - used) / (flow.length - 1);
+  }
+
+  const finalInnerCross = node[cross] - padCrossStart - padCrossEnd;
+  for (const child of flow) {
+    child[primaryPos] = cursor;
+    cursor += child[primary] + gap;
+
+    if (node.counterAxisAlignItems === 'CENTER') {
+      child[crossPos] = padCrossStart + (finalInnerCross - child[cross]) / 2;
+    } else if (node.counterAxisAlignItems === 'MAX') {
+      child[crossPos] = padCrossStart + finalInnerCross - child[cross];
+    } else {
+      child[crossPos] = padCrossStart;
+    }
+  }
+}
+
+// ─── Factory ───
+
+export function createSceneGraph(): SceneGraph {
+  const nodes = new Map<string, MockNode>();
+  const images = new Map<string, Buffer>();
+  let nextId = 2;
+
+  const page = baseNode('0:1', 'PAGE');
+  page.name = 'Page 1';
+  nodes.set(page.id, page);
+
+  function detach(node: MockNode): void {
+    if (node.parent) {
+      node.parent.children = node.parent.children.filter(c => c !== node);
+      node.parent = null;
+    }
+  }
+
+  function unregister(node: MockNode): void {
+    nodes.delete(node.id);
+    node.children.forEach(unregister);
+  }
+
+  const graph: SceneGraph = {
+    page,
+    images,
+    selection: [],
+
+    getNode(id: string): MockNode | undefined {
+      return nodes.get(id);
+    },
+
+    createNode(type: string): MockNode {
+      const node = baseNode(`1:${nextId++}`, type);
+
+      if (type === 'FRAME') {
+        node.fills = [solid(WHITE)];
+        node.clipsContent = true;
+        node.strokeWeight = 1;
+      } else if (type === 'RECTANGLE' || type === 'ELLIPSE') {
+        node.fills = [solid(LIGHT_GREY)];
+      } else if (type === 'TEXT') {
+        node.fills = [solid(BLACK)];
+        node.width = 0;
+        node.height = 0;
+      }
+
+      nodes.set(node.id, node);
+      // New nodes land on the current page, like figma.create*()
+      graph.appendChild(page, node);
+      return node;
+    },
+
+    appendChild(parent: MockNode, child: MockNode, index?: number): void {
+      detach(child);
+      child.parent = parent;
+      if (index !== undefined) {
+        parent.children.splice(index, 0, child);
+      } else {
+        parent.children.push(child);
+      }
+    },
+
+    removeNode(node: MockNode): void {
+      detach(node);
+      unregister(node);
+      graph.selection = graph.selection.filter(n => nodes.has(n.id));
+    },
+
+    cloneNode(node: MockNode): MockNode {
+      const copy = (source: MockNode): MockNode => {
+        const clone: MockNode = {
+          ...JSON.parse(JSON.stringify({ ...source, parent: null, children: [] })),
+          id: `1:${nextId++}`,
+          parent: null,
+          children: [],
+        };
+        nodes.set(clone.id, clone);
+        for (const child of source.children) {
+          const childClone = copy(child);
+          childClone.parent = clone;
+          clone.children.push(childClone);
+        }
+        return clone;
+      };
+
+      const clone = copy(node);
+      // figma clone() inserts the copy next to the original
+      const parent = node.parent ?? page;
+      graph.appendChild(parent, clone, parent.children.indexOf(node) + 1);
+      return clone;
+    },
+
+    createImage(bytes: Buffer): string {
+      const hash = createHash('sha1').update(bytes).digest('hex');
+      images.set(hash, bytes);
+      return hash;
+    },
+
+    layout(): void {
+      page.children.forEach(layoutNode);
+    },
+  };
+
+  return graph;
+}
+
+// ─── Serialization ───
+
+const HAS_CORNER_RADIUS = new Set(['FRAME', 'RECTANGLE', 'ELLIPSE']);
+
+/** Node types without a children list in Figma */
+const LEAF_TYPES = new Set(['TEXT', 'RECTANGLE', 'ELLIPSE', 'LINE', 'POLYGON', 'STAR', 'VECTOR']);
+
+/** Frame-like types serialized with auto-layout properties */
+const FRAME_LIKE_TYPES = new Set(['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE']);
+
+/** Optional properties copied as-is when set (see MockNode) */
+const PASSTHROUGH_KEYS = [
+  'strokeAlign', 'strokeCap', 'strokeJoin', 'dashPattern', 'cornerRadii', 'blendMode', 'constraints',
+  'vectorNetwork', 'vectorPaths', 'pointCount', 'innerRadius', 'booleanOperation',
+  'mainComponentId', 'componentKey', 'componentProperties', 'componentPropertyDefinitions', 'componentPropertyReferences',
+] as const;
+
+/**
+ * Serialize a node exactly like serializeNode() in plugin/src/serialization.ts
+ */
+export function serializeMockNode(node: MockNode, maxDepth: number, currentDepth = 0): SerializedNode {
+  const base: SerializedNode = {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    rotation: node.rotation !== 0 ? node.rotation : undefined,
+    visible: !node.visible ? false : undefined,
+    locked: node.locked ? true : undefined,
+  };
+
+  base.fills = node.fills.map(serializePaint);
+  base.strokes = node.strokes.map(serializePaint);
+  base.strokeWeight = node.strokeWeight;
+  if (HAS_CORNER_RADIUS.has(node.type)) {
+    base.cornerRadius = node.cornerRadius;
+  }
+  base.effects = node.effects.map(serializeEffect);
+  if (node.opacity !== 1) {
+    base.opacity = node.opacity;
+  }
+  for (const key of PASSTHROUGH_KEYS) {
+    if (node[key] !== undefined) (base as any)[key] = JSON.parse(JSON.stringify(node[key]));
+  }
+
+  const parent = node.parent;
+  if (parent && FRAME_LIKE_TYPES.has(parent.type) && parent.layoutMode !== 'NONE') {
+    if (node.layoutPositioning === 'ABSOLUTE') base.layoutPositioning = 'ABSOLUTE';
+    base.layoutSizingHorizontal = node.layoutSizingHorizontal;
+    base.layoutSizingVertical = node.layoutSizingVertical;
+  }
+
+  if (FRAME_LIKE_TYPES.has(node.type)) {
+    base.layoutMode = node.layoutMode;
+    base.layoutPositioning = node.layoutPositioning;
+    if (node.layoutMode !== 'NONE') {
+      base.itemSpacing = node.itemSpacing;
+      base.paddingTop = node.paddingTop;
+      base.paddingRight = node.paddingRight;
+      base.paddingBottom = node.paddingBottom;
+      base.paddingLeft = node.paddingLeft;
+      base.primaryAxisAlignItems = node.primaryAxisAlignItems;
+      base.counterAxisAlignItems = node.counterAxisAlignItems;
+      base.primaryAxisSizingMode = node.primaryAxisSizingMode;
+      base.counterAxisSizingMode = node.counterAxisSizingMode;
+      base.layoutSizingHorizontal = node.layoutSizingHorizontal;
+      base.layoutSizingVertical = node.layoutSizingVertical;
+    }
+    base.clipsContent = node.clipsContent;
+  }
+
+  if (node.type === 'TEXT') {
+    base.characters = node.characters;
+    base.fontSize = node.fontSize;
+    base.fontName = { ...node.fontName };
+    base.textAlignHorizontal = node.textAlignHorizontal;
+    base.textAlignVertical = node.textAlignVertical;
+    base.textAutoResize = node.textAutoResize;
+    base.lineHeight = { ...node.lineHeight };
+    base.letterSpacing = { ...node.letterSpacing };
+    base.textDecoration = node.textDecoration;
+    if (node.textCase !== 'ORIGINAL') base.textCase = node.textCase;
+
+    // Mixed styling: node-level values come from the longest run, as in the plugin
+    if (node.textRuns && node.textRuns.length > 1) {
+      base.textRuns = node.textRuns.map(run => ({
+        start: run.start,
+        end: run.end,
+        fontName: { ...run.fontName! },
+        fontSize: run.fontSize,
+        fills: run.fills!.map(serializePaint),
+        textDecoration: run.textDecoration,
+      }));
+      const main = node.textRuns.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+      base.fontSize = main.fontSize;
+      base.fontName = { ...main.fontName! };
+      base.fills = main.fills!.map(serializePaint);
+      base.textDecoration = main.textDecoration;
+    }
+  }
+
+  if (!LEAF_TYPES.has(node.type) && currentDepth < maxDepth) {
+    base.children = node.children.map(child => serializeMockNode(child, maxDepth, currentDepth + 1));
+  }
+
+  return base;
+}
+
+function serializePaint(paint: SerializedPaint): SerializedPaint {
+  const base: SerializedPaint = {
+    type: paint.type,
+    visible: paint.visible,
+    opacity: paint.opacity,
+  };
+
+  if (paint.type === 'SOLID') {
+    base.color = paint.color;
+  } else if (paint.type.startsWith('GRADIENT')) {
+    base.gradientStops = (paint.gradientStops ?? []).map(s => ({ position: s.position, color: { ...s.color } }));
+    base.gradientTransform = paint.gradientTransform;
+  } else if (paint.type === 'IMAGE') {
+    base.imageHash = paint.imageHash ?? undefined;
+    base.scaleMode = paint.scaleMode;
+    base.imageTransform = paint.imageTransform;
+  }
+
+  return base;
+}
+
+function serializeEffect(effect: SerializedEffect): SerializedEffect {
+  const base: SerializedEffect = {
+    type: effect.type,
+    visible: effect.visible,
+    radius: effect.radius,
+  };
+
+  if (effect.color !== undefined) base.color = effect.color;
+  if (effect.offset !== undefined) base.offset = effect.offset;
+  if (effect.spread !== undefined) base.spread = effect.spread;
+  if (effect.blendMode !== undefined) base.blendMode = effect.blendMode;
+
+  return base;
+}
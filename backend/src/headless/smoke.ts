@@ -0,0 +1,104 @@
+/**
+ * Headless smoke test — build_ad_skeleton → apply_typography → place_product
+ *
+ * Runs the real tool implementations against the mock executor and asserts
+ * on the resulting SerializedNode tree. No Figma, no network, no API keys.
+ *
+ * Usage: npm run smoke
+ */
+
+import assert from 'node:assert/strict';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { buildAdSkeleton } from '../tools/build-ad-skeleton.js';
+import { applyTypography } from '../tools/apply-typography.js';
+import { placeProduct } from '../tools/place-product.js';
+import { createMockBridge } from './mock-bridge.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PRODUCT_IMAGE = resolve(__dirname, '../../../sample-data/brands/feno/products/smartbrush/assets/product.png');
+
+async function main() {
+  const bridge = createMockBridge();
+
+  // 1. Skeleton
+  const skeleton = await buildAdSkeleton({ format: 'story', backgroundColor: '#0A0A0A' }, bridge);
+  const frameId: string = skeleton.frameId;
+
+  // 2. Typography
+  const typography = await applyTypography({
+    frameId,
+    elements: [
+      { role: 'headline', text: 'Your gums\nare talking', fontColor: '#FFFFFF', textAlign: 'CENTER' },
+      { role: 'subhead', text: 'Sonic cleaning that listens back.', fontColor: '#CCCCCC' },
+    ],
+  }, bridge);
+
+  // 3. Product
+  const product = await placeProduct({ frameId, imagePath: PRODUCT_IMAGE, position: 'center-bottom', scale: 0.6 }, bridge);
+
+  const root: SerializedNode = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+
+  // Root frame
+  assert.equal(root.type, 'FRAME');
+  assert.equal(root.width, 1080);
+  assert.equal(root.height, 1920);
+  assert.equal(root.layoutMode, 'VERTICAL');
+  assert.equal(root.primaryAxisSizingMode, 'FIXED');
+  assert.equal(root.itemSpacing, 32);
+  assert.deepEqual(root.fills?.[0].color, { r: 10 / 255, g: 10 / 255, b: 10 / 255 });
+
+  const children = root.children ?? [];
+  assert.equal(children.length, 3, 'headline stack, subhead, product');
+  const [stack, subhead, productNode] = children;
+
+  // Split-and-stack headline
+  assert.equal(stack.id, typography.textNodeIds[0]);
+  assert.equal(stack.name, 'Headline Stack');
+  assert.equal(stack.layoutSizingHorizontal, 'HUG');
+  assert.deepEqual(stack.fills, []);
+  assert.deepEqual(stack.children?.map(c => c.characters), ['Your gums', 'are talking']);
+  assert.equal(stack.y, 80, 'first flow child sits at paddingTop');
+  assert.equal(stack.x, (1080 - stack.width) / 2, 'counterAxisAlignItems CENTER');
+  for (const line of stack.children ?? []) {
+    assert.equal(line.fontSize, 120);
+    assert.equal(line.textAutoResize, 'WIDTH_AND_HEIGHT');
+  }
+
+  // Subhead fills the frame width and wraps
+  assert.equal(subhead.type, 'TEXT');
+  assert.equal(subhead.textAutoResize, 'HEIGHT');
+  assert.equal(subhead.width, 1080 - 80 * 2);
+  assert.equal(subhead.y, stack.y + stack.height + 32);
+
+  // Product: absolute, image-filled, centered at the bottom
+  assert.equal(productNode.id, product.productNodeId);
+  assert.equal(productNode.layoutPositioning, 'ABSOLUTE');
+  assert.equal(productNode.fills?.[0].type, 'IMAGE');
+  assert.ok(productNode.fills?.[0].imageHash, 'image fill has a hash');
+  assert.equal(productNode.width, Math.round(1080 * 0.6));
+  assert.equal(productNode.x, Math.round((1080 - productNode.width) / 2));
+  assert.equal(productNode.y + productNode.height, 1920 - 80);
+
+  // Export renders at the requested scale
+  const exported = await bridge.sendCommand({ type: 'export_node', nodeId: frameId, format: 'PNG', scale: 0.25 });
+  const meta = await sharp(Buffer.from(exported.base64, 'base64')).metadata();
+  assert.equal(meta.width, 270);
+  assert.equal(meta.height, 480);
+
+  // Checkpoint round-trip restores the same structure
+  await bridge.sendCommand({ type: 'figma_call', method: 'deleteNode', args: [subhead.id] });
+  await bridge.sendCommand({ type: 'restore_checkpoint', frameId, serialized: root });
+  const restored: SerializedNode = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+  assert.deepEqual(restored.children?.map(c => c.name), children.map(c => c.name));
+  assert.equal(restored.children?.[1].characters, 'Sonic cleaning that listens back.');
+
+  console.log(`[Smoke] OK — ${bridge.commands.length} commands, ${children.length} top-level nodes`);
+}
+
+main().catch(error => {
+  console.error('[Smoke] FAILED:', error);
+  process.exit(1);
+});
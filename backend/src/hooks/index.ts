@@ -6,12 +6,14 @@
  */
 
 import type { HookEvent, HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
-import { preToolUseHooks } from './pre-tool-use.js';
+import type { Bridge } from '../bridge.js';
+import { buildPreToolUseHooks } from './pre-tool-use.js';
 import { postToolUseHooks } from './post-tool-use.js';
 import { stopHooks } from './stop.js';
 
-export function buildHooks(): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+export function buildHooks(bridge: Bridge): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
   const hooks: Partial<Record<HookEvent, HookCallbackMatcher[]>> = {};
+  const preToolUseHooks = buildPreToolUseHooks(bridge);
 
   if (preToolUseHooks.length > 0) {
     hooks.PreToolUse = preToolUseHooks;
@@ -2,16 +2,19 @@
  * Post-tool-use hooks
  *
  * Runs after asset generation tools complete.
- * Injects running session cost into agent context and reminds
+ * Injects running session cost and budget into agent context and reminds
  * the agent to place the generated image on the canvas.
- *
- * Phase 4 upgrade: add async asset queue check + notification injection
- * for fire-and-continue parallel generation.
+ * Every tool call is also recorded for the current concept's summary, and
+ * background generation jobs that finished since the last tool call are announced
+ * (fire-and-continue generation, see generation-jobs.ts).
  */
 
 import type { HookCallbackMatcher, HookInput, HookJSONOutput } from '@anthropic-ai/claude-agent-sdk';
 import { getSessionState } from '../session-state.js';
 import { markCostEstimated } from './pre-tool-use.js';
+import { recordToolUse } from '../concept-tracker.js';
+import { getBudgetStatus, formatBudgetStatus } from '../budget.js';
+import { formatGenerationJob, takeFinishedGenerations } from '../generation-jobs.js';
 
 function makeAssetHook(toolLabel: string): HookCallbackMatcher {
   return {
@@ -20,11 +23,13 @@ function makeAssetHook(toolLabel: string): HookCallbackMatcher {
       async (_input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
         const session = getSessionState();
         const runningCost = session?.totalCost ?? 0;
+        const budget = getBudgetStatus();
+        const budgetNote = budget ? ` Budget: ${formatBudgetStatus(budget)}.` : '';
 
         return {
           hookSpecificOutput: {
             hookEventName: 'PostToolUse' as const,
-            additionalContext: `Asset generated. Session cost so far: $${runningCost.toFixed(2)}. Use place_product or set_background to put this image on the canvas.`,
+            additionalContext: `Asset generated. Session cost so far: $${runningCost.toFixed(2)}.${budgetNote} Use place_product or set_background to put this image on the canvas.`,
           },
         };
       },
@@ -42,7 +47,43 @@ const estimateCostMarker: HookCallbackMatcher = {
   ],
 };
 
+// No matcher: every tool call feeds the concept summary (frames, tools, assets, issues)
+const conceptActivityTracker: HookCallbackMatcher = {
+  hooks: [
+    async (input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
+      if (input.hook_event_name === 'PostToolUse') {
+        try {
+          recordToolUse(input.tool_name, input.tool_input, input.tool_response);
+        } catch (error) {
+          console.warn('[Hooks] Concept tracking failed:', error);
+        }
+      }
+      return {};
+    },
+  ],
+};
+
+// No matcher: whichever tool runs next carries the news of finished background jobs
+const generationNotifier: HookCallbackMatcher = {
+  hooks: [
+    async (input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
+      // check_generations reports jobs itself
+      if (input.hook_event_name !== 'PostToolUse' || input.tool_name === 'mcp__figma-design__check_generations') return {};
+      const finished = takeFinishedGenerations();
+      if (finished.length === 0) return {};
+      return {
+        hookSpecificOutput: {
+          hookEventName: 'PostToolUse' as const,
+          additionalContext: `Background generation finished:\n${finished.map(j => `- ${formatGenerationJob(j)}`).join('\n')}\nPick the best variant and place it with place_product or set_background.`,
+        },
+      };
+    },
+  ],
+};
+
 export const postToolUseHooks: HookCallbackMatcher[] = [
+  conceptActivityTracker,
+  generationNotifier,
   makeAssetHook('generate_product_photo'),
   makeAssetHook('generate_asset'),
   makeAssetHook('remove_background'),
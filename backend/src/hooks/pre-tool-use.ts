@@ -2,11 +2,21 @@
  * Pre-tool-use hooks
  *
  * Inject context or gate tool calls before they execute.
- * The export quality gate ensures Tier 1 checks happen before any ad export.
- * The budget warning reminds the agent to estimate costs before generating.
+ * The export quality gate lints the frame and blocks export_ad on hard failures,
+ * then injects the checklist for the Tier 1 items a lint can't measure.
+ * The budget gate denies generation tools once a spending cap is reached (see budget.ts),
+ * counting background jobs still in flight, and otherwise reminds the agent to estimate
+ * costs before generating.
  */
 
 import type { HookCallbackMatcher, HookInput, HookJSONOutput } from '@anthropic-ai/claude-agent-sdk';
+import type { Bridge } from '../bridge.js';
+import { runFrameLint } from '../tools/lint-frame.js';
+import { summarizeLint } from '../tools/frame-lint.js';
+import { recordConceptIssue } from '../concept-tracker.js';
+import { buildBudgetExceeded, checkBudget, describeBudgetBlock, suggestedRaise } from '../budget.js';
+import { estimateToolCost } from '../tools/estimate-cost.js';
+import { getPendingGenerationCost } from '../generation-jobs.js';
 
 // ─── Cost estimation state ───
 
@@ -22,14 +32,7 @@ export function markCostEstimated(): void {
 
 // ─── Hooks ───
 
-const exportQualityGate: HookCallbackMatcher = {
-  matcher: 'mcp__figma-design__export_ad',
-  hooks: [
-    async (_input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
-      return {
-        hookSpecificOutput: {
-          hookEventName: 'PreToolUse' as const,
-          additionalContext: `QUALITY GATE — Before exporting, verify ALL Tier 1 items:
+const EXPORT_CHECKLIST = `QUALITY GATE — Before exporting, verify ALL Tier 1 items:
 □ Headline prominent and impossible to miss
 □ All customer-facing text 40px+, secondary 32px+
 □ Elements breathing — headline-to-subhead 24-40px gap, text-to-image 40-60px
@@ -37,18 +40,90 @@ const exportQualityGate: HookCallbackMatcher = {
 □ Product naturally integrated — no sharp-edge floating, no cut-off hands
 □ Would someone stop scrolling for this?
 □ Does every element serve ONE concept?
-If ANY item fails, fix it BEFORE exporting. No exceptions.`,
-        },
-      };
-    },
-  ],
-};
+If ANY item fails, fix it BEFORE exporting. No exceptions.`;
 
-function makeBudgetWarningHook(toolName: string): HookCallbackMatcher {
+function makeExportQualityGate(bridge: Bridge): HookCallbackMatcher {
+  return {
+    matcher: 'mcp__figma-design__export_ad',
+    hooks: [
+      async (input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
+        const toolInput = input.hook_event_name === 'PreToolUse'
+          ? input.tool_input as { frameId?: string; frameIds?: string[] } | undefined
+          : undefined;
+        const frameIds = [...new Set([...(toolInput?.frameId ? [toolInput.frameId] : []), ...(toolInput?.frameIds ?? [])])];
+
+        const warnings: string[] = [];
+        let linted = 0;
+        for (const frameId of frameIds) {
+          try {
+            const report = await runFrameLint(frameId, bridge);
+            if (!report.passed) {
+              recordConceptIssue(`export_ad blocked: ${report.errors.length} lint error(s) on "${report.frameName}"`);
+              return {
+                hookSpecificOutput: {
+                  hookEventName: 'PreToolUse' as const,
+                  permissionDecision: 'deny',
+                  permissionDecisionReason: `Export blocked — lint_frame found ${report.errors.length} hard failures on "${report.frameName}". ` +
+                    `Fix them and export again:\n${summarizeLint(report)}`,
+                },
+              };
+            }
+            linted++;
+            if (report.warnings.length > 0) warnings.push(`"${report.frameName}":\n${summarizeLint(report)}`);
+          } catch (error: any) {
+            // Lint is a gate, not a dependency — fall back to the checklist alone
+            console.warn(`[Hooks] Export lint skipped for ${frameId}: ${error.message}`);
+          }
+        }
+
+        const lintContext = warnings.length > 0
+          ? `LINT PASSED with warnings (not blocking):\n${warnings.join('\n')}\n\n`
+          : linted > 0 ? 'LINT PASSED — no measurable rule violations.\n\n' : '';
+
+        return {
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            additionalContext: lintContext + EXPORT_CHECKLIST,
+          },
+        };
+      },
+    ],
+  };
+}
+
+/**
+ * Hard budget cap for generation tools: deny when the call's projected cost would cross
+ * a session, concept or brand cap, and ask the user (via the plugin) to raise it.
+ * Otherwise warn if the agent skipped estimate_cost.
+ */
+function makeBudgetGate(bridge: Bridge, toolName: string): HookCallbackMatcher {
   return {
     matcher: `mcp__figma-design__${toolName}`,
     hooks: [
-      async (_input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
+      async (input: HookInput, _toolUseID: string | undefined, _options: { signal: AbortSignal }): Promise<HookJSONOutput> => {
+        const toolInput = input.hook_event_name === 'PreToolUse'
+          ? (input.tool_input ?? {}) as Record<string, any>
+          : {};
+        // Queued and running background jobs haven't been charged yet — count them too
+        const projected = estimateToolCost(toolName, toolInput) + getPendingGenerationCost();
+        const check = checkBudget(projected);
+
+        if (!check.allowed && check.blocking) {
+          const reason = describeBudgetBlock(check.blocking, projected);
+          const suggestedLimit = suggestedRaise(check.blocking);
+          recordConceptIssue(`${toolName} blocked: ${check.blocking.scope} budget reached ($${check.blocking.spent.toFixed(2)} of $${check.blocking.limit.toFixed(2)})`);
+          bridge.sendUIUpdate(buildBudgetExceeded(check.blocking, projected));
+          return {
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'deny',
+              permissionDecisionReason: `${reason} Generation is blocked until the user raises the budget in the plugin` +
+                (suggestedLimit === null ? ' — the session is at its hard ceiling, so it cannot be raised.' : '.') +
+                ' Tell the user, and keep working with the assets you already have.',
+            },
+          };
+        }
+
         if (!costEstimated) {
           return {
             hookSpecificOutput: {
@@ -63,8 +138,12 @@ function makeBudgetWarningHook(toolName: string): HookCallbackMatcher {
   };
 }
 
-export const preToolUseHooks: HookCallbackMatcher[] = [
-  exportQualityGate,
-  makeBudgetWarningHook('generate_product_photo'),
-  makeBudgetWarningHook('generate_asset'),
-];
+export function buildPreToolUseHooks(bridge: Bridge): HookCallbackMatcher[] {
+  return [
+    makeExportQualityGate(bridge),
+    makeBudgetGate(bridge, 'generate_product_photo'),
+    makeBudgetGate(bridge, 'generate_asset'),
+    makeBudgetGate(bridge, 'remove_background'),
+    makeBudgetGate(bridge, 'start_generation'),
+  ];
+}
@@ -0,0 +1,92 @@
+/**
+ * Image store — Figma image bytes keyed by image hash
+ *
+ * Serialized frames reference image fills only by Figma's image hash, which means
+ * nothing in another file (templates) and breaks once Figma drops an image no node
+ * uses any more (old checkpoints). save_checkpoint and save_template copy the bytes
+ * of every image in the tree here; restores send the ones the file is missing
+ * along with the tree, and the plugin re-creates them before rebuilding.
+ *
+ * Storage: backend/data/images/{hash} (raw bytes — Figma's hash is the SHA-1 of
+ * the bytes, so an entry never changes once written)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Bridge } from './bridge.js';
+import type { SerializedNode, SerializedPaint } from '../../shared/protocol.js';
+
+const IMAGES_DIR = path.join(process.cwd(), 'data', 'images');
+
+const HASH = /^[0-9a-f]{16,64}$/i;
+
+function imagePath(hash: string): string {
+  return path.join(IMAGES_DIR, hash.toLowerCase());
+}
+
+/**
+ * Every image hash referenced in a serialized tree (fills, strokes, text runs, vector regions)
+ */
+export function collectImageHashes(node: SerializedNode): string[] {
+  const hashes = new Set<string>();
+  const visit = (paints: SerializedPaint[] | undefined) => {
+    for (const paint of paints ?? []) {
+      if (paint.type === 'IMAGE' && paint.imageHash && HASH.test(paint.imageHash)) hashes.add(paint.imageHash);
+    }
+  };
+  const walk = (n: SerializedNode) => {
+    visit(n.fills);
+    visit(n.strokes);
+    for (const run of n.textRuns ?? []) visit(run.fills);
+    for (const region of n.vectorNetwork?.regions ?? []) visit(region.fills);
+    for (const child of n.children ?? []) walk(child);
+  };
+  walk(node);
+  return [...hashes];
+}
+
+export function hasStoredImage(hash: string): boolean {
+  return HASH.test(hash) && fs.existsSync(imagePath(hash));
+}
+
+/**
+ * Copy the bytes of the tree's images into the store (only hashes not stored yet).
+ * Returns hashes the plugin couldn't read — those fills stay file-bound.
+ */
+export async function storeFrameImages(bridge: Bridge, serialized: SerializedNode): Promise<{ stored: number; missing: string[] }> {
+  const hashes = collectImageHashes(serialized).filter(hash => !hasStoredImage(hash));
+  if (hashes.length === 0) return { stored: 0, missing: [] };
+
+  const result = await bridge.sendCommand({ type: 'read_images', hashes });
+  fs.mkdirSync(IMAGES_DIR, { recursive: true });
+  let stored = 0;
+  for (const [hash, base64] of Object.entries(result.images ?? {})) {
+    if (!HASH.test(hash)) continue;
+    fs.writeFileSync(imagePath(hash), Buffer.from(base64 as string, 'base64'));
+    stored++;
+  }
+  return { stored, missing: result.missing ?? [] };
+}
+
+/**
+ * restore_checkpoint with the stored bytes of any image the file doesn't have.
+ * Returns the plugin's result (childrenRestored, missingImages, warnings).
+ */
+export async function restoreFrame(bridge: Bridge, frameId: string, serialized: SerializedNode): Promise<any> {
+  const hashes = collectImageHashes(serialized);
+  const images: Record<string, string> = {};
+
+  if (hashes.length > 0) {
+    const { missing } = await bridge.sendCommand({ type: 'find_missing_images', hashes });
+    for (const hash of (missing ?? []) as string[]) {
+      if (hasStoredImage(hash)) images[hash] = fs.readFileSync(imagePath(hash)).toString('base64');
+    }
+  }
+
+  return bridge.sendCommand({
+    type: 'restore_checkpoint',
+    frameId,
+    serialized,
+    images: Object.keys(images).length > 0 ? images : undefined,
+  });
+}
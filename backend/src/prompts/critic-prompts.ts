@@ -47,7 +47,7 @@ Evaluate the ad against the concept brief. Does the execution deliver on the cre
 
 1. **Dynamic product presentation** — Is the product shown in an interesting way (hand-held, angled, in-context), or is it a static straight-on floating shot? Static is acceptable only when intentional.
 2. **Intentional background** — Is the background deliberate (gradient, texture, image, pattern) or just a default solid color? Solid colors are fine when intentional, lazy when default.
-3. **Format variety** — Based on the concept brief's mention of previous ads, is this visually different from recent work? Same product position + same shot type = variety failure.
+3. **Format variety** — Based on the Brand History below (when present) and the concept brief's mention of previous ads, is this visually different from recent work? Same product position + same shot type = variety failure.
 4. **Brand consistency** — Correct fonts, colors, and tone for the brand? Does it feel like this brand, or could it be any brand?
 
 ## Concept Questions
@@ -61,7 +61,7 @@ Evaluate the ad against the concept brief. Does the execution deliver on the cre
 
 ## Variety Audit
 
-Check against these dimensions (flag if identical to the last 2 described ads):
+Check against these dimensions (flag if identical to the last 2 ads in the Brand History or the brief):
 - Product position (centered, left, right, top, off-frame, cropped)
 - Product shot type (static, hand-held, angled, in-use, close-up)
 - Composition energy (symmetrical vs asymmetrical, minimal vs dense)
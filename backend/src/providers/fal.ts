@@ -0,0 +1,111 @@
+/**
+ * fal.ai image provider
+ *
+ * Nano Banana Pro for edit and text-to-image, BRIA for background removal. Models can
+ * be swapped per operation with FAL_MODEL_EDIT, FAL_MODEL_GENERATE and
+ * FAL_MODEL_REMOVE_BACKGROUND — a replacement must accept the same input fields.
+ * Costs are per call (USD, approximate) from the table below.
+ */
+
+import { uploadFile, downloadImage, fal } from '../fal-client.js';
+import type {
+  EditRequest,
+  GenerateRequest,
+  ImageOperation,
+  ImageProvider,
+  ProviderImage,
+  RemoveBackgroundRequest,
+  Resolution,
+} from './types.js';
+
+const DEFAULT_MODELS: Record<ImageOperation, string> = {
+  edit: 'fal-ai/nano-banana-pro/edit',
+  generate: 'fal-ai/nano-banana-pro',
+  remove_background: 'fal-ai/bria/background/remove',
+};
+
+/** USD per call by model, per resolution tier where the price depends on it */
+const COST_TABLE: Record<string, number | Record<Resolution, number>> = {
+  'fal-ai/nano-banana-pro/edit': { '1K': 0.08, '2K': 0.12 },
+  'fal-ai/nano-banana-pro': { '1K': 0.06, '2K': 0.10 },
+  'fal-ai/nano-banana/edit': 0.039,
+  'fal-ai/nano-banana': 0.039,
+  'fal-ai/bria/background/remove': 0.03,
+  'fal-ai/birefnet/v2': 0.01,
+};
+
+const warnedModels = new Set<string>();
+
+function modelFor(operation: ImageOperation): string {
+  return process.env[`FAL_MODEL_${operation.toUpperCase()}`] || DEFAULT_MODELS[operation];
+}
+
+function costFor(operation: ImageOperation, resolution: Resolution): number {
+  const model = modelFor(operation);
+  let entry = COST_TABLE[model];
+  if (entry === undefined) {
+    // Unknown model: price it like the default rather than as free, so budgets still hold
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[fal-provider] No cost entry for ${model} — using ${DEFAULT_MODELS[operation]}'s price`);
+    }
+    entry = COST_TABLE[DEFAULT_MODELS[operation]];
+  }
+  return typeof entry === 'number' ? entry : entry[resolution];
+}
+
+export function createFalProvider(): ImageProvider {
+  async function image(operation: ImageOperation, url: string | undefined, outputPath: string, resolution: Resolution): Promise<ProviderImage> {
+    if (!url) throw new Error('No image URL in fal.ai response');
+    await downloadImage(url, outputPath);
+    return { path: outputPath, cost: costFor(operation, resolution), provider: 'fal', model: modelFor(operation) };
+  }
+
+  return {
+    id: 'fal',
+
+    supports: () => true,
+
+    model: modelFor,
+
+    cost: (operation, resolution = '1K') => costFor(operation, resolution),
+
+    async edit(request: EditRequest): Promise<ProviderImage> {
+      const imageUrls = await Promise.all(request.referenceImages.map(p => uploadFile(p)));
+      const result = await fal.subscribe(modelFor('edit'), {
+        input: {
+          prompt: request.prompt,
+          image_urls: imageUrls,
+          aspect_ratio: request.aspectRatio,
+          resolution: request.resolution,
+          num_images: 1,
+          output_format: 'png',
+        },
+      }) as { data: { images: Array<{ url: string }> } };
+      return image('edit', result.data?.images?.[0]?.url, request.outputPath, request.resolution);
+    },
+
+    async generate(request: GenerateRequest): Promise<ProviderImage> {
+      const input: Record<string, unknown> = {
+        prompt: request.prompt,
+        num_images: 1,
+        aspect_ratio: request.aspectRatio,
+        resolution: request.resolution,
+        output_format: 'png',
+      };
+      if (request.seed !== undefined) input.seed = request.seed;
+
+      const result = await fal.subscribe(modelFor('generate'), { input }) as { data: { images: Array<{ url: string }> } };
+      return image('generate', result.data?.images?.[0]?.url, request.outputPath, request.resolution);
+    },
+
+    async removeBackground(request: RemoveBackgroundRequest): Promise<ProviderImage> {
+      const imageUrl = await uploadFile(request.imagePath);
+      const result = await fal.subscribe(modelFor('remove_background'), {
+        input: { image_url: imageUrl },
+      }) as { data: { image: { url: string } } };
+      if (!result.data?.image?.url) throw new Error('No image URL in background removal response');
+      return image('remove_background', result.data.image.url, request.outputPath, '1K');
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * File-fixture image provider
+ *
+ * Offline stand-in for tests and demos: no network, no key, no cost. Each operation
+ * copies a fixture from IMAGE_FIXTURE_DIR — "{operation}.png", else "default.png" —
+ * resized to the requested aspect ratio. Without a fixture it renders a flat
+ * placeholder of the right size. Background removal of a real input keeps its pixels
+ * and adds an alpha channel, so downstream trimming and placement still run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  dimensionsFor,
+  type EditRequest,
+  type GenerateRequest,
+  type ImageOperation,
+  type ImageProvider,
+  type ProviderImage,
+  type RemoveBackgroundRequest,
+} from './types.js';
+
+const PLACEHOLDER_COLORS: Record<ImageOperation, { r: number; g: number; b: number }> = {
+  edit: { r: 200, g: 200, b: 200 },
+  generate: { r: 120, g: 140, b: 160 },
+  remove_background: { r: 255, g: 255, b: 255 },
+};
+
+function fixturePath(operation: ImageOperation): string | null {
+  const dir = process.env.IMAGE_FIXTURE_DIR;
+  if (!dir) return null;
+  for (const name of [`${operation}.png`, 'default.png']) {
+    const candidate = path.resolve(dir, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+async function writeFixture(operation: ImageOperation, width: number, height: number, outputPath: string): Promise<ProviderImage> {
+  const source = fixturePath(operation);
+  const image = source
+    ? sharp(source).resize(width, height, { fit: 'cover' })
+    : sharp({ create: { width, height, channels: 3, background: PLACEHOLDER_COLORS[operation] } });
+  await image.png().toFile(outputPath);
+  return { path: outputPath, cost: 0, provider: 'fixture', model: source ? path.basename(source) : 'placeholder' };
+}
+
+export function createFixtureProvider(): ImageProvider {
+  return {
+    id: 'fixture',
+
+    supports: () => true,
+
+    model: operation => {
+      const source = fixturePath(operation);
+      if (source) return path.basename(source);
+      return operation === 'remove_background' ? 'passthrough' : 'placeholder';
+    },
+
+    cost: () => 0,
+
+    async edit(request: EditRequest): Promise<ProviderImage> {
+      const { width, height } = dimensionsFor(request.aspectRatio, request.resolution);
+      return writeFixture('edit', width, height, request.outputPath);
+    },
+
+    async generate(request: GenerateRequest): Promise<ProviderImage> {
+      const { width, height } = dimensionsFor(request.aspectRatio, request.resolution);
+      return writeFixture('generate', width, height, request.outputPath);
+    },
+
+    async removeBackground(request: RemoveBackgroundRequest): Promise<ProviderImage> {
+      const source = fixturePath('remove_background');
+      if (source) {
+        const { width, height } = await sharp(request.imagePath).metadata();
+        return writeFixture('remove_background', width || 1024, height || 1024, request.outputPath);
+      }
+      await sharp(request.imagePath).ensureAlpha().png().toFile(request.outputPath);
+      return { path: request.outputPath, cost: 0, provider: 'fixture', model: 'passthrough' };
+    },
+  };
+}
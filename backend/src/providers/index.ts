@@ -0,0 +1,61 @@
+/**
+ * Image provider registry
+ *
+ * Picks the provider for each operation from config:
+ *   IMAGE_PROVIDER                      default for every operation (default: fal)
+ *   IMAGE_PROVIDER_EDIT                 generate_product_photo
+ *   IMAGE_PROVIDER_GENERATE             generate_asset
+ *   IMAGE_PROVIDER_REMOVE_BACKGROUND    remove_background and the removeBg flags
+ *
+ * Providers: fal, openai (any OpenAI-compatible images API), fixture (offline files).
+ */
+
+import { createFalProvider } from './fal.js';
+import { createFixtureProvider } from './fixture.js';
+import { createOpenAICompatibleProvider } from './openai-compatible.js';
+import { unsupportedOperation, type ImageOperation, type ImageProvider } from './types.js';
+
+export * from './types.js';
+
+const FACTORIES: Record<string, () => ImageProvider> = {
+  fal: createFalProvider,
+  openai: createOpenAICompatibleProvider,
+  fixture: createFixtureProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(FACTORIES);
+
+const DEFAULT_PROVIDER = 'fal';
+
+const instances = new Map<string, ImageProvider>();
+
+/**
+ * Provider ID configured for an operation
+ */
+export function getProviderId(operation: ImageOperation): string {
+  return (
+    process.env[`IMAGE_PROVIDER_${operation.toUpperCase()}`] ||
+    process.env.IMAGE_PROVIDER ||
+    DEFAULT_PROVIDER
+  ).trim().toLowerCase();
+}
+
+/**
+ * The provider configured for an operation. Throws on an unknown provider name or
+ * one that can't run the operation.
+ */
+export function getImageProvider(operation: ImageOperation): ImageProvider {
+  const id = getProviderId(operation);
+  const factory = FACTORIES[id];
+  if (!factory) {
+    throw new Error(`Unknown image provider "${id}" for ${operation}. Available: ${PROVIDER_IDS.join(', ')}`);
+  }
+
+  let provider = instances.get(id);
+  if (!provider) {
+    provider = factory();
+    instances.set(id, provider);
+  }
+  if (!provider.supports(operation)) throw unsupportedOperation(id, operation);
+  return provider;
+}
@@ -0,0 +1,183 @@
+/**
+ * OpenAI-compatible image provider
+ *
+ * Any server implementing POST /images/generations and /images/edits: OpenAI itself,
+ * or a self-hosted gateway. Background removal isn't part of that API, so route
+ * remove_background to another provider.
+ *
+ * Config:
+ *   OPENAI_IMAGE_BASE_URL   default https://api.openai.com/v1
+ *   OPENAI_IMAGE_API_KEY    falls back to OPENAI_API_KEY
+ *   OPENAI_IMAGE_MODEL      default gpt-image-1
+ *   OPENAI_IMAGE_COST_USD   per-image price override (required for models not in the table)
+ *
+ * The API only offers a few sizes, so the result is center-cropped to the requested
+ * aspect ratio (never upscaled).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  unsupportedOperation,
+  type AspectRatio,
+  type EditRequest,
+  type GenerateRequest,
+  type ImageOperation,
+  type ImageProvider,
+  type ProviderImage,
+} from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-image-1';
+const REQUEST_TIMEOUT_MS = 180_000;
+
+/** USD per image at the largest non-square size, medium quality */
+const COST_TABLE: Record<string, number> = {
+  'gpt-image-1': 0.063,
+  'gpt-image-1-mini': 0.015,
+  'dall-e-3': 0.08,
+  'dall-e-2': 0.02,
+};
+
+const UNKNOWN_MODEL_COST = Math.max(...Object.values(COST_TABLE));
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+let warnedUnknownModel = false;
+
+function config() {
+  return {
+    baseUrl: (process.env.OPENAI_IMAGE_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_IMAGE_API_KEY || process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_IMAGE_MODEL || DEFAULT_MODEL,
+  };
+}
+
+function costPerImage(): number {
+  const override = Number(process.env.OPENAI_IMAGE_COST_USD);
+  if (process.env.OPENAI_IMAGE_COST_USD && Number.isFinite(override) && override >= 0) return override;
+
+  const { model } = config();
+  if (COST_TABLE[model] !== undefined) return COST_TABLE[model];
+  if (!warnedUnknownModel) {
+    warnedUnknownModel = true;
+    console.warn(`[openai-provider] No cost entry for ${model} — assuming $${UNKNOWN_MODEL_COST}. Set OPENAI_IMAGE_COST_USD.`);
+  }
+  return UNKNOWN_MODEL_COST;
+}
+
+/**
+ * Closest size the images API offers for an aspect ratio
+ */
+function apiSize(aspectRatio: AspectRatio): string {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (w === h) return '1024x1024';
+  return w > h ? '1536x1024' : '1024x1536';
+}
+
+async function request(endpoint: string, body: string | FormData): Promise<Buffer> {
+  const { baseUrl, apiKey } = config();
+  if (!apiKey) {
+    throw new Error('OPENAI_IMAGE_API_KEY (or OPENAI_API_KEY) is not set. Add it to backend/.env');
+  }
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${apiKey}` };
+  if (typeof body === 'string') headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`${baseUrl}${endpoint}`, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 300);
+    throw new Error(`Image API ${endpoint} failed: ${response.status} ${response.statusText} ${detail}`);
+  }
+
+  const json = await response.json() as { data?: Array<{ b64_json?: string; url?: string }> };
+  const first = json.data?.[0];
+  if (first?.b64_json) return Buffer.from(first.b64_json, 'base64');
+  if (first?.url) {
+    const download = await fetch(first.url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!download.ok) throw new Error(`Download failed: ${download.status} ${download.statusText}`);
+    return Buffer.from(await download.arrayBuffer());
+  }
+  throw new Error(`No image in ${endpoint} response`);
+}
+
+/**
+ * Center-crop to the requested aspect ratio and write a PNG
+ */
+async function writeCropped(buffer: Buffer, aspectRatio: AspectRatio, outputPath: string): Promise<void> {
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+  const [aw, ah] = aspectRatio.split(':').map(Number);
+  const target = aw / ah;
+  let cropWidth = width;
+  let cropHeight = height;
+  if (width / height > target) cropWidth = Math.round(height * target);
+  else cropHeight = Math.round(width / target);
+
+  await sharp(buffer)
+    .extract({
+      left: Math.floor((width - cropWidth) / 2),
+      top: Math.floor((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    })
+    .png()
+    .toFile(outputPath);
+}
+
+export function createOpenAICompatibleProvider(): ImageProvider {
+  function result(outputPath: string): ProviderImage {
+    return { path: outputPath, cost: costPerImage(), provider: 'openai', model: config().model };
+  }
+
+  return {
+    id: 'openai',
+
+    supports: (operation: ImageOperation) => operation !== 'remove_background',
+
+    model: () => config().model,
+
+    cost: (operation: ImageOperation) => (operation === 'remove_background' ? 0 : costPerImage()),
+
+    async edit(req: EditRequest): Promise<ProviderImage> {
+      const form = new FormData();
+      form.append('model', config().model);
+      form.append('prompt', req.prompt);
+      form.append('size', apiSize(req.aspectRatio));
+      form.append('n', '1');
+      for (const imagePath of req.referenceImages) {
+        const type = CONTENT_TYPES[path.extname(imagePath).toLowerCase()] ?? 'image/png';
+        form.append('image[]', new Blob([fs.readFileSync(imagePath)], { type }), path.basename(imagePath));
+      }
+
+      const image = await request('/images/edits', form);
+      await writeCropped(image, req.aspectRatio, req.outputPath);
+      return result(req.outputPath);
+    },
+
+    async generate(req: GenerateRequest): Promise<ProviderImage> {
+      const image = await request('/images/generations', JSON.stringify({
+        model: config().model,
+        prompt: req.prompt,
+        size: apiSize(req.aspectRatio),
+        n: 1,
+      }));
+      await writeCropped(image, req.aspectRatio, req.outputPath);
+      return result(req.outputPath);
+    },
+
+    async removeBackground(): Promise<ProviderImage> {
+      throw unsupportedOperation('openai', 'remove_background');
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Image provider contract
+ *
+ * The generation tools (generate_product_photo, generate_asset, remove_background)
+ * talk to an ImageProvider instead of a specific API. A provider runs an operation,
+ * writes the result to the requested path, and reports what it cost; its cost table
+ * is also what estimate_cost and the budget gate price planned calls with.
+ */
+
+export type ImageOperation = 'edit' | 'generate' | 'remove_background';
+
+export const IMAGE_OPERATIONS: ImageOperation[] = ['edit', 'generate', 'remove_background'];
+
+export type AspectRatio = '9:16' | '1:1' | '16:9' | '4:3' | '3:4' | '4:5' | '5:4' | '3:2' | '2:3' | '21:9';
+
+export type Resolution = '1K' | '2K';
+
+/** Generate an image from reference images and a scene prompt */
+export interface EditRequest {
+  prompt: string;
+  /** Absolute paths */
+  referenceImages: string[];
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  /** Where to write the PNG */
+  outputPath: string;
+}
+
+/** Generate an image from a text prompt */
+export interface GenerateRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  seed?: number;
+  outputPath: string;
+}
+
+/** Cut the subject out of an image */
+export interface RemoveBackgroundRequest {
+  /** Absolute path */
+  imagePath: string;
+  outputPath: string;
+}
+
+export interface ProviderImage {
+  /** The written file — outputPath */
+  path: string;
+  /** USD charged for this call */
+  cost: number;
+  provider: string;
+  model: string;
+}
+
+export interface ImageProvider {
+  /** Config name: "fal", "fixture", "openai" */
+  readonly id: string;
+  /** Operations this provider can run */
+  supports(operation: ImageOperation): boolean;
+  /** Model ID used for an operation */
+  model(operation: ImageOperation): string;
+  /** USD per call, from the provider's cost table */
+  cost(operation: ImageOperation, resolution?: Resolution): number;
+  edit(request: EditRequest): Promise<ProviderImage>;
+  generate(request: GenerateRequest): Promise<ProviderImage>;
+  removeBackground(request: RemoveBackgroundRequest): Promise<ProviderImage>;
+}
+
+/**
+ * Pixel size for an aspect ratio at a resolution tier: the long side is 1024 (1K)
+ * or 2048 (2K), the short side rounded to a multiple of 8.
+ */
+export function dimensionsFor(aspectRatio: AspectRatio, resolution: Resolution): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longSide = resolution === '2K' ? 2048 : 1024;
+  const shortSide = Math.round((longSide * Math.min(w, h)) / Math.max(w, h) / 8) * 8;
+  return w >= h ? { width: longSide, height: shortSide } : { width: shortSide, height: longSide };
+}
+
+/**
+ * Error for an operation the configured provider can't run
+ */
+export function unsupportedOperation(provider: string, operation: ImageOperation): Error {
+  return new Error(
+    `Image provider "${provider}" does not support ${operation}. ` +
+      `Set IMAGE_PROVIDER_${operation.toUpperCase()} to a provider that does (e.g. fal).`,
+  );
+}
@@ -14,11 +14,13 @@ import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { createBridge } from './bridge.js';
 import { setupAgent, resetSession } from './agent.js';
-import { setSessionState, getSessionState, getSessionId, clearSessionState } from './session-state.js';
-import { addConceptSummary, type ConceptSummary } from './session-persistence.js';
+import { setSessionState, clearSessionState } from './session-state.js';
+import { finishConcept } from './concept-tracker.js';
+import { buildCostUpdate, getBudgetStatus, raiseBudget, startConceptBudget } from './budget.js';
 import type { UserAction, PluginResponse } from '../../shared/protocol.js';
 import { isPluginResponse, isUserAction } from '../../shared/protocol.js';
 import { resetCostEstimated } from './hooks/pre-tool-use.js';
+import { clearCheckpoints } from './tools/checkpoint.js';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
@@ -28,6 +30,8 @@ console.log(`  BRAND_DATA_ROOT: ${process.env.BRAND_DATA_ROOT || '(not set — u
 console.log(`  AD_LIBRARY_ROOT: ${process.env.AD_LIBRARY_ROOT || '(not set — using default)'}`);
 console.log(`  LEARNINGS_PATH: ${process.env.LEARNINGS_PATH || '(not set — using default)'}`);
 console.log(`  FAL_KEY: ${process.env.FAL_KEY ? '***set***' : '(not set)'}`);
+console.log(`  IMAGE_PROVIDER: ${process.env.IMAGE_PROVIDER || '(not set — fal)'}`);
+console.log(`  BUDGET_SESSION_USD: ${process.env.BUDGET_SESSION_USD || '(not set — $20)'}, BUDGET_CEILING_USD: ${process.env.BUDGET_CEILING_USD || '(not set — $50)'}`);
 
 // API key is optional — if not set, the Agent SDK uses Claude Code's own auth
 // (e.g., Max plan subscription via `claude login`)
@@ -102,6 +106,8 @@ wss.on('connection', async (socket: WebSocket) => {
         if (action.type === 'brand_selected') {
           console.log('[Server] Brand selected:', action.brand, action.product);
           setSessionState(action.brand, action.product, currentModel);
+          const status = getBudgetStatus();
+          if (status) bridge.sendUIUpdate(buildCostUpdate(status));
           return;
         }
 
@@ -109,31 +115,42 @@ wss.on('connection', async (socket: WebSocket) => {
         if (action.type === 'new_concept') {
           console.log('[Server] New concept boundary triggered');
 
-          // Build a concept summary from current state
-          const sessionState = getSessionState();
-          if (sessionState) {
-            const summary: ConceptSummary = {
-              angle: '', // TODO: extract from complete_concept calls
-              formatCategory: '', // TODO: extract from complete_concept calls
-              execution: '', // TODO: extract from complete_concept calls
-              frameId: '', // TODO: extract from frame interactions
-              keyDecisions: [],
-              issues: [],
-              cost: 0, // TODO: calculate from PostToolUse hook
-              completedAt: new Date().toISOString(),
-            };
-
-            try {
-              const sessionId = getSessionId();
-              addConceptSummary(sessionId, summary);
-            } catch (error) {
-              console.error('[Server] Failed to save concept summary:', error);
-            }
-          }
+          // Complete the concept's summary from what the tracker saw. finishConcept detaches
+          // the concept before its first await, so anything after this lands in the next one.
+          finishConcept()
+            .then(summary => {
+              if (summary) {
+                console.log(`[Server] Concept summary: ${summary.angle || '(not logged)'} — $${summary.cost.toFixed(2)}, ${summary.framesTouched?.length ?? 0} frames`);
+              }
+            })
+            .catch(error => console.error('[Server] Failed to save concept summary:', error));
 
           // Reset agent session (clears conversation history)
           resetSession();
           resetCostEstimated();
+          startConceptBudget();
+          // Previous concept's rollback points are no longer relevant
+          clearCheckpoints();
+          return;
+        }
+
+        // Handle budget raise approved in the plugin
+        if (action.type === 'budget_raise') {
+          try {
+            const raised = raiseBudget(action.scope, action.limit);
+            const status = getBudgetStatus();
+            if (status) bridge.sendUIUpdate(buildCostUpdate(status));
+            bridge.sendUIUpdate({
+              type: 'status',
+              phase: 'idle',
+              message: `${action.scope} budget is now $${raised.limit.toFixed(2)}`,
+            });
+          } catch (error) {
+            bridge.sendUIUpdate({
+              type: 'error_friendly',
+              message: error instanceof Error ? error.message : 'Could not raise the budget',
+            });
+          }
           return;
         }
 
@@ -4,10 +4,11 @@
  * Stores session state to disk for:
  * - Session resume across plugin restarts
  * - Concept history tracking (multi-concept sessions)
- * - Asset manifest logging
+ * - Asset manifest logging (indexed across sessions in data/asset-index.ts)
  * - Cost accumulation
  *
  * Storage: backend/data/sessions/{sessionId}.json
+ * Per-session files (checkpoints): backend/data/sessions/{sessionId}/
  */
 
 import fs from 'fs';
@@ -32,10 +33,21 @@ export interface ConceptSummary {
   formatCategory: string;
   execution: string;
   frameId: string;
+  productPosition?: string;
+  productShot?: string;
+  background?: string;
   keyDecisions: string[];
   issues: string[];
   cost: number;
   completedAt: string;
+  /** False when the concept ended without a complete_concept call */
+  logged?: boolean;
+  startedAt?: string;
+  framesTouched?: string[];
+  /** Tool name → call count */
+  toolsUsed?: Record<string, number>;
+  /** Paths of assets generated during the concept */
+  assets?: string[];
 }
 
 export interface AssetEntry {
@@ -45,6 +57,10 @@ export interface AssetEntry {
   prompt: string;
   cost: number;
   createdAt: string;
+  /** generate_asset type (background, prop, ...) */
+  kind?: string;
+  /** Asset index ID when this entry re-uses an earlier session's asset */
+  reusedFrom?: string;
 }
 
 /**
@@ -63,6 +79,14 @@ function getSessionPath(sessionId: string): string {
   return path.join(SESSIONS_DIR, `${sessionId}.json`);
 }
 
+/**
+ * Get the directory for per-session files (checkpoints, etc.)
+ * Sits next to {sessionId}.json — created on demand by callers
+ */
+export function getSessionDir(sessionId: string): string {
+  return path.join(SESSIONS_DIR, sessionId);
+}
+
 /**
  * Save a session to disk
  */
@@ -115,7 +139,12 @@ export function listSessions(): Array<{
       .filter(f => f.endsWith('.json'))
       .map(f => {
         const sessionId = f.replace('.json', '');
-        const session = loadSession(sessionId);
+        let session: PersistedSession | null;
+        try {
+          session = loadSession(sessionId);
+        } catch {
+          return null; // unreadable session file — don't hide every other session
+        }
         if (!session) return null;
 
         return {
@@ -137,7 +166,32 @@ export function listSessions(): Array<{
 }
 
 /**
- * Delete a session file
+ * Total spend of a brand's sessions created at or after `since` (ISO timestamp)
+ */
+export function getBrandSpend(brand: string, since: string): number {
+  ensureSessionsDir();
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(SESSIONS_DIR).filter(f => f.endsWith('.json'));
+  } catch {
+    return 0;
+  }
+
+  return files.reduce((sum, f) => {
+    let session: PersistedSession | null;
+    try {
+      session = loadSession(f.replace('.json', ''));
+    } catch {
+      return sum; // unreadable session file — skip it rather than block every check
+    }
+    if (!session || session.brand.toLowerCase() !== brand.toLowerCase() || session.createdAt < since) return sum;
+    return sum + session.totalCost;
+  }, 0);
+}
+
+/**
+ * Delete a session file and its per-session directory
  */
 export function deleteSession(sessionId: string): void {
   const filePath = getSessionPath(sessionId);
@@ -150,6 +204,8 @@ export function deleteSession(sessionId: string): void {
       throw error;
     }
   }
+
+  fs.rmSync(getSessionDir(sessionId), { recursive: true, force: true });
 }
 
 /**
@@ -166,6 +222,23 @@ export function addConceptSummary(sessionId: string, summary: ConceptSummary): v
   console.log(`[Persistence] Added concept summary to session ${sessionId}`);
 }
 
+/**
+ * Replace the concept summary at `index` (e.g. when the concept boundary completes it)
+ */
+export function updateConceptSummary(sessionId: string, index: number, summary: ConceptSummary): void {
+  const session = loadSession(sessionId);
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  if (index < 0 || index >= session.conceptSummaries.length) {
+    throw new Error(`Session ${sessionId} has no concept summary #${index}`);
+  }
+
+  session.conceptSummaries[index] = summary;
+  saveSession(session);
+  console.log(`[Persistence] Updated concept summary ${index} in session ${sessionId}`);
+}
+
 /**
  * Add an asset entry to a session
  */
@@ -6,6 +6,7 @@
  *
  * Phase 3a: module-level state (in-memory)
  * Phase 3b: file-backed persistence for session resume
+ * Checkpoints are loaded alongside the session (see checkpoint-store.ts)
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -19,6 +20,7 @@ import {
   type ConceptSummary,
   type PersistedSession,
 } from './session-persistence.js';
+import { loadSessionCheckpoints, unloadCheckpoints } from './checkpoint-store.js';
 
 export interface SessionState {
   sessionId: string;
@@ -65,6 +67,9 @@ export function setSessionState(brand: string, product: string, model: string):
   const assetDir = path.join(process.cwd(), 'data', 'assets', sessionId);
   fs.mkdirSync(assetDir, { recursive: true });
 
+  // New session starts with no checkpoints
+  loadSessionCheckpoints(sessionId);
+
   console.log(`[Session] State set: sessionId=${sessionId}, brand=${brand}, product=${product}, model=${model}`);
 }
 
@@ -105,6 +110,9 @@ export function getSessionState(): SessionState | null {
     totalCost: persisted.totalCost,
   };
 
+  // Bring back checkpoints saved before the restart
+  loadSessionCheckpoints(persisted.sessionId);
+
   console.log(`[Session] Restored session ${persisted.sessionId} from disk`);
   return currentState;
 }
@@ -134,6 +142,7 @@ export function getCurrentProduct(): string {
  */
 export function clearSessionState(): void {
   currentState = null;
+  unloadCheckpoints();
   console.log('[Session] State cleared');
 }
 
@@ -0,0 +1,526 @@
+/**
+ * adapt_ad tool
+ *
+ * Reflows a finished ad into other placements (4:5, 1:1, 1.91:1, 16:9, 9:16).
+ * Each target is a clone of the source frame, placed to its right and re-laid out:
+ * - Typography, spacing and nested frames scale with the usable (safe-zone) area
+ * - The product keeps its place_product preset; landscape targets move a centered
+ *   product into a right-hand column so the copy reflows beside it
+ * - Full-bleed background layers stretch to the new frame, decorations keep their
+ *   relative position
+ * - Root padding never lets flow content into the target's safe zones
+ *
+ * Each adapted frame is then checked. If the copy overflows, type is shrunk once
+ * more; whatever still doesn't fit is reported per frame.
+ */
+
+import { z } from 'zod';
+import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { snap8 } from './utils.js';
+import { POSITION_PRESETS } from './place-product.js';
+import { PLATFORM_SPECS } from './platform-specs.js';
+
+const STORY_ZONE = PLATFORM_SPECS['meta-stories'].safeZone;
+
+/** Placement sizes and the top/bottom bands covered by platform UI */
+export const AD_FORMATS = {
+  '9:16': { width: 1080, height: 1920, safeZone: { top: STORY_ZONE.top, bottom: STORY_ZONE.bottom } },
+  '4:5': { width: 1080, height: 1350, safeZone: { top: 0, bottom: 0 } },
+  '1:1': { width: 1080, height: 1080, safeZone: { top: 0, bottom: 0 } },
+  '1.91:1': { width: 1200, height: 628, safeZone: { top: 0, bottom: 0 } },
+  '16:9': { width: 1920, height: 1080, safeZone: { top: 0, bottom: 0 } },
+} as const;
+
+export type AdFormat = keyof typeof AD_FORMATS;
+
+const DEFAULT_FORMATS: AdFormat[] = ['4:5', '1:1', '1.91:1', '16:9'];
+
+/** Smallest font size still legible in a feed placement */
+const MIN_FONT_SIZE = 24;
+
+/** Smallest padding an adapted frame gets (unless the source had none) */
+const MIN_PADDING = 40;
+
+export const adaptAdSchema = z.object({
+  frameId: z.string().describe('Source ad frame ID (usually the finished story)'),
+  formats: z.array(z.enum(['9:16', '4:5', '1:1', '1.91:1', '16:9'])).optional()
+    .describe('Target placements. Default: ["4:5", "1:1", "1.91:1", "16:9"]'),
+  gap: z.number().optional().describe('Horizontal gap between adapted frames in px. Default: 100'),
+});
+
+export type AdaptAdInput = z.infer<typeof adaptAdSchema>;
+
+interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+interface ProductPlan {
+  sourceId: string;
+  preset: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LayoutPlan {
+  format: AdFormat;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  /** Uniform scale for decorations */
+  scale: number;
+  /** Scale for type, spacing and flow content */
+  typeScale: number;
+  padding: Padding;
+  safeZone: { top: number; bottom: number };
+  product?: ProductPlan;
+}
+
+function isAutoLayout(node: SerializedNode): boolean {
+  return node.layoutMode !== undefined && node.layoutMode !== 'NONE';
+}
+
+function hasImageFill(node: SerializedNode): boolean {
+  return (node.fills ?? []).some(f => f.type === 'IMAGE' && f.visible !== false);
+}
+
+/** Covers (nearly) the whole frame — a background layer */
+function isFullBleed(node: SerializedNode, frame: SerializedNode): boolean {
+  return node.x <= frame.width * 0.01 && node.y <= frame.height * 0.01 &&
+    node.x + node.width >= frame.width * 0.99 && node.y + node.height >= frame.height * 0.99;
+}
+
+/**
+ * Positioned by x/y rather than by its parent's auto-layout.
+ * serialize_frame only reports layoutPositioning for frames, so full-bleed
+ * shapes count as absolute background layers too.
+ */
+function isPositioned(node: SerializedNode, parent: SerializedNode): boolean {
+  return !isAutoLayout(parent) || node.layoutPositioning === 'ABSOLUTE' || isFullBleed(node, parent);
+}
+
+function safeZoneFor(width: number, height: number): { top: number; bottom: number } {
+  const match = Object.values(AD_FORMATS).find(f => f.width === width && f.height === height);
+  return match ? match.safeZone : { top: 0, bottom: 0 };
+}
+
+/**
+ * The product placed by place_product: a positioned, image-filled child of the root.
+ * Prefers a node named "Product".
+ */
+function findProduct(source: SerializedNode): SerializedNode | undefined {
+  const candidates = (source.children ?? []).filter(c =>
+    c.visible !== false && isPositioned(c, source) && hasImageFill(c) && !isFullBleed(c, source)
+  );
+  return candidates.find(c => c.name === 'Product') ?? candidates[0];
+}
+
+/** place_product's padding rule: paddingBottom, else paddingTop, else 80 */
+function presetPadding(padding: { top?: number; bottom?: number }): number {
+  return padding.bottom || padding.top || 80;
+}
+
+/**
+ * Work out which place_product preset produced the product's position.
+ * Falls back to "custom" when no preset lands within 5% of the frame.
+ */
+function detectPreset(source: SerializedNode, product: SerializedNode): string {
+  const pad = presetPadding({ top: source.paddingTop, bottom: source.paddingBottom });
+  let best = 'custom';
+  let bestDistance = Math.max(source.width, source.height) * 0.05;
+
+  for (const [name, calc] of Object.entries(POSITION_PRESETS)) {
+    const pos = calc(source.width, source.height, product.width, product.height, pad);
+    const distance = Math.hypot(pos.x - product.x, pos.y - product.y);
+    if (distance < bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function planLayout(source: SerializedNode, format: AdFormat, typeScaleOverride?: number): LayoutPlan {
+  const target = AD_FORMATS[format];
+  const { width, height, safeZone } = target;
+  const sourceSafe = safeZoneFor(source.width, source.height);
+
+  const scaleX = width / source.width;
+  const scaleY = height / source.height;
+  const scale = Math.min(scaleX, scaleY);
+  const usableScale = (height - safeZone.top - safeZone.bottom) / (source.height - sourceSafe.top - sourceSafe.bottom);
+  const typeScale = typeScaleOverride ?? Math.min(scaleX, usableScale);
+
+  const scalePadding = (value: number | undefined) => (value ? Math.max(MIN_PADDING, snap8(value * scale)) : 0);
+  const padding: Padding = {
+    top: Math.max(scalePadding(source.paddingTop), safeZone.top),
+    right: scalePadding(source.paddingRight),
+    bottom: Math.max(scalePadding(source.paddingBottom), safeZone.bottom),
+    left: scalePadding(source.paddingLeft),
+  };
+
+  const plan: LayoutPlan = { format, width, height, scaleX, scaleY, scale, typeScale, padding, safeZone };
+
+  const product = findProduct(source);
+  if (product) {
+    const preset = detectPreset(source, product);
+    const aspect = product.height / product.width;
+    const usableHeight = height - safeZone.top - safeZone.bottom;
+    const sourceLandscape = source.width > source.height * 1.2;
+    const targetLandscape = width > height * 1.2;
+    const stacked = ['center', 'center-bottom', 'top', 'bottom'].includes(preset);
+    const sided = preset === 'left' || preset === 'right';
+
+    let targetPreset = preset;
+    let productWidth: number;
+
+    if (targetLandscape && !sourceLandscape && stacked) {
+      // Landscape: the product gets its own column so copy can sit beside it
+      targetPreset = 'right';
+      productWidth = Math.min(usableHeight * 0.85 / aspect, width * 0.45);
+    } else if (!targetLandscape && sourceLandscape && sided) {
+      targetPreset = 'center-bottom';
+      productWidth = Math.min(width * 0.6, usableHeight * 0.5 / aspect);
+    } else {
+      productWidth = product.width * scale;
+    }
+
+    productWidth = Math.round(productWidth);
+    const productHeight = Math.round(productWidth * aspect);
+
+    let x: number;
+    let y: number;
+    if (targetPreset === 'custom') {
+      x = (product.x + product.width / 2) * scaleX - productWidth / 2;
+      y = (product.y + product.height / 2) * scaleY - productHeight / 2;
+    } else {
+      const pos = POSITION_PRESETS[targetPreset](width, height, productWidth, productHeight, presetPadding(padding));
+      x = pos.x;
+      y = pos.y;
+    }
+
+    // Reserve the column the product moved into so auto-layout copy doesn't run underneath it
+    if (isAutoLayout(source) && targetPreset !== preset && (targetPreset === 'left' || targetPreset === 'right')) {
+      const side = targetPreset;
+      padding[side] = Math.max(padding[side], snap8(productWidth) + Math.max(MIN_PADDING, padding[side]));
+    }
+
+    plan.product = {
+      sourceId: product.id,
+      preset: targetPreset,
+      x: Math.round(x),
+      y: Math.round(y),
+      width: productWidth,
+      height: productHeight,
+    };
+  }
+
+  return plan;
+}
+
+type NodeUpdate = { nodeId: string; properties: Record<string, unknown> };
+
+/**
+ * Scale one node (and its subtree) of the clone, using the matching source node as reference.
+ * `factor` is the scale applied to the parent's box — nested content follows it.
+ */
+function adaptNode(
+  src: SerializedNode,
+  clone: SerializedNode,
+  parent: SerializedNode,
+  factor: number,
+  plan: LayoutPlan,
+  updates: NodeUpdate[],
+  isRootChild: boolean,
+): void {
+  const props: Record<string, unknown> = {};
+  const positioned = isPositioned(src, parent);
+  let childFactor = factor;
+
+  if (isRootChild && plan.product?.sourceId === src.id) {
+    const { x, y, width, height } = plan.product;
+    updates.push({ nodeId: clone.id, properties: { x, y, width, height } });
+    return;
+  }
+
+  if (isRootChild && positioned) {
+    if (isFullBleed(src, parent)) {
+      Object.assign(props, { x: 0, y: 0, width: plan.width, height: plan.height });
+    } else {
+      // Decoration: keep its relative position, stretch bands that span the frame
+      const spansWidth = src.width >= parent.width * 0.99;
+      const spansHeight = src.height >= parent.height * 0.99;
+      const width = spansWidth ? plan.width : src.width * plan.scale;
+      const height = spansHeight ? plan.height : src.height * plan.scale;
+      props.x = Math.round(spansWidth ? 0 : (src.x + src.width / 2) * plan.scaleX - width / 2);
+      props.y = Math.round(spansHeight ? 0 : (src.y + src.height / 2) * plan.scaleY - height / 2);
+      props.width = Math.round(width);
+      props.height = Math.round(height);
+    }
+    childFactor = plan.scale;
+  } else if (positioned) {
+    props.x = Math.round(src.x * factor);
+    props.y = Math.round(src.y * factor);
+    props.width = Math.round(src.width * factor);
+    props.height = Math.round(src.height * factor);
+  } else {
+    // Flow child: only fixed axes carry an explicit size
+    if (src.layoutSizingHorizontal === 'FIXED') {
+      const maxWidth = isRootChild ? plan.width - plan.padding.left - plan.padding.right : Infinity;
+      props.width = Math.round(Math.min(src.width * factor, maxWidth));
+    }
+    if (src.layoutSizingVertical === 'FIXED') {
+      props.height = Math.round(src.height * factor);
+    }
+  }
+
+  if (src.type === 'TEXT') {
+    // Auto-resizing text sizes itself from the new font size
+    if (src.textAutoResize === 'WIDTH_AND_HEIGHT') {
+      delete props.width;
+      delete props.height;
+    } else if (src.textAutoResize === 'HEIGHT') {
+      delete props.height;
+    }
+    if (src.fontSize) props.fontSize = Math.max(1, Math.round(src.fontSize * factor));
+    if (src.lineHeight?.unit === 'PIXELS' && src.lineHeight.value) {
+      props.lineHeight = { unit: 'PIXELS', value: Math.round(src.lineHeight.value * factor) };
+    }
+    if (src.letterSpacing?.unit === 'PIXELS') {
+      props.letterSpacing = { unit: 'PIXELS', value: Math.round(src.letterSpacing.value * factor * 10) / 10 };
+    }
+  }
+
+  if (src.cornerRadius) props.cornerRadius = Math.round(src.cornerRadius * childFactor);
+
+  if (src.type === 'FRAME') {
+    if (isAutoLayout(src)) {
+      if (src.itemSpacing) props.itemSpacing = snap8(src.itemSpacing * childFactor);
+      if (src.paddingTop) props.paddingTop = snap8(src.paddingTop * childFactor);
+      if (src.paddingRight) props.paddingRight = snap8(src.paddingRight * childFactor);
+      if (src.paddingBottom) props.paddingBottom = snap8(src.paddingBottom * childFactor);
+      if (src.paddingLeft) props.paddingLeft = snap8(src.paddingLeft * childFactor);
+    }
+    (src.children ?? []).forEach((child, i) => {
+      const cloneChild = clone.children?.[i];
+      if (cloneChild) adaptNode(child, cloneChild, src, childFactor, plan, updates, false);
+    });
+  }
+
+  if (Object.keys(props).length > 0) {
+    updates.push({ nodeId: clone.id, properties: props });
+  }
+}
+
+/**
+ * Apply a layout plan to the clone. Returns the clone's product node ID, if any.
+ */
+async function applyLayout(
+  bridge: Bridge,
+  source: SerializedNode,
+  clone: SerializedNode,
+  plan: LayoutPlan,
+  placement: { name: string; x: number; y: number },
+): Promise<string | undefined> {
+  const rootProps: Record<string, unknown> = {
+    name: placement.name,
+    x: placement.x,
+    y: placement.y,
+    width: plan.width,
+    height: plan.height,
+  };
+  if (isAutoLayout(source)) {
+    Object.assign(rootProps, {
+      paddingTop: plan.padding.top,
+      paddingRight: plan.padding.right,
+      paddingBottom: plan.padding.bottom,
+      paddingLeft: plan.padding.left,
+      itemSpacing: snap8((source.itemSpacing ?? 0) * plan.typeScale),
+    });
+  }
+
+  // Root first so children lay out against the new size
+  const updates: NodeUpdate[] = [{ nodeId: clone.id, properties: rootProps }];
+  let productId: string | undefined;
+
+  (source.children ?? []).forEach((child, i) => {
+    const cloneChild = clone.children?.[i];
+    if (!cloneChild) return;
+    if (child.id === plan.product?.sourceId) productId = cloneChild.id;
+    adaptNode(child, cloneChild, source, plan.typeScale, plan, updates, true);
+  });
+
+  const result = await bridge.sendCommand({ type: 'batch_update', updates });
+  if (result?.errors?.length) {
+    throw new Error(`Failed to adapt ${plan.format}: ${result.errors.map((e: any) => e.error).join('; ')}`);
+  }
+  return productId;
+}
+
+function boxesOverlap(a: SerializedNode, b: SerializedNode): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function collectText(node: SerializedNode, out: SerializedNode[] = []): SerializedNode[] {
+  if (node.visible === false) return out;
+  if (node.type === 'TEXT') out.push(node);
+  for (const child of node.children ?? []) collectText(child, out);
+  return out;
+}
+
+/**
+ * Check an adapted frame. `shrink` < 1 means the flow content is too big by that factor.
+ * A product anchored to the bottom counts as the lower limit for the copy.
+ */
+function checkFit(frame: SerializedNode, plan: LayoutPlan, productId?: string): { issues: string[]; shrink: number } {
+  const issues: string[] = [];
+  const { width, height } = frame;
+  const pad = {
+    top: frame.paddingTop ?? 0,
+    right: frame.paddingRight ?? 0,
+    bottom: frame.paddingBottom ?? 0,
+    left: frame.paddingLeft ?? 0,
+  };
+  const children = (frame.children ?? []).filter(c => c.visible !== false);
+  const flow = isAutoLayout(frame) ? children.filter(c => !isPositioned(c, frame)) : [];
+  const product = children.find(c => c.id === productId);
+  let shrink = 1;
+
+  if (flow.length > 0) {
+    const top = Math.min(...flow.map(c => c.y));
+    const bottom = Math.max(...flow.map(c => c.y + c.height));
+    const left = Math.min(...flow.map(c => c.x));
+    const right = Math.max(...flow.map(c => c.x + c.width));
+    let limit = height - pad.bottom;
+    if (product && (plan.product?.preset === 'center-bottom' || plan.product?.preset === 'bottom')) {
+      limit = Math.min(limit, product.y - (frame.itemSpacing ?? 0));
+    }
+    shrink = Math.min(
+      1,
+      (limit - top) / (bottom - top),
+      (width - pad.left - pad.right) / (right - left),
+    );
+
+    for (const child of flow) {
+      const overflows: string[] = [];
+      if (child.y < pad.top - 1) overflows.push(`top by ${Math.round(pad.top - child.y)}px`);
+      if (child.y + child.height > height - pad.bottom + 1) {
+        overflows.push(`bottom by ${Math.round(child.y + child.height - (height - pad.bottom))}px`);
+      }
+      if (child.x < pad.left - 1) overflows.push(`left by ${Math.round(pad.left - child.x)}px`);
+      if (child.x + child.width > width - pad.right + 1) {
+        overflows.push(`right by ${Math.round(child.x + child.width - (width - pad.right))}px`);
+      }
+      if (overflows.length > 0) {
+        issues.push(`"${child.name}" overflows the padding (${overflows.join(', ')})`);
+      }
+    }
+  }
+
+  const critical = product ? [...flow, product] : flow;
+  if (plan.safeZone.top > 0 || plan.safeZone.bottom > 0) {
+    for (const node of critical) {
+      if (node.y < plan.safeZone.top || node.y + node.height > height - plan.safeZone.bottom) {
+        issues.push(`"${node.name}" reaches into the ${plan.format} safe zone (${plan.safeZone.top}px top / ${plan.safeZone.bottom}px bottom)`);
+      }
+    }
+  }
+
+  for (const text of collectText(frame)) {
+    if (text.fontSize && text.fontSize < MIN_FONT_SIZE) {
+      issues.push(`"${text.name}" is ${text.fontSize}px — below the ${MIN_FONT_SIZE}px legibility floor`);
+    }
+  }
+
+  if (product) {
+    for (const child of flow) {
+      if (boxesOverlap(product, child)) issues.push(`"${product.name}" overlaps "${child.name}"`);
+    }
+    const offFrame = plan.product?.preset.startsWith('off-frame');
+    if (!offFrame && (product.x < 0 || product.y < 0 || product.x + product.width > width || product.y + product.height > height)) {
+      issues.push(`"${product.name}" is cropped by the frame edge`);
+    }
+  }
+
+  return { issues, shrink };
+}
+
+async function serializeFrame(bridge: Bridge, frameId: string): Promise<SerializedNode> {
+  const serialized = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+  if (!serialized || !serialized.id) {
+    throw new Error(`Failed to serialize frame ${frameId}`);
+  }
+  return serialized as SerializedNode;
+}
+
+export async function adaptAd(input: AdaptAdInput, bridge: Bridge): Promise<any> {
+  const formats = input.formats ?? DEFAULT_FORMATS;
+  const gap = input.gap ?? 100;
+
+  const source = await serializeFrame(bridge, input.frameId);
+  if (source.type !== 'FRAME') {
+    throw new Error(`adapt_ad needs a FRAME, got ${source.type} (${input.frameId})`);
+  }
+
+  const adaptations: any[] = [];
+  const skipped: string[] = [];
+  let nextX = source.x + source.width + gap;
+
+  for (const format of formats) {
+    const target = AD_FORMATS[format];
+    if (target.width === source.width && target.height === source.height) {
+      skipped.push(format);
+      continue;
+    }
+
+    const cloneResult = await bridge.sendCommand({
+      type: 'figma_call',
+      method: 'cloneNode',
+      args: [input.frameId],
+    });
+    const frameId: string = cloneResult.id;
+    const clone = await serializeFrame(bridge, frameId);
+    const placement = { name: `${source.name} (${format})`, x: nextX, y: source.y };
+
+    let plan = planLayout(source, format);
+    let productId = await applyLayout(bridge, source, clone, plan, placement);
+    let fit = checkFit(await serializeFrame(bridge, frameId), plan, productId);
+
+    // One more pass with smaller type if the copy doesn't fit
+    if (fit.shrink < 0.99) {
+      plan = planLayout(source, format, plan.typeScale * fit.shrink);
+      productId = await applyLayout(bridge, source, clone, plan, placement);
+      fit = checkFit(await serializeFrame(bridge, frameId), plan, productId);
+    }
+
+    adaptations.push({
+      format,
+      frameId,
+      name: placement.name,
+      dimensions: { width: target.width, height: target.height },
+      typeScale: Math.round(plan.typeScale * 100) / 100,
+      productPreset: plan.product?.preset,
+      issues: fit.issues,
+    });
+    nextX += target.width + gap;
+  }
+
+  const issueCount = adaptations.reduce((sum, a) => sum + a.issues.length, 0);
+  const summary = adaptations.map(a => `${a.format} → ${a.frameId}`).join(', ');
+
+  return {
+    sourceFrameId: input.frameId,
+    adaptations,
+    skipped,
+    message: `Adapted "${source.name}" to ${adaptations.length} format${adaptations.length === 1 ? '' : 's'}` +
+      (summary ? ` (${summary})` : '') +
+      (skipped.length > 0 ? `. Skipped ${skipped.join(', ')} (same size as source)` : '') +
+      (issueCount > 0 ? `. ${issueCount} fit issue${issueCount === 1 ? '' : 's'} — review each frame's issues` : '. Everything fit'),
+  };
+}
@@ -7,13 +7,14 @@
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
 import { hexToRgba } from './utils.js';
+import { resolveColor } from './brand-tokens.js';
 
 export const addEffectSchema = z.object({
   nodeId: z.string().describe('Node ID to add effect to'),
   type: z
     .enum(['drop_shadow', 'inner_shadow', 'layer_blur', 'background_blur'])
     .describe('Effect type'),
-  color: z.string().optional().describe('Shadow color hex (default: #0000001A = 10% black)'),
+  color: z.string().optional().describe('Shadow color hex or brand token, e.g. "brand.primary/30" (default: #0000001A = 10% black)'),
   offset: z
     .object({
       x: z.number().describe('Shadow X offset in px'),
@@ -39,7 +40,8 @@ export async function addEffect(input: AddEffectInput, bridge: Bridge): Promise<
   const figmaType = typeMap[input.type];
 
   // Defaults
-  const color = input.color || '#0000001A';
+  // Shadows are usually translucent black, so literal colors aren't palette-checked
+  const color = resolveColor(input.color || '#0000001A');
   const offset = input.offset || { x: 0, y: 4 };
   const radius = input.radius ?? 8;
   const spread = input.spread ?? 0;
@@ -1,18 +1,24 @@
 /**
  * add_text tool
  *
- * Creates a text node inside a parent frame.
+ * Creates a text node inside a parent frame. Text may carry rich text spans
+ * (bold, highlight, colors, sizes — see rich-text.ts), applied as per-range styling.
  */
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
+import { resolveColor, resolveFontFamily, formatPaletteWarnings } from './brand-tokens.js';
+import { hexToSolidPaint } from './utils.js';
+import { parseRichText, runsToRichText, textRunSchema, formatRunFontFallbacks } from './rich-text.js';
 
 export const addTextSchema = z.object({
   parentId: z.string().describe('Parent frame ID to add text to'),
-  text: z.string().describe('Text content'),
+  text: z.string().optional().describe('Text content. Inline spans: **bold**, ==highlight==, __underline__, ~~strike~~, [text]{#FF5500 64px 700}. Backslash escapes a marker.'),
+  runs: z.array(textRunSchema).optional().describe('Rich text as an array of runs instead of text — the run texts are joined as-is'),
+  highlightColor: z.string().optional().describe('Color for ==highlight== spans, hex or brand token (default: brand.accent)'),
   fontSize: z.number().optional().describe('Font size in px (default: 64, must follow 8px grid: 24, 32, 40, 48, 64, 80, 96, 120, 160, 200...)'),
-  fontColor: z.string().optional().describe('Text color hex (default: #FFFFFF)'),
-  fontFamily: z.string().optional().describe('Font family (default: Inter)'),
+  fontColor: z.string().optional().describe('Text color hex or brand token, e.g. "brand.text" (default: #FFFFFF)'),
+  fontFamily: z.string().optional().describe('Font family or brand font token, e.g. "brand.heading" (default: Inter)'),
   fontWeight: z.number().optional().describe('Font weight: 200=Ultralight, 300=Light, 400=Regular, 500=Medium, 600=SemiBold (default: 400)'),
   fontStyle: z.string().optional().describe('Exact font style name override (e.g., "Ultralight", "Italic", "SemiBold Italic"). When provided, bypasses fontWeight mapping. Use for non-standard style names.'),
   insertIndex: z.number().optional().describe('Z-order index. 0 = behind all siblings (bottom layer), higher = in front. Omit to add on top of all siblings (default).'),
@@ -20,17 +26,6 @@ export const addTextSchema = z.object({
 
 export type AddTextInput = z.infer<typeof addTextSchema>;
 
-/**
- * Convert hex color to RGB object
- */
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const cleanHex = hex.replace(/^#/, '');
-  const r = parseInt(cleanHex.substring(0, 2), 16) / 255;
-  const g = parseInt(cleanHex.substring(2, 4), 16) / 255;
-  const b = parseInt(cleanHex.substring(4, 6), 16) / 255;
-  return { r, g, b };
-}
-
 /**
  * Convert font weight to style string
  * Figma uses style names like "Regular", "Medium", "SemiBold"
@@ -45,18 +40,28 @@ function weightToStyle(weight: number): string {
 
 export async function addText(input: AddTextInput, bridge: Bridge): Promise<any> {
   const fontSize = input.fontSize || 64;
-  const fontColor = input.fontColor || '#FFFFFF';
-  const fontFamily = input.fontFamily || 'Inter';
+  const paletteWarnings: string[] = [];
+  const fontColor = input.fontColor ? resolveColor(input.fontColor, paletteWarnings, 'fontColor') : '#FFFFFF';
+  const fontFamily = resolveFontFamily(input.fontFamily || 'Inter');
   const fontWeight = input.fontWeight || 400;
 
-  const color = hexToRgb(fontColor);
+  const { color, opacity } = hexToSolidPaint(fontColor);
   const fontStyle = input.fontStyle || weightToStyle(fontWeight);
 
+  if (input.text === undefined && !input.runs) {
+    throw new Error('add_text needs text or runs');
+  }
+  const richContext = { fontFamily, highlightColor: input.highlightColor, warnings: paletteWarnings, field: 'span color' };
+  const { characters, textRuns } = input.runs
+    ? runsToRichText(input.runs, richContext)
+    : parseRichText(input.text!, richContext);
+
   const opts: any = {
     parentId: input.parentId,
-    characters: input.text,
+    characters,
     fontSize,
     fontColor: color,
+    fontOpacity: opacity,
     fontFamily,
     fontStyle,
   };
@@ -65,6 +70,10 @@ export async function addText(input: AddTextInput, bridge: Bridge): Promise<any>
     opts.insertIndex = input.insertIndex;
   }
 
+  if (textRuns.length > 0) {
+    opts.textRuns = textRuns;
+  }
+
   const result = await bridge.sendCommand({
     type: 'figma_call',
     method: 'createText',
@@ -76,9 +85,14 @@ export async function addText(input: AddTextInput, bridge: Bridge): Promise<any>
   const fontWarning = fontApplied && (fontApplied.family !== fontFamily || fontApplied.style !== fontStyle)
     ? ` WARNING: Requested font ${fontFamily}/${fontStyle} not available — fell back to ${fontApplied.family}/${fontApplied.style}`
     : '';
+  const runFallbacks = formatRunFontFallbacks(result.runFontFallbacks);
+  const runWarning = runFallbacks.length > 0
+    ? ` WARNING: span fonts not available — ${runFallbacks.join('; ')}`
+    : '';
+  const runNote = textRuns.length > 0 ? `, ${textRuns.length} styled span${textRuns.length === 1 ? '' : 's'}` : '';
 
   return {
     textNodeId: result.id,
-    message: `Created text node: "${input.text}" (${fontSize}px, ${fontApplied ? `${fontApplied.family} ${fontApplied.style}` : `${fontFamily} ${fontStyle}`})${fontWarning}`,
+    message: `Created text node: "${characters}" (${fontSize}px, ${fontApplied ? `${fontApplied.family} ${fontApplied.style}` : `${fontFamily} ${fontStyle}`}${runNote})${fontWarning}${runWarning}${formatPaletteWarnings(paletteWarnings)}`,
   };
 }
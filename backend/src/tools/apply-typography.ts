@@ -10,21 +10,49 @@
  * - "Tight headline line-height — split-and-stack workaround"
  * - "Font weight — use numeric values"
  * - "Text auto-resize modes" (WIDTH_AND_HEIGHT vs HEIGHT)
+ *
+ * Unset font/size/weight/color fall back to the active brand's typography tokens
+ * (brand/tokens.json) before the role defaults below.
+ *
+ * Elements with fit skip the fixed role size: text-fit.ts picks the largest size
+ * within the role's bounds that fits the box, and the line breaks. Multi-line
+ * headlines are then built as a split-stack of exactly those lines.
+ *
+ * Element text may carry rich text spans (rich-text.ts). The runs travel with the
+ * text node — split-stack lines each get the runs that fall inside them — and fit
+ * mode measures the plain characters in the element's base style.
  */
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
-import { hexToRgb, weightToStyle } from './utils.js';
+import type { SerializedTextRun } from '../../../shared/protocol.js';
+import { hexToRgba, weightToStyle } from './utils.js';
+import { resolveColor, resolveFontFamily, getRoleTokenDefaults, formatPaletteWarnings } from './brand-tokens.js';
+import { ROLE_FIT_BOUNDS, breakLines, fitText, measureWords, type FitBounds, type TextMetrics } from './text-fit.js';
+import { parseRichText, runsToRichText, runsForLines, formatRunFontFallbacks, textRunSchema, type RichText } from './rich-text.js';
+
+const fitSchema = z.object({
+  maxWidth: z.number().optional().describe('Box width in px. Default: the frame\'s inner width'),
+  maxHeight: z.number().optional().describe('Box height in px'),
+  fill: z.boolean().optional().describe('Use the height still free in the frame as maxHeight (one default-size line is reserved for each element after this one)'),
+  maxLines: z.number().int().min(1).optional().describe('Most lines allowed. Default: 3 for headline and subhead, 1 for label'),
+  minSize: z.number().optional().describe('Smallest font size to try. Default: role minimum (headline 72, subhead/body 40, label 32, fine_print 24)'),
+  maxSize: z.number().optional().describe('Largest font size to try. Default: role maximum (headline 200, subhead 72, body 56, label 48, fine_print 32)'),
+  balance: z.boolean().optional().describe('Even out line lengths instead of filling each line greedily'),
+});
 
 const elementSchema = z.object({
   role: z.enum(['headline', 'subhead', 'body', 'label', 'fine_print']),
-  text: z.string(),
+  text: z.string().optional().describe('Text content. Inline spans: **bold**, ==highlight==, __underline__, ~~strike~~, [text]{#FF5500 64px 700}. Backslash escapes a marker.'),
+  runs: z.array(textRunSchema).optional().describe('Rich text as an array of runs instead of text — the run texts are joined as-is'),
+  highlightColor: z.string().optional().describe('Color for ==highlight== spans, hex or brand token (default: brand.accent)'),
   fontSize: z.number().optional().describe('Override default font size for this role'),
-  fontFamily: z.string().optional().describe('Font family (default: Inter)'),
+  fontFamily: z.string().optional().describe('Font family or brand font token, e.g. "brand.heading" (default: brand role font, else Inter)'),
   fontWeight: z.number().optional().describe('Font weight: 200=Ultralight, 300=Light, 400=Regular, 500=Medium, 600=SemiBold'),
   fontStyle: z.string().optional().describe('Exact font style name override (e.g., "Ultralight", "Italic"). Bypasses fontWeight mapping.'),
-  fontColor: z.string().optional().describe('Text color hex (default: #FFFFFF)'),
+  fontColor: z.string().optional().describe('Text color hex or brand token, e.g. "brand.text" (default: brand role color, else #FFFFFF)'),
   textAlign: z.enum(['LEFT', 'CENTER', 'RIGHT']).optional().describe('Horizontal text alignment'),
+  fit: fitSchema.optional().describe('Fit mode: measure the text and use the largest size within role bounds that fits the box (fontSize is ignored). Reports the chosen size and line breaks.'),
 });
 
 export const applyTypographySchema = z.object({
@@ -36,6 +64,8 @@ export const applyTypographySchema = z.object({
 
 export type ApplyTypographyInput = z.infer<typeof applyTypographySchema>;
 
+type TypographyElement = z.infer<typeof elementSchema>;
+
 /** Role-based defaults for text sizing and layout */
 interface RoleDefaults {
   fontSize: number;
@@ -82,6 +112,8 @@ const ROLE_DEFAULTS: Record<string, RoleDefaults> = {
 interface TextNodeResult {
   id: string;
   fontApplied?: { family: string; style: string };
+  /** Span fonts the plugin substituted, as warning strings */
+  runFallbacks: string[];
 }
 
 async function createTextNode(
@@ -90,12 +122,14 @@ async function createTextNode(
   characters: string,
   opts: {
     fontSize: number;
-    fontColor: { r: number; g: number; b: number };
+    fontColor: { r: number; g: number; b: number; a: number };
     fontFamily: string;
     fontStyle: string;
     textAutoResize: string;
     textAlignHorizontal?: string;
     layoutSizingHorizontal?: string;
+    width?: number;
+    textRuns?: SerializedTextRun[];
   },
 ): Promise<TextNodeResult> {
   const result = await bridge.sendCommand({
@@ -105,16 +139,19 @@ async function createTextNode(
       parentId,
       characters,
       fontSize: opts.fontSize,
-      fontColor: opts.fontColor,
+      fontColor: { r: opts.fontColor.r, g: opts.fontColor.g, b: opts.fontColor.b },
+      fontOpacity: opts.fontColor.a < 1 ? opts.fontColor.a : undefined,
       fontFamily: opts.fontFamily,
       fontStyle: opts.fontStyle,
       textAutoResize: opts.textAutoResize,
       textAlignHorizontal: opts.textAlignHorizontal,
       layoutSizingHorizontal: opts.layoutSizingHorizontal,
+      width: opts.width,
+      textRuns: opts.textRuns && opts.textRuns.length > 0 ? opts.textRuns : undefined,
     }],
   });
 
-  return { id: result.id, fontApplied: result.fontApplied };
+  return { id: result.id, fontApplied: result.fontApplied, runFallbacks: formatRunFontFallbacks(result.runFontFallbacks) };
 }
 
 /**
@@ -128,12 +165,14 @@ async function createSplitStack(
   lines: string[],
   opts: {
     fontSize: number;
-    fontColor: { r: number; g: number; b: number };
+    fontColor: { r: number; g: number; b: number; a: number };
     fontFamily: string;
     fontStyle: string;
     textAlignHorizontal?: string;
+    /** Rich text runs per line, offsets relative to the line */
+    lineRuns?: SerializedTextRun[][];
   },
-): Promise<{ wrapperId: string; textNodeIds: string[] }> {
+): Promise<{ wrapperId: string; textNodeIds: string[]; runFallbacks: string[] }> {
   const lineGap = Math.round(opts.fontSize * 0.1);
 
   // Create vertical wrapper frame
@@ -153,9 +192,10 @@ async function createSplitStack(
 
   const wrapperId = wrapperResult.id;
   const textNodeIds: string[] = [];
+  const runFallbacks: string[] = [];
 
   // Create one text node per line
-  for (const line of lines) {
+  for (const [i, line] of lines.entries()) {
     const result = await createTextNode(bridge, wrapperId, line, {
       fontSize: opts.fontSize,
       fontColor: opts.fontColor,
@@ -163,11 +203,178 @@ async function createSplitStack(
       fontStyle: opts.fontStyle,
       textAutoResize: 'WIDTH_AND_HEIGHT',
       textAlignHorizontal: opts.textAlignHorizontal,
+      textRuns: opts.lineRuns?.[i],
     });
     textNodeIds.push(result.id);
+    runFallbacks.push(...result.runFallbacks);
+  }
+
+  return { wrapperId, textNodeIds, runFallbacks };
+}
+
+// ─── Fit mode ───
+
+/** Split-stack line gap as a fraction of font size (see createSplitStack) */
+const SPLIT_STACK_GAP = 0.1;
+
+/** Slack added to a balanced wrap width so real glyph widths don't push a word down */
+const WRAP_SLACK_EM = 0.25;
+
+export interface FittedText {
+  role: string;
+  nodeId: string;
+  fontSize: number;
+  lines: string[];
+  /** Measured on the canvas after placement */
+  width: number;
+  height: number;
+  maxWidth: number;
+  maxHeight?: number;
+  /** Doesn't fit even at the role's minimum size */
+  overflow: boolean;
+  balanced: boolean;
+  /** The size was stepped down after reading back the real layout */
+  adjusted: boolean;
+}
+
+/**
+ * The box an element fits into: explicit bounds, else the frame's inner width and,
+ * with fill, the height still free (reserving one default line per later element)
+ */
+async function resolveFitBounds(
+  bridge: Bridge,
+  frameId: string,
+  element: TypographyElement,
+  later: TypographyElement[],
+  spacing: number,
+): Promise<FitBounds> {
+  const fit = element.fit!;
+  const roleBounds = ROLE_FIT_BOUNDS[element.role];
+  let maxWidth = fit.maxWidth;
+  let maxHeight = fit.maxHeight;
+
+  if (maxWidth === undefined || (fit.fill && maxHeight === undefined)) {
+    const frame = await bridge.sendCommand({
+      type: 'figma_call',
+      method: 'getNodeById',
+      args: [frameId],
+    });
+    maxWidth ??= frame.width - (frame.paddingLeft ?? 0) - (frame.paddingRight ?? 0);
+    if (fit.fill && maxHeight === undefined) {
+      const flow = (frame.children ?? []).filter((c: any) => c.visible !== false && c.layoutPositioning !== 'ABSOLUTE');
+      const used = flow.reduce((sum: number, c: any) => sum + c.height + spacing, 0);
+      const reserved = later.reduce((sum, e) => sum + spacing + Math.round((e.fontSize || ROLE_DEFAULTS[e.role].fontSize) * 1.2), 0);
+      maxHeight = Math.max(0, frame.height - (frame.paddingTop ?? 0) - (frame.paddingBottom ?? 0) - used - reserved);
+    }
+  }
+
+  return {
+    maxWidth: maxWidth!,
+    maxHeight,
+    maxLines: fit.maxLines ?? roleBounds.maxLines,
+    minSize: fit.minSize ?? roleBounds.minSize,
+    maxSize: fit.maxSize ?? roleBounds.maxSize,
+    balance: fit.balance ?? false,
+    lineGapRatio: element.role === 'headline' ? SPLIT_STACK_GAP : 0,
+  };
+}
+
+/**
+ * Measure, fit and place one element, then read the node back and step the size
+ * down once if the canvas layout came out larger than the estimate
+ */
+async function placeFittedText(
+  bridge: Bridge,
+  frameId: string,
+  element: TypographyElement,
+  rich: RichText,
+  bounds: FitBounds,
+  style: { fontFamily: string; fontStyle: string; fontColor: { r: number; g: number; b: number; a: number }; textAlign?: string },
+): Promise<{ fitted: FittedText; fontApplied?: { family: string; style: string }; runFallbacks: string[] }> {
+  const metrics: TextMetrics = await measureWords(bridge, rich.characters, style.fontFamily, style.fontStyle);
+  const fit = fitText(metrics, bounds);
+  const isStack = element.role === 'headline' && fit.lines.length > 1;
+
+  let nodeId: string;
+  let textNodeIds: string[];
+  let wrapWidth: number | undefined;
+  let fontApplied: { family: string; style: string } | undefined;
+  let runFallbacks: string[];
+
+  if (isStack) {
+    const stack = await createSplitStack(bridge, frameId, fit.lines, {
+      fontSize: fit.fontSize,
+      fontColor: style.fontColor,
+      fontFamily: style.fontFamily,
+      fontStyle: style.fontStyle,
+      textAlignHorizontal: style.textAlign,
+      lineRuns: runsForLines(rich.characters, rich.textRuns, fit.lines),
+    });
+    nodeId = stack.wrapperId;
+    textNodeIds = stack.textNodeIds;
+    fontApplied = metrics.fontApplied;
+    runFallbacks = stack.runFallbacks;
+  } else {
+    // Wrapped text gets a fixed box at the wrap width, so Figma breaks where the fit did
+    const singleLine = fit.lines.length === 1 && ROLE_DEFAULTS[element.role].textAutoResize === 'WIDTH_AND_HEIGHT';
+    wrapWidth = singleLine ? undefined : Math.min(bounds.maxWidth, Math.ceil(fit.wrapWidth + fit.fontSize * WRAP_SLACK_EM));
+    const result = await createTextNode(bridge, frameId, rich.characters, {
+      fontSize: fit.fontSize,
+      fontColor: style.fontColor,
+      fontFamily: style.fontFamily,
+      fontStyle: style.fontStyle,
+      textAutoResize: singleLine ? 'WIDTH_AND_HEIGHT' : 'HEIGHT',
+      textAlignHorizontal: style.textAlign,
+      layoutSizingHorizontal: singleLine ? undefined : 'FIXED',
+      width: wrapWidth,
+      textRuns: rich.textRuns,
+    });
+    nodeId = result.id;
+    textNodeIds = [result.id];
+    fontApplied = result.fontApplied;
+    runFallbacks = result.runFallbacks;
+  }
+
+  const readBack = () => bridge.sendCommand({ type: 'figma_call', method: 'getNodeById', args: [nodeId] });
+  const tooBig = (n: { width: number; height: number }) =>
+    n.width > bounds.maxWidth + 1 || (bounds.maxHeight !== undefined && n.height > bounds.maxHeight + 1);
+
+  let node = await readBack();
+  let fontSize = fit.fontSize;
+  let lines = fit.lines;
+  let adjusted = false;
+
+  if (tooBig(node) && fontSize > bounds.minSize) {
+    const factor = Math.min(
+      bounds.maxWidth / node.width,
+      bounds.maxHeight !== undefined ? bounds.maxHeight / node.height : 1,
+    );
+    fontSize = Math.max(Math.round(bounds.minSize), Math.floor(fontSize * factor));
+    const updates = textNodeIds.map(id => ({ nodeId: id, properties: { fontSize } as Record<string, any> }));
+    if (isStack) updates.push({ nodeId, properties: { itemSpacing: Math.round(fontSize * SPLIT_STACK_GAP) } });
+    await bridge.sendCommand({ type: 'batch_update', updates });
+    node = await readBack();
+    if (!isStack) lines = breakLines(metrics, fontSize, wrapWidth ?? Infinity).lines;
+    adjusted = true;
   }
 
-  return { wrapperId, textNodeIds };
+  return {
+    fitted: {
+      role: element.role,
+      nodeId,
+      fontSize,
+      lines,
+      width: Math.round(node.width),
+      height: Math.round(node.height),
+      maxWidth: Math.round(bounds.maxWidth),
+      maxHeight: bounds.maxHeight !== undefined ? Math.round(bounds.maxHeight) : undefined,
+      overflow: fit.overflow || tooBig(node),
+      balanced: fit.balanced,
+      adjusted,
+    },
+    fontApplied,
+    runFallbacks,
+  };
 }
 
 export async function applyTypography(input: ApplyTypographyInput, bridge: Bridge): Promise<any> {
@@ -175,6 +382,8 @@ export async function applyTypography(input: ApplyTypographyInput, bridge: Bridg
   const createdIds: string[] = [];
   const summaries: string[] = [];
   const fontWarnings: string[] = [];
+  const paletteWarnings: string[] = [];
+  const fits: FittedText[] = [];
 
   // Clear existing children if requested (rebuild from scratch)
   if (input.clearExisting) {
@@ -201,32 +410,71 @@ export async function applyTypography(input: ApplyTypographyInput, bridge: Bridg
     args: [input.frameId, { itemSpacing: spacing }],
   });
 
-  for (const element of input.elements) {
+  for (const [index, element] of input.elements.entries()) {
     const defaults = ROLE_DEFAULTS[element.role];
-    const fontSize = element.fontSize || defaults.fontSize;
-    const fontWeight = element.fontWeight || defaults.fontWeight;
-    const fontFamily = element.fontFamily || 'Inter';
-    const fontColor = hexToRgb(element.fontColor || '#FFFFFF');
-    const fontStyle = element.fontStyle || weightToStyle(fontWeight);
+    const brandDefaults = getRoleTokenDefaults(element.role);
+    const fontSize = element.fontSize || brandDefaults.fontSize || defaults.fontSize;
+    const fontWeight = element.fontWeight || brandDefaults.fontWeight || defaults.fontWeight;
+    const fontFamily = element.fontFamily ? resolveFontFamily(element.fontFamily) : brandDefaults.fontFamily || 'Inter';
+    const fontColor = hexToRgba(element.fontColor
+      ? resolveColor(element.fontColor, paletteWarnings, `${element.role} fontColor`)
+      : brandDefaults.fontColor || '#FFFFFF');
+    // An explicit weight beats the brand's style name for the role
+    const fontStyle = element.fontStyle
+      || (element.fontWeight ? weightToStyle(element.fontWeight) : brandDefaults.fontStyle)
+      || weightToStyle(fontWeight);
     const textAlign = element.textAlign;
 
+    if (element.text === undefined && !element.runs) {
+      throw new Error(`${element.role}: needs text or runs`);
+    }
+    const richContext = {
+      fontFamily,
+      highlightColor: element.highlightColor,
+      warnings: paletteWarnings,
+      field: `${element.role} span color`,
+    };
+    const rich = element.runs ? runsToRichText(element.runs, richContext) : parseRichText(element.text!, richContext);
+    const spanNote = rich.textRuns.length > 0 ? `, ${rich.textRuns.length} span${rich.textRuns.length === 1 ? '' : 's'}` : '';
+
+    if (element.fit) {
+      const bounds = await resolveFitBounds(bridge, input.frameId, element, input.elements.slice(index + 1), spacing);
+      const { fitted, fontApplied, runFallbacks } = await placeFittedText(bridge, input.frameId, element, rich, bounds, {
+        fontFamily, fontStyle, fontColor, textAlign,
+      });
+      createdIds.push(fitted.nodeId);
+      fits.push(fitted);
+      fontWarnings.push(...runFallbacks.map(f => `${element.role}: ${f}`));
+
+      const fallback = fontApplied && (fontApplied.family !== fontFamily || fontApplied.style !== fontStyle);
+      if (fallback) fontWarnings.push(`${element.role}: requested ${fontFamily}/${fontStyle}, got ${fontApplied!.family}/${fontApplied!.style}`);
+      summaries.push(`${element.role} (fit ${fitted.fontSize}px, ${fitted.lines.length} line${fitted.lines.length === 1 ? '' : 's'}` +
+        `${fitted.balanced ? ' balanced' : ''}${fitted.overflow ? ' ⚠ OVERFLOW at minimum size' : ''}, ` +
+        `${fallback ? `${fontApplied!.family} ${fontApplied!.style} ⚠ FALLBACK` : `${fontFamily} ${fontStyle}`}${spanNote})`);
+      continue;
+    }
+
     // Headlines with newlines use split-and-stack
     const isHeadline = element.role === 'headline';
-    const hasNewlines = element.text.includes('\n');
+    const hasNewlines = rich.characters.includes('\n');
 
     if (isHeadline && hasNewlines) {
-      const lines = element.text.split('\n').filter(line => line.length > 0);
-      const { wrapperId, textNodeIds } = await createSplitStack(
+      const lines = rich.characters.split('\n').filter(line => line.length > 0);
+      const { wrapperId, runFallbacks } = await createSplitStack(
         bridge,
         input.frameId,
         lines,
-        { fontSize, fontColor, fontFamily, fontStyle, textAlignHorizontal: textAlign },
+        {
+          fontSize, fontColor, fontFamily, fontStyle, textAlignHorizontal: textAlign,
+          lineRuns: runsForLines(rich.characters, rich.textRuns, lines),
+        },
       );
       createdIds.push(wrapperId);
-      summaries.push(`headline (split-stack, ${lines.length} lines, ${fontSize}px, ${fontFamily} ${fontStyle})`);
+      fontWarnings.push(...runFallbacks.map(f => `headline: ${f}`));
+      summaries.push(`headline (split-stack, ${lines.length} lines, ${fontSize}px, ${fontFamily} ${fontStyle}${spanNote})`);
     } else {
       // Simple text node
-      const result = await createTextNode(bridge, input.frameId, element.text, {
+      const result = await createTextNode(bridge, input.frameId, rich.characters, {
         fontSize,
         fontColor,
         fontFamily,
@@ -234,16 +482,18 @@ export async function applyTypography(input: ApplyTypographyInput, bridge: Bridg
         textAutoResize: defaults.textAutoResize,
         textAlignHorizontal: textAlign,
         layoutSizingHorizontal: defaults.layoutSizingHorizontal,
+        textRuns: rich.textRuns,
       });
       createdIds.push(result.id);
+      fontWarnings.push(...result.runFallbacks.map(f => `${element.role}: ${f}`));
 
       // Check for font fallback
       const applied = result.fontApplied;
       if (applied && (applied.family !== fontFamily || applied.style !== fontStyle)) {
         fontWarnings.push(`${element.role}: requested ${fontFamily}/${fontStyle}, got ${applied.family}/${applied.style}`);
-        summaries.push(`${element.role} (${fontSize}px, ${applied.family} ${applied.style} ⚠ FALLBACK)`);
+        summaries.push(`${element.role} (${fontSize}px, ${applied.family} ${applied.style} ⚠ FALLBACK${spanNote})`);
       } else {
-        summaries.push(`${element.role} (${fontSize}px, ${fontFamily} ${fontStyle})`);
+        summaries.push(`${element.role} (${fontSize}px, ${fontFamily} ${fontStyle}${spanNote})`);
       }
     }
   }
@@ -253,8 +503,14 @@ export async function applyTypography(input: ApplyTypographyInput, bridge: Bridg
     ? `\nFONT WARNINGS: ${fontWarnings.join('; ')}. Check that the font is installed in your Figma workspace.`
     : '';
 
+  const fitNote = fits.length > 0
+    ? `\nFIT: ${fits.map(f => `${f.role} ${f.fontSize}px → ${f.lines.slice(0, 4).map(l => `"${l}"`).join(' / ')}` +
+      (f.lines.length > 4 ? ` / … (${f.lines.length} lines)` : '')).join('; ')}`
+    : '';
+
   return {
     textNodeIds: createdIds,
-    message: message + warning,
+    fits: fits.length > 0 ? fits : undefined,
+    message: message + fitNote + warning + formatPaletteWarnings(paletteWarnings),
   };
 }
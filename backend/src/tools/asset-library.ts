@@ -0,0 +1,182 @@
+/**
+ * Asset Library tools
+ *
+ * Browse images generated in any session (product photos, assets, cutouts) with
+ * thumbnails, and reuse one in the current session instead of regenerating it.
+ * Backed by the cross-session asset index (data/asset-index.ts), synced from the
+ * session manifests on every browse. No Bridge needed.
+ */
+
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import sharp from 'sharp';
+import { getSessionState } from '../session-state.js';
+import {
+  findAsset,
+  markAssetReused,
+  perceptualHash,
+  queryAssets,
+  syncAssetIndex,
+  type IndexedAsset,
+} from '../data/asset-index.js';
+
+type ToolResult = {
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+  >;
+  isError?: boolean;
+};
+
+const THUMBNAIL_SIZE = 256;
+
+/** Cutouts are shown on light gray so transparent edges stay visible */
+const THUMBNAIL_BACKGROUND = '#e6e6e6';
+
+async function renderThumbnail(imagePath: string): Promise<string> {
+  const buffer = await sharp(imagePath)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside' })
+    .flatten({ background: THUMBNAIL_BACKGROUND })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+  return buffer.toString('base64');
+}
+
+function describe(asset: IndexedAsset, distance?: number): string {
+  const label = asset.kind ? `${asset.type}/${asset.kind}` : asset.type;
+  const details = [
+    `${asset.width}x${asset.height}${asset.hasAlpha ? ' (transparent)' : ''}`,
+    `$${asset.cost.toFixed(2)}`,
+    `${asset.brand}${asset.product ? ` / ${asset.product}` : ''}`,
+    asset.createdAt.split('T')[0],
+  ];
+  if (asset.reuseCount > 0) details.push(`reused ${asset.reuseCount}x`);
+  if (distance !== undefined) details.push(`similarity distance ${distance}`);
+  return `[${asset.id}] ${label} — ${details.join(' | ')}\n  Prompt: "${asset.prompt.slice(0, 160)}"`;
+}
+
+// ─── browse_assets ───
+
+export const browseAssetsSchema = z.object({
+  query: z.string().optional().describe('Words to match against the generation prompt (e.g. "marble bathroom")'),
+  type: z.enum(['product_photo', 'asset', 'bg_removed']).optional().describe('Filter by asset type'),
+  kind: z.enum(['background', 'ui_element', 'prop', 'texture', 'person']).optional().describe('Filter generate_asset outputs by their type'),
+  product: z.string().optional().describe('Filter by product name (substring)'),
+  brand: z.string().optional().describe('Brand to search (default: the session brand)'),
+  allBrands: z.boolean().optional().describe('Search every brand. Default: false'),
+  similarTo: z.string().optional().describe('Asset ID or image path — rank by visual similarity (perceptual hash)'),
+  excludeCurrentSession: z.boolean().optional().describe('Only show assets from earlier sessions. Default: false'),
+  count: z.number().optional().describe('Thumbnails to return (default: 6, max: 8)'),
+});
+
+export type BrowseAssetsInput = z.infer<typeof browseAssetsSchema>;
+
+export async function browseAssets(input: BrowseAssetsInput): Promise<ToolResult> {
+  const session = getSessionState();
+  const count = Math.min(input.count ?? 6, 8);
+
+  let index;
+  try {
+    index = await syncAssetIndex();
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: `Error reading asset index: ${err instanceof Error ? err.message : String(err)}` }],
+      isError: true,
+    };
+  }
+
+  let similarTo: string | undefined;
+  if (input.similarTo) {
+    const known = findAsset(index, input.similarTo);
+    if (known) {
+      similarTo = known.phash;
+    } else if (existsSync(input.similarTo)) {
+      similarTo = await perceptualHash(input.similarTo);
+    } else {
+      return {
+        content: [{ type: 'text', text: `Error: "${input.similarTo}" is neither an indexed asset ID nor an image path.` }],
+        isError: true,
+      };
+    }
+  }
+
+  const brand = input.allBrands ? undefined : input.brand ?? session?.brand;
+  const matches = queryAssets(index, {
+    brand,
+    product: input.product,
+    type: input.type,
+    kind: input.kind,
+    text: input.query,
+    similarTo,
+    excludeSessionId: input.excludeCurrentSession ? session?.sessionId : undefined,
+  });
+
+  if (matches.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `No assets found${brand ? ` for ${brand}` : ''} (${index.assets.length} indexed across all sessions). Try fewer filters or allBrands: true.`,
+      }],
+    };
+  }
+
+  const shown = matches.slice(0, count);
+  const savings = shown.reduce((sum, m) => sum + m.asset.cost, 0);
+  const content: ToolResult['content'] = [{
+    type: 'text',
+    text: `--- ${matches.length} matching assets${brand ? ` for ${brand}` : ''}, showing ${shown.length} ---\n` +
+      `Reuse with reuse_asset({ assetId }) — free, vs $${savings.toFixed(2)} to regenerate these.`,
+  }];
+
+  for (const { asset, distance } of shown) {
+    content.push({ type: 'text', text: describe(asset, distance) });
+    try {
+      content.push({ type: 'image', data: await renderThumbnail(asset.path), mimeType: 'image/jpeg' });
+    } catch {
+      content.push({ type: 'text', text: `  (thumbnail unavailable: ${asset.path})` });
+    }
+  }
+
+  return { content };
+}
+
+// ─── reuse_asset ───
+
+export const reuseAssetSchema = z.object({
+  assetId: z.string().describe('Asset ID from browse_assets (or the asset\'s file path)'),
+});
+
+export type ReuseAssetInput = z.infer<typeof reuseAssetSchema>;
+
+export async function reuseAsset(input: ReuseAssetInput): Promise<any> {
+  try {
+    const index = await syncAssetIndex();
+    const asset = findAsset(index, input.assetId);
+    if (!asset) {
+      return { error: true, message: `Asset "${input.assetId}" not found. Use browse_assets to find asset IDs.` };
+    }
+
+    const reused = markAssetReused(asset.id) ?? asset;
+    const session = getSessionState();
+    const otherBrand = session && session.brand.toLowerCase() !== asset.brand.toLowerCase();
+
+    return {
+      imagePath: asset.path,
+      width: asset.width,
+      height: asset.height,
+      cost: 0,
+      type: asset.type,
+      kind: asset.kind,
+      prompt: asset.prompt,
+      reusedFrom: asset.id,
+      savedCost: asset.cost,
+      reuseCount: reused.reuseCount,
+      message: `Reusing ${asset.type} ${asset.id} (${asset.width}x${asset.height}) at ${asset.path} — saved $${asset.cost.toFixed(2)}. ` +
+        `Use place_product or set_background to put it on the canvas.` +
+        (otherBrand ? ` Note: generated for ${asset.brand}, not ${session!.brand}.` : ''),
+    };
+  } catch (err: any) {
+    console.error(`[reuse-asset] Error:`, err);
+    return { error: true, message: `Asset reuse failed: ${err.message || String(err)}` };
+  }
+}
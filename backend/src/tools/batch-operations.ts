@@ -12,6 +12,7 @@ import type { Bridge } from '../bridge.js';
 import { parseDSL } from './dsl-parser.js';
 import { convertProperties } from './batch-update.js';
 import { hexToRgb, hexToRgba, rotationToGradientTransform } from './utils.js';
+import { resolveColor, resolveFontFamily, formatPaletteWarnings } from './brand-tokens.js';
 import { logBatchOperations } from '../telemetry/tracker.js';
 
 export const batchOperationsSchema = z.object({
@@ -28,7 +29,8 @@ export const batchOperationsSchema = z.object({
     '  ADD_EFFECT($node, {type: "DROP_SHADOW", color: "#0000001A", offset: {x: 0, y: 4}, radius: 8})\n' +
     '  DELETE($node)\n' +
     '  REPARENT($node, $newParent, index?)\n' +
-    '  // Comments start with //'
+    '  // Comments start with //\n\n' +
+    'Colors accept brand tokens (fillColor: "brand.primary", color: "brand.accent/40"); fontFamily accepts "brand.heading".'
   ),
 });
 
@@ -48,12 +50,16 @@ export async function batchOperations(input: BatchOperationsInput, bridge: Bridg
 
   // 3. Process each operation: convert props, load images
   const processedOps = [];
+  const paletteWarnings: string[] = [];
   for (const op of parsed) {
     const processed = { ...op };
 
     // Convert tool-level props to Figma-ready format
     if (processed.props && Object.keys(processed.props).length > 0) {
-      processed.props = convertToolProps(processed.props);
+      processed.props = convertToolProps(processed.props, paletteWarnings);
+    }
+    if (processed.fontFamily) {
+      processed.fontFamily = resolveFontFamily(processed.fontFamily);
     }
 
     // For SET_IMAGE_FILL: read image from disk → base64
@@ -80,7 +86,7 @@ export async function batchOperations(input: BatchOperationsInput, bridge: Bridg
       if (stops && Array.isArray(stops)) {
         processed.props.gradientStops = stops.map((s: any) => ({
           position: s.position,
-          color: typeof s.color === 'string' ? hexToRgba(s.color) : s.color,
+          color: typeof s.color === 'string' ? hexToRgba(resolveColor(s.color, paletteWarnings, 'gradient stop')) : s.color,
         }));
       }
       if (processed.props.rotation !== undefined) {
@@ -92,7 +98,7 @@ export async function batchOperations(input: BatchOperationsInput, bridge: Bridg
     // For ADD_EFFECT: convert color string to RGBA
     if (processed.op === 'ADD_EFFECT' && processed.props) {
       if (processed.props.color && typeof processed.props.color === 'string') {
-        processed.props.color = hexToRgba(processed.props.color);
+        processed.props.color = hexToRgba(resolveColor(processed.props.color));
       }
     }
 
@@ -132,7 +138,7 @@ export async function batchOperations(input: BatchOperationsInput, bridge: Bridg
   }
 
   return {
-    message: `Executed ${processedOps.length} operations`,
+    message: `Executed ${processedOps.length} operations${formatPaletteWarnings(paletteWarnings)}`,
     results: summary,
     variableBindings: bindings,
     errors: result.errors || [],
@@ -145,9 +151,9 @@ export async function batchOperations(input: BatchOperationsInput, bridge: Bridg
  * Reuses convertProperties from batch-update for shared properties,
  * but also handles properties specific to batch_operations DSL.
  */
-function convertToolProps(props: Record<string, any>): Record<string, any> {
+function convertToolProps(props: Record<string, any>, paletteWarnings: string[]): Record<string, any> {
   // Use batch-update's convertProperties for the standard set
-  const converted = convertProperties(props as any);
+  const converted = convertProperties(props as any, paletteWarnings);
 
   // Pass through any props that convertProperties doesn't handle
   // (e.g., layoutMode, clipsContent, etc. are handled by convertProperties)
@@ -139,6 +139,7 @@ export async function batchPipeline(input: BatchPipelineInput, bridge: Bridge):
   const bindings = new Map<string, any>();
   const completed: Array<{ id: string; tool: string; summary: string }> = [];
   let autoCheckpointLabel: string | null = null;
+  let autoCheckpointFrameId: string | undefined;
 
   for (let i = 0; i < input.pipeline.length; i++) {
     const step = input.pipeline[i];
@@ -174,6 +175,7 @@ export async function batchPipeline(input: BatchPipelineInput, bridge: Bridge):
       if (i === 0 && result?.frameId) {
         try {
           autoCheckpointLabel = '_pipeline_auto';
+          autoCheckpointFrameId = result.frameId;
           await saveCheckpoint({ frameId: result.frameId, label: autoCheckpointLabel }, bridge);
         } catch {
           // Non-blocking: checkpoint failure shouldn't stop pipeline
@@ -187,7 +189,7 @@ export async function batchPipeline(input: BatchPipelineInput, bridge: Bridge):
       let rolledBack = false;
       if (autoCheckpointLabel) {
         try {
-          await restoreCheckpoint({ label: autoCheckpointLabel }, bridge);
+          await restoreCheckpoint({ label: autoCheckpointLabel, frameId: autoCheckpointFrameId }, bridge);
           rolledBack = true;
         } catch {
           // Rollback failed — return without rollback
@@ -8,7 +8,8 @@
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
-import { hexToRgb, hexToRgba } from './utils.js';
+import { hexToRgba, hexToSolidPaint } from './utils.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
 
 // Shared property schema (same as update-node but extracted for reuse)
 const nodePropertiesSchema = z.object({
@@ -22,8 +23,8 @@ const nodePropertiesSchema = z.object({
   visible: z.boolean().optional().describe('Visibility'),
   name: z.string().optional().describe('Node name'),
   // Visual
-  fillColor: z.string().optional().describe('Hex color for solid fill'),
-  strokeColor: z.string().optional().describe('Hex color for stroke'),
+  fillColor: z.string().optional().describe('Hex color or brand token (e.g., "brand.primary") for solid fill'),
+  strokeColor: z.string().optional().describe('Hex color or brand token for stroke'),
   strokeWeight: z.number().optional().describe('Stroke weight'),
   cornerRadius: z.number().optional().describe('Corner radius'),
   // Auto-layout (FRAME only)
@@ -47,7 +48,7 @@ const nodePropertiesSchema = z.object({
     .describe('AUTO or ABSOLUTE positioning'),
   // Text
   fontSize: z.number().optional().describe('Font size'),
-  fontColor: z.string().optional().describe('Hex color for text'),
+  fontColor: z.string().optional().describe('Hex color or brand token for text'),
   characters: z.string().optional().describe('Replace text content'),
   textAlignHorizontal: z.enum(['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED']).optional().describe('Text alignment'),
   textAutoResize: z.enum(['NONE', 'WIDTH_AND_HEIGHT', 'HEIGHT']).optional().describe('Text auto-resize mode'),
@@ -66,8 +67,9 @@ export type BatchUpdateInput = z.infer<typeof batchUpdateSchema>;
  * Convert tool-level properties to Figma-ready properties.
  * Same logic as update-node.ts — extracted for reuse.
  * Exported for batch-operations.ts DSL handler.
+ * Brand color tokens are resolved here; off-palette literals go to paletteWarnings.
  */
-export function convertProperties(p: z.infer<typeof nodePropertiesSchema>): any {
+export function convertProperties(p: z.infer<typeof nodePropertiesSchema>, paletteWarnings?: string[]): any {
   const props: any = {};
 
   // Position & dimensions
@@ -82,11 +84,11 @@ export function convertProperties(p: z.infer<typeof nodePropertiesSchema>): any
 
   // Visual properties — support 8-char hex with alpha (e.g., #00000000 = transparent)
   if (p.fillColor) {
-    const rgba = hexToRgba(p.fillColor);
+    const rgba = hexToRgba(resolveColor(p.fillColor, paletteWarnings, 'fillColor'));
     props.fills = [{ type: 'SOLID', color: { r: rgba.r, g: rgba.g, b: rgba.b }, opacity: rgba.a }];
   }
   if (p.strokeColor) {
-    const rgba = hexToRgba(p.strokeColor);
+    const rgba = hexToRgba(resolveColor(p.strokeColor, paletteWarnings, 'strokeColor'));
     props.strokes = [{ type: 'SOLID', color: { r: rgba.r, g: rgba.g, b: rgba.b }, opacity: rgba.a }];
   }
   if (p.strokeWeight !== undefined) props.strokeWeight = p.strokeWeight;
@@ -111,7 +113,7 @@ export function convertProperties(p: z.infer<typeof nodePropertiesSchema>): any
   // Text properties
   if (p.fontSize !== undefined) props.fontSize = p.fontSize;
   if (p.fontColor) {
-    props.fills = [{ type: 'SOLID', color: hexToRgb(p.fontColor) }];
+    props.fills = [hexToSolidPaint(resolveColor(p.fontColor, paletteWarnings, 'fontColor'))];
   }
   if (p.characters !== undefined) props.characters = p.characters;
   if (p.textAlignHorizontal !== undefined) props.textAlignHorizontal = p.textAlignHorizontal;
@@ -122,9 +124,10 @@ export function convertProperties(p: z.infer<typeof nodePropertiesSchema>): any
 
 export async function batchUpdate(input: BatchUpdateInput, bridge: Bridge): Promise<any> {
   // Convert all updates to Figma-ready format
+  const paletteWarnings: string[] = [];
   const figmaUpdates = input.updates.map(u => ({
     nodeId: u.nodeId,
-    properties: convertProperties(u.properties),
+    properties: convertProperties(u.properties, paletteWarnings),
   }));
 
   // Send as a single batch_update command
@@ -152,7 +155,7 @@ export async function batchUpdate(input: BatchUpdateInput, bridge: Bridge): Prom
   }
 
   return {
-    message: `Batch updated ${input.updates.length} nodes`,
+    message: `Batch updated ${input.updates.length} nodes${formatPaletteWarnings(paletteWarnings)}`,
     updates: summaryParts,
     errors: result.errors || [],
   };
@@ -0,0 +1,268 @@
+/**
+ * Brand design tokens
+ *
+ * Structured palette, type roles, fonts, corner radii and logo paths for a brand,
+ * read from {brandRoot}/{brand}/brand/tokens.json. Design tools resolve token
+ * references through this module instead of the agent re-typing hex strings:
+ * - Colors: "brand.primary", optionally with an opacity suffix ("brand.primary/40")
+ * - Fonts: "brand.heading" as a fontFamily
+ * - Type roles: apply_typography falls back to typography.{role} before its own defaults
+ *
+ * Literal hex colors are checked against the active session brand's palette and
+ * reported as warnings (never errors) when they're off-palette.
+ */
+
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSessionState } from '../session-state.js';
+import { getBrandRoot } from './read-brand-data.js';
+import { hexToRgb, rgbToHex } from './utils.js';
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const TOKEN_PREFIX = 'brand.';
+
+const roleTokenSchema = z.object({
+  font: z.string().optional().describe('Key into fonts'),
+  fontSize: z.number().optional(),
+  fontWeight: z.number().optional(),
+  fontStyle: z.string().optional(),
+  color: z.string().optional().describe('Hex or brand.* color token'),
+});
+
+export const brandTokensFileSchema = z.object({
+  colors: z.record(z.string(), z.string().regex(HEX_COLOR, 'must be a hex color')),
+  fonts: z.record(z.string(), z.object({
+    family: z.string(),
+    style: z.string().optional(),
+  })).optional(),
+  typography: z.object({
+    headline: roleTokenSchema.optional(),
+    subhead: roleTokenSchema.optional(),
+    body: roleTokenSchema.optional(),
+    label: roleTokenSchema.optional(),
+    fine_print: roleTokenSchema.optional(),
+  }).optional(),
+  radii: z.record(z.string(), z.number()).optional(),
+  logos: z.record(z.string(), z.string()).optional().describe('Paths relative to the brand directory'),
+});
+
+export type BrandTokensFile = z.infer<typeof brandTokensFileSchema>;
+export type TypeRole = keyof NonNullable<BrandTokensFile['typography']>;
+
+export interface BrandTokens extends BrandTokensFile {
+  brand: string;
+  /** Absolute path of the tokens file */
+  sourcePath: string;
+  /** Logo paths resolved against the brand directory */
+  logoPaths: Record<string, string>;
+}
+
+/** Font/color defaults for one apply_typography role, tokens already resolved */
+export interface RoleTokenDefaults {
+  fontFamily?: string;
+  fontStyle?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  fontColor?: string;
+}
+
+// Parsed tokens keyed by tokens.json path, invalidated on mtime change
+const cache = new Map<string, { mtimeMs: number; tokens: BrandTokens }>();
+
+/**
+ * Brand directory for a brand name, matched case-insensitively (like read_brand_data)
+ */
+function findBrandDir(brand: string): string | null {
+  const brandRoot = path.resolve(getBrandRoot());
+  for (const name of [brand, brand.toLowerCase()]) {
+    const dir = path.resolve(brandRoot, name);
+    if (!dir.startsWith(brandRoot + path.sep)) return null;
+    if (fs.existsSync(dir)) return dir;
+  }
+  return null;
+}
+
+/**
+ * Load a brand's tokens. Returns null when the brand or its tokens.json doesn't exist;
+ * throws when the file exists but is invalid.
+ */
+export function loadBrandTokens(brand: string): BrandTokens | null {
+  const brandDir = findBrandDir(brand);
+  if (!brandDir) return null;
+
+  const sourcePath = path.join(brandDir, 'brand', 'tokens.json');
+  if (!fs.existsSync(sourcePath)) return null;
+
+  const { mtimeMs } = fs.statSync(sourcePath);
+  const cached = cache.get(sourcePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.tokens;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(sourcePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${sourcePath}: ${error.message}`);
+  }
+
+  const parsed = brandTokensFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid brand tokens in ${sourcePath}: ${issues}`);
+  }
+
+  const logoPaths: Record<string, string> = {};
+  for (const [name, relative] of Object.entries(parsed.data.logos ?? {})) {
+    logoPaths[name] = path.resolve(brandDir, relative);
+  }
+
+  const tokens: BrandTokens = { ...parsed.data, brand: path.basename(brandDir), sourcePath, logoPaths };
+  cache.set(sourcePath, { mtimeMs, tokens });
+  return tokens;
+}
+
+/**
+ * Tokens for the active session's brand, or null (no session, or brand has no tokens.json)
+ */
+export function getActiveBrandTokens(): BrandTokens | null {
+  const session = getSessionState();
+  return session ? loadBrandTokens(session.brand) : null;
+}
+
+/**
+ * Tokens for the active brand, for resolving a brand.* reference. Throws with guidance if unavailable.
+ */
+function requireActiveBrandTokens(reference: string): BrandTokens {
+  const session = getSessionState();
+  if (!session) {
+    throw new Error(`Token "${reference}" needs an active brand. Select a brand first, or pass a hex value.`);
+  }
+  const tokens = loadBrandTokens(session.brand);
+  if (!tokens) {
+    throw new Error(`Brand "${session.brand}" has no brand/tokens.json — pass a hex value instead of "${reference}".`);
+  }
+  return tokens;
+}
+
+export function isTokenReference(value: string): boolean {
+  return value.startsWith(TOKEN_PREFIX);
+}
+
+function normalizeHex(hex: string): string {
+  return rgbToHex(hexToRgb(hex));
+}
+
+/**
+ * Look up a color token by name ("primary", not "brand.primary") in a token set
+ */
+function lookupColor(tokens: BrandTokens, reference: string): string {
+  const [name, opacity] = reference.slice(TOKEN_PREFIX.length).split('/');
+  const hex = tokens.colors[name];
+  if (!hex) {
+    const available = Object.keys(tokens.colors).map(n => `${TOKEN_PREFIX}${n}`).join(', ');
+    throw new Error(`Unknown color token "${reference}" for ${tokens.brand}. Available: ${available}`);
+  }
+  if (opacity === undefined) return hex;
+
+  const percent = Number(opacity);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error(`Invalid opacity in "${reference}" — use brand.name/0-100`);
+  }
+  const alpha = Math.round((percent / 100) * 255).toString(16).padStart(2, '0').toUpperCase();
+  return `${normalizeHex(hex)}${alpha}`;
+}
+
+/**
+ * Closest palette entry to a color (RGB distance), for off-palette hints
+ */
+function closestToken(tokens: BrandTokens, hex: string): { name: string; hex: string } | null {
+  const target = hexToRgb(hex);
+  let best: { name: string; hex: string } | null = null;
+  let bestDistance = Infinity;
+  for (const [name, value] of Object.entries(tokens.colors)) {
+    const c = hexToRgb(value);
+    const distance = (c.r - target.r) ** 2 + (c.g - target.g) ** 2 + (c.b - target.b) ** 2;
+    if (distance < bestDistance) {
+      best = { name, hex: normalizeHex(value) };
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Resolve a color input to a hex string.
+ *
+ * - "brand.primary" / "brand.primary/40" → the active brand's palette value
+ * - Literal hex → returned as-is; if it isn't in the active brand's palette, a warning
+ *   naming `field` and the closest token is pushed to `warnings`
+ */
+export function resolveColor(value: string, warnings?: string[], field = 'color'): string {
+  if (isTokenReference(value)) {
+    return lookupColor(requireActiveBrandTokens(value), value);
+  }
+
+  if (warnings && HEX_COLOR.test(value)) {
+    const tokens = getActiveBrandTokens();
+    if (tokens) {
+      const hex = normalizeHex(value);
+      const onPalette = Object.values(tokens.colors).some(c => normalizeHex(c) === hex);
+      if (!onPalette) {
+        const closest = closestToken(tokens, value);
+        warnings.push(
+          `${field} ${hex} is off-palette for ${tokens.brand}` +
+          (closest ? ` (closest: ${TOKEN_PREFIX}${closest.name} ${closest.hex})` : '')
+        );
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Resolve a fontFamily input. "brand.heading" → fonts.heading.family
+ */
+export function resolveFontFamily(value: string): string {
+  if (!isTokenReference(value)) return value;
+
+  const tokens = requireActiveBrandTokens(value);
+  const font = tokens.fonts?.[value.slice(TOKEN_PREFIX.length)];
+  if (!font) {
+    const available = Object.keys(tokens.fonts ?? {}).map(n => `${TOKEN_PREFIX}${n}`).join(', ') || 'none';
+    throw new Error(`Unknown font token "${value}" for ${tokens.brand}. Available: ${available}`);
+  }
+  return font.family;
+}
+
+/**
+ * apply_typography defaults for a role from the active brand's tokens (empty without tokens)
+ */
+export function getRoleTokenDefaults(role: TypeRole): RoleTokenDefaults {
+  const tokens = getActiveBrandTokens();
+  const roleTokens = tokens?.typography?.[role];
+  if (!tokens || !roleTokens) return {};
+
+  const font = roleTokens.font ? tokens.fonts?.[roleTokens.font] : undefined;
+  if (roleTokens.font && !font) {
+    throw new Error(`typography.${role}.font "${roleTokens.font}" is not defined in ${tokens.sourcePath}`);
+  }
+
+  return {
+    fontFamily: font?.family,
+    fontStyle: roleTokens.fontStyle ?? font?.style,
+    fontSize: roleTokens.fontSize,
+    fontWeight: roleTokens.fontWeight,
+    fontColor: roleTokens.color
+      ? (isTokenReference(roleTokens.color) ? lookupColor(tokens, roleTokens.color) : roleTokens.color)
+      : undefined,
+  };
+}
+
+/**
+ * Message suffix for collected palette warnings ('' when there are none)
+ */
+export function formatPaletteWarnings(warnings: string[]): string {
+  return warnings.length > 0
+    ? `\nPALETTE WARNINGS: ${warnings.join('; ')}. Use brand.* color tokens (see get_brand_tokens).`
+    : '';
+}
@@ -2,18 +2,23 @@
  * build_ad_skeleton tool
  *
  * Creates the root frame for an ad with proper dimensions, auto-layout, and safe zones.
+ * With a platform, the frame takes that platform's default size and its padding is
+ * widened to clear the platform's UI overlay bands.
  */
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
+import { PLATFORM_IDS, PLATFORM_SPECS, hasSafeZone, safeZoneFor } from './platform-specs.js';
 
 export const buildAdSkeletonSchema = z.object({
   format: z.enum(['story', 'feed', 'custom']).describe('Ad format: story (9:16), feed (1:1), or custom'),
   width: z.number().optional().describe('Custom width (only for custom format)'),
   height: z.number().optional().describe('Custom height (only for custom format)'),
   name: z.string().optional().describe('Frame name (default: "Ad Frame")'),
-  backgroundColor: z.string().optional().describe('Background color hex (default: #000000)'),
+  backgroundColor: z.string().optional().describe('Background color hex or brand token, e.g. "brand.background" (default: #000000)'),
   padding: z.number().optional().describe('Frame padding in px (default: 80, must follow 8px grid)'),
+  platform: z.enum(PLATFORM_IDS).optional().describe('Target platform: uses its default size (unless format is custom) and pads each side to clear its UI overlay zones'),
 });
 
 export type BuildAdSkeletonInput = z.infer<typeof buildAdSkeletonSchema>;
@@ -38,7 +43,12 @@ export async function buildAdSkeleton(input: BuildAdSkeletonInput, bridge: Bridg
   let width: number;
   let height: number;
 
-  if (input.format === 'story') {
+  const spec = input.platform ? PLATFORM_SPECS[input.platform] : undefined;
+
+  if (spec && input.format !== 'custom') {
+    width = spec.sizes[0].width;
+    height = spec.sizes[0].height;
+  } else if (input.format === 'story') {
     width = 1080;
     height = 1920;
   } else if (input.format === 'feed') {
@@ -54,9 +64,23 @@ export async function buildAdSkeleton(input: BuildAdSkeletonInput, bridge: Bridg
   }
 
   const name = input.name || 'Ad Frame';
-  const backgroundColor = input.backgroundColor || '#000000';
+  const paletteWarnings: string[] = [];
+  const backgroundColor = input.backgroundColor
+    ? resolveColor(input.backgroundColor, paletteWarnings, 'backgroundColor')
+    : '#000000';
   const padding = input.padding || 80;
 
+  // Overlay bands: the platform's, or Meta Stories' for a plain story frame
+  const zone = safeZoneFor(spec ?? PLATFORM_SPECS['meta-stories'], width, height);
+  // Rounded up to the 8px grid so content always clears the band
+  const clear = (band: number) => (spec ? Math.max(padding, Math.ceil(band / 8) * 8) : padding);
+  const sidePadding = {
+    top: clear(zone.top),
+    right: clear(zone.right),
+    bottom: clear(zone.bottom),
+    left: clear(zone.left),
+  };
+
   // Convert hex to RGB
   const bgColor = hexToRgb(backgroundColor);
 
@@ -71,10 +95,10 @@ export async function buildAdSkeleton(input: BuildAdSkeletonInput, bridge: Bridg
         height,
         fills: [{ type: 'SOLID', color: bgColor }],
         layoutMode: 'VERTICAL',
-        paddingTop: padding,
-        paddingRight: padding,
-        paddingBottom: padding,
-        paddingLeft: padding,
+        paddingTop: sidePadding.top,
+        paddingRight: sidePadding.right,
+        paddingBottom: sidePadding.bottom,
+        paddingLeft: sidePadding.left,
         itemSpacing: 32, // Default spacing between children
         primaryAxisAlignItems: 'MIN', // Top-aligned
         counterAxisAlignItems: 'CENTER', // Horizontally centered
@@ -89,21 +113,34 @@ export async function buildAdSkeleton(input: BuildAdSkeletonInput, bridge: Bridg
   // Unwrap the Figma response — plugin returns { id: "nodeId" }
   const frameId = typeof result === 'object' && result?.id ? result.id : result;
 
-  // Calculate safe zones for story format
-  const safeZoneTop = input.format === 'story' ? 250 : 0;
-  const safeZoneBottom = input.format === 'story' ? height - 250 : height;
+  // Safe zone edges as frame coordinates
+  const safeZoneTop = zone.top;
+  const safeZoneBottom = height - zone.bottom;
+  const safeZoneLeft = zone.left;
+  const safeZoneRight = width - zone.right;
+  const zoneSides = (['top', 'bottom', 'left', 'right'] as const)
+    .filter(side => zone[side] > 0)
+    .map(side => `${zone[side]}px ${side}`)
+    .join(', ');
+  const label = spec ? `${spec.name} ` : '';
 
   return {
     frameId,
     dimensions: { width, height },
     padding,
+    ...(spec ? { platform: input.platform, sidePadding } : {}),
     safeZone: {
       top: safeZoneTop,
       bottom: safeZoneBottom,
+      left: safeZoneLeft,
+      right: safeZoneRight,
       usableHeight: safeZoneBottom - safeZoneTop,
+      usableWidth: safeZoneRight - safeZoneLeft,
     },
-    message: `Created ${input.format} frame (${width}x${height}px) with ${padding}px padding. ${
-      input.format === 'story' ? 'Safe zone: 250px top/bottom.' : ''
-    }`,
+    message: `Created ${label}${input.format} frame (${width}x${height}px) with ${
+      spec ? `${sidePadding.top}/${sidePadding.right}/${sidePadding.bottom}/${sidePadding.left}px` : `${padding}px`
+    } padding. ${
+      hasSafeZone(zone) ? `Safe zone: ${zoneSides}.` : ''
+    }${formatPaletteWarnings(paletteWarnings)}`,
   };
 }
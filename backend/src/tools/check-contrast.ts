@@ -0,0 +1,224 @@
+/**
+ * check_contrast tool
+ *
+ * Measures WCAG contrast of each text node against what is actually rendered behind it.
+ * The frame is exported once with its text hidden (opacity 0, so auto-layout doesn't
+ * reflow), then sharp samples the pixels under each text node's bounding box. Works for
+ * gradients, photos and overlapping layers that lint_frame can't resolve from the tree.
+ *
+ * Each node reports the ratio against its 10th-percentile background pixel — the
+ * worst background it sits on, ignoring a few stray pixels — plus the median, and
+ * the WCAG AA threshold it's held to: 3:1 for large text (24px+, or 18.66px+ bold),
+ * 4.5:1 otherwise.
+ */
+
+import { z } from 'zod';
+import sharp from 'sharp';
+import type { Bridge } from '../bridge.js';
+import type { SerializedNode, SerializedPaint } from '../../../shared/protocol.js';
+import { flattenVisible, MIN_CONTRAST, MIN_CONTRAST_HARD, type PlacedNode } from './frame-lint.js';
+import { contrastRatio, rgbToHex } from './utils.js';
+
+/** Export scale for the background render. Backgrounds are smooth, so half size is plenty. */
+const RENDER_SCALE = 0.5;
+
+/** Upper bound on sampled pixels per text node */
+const MAX_SAMPLES = 20000;
+
+/** WCAG large text: 18pt, or 14pt bold (px) */
+const LARGE_TEXT = 24;
+const LARGE_BOLD_TEXT = 18.66;
+
+export const checkContrastSchema = z.object({
+  frameId: z.string().describe('Frame ID to check'),
+  nodeIds: z.array(z.string()).optional().describe('Only check these text nodes (default: every visible text node in the frame)'),
+});
+
+export type CheckContrastInput = z.infer<typeof checkContrastSchema>;
+
+type RGB = { r: number; g: number; b: number };
+
+type ContrastLevel = 'AAA' | 'AA' | 'AA-large' | 'fail';
+
+interface TextContrast {
+  nodeId: string;
+  name: string;
+  text: string;
+  fontSize?: number;
+  textColor: string;
+  ratio: number;
+  medianRatio: number;
+  worstBackground: string;
+  level: ContrastLevel;
+  /** AA minimum for this node's size and weight */
+  threshold: number;
+  pass: boolean;
+}
+
+/**
+ * Candidate text colors with alpha: the topmost visible solid fill, or every stop of a gradient fill
+ */
+function textColors(node: SerializedNode, opacity: number): Array<RGB & { a: number }> {
+  const fill = [...(node.fills ?? [])]
+    .reverse()
+    .find((p: SerializedPaint) => p.visible !== false && (p.type === 'SOLID' || p.type.startsWith('GRADIENT')));
+  if (!fill) return [];
+
+  const alpha = (fill.opacity ?? 1) * opacity;
+  if (fill.type === 'SOLID' && fill.color) return [{ ...fill.color, a: alpha }];
+  return (fill.gradientStops ?? []).map(s => ({ r: s.color.r, g: s.color.g, b: s.color.b, a: s.color.a * alpha }));
+}
+
+function isBold(node: SerializedNode): boolean {
+  if (node.fontWeight !== undefined) return node.fontWeight >= 700;
+  const style = node.fontName?.style ?? '';
+  return /bold|black|heavy/i.test(style) && !/semi|demi/i.test(style);
+}
+
+/**
+ * AA minimum for a text node: large text only needs the large-text ratio
+ */
+function thresholdFor(node: SerializedNode): number {
+  const size = node.fontSize ?? 0;
+  const large = size >= LARGE_TEXT || (size >= LARGE_BOLD_TEXT && isBold(node));
+  return large ? MIN_CONTRAST_HARD : MIN_CONTRAST;
+}
+
+function levelFor(ratio: number): ContrastLevel {
+  if (ratio >= 7) return 'AAA';
+  if (ratio >= MIN_CONTRAST) return 'AA';
+  if (ratio >= MIN_CONTRAST_HARD) return 'AA-large';
+  return 'fail';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Render the frame with the given text nodes hidden. Opacity is restored even if the export fails.
+ */
+async function renderBackground(
+  bridge: Bridge,
+  frameId: string,
+  texts: PlacedNode[],
+): Promise<{ data: Buffer; width: number; height: number }> {
+  await bridge.sendCommand({
+    type: 'batch_update',
+    updates: texts.map(t => ({ nodeId: t.node.id, properties: { opacity: 0 } })),
+  });
+
+  try {
+    const result = await bridge.sendCommand({ type: 'export_node', nodeId: frameId, format: 'PNG', scale: RENDER_SCALE });
+    if (!result.base64) {
+      throw new Error('Background export failed: no base64 data returned');
+    }
+    // Transparent areas would otherwise read as black
+    const { data, info } = await sharp(Buffer.from(result.base64, 'base64'))
+      .flatten({ background: '#FFFFFF' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } finally {
+    await bridge.sendCommand({
+      type: 'batch_update',
+      updates: texts.map(t => ({ nodeId: t.node.id, properties: { opacity: t.node.opacity ?? 1 } })),
+    });
+  }
+}
+
+/**
+ * Contrast of one text node against the rendered pixels under its box
+ */
+function measure(
+  text: PlacedNode,
+  render: { data: Buffer; width: number; height: number },
+  scale: number,
+): TextContrast | null {
+  const colors = textColors(text.node, text.opacity);
+  if (colors.length === 0) return null;
+
+  const x0 = Math.max(0, Math.floor(text.box.x * scale));
+  const y0 = Math.max(0, Math.floor(text.box.y * scale));
+  const x1 = Math.min(render.width, Math.ceil((text.box.x + text.box.width) * scale));
+  const y1 = Math.min(render.height, Math.ceil((text.box.y + text.box.height) * scale));
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const step = Math.max(1, Math.ceil(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_SAMPLES)));
+  const samples: Array<{ ratio: number; background: RGB }> = [];
+
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) {
+      const i = (y * render.width + x) * 3;
+      const background = { r: render.data[i] / 255, g: render.data[i + 1] / 255, b: render.data[i + 2] / 255 };
+      // Semi-transparent text is seen blended with whatever is under it
+      const ratio = Math.min(...colors.map(c => contrastRatio({
+        r: c.r * c.a + background.r * (1 - c.a),
+        g: c.g * c.a + background.g * (1 - c.a),
+        b: c.b * c.a + background.b * (1 - c.a),
+      }, background)));
+      samples.push({ ratio, background });
+    }
+  }
+
+  samples.sort((a, b) => a.ratio - b.ratio);
+  const worst = samples[Math.floor(samples.length * 0.1)];
+  const median = samples[Math.floor(samples.length / 2)];
+  const ratio = round(worst.ratio);
+  const threshold = thresholdFor(text.node);
+
+  return {
+    nodeId: text.node.id,
+    name: text.node.name,
+    text: (text.node.characters ?? '').slice(0, 40),
+    fontSize: text.node.fontSize,
+    textColor: rgbToHex(colors[0]),
+    ratio,
+    medianRatio: round(median.ratio),
+    worstBackground: rgbToHex(worst.background),
+    level: levelFor(ratio),
+    threshold,
+    pass: ratio >= threshold,
+  };
+}
+
+export async function checkContrast(input: CheckContrastInput, bridge: Bridge): Promise<any> {
+  const frame: SerializedNode = await bridge.sendCommand({ type: 'serialize_frame', frameId: input.frameId });
+  if (!frame || !frame.id) {
+    throw new Error(`Failed to serialize frame ${input.frameId}`);
+  }
+
+  // Hide every text node, so one text's box doesn't sample another text's glyphs
+  const texts = flattenVisible(frame).filter(p => p.node.type === 'TEXT' && (p.node.characters ?? '').trim() !== '');
+  const targets = input.nodeIds ? texts.filter(t => input.nodeIds!.includes(t.node.id)) : texts;
+  if (input.nodeIds) {
+    const missing = input.nodeIds.filter(id => !targets.some(t => t.node.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Not visible text nodes in frame ${input.frameId}: ${missing.join(', ')}`);
+    }
+  }
+  if (targets.length === 0) {
+    return { frameId: frame.id, results: [], message: `No visible text in "${frame.name}"` };
+  }
+
+  const render = await renderBackground(bridge, frame.id, texts);
+  const scale = render.width / frame.width;
+  const results = targets
+    .map(t => measure(t, render, scale))
+    .filter((r): r is TextContrast => r !== null);
+
+  const failing = results.filter(r => !r.pass);
+  const detail = failing
+    .map(r => `"${r.text}" ${r.ratio}:1 on ${r.worstBackground} (needs ${r.threshold}:1)`)
+    .join('; ');
+
+  return {
+    frameId: frame.id,
+    results,
+    message: failing.length === 0
+      ? `All ${results.length} text nodes in "${frame.name}" meet WCAG AA contrast (${MIN_CONTRAST}:1, ${MIN_CONTRAST_HARD}:1 for large text)`
+      : `${failing.length} of ${results.length} text nodes below their contrast minimum: ${detail}. ` +
+        'Fix with a scrim or gradient behind the text, a text shadow, a different text color, or move the text off the busy area.',
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * check_variety tool
+ *
+ * Scores a planned concept against the brand's concept history (angle index) and the
+ * concepts already finished this session, before anything is built. Flags repeated
+ * format categories, re-used angles, and product presentation or background
+ * treatments that match specific prior ads.
+ *
+ * Product position, shot and background are compared by kind ("center-bottom,
+ * hand-held" and "Hand-held, centered low" are the same presentation), not by text.
+ * No Bridge needed — reads the angle index and session state.
+ */
+
+import { z } from 'zod/v4';
+import { getRecentConcepts, type IndexedConcept } from '../data/angle-index.js';
+import type { ConceptSummary } from '../session-persistence.js';
+import { getSessionState } from '../session-state.js';
+
+/** Format categories from the design rules, for suggestions */
+const FORMAT_CATEGORIES = [
+  'Editorial', 'Comparison', 'Social Proof', 'PR/Media', 'Feature Callouts',
+  'Borrowed Interface', 'UGC Style', 'Data/Stats', 'Narrative', 'Provocation',
+];
+
+const DEFAULT_WINDOW = 5;
+
+/** Score needed to pass, on top of having no errors */
+const PASS_SCORE = 70;
+
+/** Word overlap at which two angles count as the same insight */
+const ANGLE_SIMILARITY = 0.6;
+
+/** Concepts read from the index; angle re-use is checked against all of them */
+const HISTORY_LIMIT = 200;
+
+const POSITION_WORDS = ['center', 'left', 'right', 'top', 'bottom', 'off-frame', 'cropped'];
+
+const SHOT_KINDS: Array<[string, RegExp]> = [
+  ['hand-held', /hand[- ]?held|in hand|holding/],
+  ['in-use', /in[- ]use|using|applied|in[- ]context/],
+  ['close-up', /close[- ]?up|macro|detail/],
+  ['angled', /angle|tilt|dynamic/],
+  ['static', /static|straight|float|flat ?lay|front/],
+];
+
+const BACKGROUND_KINDS: Array<[string, RegExp]> = [
+  ['image', /photo|image|scene|lifestyle/],
+  ['gradient', /gradient/],
+  ['texture', /texture|grain|noise|paper/],
+  ['pattern', /pattern/],
+  ['split', /split/],
+  ['solid', /solid|flat|plain/],
+];
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'you', 'your', 'are', 'with', 'that', 'this', 'but', 'not', 'its', 'all']);
+
+export const checkVarietySchema = z.object({
+  brand: z.string().optional().describe('Brand name (default: the session brand)'),
+  angle: z.string().describe('L1: proposed angle'),
+  formatCategory: z.string().describe('L2: proposed format category'),
+  productPosition: z.string().optional().describe('Planned product position (center-bottom, left, off-frame, ...)'),
+  productShot: z.string().optional().describe('Planned shot type (static, hand-held, angled, in-use, close-up)'),
+  background: z.string().optional().describe('Planned background treatment (solid, gradient, image, texture, ...)'),
+  window: z.number().int().min(2).max(20).optional().describe(`Recent ads to compare presentation against (default: ${DEFAULT_WINDOW})`),
+});
+
+export type CheckVarietyInput = z.infer<typeof checkVarietySchema>;
+
+export interface VarietyRecord {
+  source: 'history' | 'session';
+  number?: number;
+  date?: string;
+  angle: string;
+  formatCategory: string;
+  execution: string;
+  productPosition?: string;
+  productShot?: string;
+  background?: string;
+  frameId?: string;
+}
+
+interface VarietyConflict {
+  dimension: 'formatCategory' | 'angle' | 'product' | 'background' | 'combination';
+  severity: 'error' | 'warning';
+  message: string;
+  priorAds: string[];
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function positionKind(value?: string): string | undefined {
+  if (!value) return undefined;
+  const text = normalize(value).replace(/centre|middle/g, 'center').replace(/off frame|bleed/g, 'off-frame');
+  const words = POSITION_WORDS.filter(w => text.includes(w));
+  return words.length > 0 ? words.sort().join('+') : text;
+}
+
+function classify(value: string | undefined, kinds: Array<[string, RegExp]>): string | undefined {
+  if (!value) return undefined;
+  const text = normalize(value);
+  return kinds.find(([, pattern]) => pattern.test(text))?.[0] ?? text;
+}
+
+function angleWords(angle: string): Set<string> {
+  return new Set(
+    normalize(angle)
+      .replace(/[^a-z0-9 ]/g, ' ')
+      .split(' ')
+      .filter(w => w.length > 2 && !STOP_WORDS.has(w)),
+  );
+}
+
+function angleSimilarity(a: string, b: string): number {
+  if (normalize(a) === normalize(b)) return 1;
+  const wordsA = angleWords(a);
+  const wordsB = angleWords(b);
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
+function sameCategory(a: string, b: string): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Short reference to a prior ad for messages: Ad #3 "angle" (Editorial, 2026-02-16)
+ */
+export function describeRecord(record: VarietyRecord): string {
+  const label = record.number !== undefined
+    ? `Ad #${record.number}`
+    : record.source === 'session' ? 'this session' : 'earlier ad';
+  const when = record.date ? `, ${record.date}` : record.frameId ? `, frame ${record.frameId}` : '';
+  return `${label} "${record.angle}" (${record.formatCategory}${when})`;
+}
+
+/**
+ * Brand history plus this session's concepts, newest first. Session concepts that
+ * complete_concept already wrote to the index appear once.
+ */
+export function getVarietyHistory(brand: string, sessionSummaries: ConceptSummary[] = []): VarietyRecord[] {
+  let indexed: IndexedConcept[] = [];
+  try {
+    indexed = getRecentConcepts(brand, HISTORY_LIMIT);
+  } catch (error) {
+    console.warn(`[CheckVariety] Could not read angle index for ${brand}:`, error);
+  }
+
+  const history: VarietyRecord[] = indexed.map(c => ({ source: 'history', ...c }));
+  const sessionOnly = sessionSummaries
+    .filter(s => s.angle && s.formatCategory)
+    .filter(s => !indexed.some(c =>
+      (s.frameId && c.frameId === s.frameId) ||
+      (normalize(c.angle) === normalize(s.angle) && sameCategory(c.formatCategory, s.formatCategory)),
+    ))
+    .map((s): VarietyRecord => ({
+      source: 'session',
+      angle: s.angle,
+      formatCategory: s.formatCategory,
+      execution: s.execution,
+      productPosition: s.productPosition,
+      productShot: s.productShot,
+      background: s.background,
+      frameId: s.frameId || undefined,
+      date: s.completedAt ? s.completedAt.split('T')[0] : undefined,
+    }))
+    .reverse();
+
+  return [...sessionOnly, ...history];
+}
+
+/**
+ * Markdown list of recent ads with their presentation, for critic prompts
+ */
+export function formatVarietyHistory(records: VarietyRecord[], limit = DEFAULT_WINDOW): string {
+  return records.slice(0, limit).map(r => {
+    const presentation = [
+      r.productPosition && `product ${r.productPosition}`,
+      r.productShot && `shot ${r.productShot}`,
+      r.background && `background ${r.background}`,
+    ].filter(Boolean).join(', ');
+    return `- ${describeRecord(r)} — ${r.execution || 'no execution notes'}${presentation ? ` [${presentation}]` : ''}`;
+  }).join('\n');
+}
+
+export async function checkVariety(input: CheckVarietyInput): Promise<any> {
+  const session = getSessionState();
+  const brand = input.brand ?? session?.brand;
+  if (!brand) {
+    throw new Error('No brand given and no session brand selected');
+  }
+
+  // Session summaries only count toward the session's own brand
+  const sessionSummaries = session && normalize(session.brand) === normalize(brand) ? session.conceptSummaries : [];
+  const history = getVarietyHistory(brand, sessionSummaries);
+  const window = input.window ?? DEFAULT_WINDOW;
+  const recent = history.slice(0, window);
+
+  const conflicts: VarietyConflict[] = [];
+  let score = 100;
+  const flag = (conflict: VarietyConflict, penalty: number) => {
+    conflicts.push(conflict);
+    score -= penalty;
+  };
+
+  // L2: format category streaks
+  const sameFormat = recent.filter(r => sameCategory(r.formatCategory, input.formatCategory));
+  if (recent.length >= 2 && sameCategory(recent[0].formatCategory, input.formatCategory) && sameCategory(recent[1].formatCategory, input.formatCategory)) {
+    flag({
+      dimension: 'formatCategory',
+      severity: 'error',
+      message: `Would be the third ${input.formatCategory} ad in a row`,
+      priorAds: [describeRecord(recent[0]), describeRecord(recent[1])],
+    }, 40);
+  } else if (recent.length > 0 && sameCategory(recent[0].formatCategory, input.formatCategory)) {
+    flag({
+      dimension: 'formatCategory',
+      severity: 'warning',
+      message: `Same format category as the last ad`,
+      priorAds: [describeRecord(recent[0])],
+    }, 25);
+  } else if (sameFormat.length > 0) {
+    flag({
+      dimension: 'formatCategory',
+      severity: 'warning',
+      message: `${input.formatCategory} used ${sameFormat.length} time${sameFormat.length === 1 ? '' : 's'} in the last ${recent.length} ads`,
+      priorAds: sameFormat.map(describeRecord),
+    }, 10 * sameFormat.length);
+  }
+
+  // L1: angle re-use anywhere in the history
+  const similarAngles = history.filter(r => angleSimilarity(r.angle, input.angle) >= ANGLE_SIMILARITY);
+  const sameCombo = similarAngles.find(r => sameCategory(r.formatCategory, input.formatCategory));
+  if (sameCombo) {
+    flag({
+      dimension: 'angle',
+      severity: 'error',
+      message: `Angle and format category repeat an earlier ad`,
+      priorAds: [describeRecord(sameCombo)],
+    }, 35);
+  } else if (similarAngles.length > 0) {
+    flag({
+      dimension: 'angle',
+      severity: 'warning',
+      message: `Angle already used in ${similarAngles[0].formatCategory} — fine in a new format if the execution is fresh`,
+      priorAds: similarAngles.slice(0, 3).map(describeRecord),
+    }, 10);
+  }
+
+  // L3: product presentation against the last two ads
+  const position = positionKind(input.productPosition);
+  const shot = classify(input.productShot, SHOT_KINDS);
+  const lastTwo = recent.slice(0, 2);
+  const samePresentation = position && shot
+    ? lastTwo.find(r => positionKind(r.productPosition) === position && classify(r.productShot, SHOT_KINDS) === shot)
+    : undefined;
+  if (samePresentation) {
+    flag({
+      dimension: 'product',
+      severity: 'error',
+      message: `Same product position (${position}) and shot (${shot}) as a recent ad`,
+      priorAds: [describeRecord(samePresentation)],
+    }, 20);
+  } else if (recent.length > 0) {
+    if (position && positionKind(recent[0].productPosition) === position) {
+      flag({ dimension: 'product', severity: 'warning', message: `Same product position (${position}) as the last ad`, priorAds: [describeRecord(recent[0])] }, 5);
+    }
+    if (shot && classify(recent[0].productShot, SHOT_KINDS) === shot) {
+      flag({ dimension: 'product', severity: 'warning', message: `Same shot type (${shot}) as the last ad`, priorAds: [describeRecord(recent[0])] }, 5);
+    }
+  }
+
+  // L3: background treatment
+  const background = classify(input.background, BACKGROUND_KINDS);
+  if (background) {
+    const sameBackground = lastTwo.filter(r => classify(r.background, BACKGROUND_KINDS) === background);
+    if (sameBackground.length === 2) {
+      flag({ dimension: 'background', severity: 'warning', message: `Third ${background} background in a row`, priorAds: sameBackground.map(describeRecord) }, 10);
+    } else if (sameBackground.length === 1 && sameBackground[0] === recent[0]) {
+      flag({ dimension: 'background', severity: 'warning', message: `Same background treatment (${background}) as the last ad`, priorAds: [describeRecord(recent[0])] }, 5);
+    }
+  }
+
+  // Whole combination, anywhere in the history
+  if (position && shot && background) {
+    const identical = history.find(r =>
+      sameCategory(r.formatCategory, input.formatCategory) &&
+      positionKind(r.productPosition) === position &&
+      classify(r.productShot, SHOT_KINDS) === shot &&
+      classify(r.background, BACKGROUND_KINDS) === background,
+    );
+    if (identical) {
+      flag({
+        dimension: 'combination',
+        severity: 'error',
+        message: `Format, product position, shot and background all match an earlier ad`,
+        priorAds: [describeRecord(identical)],
+      }, 20);
+    }
+  }
+
+  score = Math.max(0, score);
+  const errors = conflicts.filter(c => c.severity === 'error');
+  const pass = errors.length === 0 && score >= PASS_SCORE;
+  const usedRecently = new Set(recent.map(r => normalize(r.formatCategory)));
+  // Only suggest switching format when the format or angle is the problem
+  const formatProblem = conflicts.some(c => c.dimension === 'formatCategory' || c.dimension === 'angle' || c.dimension === 'combination');
+  const suggestions = formatProblem
+    ? FORMAT_CATEGORIES.filter(c => !usedRecently.has(normalize(c)) && !sameCategory(c, input.formatCategory))
+    : [];
+  const recentFormatCategories = recent.map(r => r.formatCategory);
+
+  const details = conflicts
+    .map(c => `${c.severity.toUpperCase()} [${c.dimension}] ${c.message}: ${c.priorAds.join('; ')}`)
+    .join('\n');
+
+  return {
+    brand,
+    score,
+    pass,
+    conflicts,
+    recentFormatCategories,
+    suggestedFormatCategories: suggestions.slice(0, 4),
+    historySize: history.length,
+    message: history.length === 0
+      ? `No concept history for ${brand} yet — anything goes. Score ${score}/100.`
+      : `Variety score ${score}/100 for "${input.angle}" (${input.formatCategory}) — ${pass ? 'PASS' : 'REVISE'}. ` +
+        `Last ${recent.length} formats: ${recentFormatCategories.join(', ')}.` +
+        (details ? `\n${details}` : '') +
+        (suggestions.length > 0 ? `\nUnused recently: ${suggestions.slice(0, 4).join(', ')}` : ''),
+  };
+}
@@ -1,27 +1,56 @@
 /**
- * Checkpoint tools: save_checkpoint + restore_checkpoint
+ * Checkpoint tools: save_checkpoint + restore_checkpoint + list_checkpoints + prune_checkpoints
  *
  * Save/restore frame state for rollback during iteration.
- * Checkpoints are stored in-memory (per session) — not persisted to disk.
- * The plugin handles full node tree reconstruction on restore.
+ * Checkpoints are scoped per frame (frameId + label) and persisted under
+ * data/sessions/{sessionId}/checkpoints/ — see checkpoint-store.ts.
+ * The plugin handles full node tree reconstruction on restore. Image bytes go to
+ * the shared image store (image-store.ts) so image fills survive the restore.
  */
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
 import type { SerializedNode } from '../../../shared/protocol.js';
+import { getSessionState } from '../session-state.js';
+import {
+  putCheckpoint,
+  getCheckpoint,
+  findCheckpointsByLabel,
+  listCheckpointRecords,
+  deleteCheckpoint,
+  deleteAllCheckpoints,
+  type CheckpointRecord,
+} from '../checkpoint-store.js';
+import { storeFrameImages, restoreFrame } from '../image-store.js';
 
-// In-memory checkpoint store: label → serialized node tree
-const checkpoints = new Map<string, { frameId: string; data: SerializedNode; savedAt: string }>();
+/**
+ * Make sure the active session (and its checkpoints) is loaded.
+ * After a backend restart this rehydrates the most recent session from disk.
+ */
+function ensureSessionLoaded(): void {
+  getSessionState();
+}
+
+function countNodes(node: SerializedNode): number {
+  let count = 1;
+  if (node.children) {
+    for (const child of node.children) {
+      count += countNodes(child);
+    }
+  }
+  return count;
+}
 
 export const saveCheckpointSchema = z.object({
   frameId: z.string().describe('Frame ID to checkpoint'),
-  label: z.string().describe('Label for this checkpoint (e.g., "pre-iteration", "after-typography")'),
+  label: z.string().describe('Label for this checkpoint (e.g., "pre-iteration", "after-typography"). Unique per frame.'),
 });
 
 export type SaveCheckpointInput = z.infer<typeof saveCheckpointSchema>;
 
 export async function saveCheckpoint(input: SaveCheckpointInput, bridge: Bridge): Promise<any> {
   const { frameId, label } = input;
+  ensureSessionLoaded();
 
   // Serialize the frame tree from Figma
   const serialized = await bridge.sendCommand({
@@ -33,61 +62,76 @@ export async function saveCheckpoint(input: SaveCheckpointInput, bridge: Bridge)
     throw new Error(`Failed to serialize frame ${frameId}`);
   }
 
-  // Store in memory
-  checkpoints.set(label, {
+  const nodeCount = countNodes(serialized as SerializedNode);
+  const images = await storeFrameImages(bridge, serialized as SerializedNode);
+
+  putCheckpoint({
     frameId,
+    label,
     data: serialized as SerializedNode,
+    nodeCount,
     savedAt: new Date().toISOString(),
   });
 
-  // Count nodes in the tree
-  function countNodes(node: SerializedNode): number {
-    let count = 1;
-    if (node.children) {
-      for (const child of node.children) {
-        count += countNodes(child);
-      }
-    }
-    return count;
-  }
-
-  const nodeCount = countNodes(serialized as SerializedNode);
-
   return {
-    message: `Checkpoint "${label}" saved (${nodeCount} nodes)`,
+    message: `Checkpoint "${label}" saved for frame ${frameId} (${nodeCount} nodes)` +
+      (images.missing.length > 0 ? `. WARNING: ${images.missing.length} image(s) could not be read — they restore only while still in this file` : ''),
     label,
     frameId,
     nodeCount,
-    availableCheckpoints: Array.from(checkpoints.keys()),
+    availableCheckpoints: listCheckpointRecords(frameId).map(cp => cp.label),
   };
 }
 
 export const restoreCheckpointSchema = z.object({
   label: z.string().describe('Label of the checkpoint to restore'),
+  frameId: z.string().optional().describe('Frame the checkpoint belongs to. Required when the same label exists on several frames.'),
 });
 
 export type RestoreCheckpointInput = z.infer<typeof restoreCheckpointSchema>;
 
-export async function restoreCheckpoint(input: RestoreCheckpointInput, bridge: Bridge): Promise<any> {
-  const { label } = input;
+/**
+ * Resolve a checkpoint by label, using frameId to disambiguate
+ */
+export function resolveCheckpoint(label: string, frameId?: string): CheckpointRecord {
+  if (frameId) {
+    const checkpoint = getCheckpoint(frameId, label);
+    if (!checkpoint) {
+      const available = listCheckpointRecords(frameId).map(cp => cp.label);
+      throw new Error(
+        `Checkpoint "${label}" not found for frame ${frameId}. Available: ${available.length > 0 ? available.join(', ') : 'none'}`
+      );
+    }
+    return checkpoint;
+  }
 
-  const checkpoint = checkpoints.get(label);
-  if (!checkpoint) {
-    const available = Array.from(checkpoints.keys());
+  const matches = findCheckpointsByLabel(label);
+  if (matches.length === 0) {
+    const available = listCheckpointRecords().map(cp => `${cp.label} (${cp.frameId})`);
     throw new Error(
       `Checkpoint "${label}" not found. Available: ${available.length > 0 ? available.join(', ') : 'none'}`
     );
   }
+  if (matches.length > 1) {
+    throw new Error(
+      `Checkpoint "${label}" exists on ${matches.length} frames (${matches.map(cp => cp.frameId).join(', ')}). Pass frameId to choose one.`
+    );
+  }
+  return matches[0];
+}
 
-  // Send restore command to plugin
-  const result = await bridge.sendCommand({
-    type: 'restore_checkpoint',
-    frameId: checkpoint.frameId,
-    serialized: checkpoint.data,
-  });
+export async function restoreCheckpoint(input: RestoreCheckpointInput, bridge: Bridge): Promise<any> {
+  const { label } = input;
+  ensureSessionLoaded();
+
+  const checkpoint = resolveCheckpoint(label, input.frameId);
+
+  // Send restore command to plugin, with stored bytes for images the file lost
+  const result = await restoreFrame(bridge, checkpoint.frameId, checkpoint.data);
 
   return {
-    message: `Restored checkpoint "${label}" to frame ${checkpoint.frameId}`,
+    message: `Restored checkpoint "${label}" to frame ${checkpoint.frameId}` +
+      (result?.warnings?.length ? `. WARNINGS: ${result.warnings.join('; ')}` : ''),
     label,
     frameId: checkpoint.frameId,
     savedAt: checkpoint.savedAt,
@@ -95,14 +139,19 @@ export async function restoreCheckpoint(input: RestoreCheckpointInput, bridge: B
   };
 }
 
-export const listCheckpointsSchema = z.object({});
+export const listCheckpointsSchema = z.object({
+  frameId: z.string().optional().describe('Only list checkpoints for this frame'),
+});
 
 export type ListCheckpointsInput = z.infer<typeof listCheckpointsSchema>;
 
-export async function listCheckpoints(_input: ListCheckpointsInput): Promise<any> {
-  const list = Array.from(checkpoints.entries()).map(([label, cp]) => ({
-    label,
+export async function listCheckpoints(input: ListCheckpointsInput): Promise<any> {
+  ensureSessionLoaded();
+
+  const list = listCheckpointRecords(input.frameId).map(cp => ({
+    label: cp.label,
     frameId: cp.frameId,
+    nodeCount: cp.nodeCount,
     savedAt: cp.savedAt,
   }));
 
@@ -112,9 +161,42 @@ export async function listCheckpoints(_input: ListCheckpointsInput): Promise<any
   };
 }
 
+export const pruneCheckpointsSchema = z.object({
+  frameId: z.string().describe('Frame whose checkpoints to prune'),
+  labels: z.array(z.string()).optional().describe('Delete only these labels'),
+  keepLatest: z.number().int().min(0).optional().describe('Keep the N most recent checkpoints, delete the rest (default: 0). With labels, the N most recent of those labels are kept'),
+});
+
+export type PruneCheckpointsInput = z.infer<typeof pruneCheckpointsSchema>;
+
+export async function pruneCheckpoints(input: PruneCheckpointsInput): Promise<any> {
+  const { frameId } = input;
+  ensureSessionLoaded();
+
+  const records = listCheckpointRecords(frameId);
+  // Labels narrow what may be deleted; keepLatest then spares the newest of those
+  const labels = input.labels && input.labels.length > 0 ? new Set(input.labels) : null;
+  const candidates = labels ? records.filter(cp => labels.has(cp.label)) : records;
+  const keep = input.keepLatest ?? 0;
+  const toDelete: CheckpointRecord[] = candidates.slice(0, Math.max(0, candidates.length - keep));
+
+  for (const cp of toDelete) {
+    deleteCheckpoint(cp.frameId, cp.label);
+  }
+
+  const remaining = listCheckpointRecords(frameId).map(cp => cp.label);
+
+  return {
+    message: `Pruned ${toDelete.length} checkpoint${toDelete.length === 1 ? '' : 's'} for frame ${frameId} (${remaining.length} remaining)`,
+    frameId,
+    deleted: toDelete.map(cp => cp.label),
+    remaining,
+  };
+}
+
 /**
- * Clear all checkpoints (called on session reset)
+ * Clear all checkpoints for the active session (called on new_concept)
  */
 export function clearCheckpoints(): void {
-  checkpoints.clear();
+  deleteAllCheckpoints();
 }
@@ -10,6 +10,7 @@ import { appendConceptEntry } from '../data/concepts-log.js';
 import { updateAngleIndex } from '../data/angle-index.js';
 import { addConceptSummary } from '../session-persistence.js';
 import { getSessionId, getSessionState } from '../session-state.js';
+import { recordConceptCompletion } from '../concept-tracker.js';
 
 export const completeConceptSchema = z.object({
   brand: z.string().describe('Brand name'),
@@ -29,7 +30,7 @@ export async function completeConcept(input: CompleteConceptInput): Promise<any>
   const date = new Date().toISOString().split('T')[0];
 
   // 1. Append to concepts-log.md
-  appendConceptEntry(input.brand, {
+  const logged = appendConceptEntry(input.brand, {
     angle: input.angle,
     formatCategory: input.formatCategory,
     execution: input.execution,
@@ -42,9 +43,16 @@ export async function completeConcept(input: CompleteConceptInput): Promise<any>
 
   // 2. Update angle index
   updateAngleIndex(input.brand, input.angle, {
+    number: logged.number,
     formatCategory: input.formatCategory,
     title: input.angle,
-    description: input.execution,
+    execution: input.execution,
+    productPosition: input.productPosition,
+    productShot: input.productShot,
+    background: input.background,
+    reference: input.reference,
+    frameId: input.frameId,
+    date,
   });
 
   // 3. Update session persistence with concept summary
@@ -56,6 +64,9 @@ export async function completeConcept(input: CompleteConceptInput): Promise<any>
       formatCategory: input.formatCategory,
       execution: input.execution,
       frameId: input.frameId,
+      productPosition: input.productPosition,
+      productShot: input.productShot,
+      background: input.background,
       keyDecisions: [] as string[],
       issues: [] as string[],
       cost: session?.totalCost ?? 0,
@@ -67,13 +78,17 @@ export async function completeConcept(input: CompleteConceptInput): Promise<any>
     // Also update in-memory concept summaries
     if (session) {
       session.conceptSummaries.push(conceptSummary);
+      // The new_concept boundary completes this summary with cost, frames, tools and assets
+      recordConceptCompletion(session.conceptSummaries.length - 1);
     }
   } catch (error) {
     console.error('[CompleteConcept] Failed to update session:', error);
   }
 
   return {
-    message: `Concept logged for ${input.brand}: "${input.angle}" (${input.formatCategory}) — frame ${input.frameId}`,
+    message: `Concept logged for ${input.brand} as Ad #${logged.number}: "${input.angle}" (${input.formatCategory}) — frame ${input.frameId}`,
+    number: logged.number,
+    logPath: logged.path,
     date,
   };
 }
@@ -0,0 +1,179 @@
+/**
+ * PDF contact sheets
+ *
+ * Lays exported frames out as captioned thumbnails on landscape A4 pages (3 x 2 per
+ * page) and writes a minimal PDF by hand: JPEG thumbnails embedded as DCTDecode image
+ * XObjects, captions in the built-in Helvetica font. No PDF library needed.
+ */
+
+import sharp from 'sharp';
+
+export interface ContactSheetItem {
+  /** Any image sharp can read (the frame's raster export) */
+  image: Buffer;
+  title: string;
+  subtitle: string;
+}
+
+export interface ContactSheet {
+  data: Buffer;
+  pages: number;
+  /** Page size in points */
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/** Landscape A4 in points */
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const HEADER_HEIGHT = 28;
+const COLUMNS = 3;
+const ROWS = 2;
+const GUTTER = 18;
+const CAPTION_HEIGHT = 30;
+
+/** Thumbnail long edge in pixels — ~2x the largest cell for print sharpness */
+const THUMBNAIL_SIZE = 640;
+
+interface Thumbnail {
+  jpeg: Buffer;
+  width: number;
+  height: number;
+}
+
+async function makeThumbnail(image: Buffer): Promise<Thumbnail> {
+  const { data, info } = await sharp(image)
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .jpeg({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+  return { jpeg: data, width: info.width, height: info.height };
+}
+
+/**
+ * Escape a caption for a PDF literal string. Helvetica/WinAnsi only covers Latin-1,
+ * so anything outside printable ASCII becomes "?".
+ */
+function pdfText(value: string): string {
+  return value
+    .replace(/[—–]/g, '-')
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/[\\()]/g, c => `\\${c}`);
+}
+
+function fmt(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+/**
+ * Build a PDF contact sheet. `heading` is printed at the top of every page.
+ */
+export async function renderContactSheet(items: ContactSheetItem[], heading: string): Promise<ContactSheet> {
+  if (items.length === 0) throw new Error('Contact sheet needs at least one image');
+
+  const thumbnails = await Promise.all(items.map(item => makeThumbnail(item.image)));
+  const perPage = COLUMNS * ROWS;
+  const pageCount = Math.ceil(items.length / perPage);
+
+  // Object ids: 1 catalog, 2 page tree, 3 font, then images, then (page, contents) pairs
+  const imageIds = thumbnails.map((_, i) => 4 + i);
+  const pageIds = Array.from({ length: pageCount }, (_, p) => 4 + thumbnails.length + p * 2);
+  const objectCount = 3 + thumbnails.length + pageCount * 2;
+
+  const objects = new Map<number, Buffer>();
+  const text = (id: number, body: string) => objects.set(id, Buffer.from(`${id} 0 obj\n${body}\nendobj\n`, 'latin1'));
+  const stream = (id: number, dict: string, data: Buffer) => objects.set(id, Buffer.concat([
+    Buffer.from(`${id} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n', 'latin1'),
+  ]));
+
+  text(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  text(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+  text(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  thumbnails.forEach((thumb, i) => {
+    stream(
+      imageIds[i],
+      `/Type /XObject /Subtype /Image /Width ${thumb.width} /Height ${thumb.height} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      thumb.jpeg,
+    );
+  });
+
+  const cellWidth = (PAGE_WIDTH - MARGIN * 2 - GUTTER * (COLUMNS - 1)) / COLUMNS;
+  const cellHeight = (PAGE_HEIGHT - MARGIN * 2 - HEADER_HEIGHT - GUTTER * (ROWS - 1)) / ROWS;
+  const imageAreaHeight = cellHeight - CAPTION_HEIGHT;
+
+  for (let p = 0; p < pageCount; p++) {
+    const first = p * perPage;
+    const pageItems = items.slice(first, first + perPage);
+    const ops: string[] = [
+      'BT /F1 12 Tf',
+      `${MARGIN} ${fmt(PAGE_HEIGHT - MARGIN - 12)} Td`,
+      `(${pdfText(`${heading}  -  page ${p + 1} of ${pageCount}`)}) Tj`,
+      'ET',
+    ];
+
+    pageItems.forEach((item, i) => {
+      const index = first + i;
+      const thumb = thumbnails[index];
+      const column = i % COLUMNS;
+      const row = Math.floor(i / COLUMNS);
+      const cellX = MARGIN + column * (cellWidth + GUTTER);
+      const cellTop = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT - row * (cellHeight + GUTTER);
+
+      const fit = Math.min(cellWidth / thumb.width, imageAreaHeight / thumb.height);
+      const drawWidth = thumb.width * fit;
+      const drawHeight = thumb.height * fit;
+      const drawX = cellX + (cellWidth - drawWidth) / 2;
+      const drawY = cellTop - imageAreaHeight + (imageAreaHeight - drawHeight);
+
+      ops.push(
+        `q ${fmt(drawWidth)} 0 0 ${fmt(drawHeight)} ${fmt(drawX)} ${fmt(drawY)} cm /Im${index} Do Q`,
+        'BT /F1 9 Tf',
+        `${fmt(cellX)} ${fmt(cellTop - imageAreaHeight - 12)} Td`,
+        `(${pdfText(item.title)}) Tj`,
+        '0 -11 Td /F1 8 Tf',
+        `(${pdfText(item.subtitle)}) Tj`,
+        'ET',
+      );
+    });
+
+    const xObjects = pageItems.map((_, i) => `/Im${first + i} ${imageIds[first + i]} 0 R`).join(' ');
+    const [pageId, contentsId] = [pageIds[p], pageIds[p] + 1];
+    text(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentsId} 0 R >>`,
+    );
+    stream(contentsId, '', Buffer.from(ops.join('\n'), 'latin1'));
+  }
+
+  // Header, objects in id order, then the cross-reference table
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  const offsets: number[] = [];
+  let offset = chunks[0].length;
+  for (let id = 1; id <= objectCount; id++) {
+    const obj = objects.get(id)!;
+    offsets.push(offset);
+    chunks.push(obj);
+    offset += obj.length;
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objectCount + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objectCount + 1} /Root 1 0 R >>`,
+    'startxref',
+    `${offset}`,
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return { data: Buffer.concat(chunks), pages: pageCount, pageWidth: PAGE_WIDTH, pageHeight: PAGE_HEIGHT };
+}
@@ -7,15 +7,16 @@
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
-import { hexToRgb } from './utils.js';
+import { hexToSolidPaint } from './utils.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
 
 export const createShapeSchema = z.object({
   parentId: z.string().describe('Parent frame ID'),
   shape: z.enum(['rectangle', 'ellipse']).describe('Shape type'),
   width: z.number().describe('Width in px'),
   height: z.number().describe('Height in px'),
-  fillColor: z.string().optional().describe('Fill color hex (default: transparent)'),
-  strokeColor: z.string().optional().describe('Stroke color hex'),
+  fillColor: z.string().optional().describe('Fill color hex or brand token, e.g. "brand.accent" (default: transparent)'),
+  strokeColor: z.string().optional().describe('Stroke color hex or brand token'),
   strokeWeight: z.number().optional().describe('Stroke weight'),
   cornerRadius: z.number().optional().describe('Corner radius (rectangles only)'),
   opacity: z.number().optional().describe('Opacity 0-1'),
@@ -36,6 +37,7 @@ export async function createShape(input: CreateShapeInput, bridge: Bridge): Prom
   };
 
   const method = methodMap[input.shape];
+  const paletteWarnings: string[] = [];
 
   // Build options
   const opts: any = {
@@ -47,14 +49,14 @@ export async function createShape(input: CreateShapeInput, bridge: Bridge): Prom
 
   // Fill color
   if (input.fillColor) {
-    opts.fills = [{ type: 'SOLID', color: hexToRgb(input.fillColor) }];
+    opts.fills = [hexToSolidPaint(resolveColor(input.fillColor, paletteWarnings, 'fillColor'))];
   } else {
     opts.fills = []; // transparent by default
   }
 
   // Stroke
   if (input.strokeColor) {
-    opts.strokes = [{ type: 'SOLID', color: hexToRgb(input.strokeColor) }];
+    opts.strokes = [hexToSolidPaint(resolveColor(input.strokeColor, paletteWarnings, 'strokeColor'))];
   }
   if (input.strokeWeight !== undefined) {
     opts.strokeWeight = input.strokeWeight;
@@ -91,6 +93,6 @@ export async function createShape(input: CreateShapeInput, bridge: Bridge): Prom
 
   return {
     nodeId: result.id,
-    message: `Created ${input.shape} (${input.width}x${input.height}px)`,
+    message: `Created ${input.shape} (${input.width}x${input.height}px)${formatPaletteWarnings(paletteWarnings)}`,
   };
 }
@@ -0,0 +1,61 @@
+/**
+ * diff_checkpoints tool
+ *
+ * Reports what changed between two saved checkpoints of a frame, or between a
+ * checkpoint and the live frame (via serialize_frame). Lets the agent reason about
+ * "what did the last iteration change" without comparing screenshots.
+ */
+
+import { z } from 'zod';
+import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { getSessionState } from '../session-state.js';
+import { resolveCheckpoint } from './checkpoint.js';
+import { diffSerializedNodes, summarizeDiff } from './node-diff.js';
+
+export const diffCheckpointsSchema = z.object({
+  from: z.string().describe('Label of the baseline checkpoint'),
+  to: z.string().optional().describe('Label of the checkpoint to compare against. Omit to compare against the live frame.'),
+  frameId: z.string().optional().describe('Frame the checkpoints belong to. Required when a label exists on several frames.'),
+});
+
+export type DiffCheckpointsInput = z.infer<typeof diffCheckpointsSchema>;
+
+export async function diffCheckpoints(input: DiffCheckpointsInput, bridge: Bridge): Promise<any> {
+  // Rehydrate session checkpoints after a restart
+  getSessionState();
+
+  const base = resolveCheckpoint(input.from, input.frameId);
+  const frameId = base.frameId;
+
+  let target: SerializedNode;
+  let targetLabel: string;
+
+  if (input.to) {
+    target = resolveCheckpoint(input.to, frameId).data;
+    targetLabel = `checkpoint "${input.to}"`;
+  } else {
+    target = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+    if (!target || !target.id) {
+      throw new Error(`Failed to serialize frame ${frameId}`);
+    }
+    targetLabel = 'live frame';
+  }
+
+  const diff = diffSerializedNodes(base.data, target);
+  const propertyChanges = diff.changed.reduce((sum, n) => sum + n.changes.length, 0);
+  const total = diff.added.length + diff.removed.length + diff.moved.length + propertyChanges;
+
+  return {
+    message: total === 0
+      ? `No differences between checkpoint "${input.from}" and ${targetLabel}`
+      : `${total} differences between checkpoint "${input.from}" and ${targetLabel}: ` +
+        `${diff.added.length} added, ${diff.removed.length} removed, ${diff.moved.length} moved, ` +
+        `${propertyChanges} property changes on ${diff.changed.length} nodes`,
+    frameId,
+    from: input.from,
+    to: input.to ?? 'live',
+    summary: summarizeDiff(diff),
+    diff,
+  };
+}
@@ -1,32 +1,67 @@
 /**
  * estimate_cost tool
  *
- * Per-concept cost estimation for fal.ai asset generation.
+ * Per-concept cost estimation for asset generation, priced by the configured
+ * image providers (see providers/).
  * Called during ideation — agent presents estimate to user before building.
+ * Reports the remaining budget alongside, since generation stops at the cap.
  */
 
 import { z } from 'zod';
+import { getBudgetStatus, formatBudgetStatus } from '../budget.js';
+import { getImageProvider, type ImageOperation, type Resolution } from '../providers/index.js';
 
 export const estimateCostSchema = z.object({
   numProductPhotos: z.number().optional().describe('Expected product photos to generate. Default: 1'),
   numAssets: z.number().optional().describe('Expected non-product assets (backgrounds, UI, props). Default: 0'),
-  numBgRemovals: z.number().optional().describe('Expected background removals. Default: 0'),
+  numBgRemovals: z.number().optional().describe('Expected background removals through the provider. Local removals are free — leave them out. Default: 0'),
 });
 
 export type EstimateCostInput = z.infer<typeof estimateCostSchema>;
 
-// fal.ai cost per operation (approximate, USD)
+// Non-generation costs per concept (approximate, USD). Generation prices come from
+// the configured image providers' cost tables.
 const COSTS = {
-  productPhoto2K: 0.12,
-  productPhoto1K: 0.08,
-  assetT2I_1K: 0.06,
-  assetT2I_2K: 0.10,
-  bgRemoval: 0.03,
   agentInferenceMin: 5.0,
   agentInferenceMax: 10.0,
   libraryAndScreenshots: { min: 0.70, max: 1.50 },
 };
 
+/**
+ * Price of one operation with the provider configured for it
+ */
+function providerCost(operation: ImageOperation, resolution?: Resolution): { cost: number; label: string } {
+  const provider = getImageProvider(operation);
+  return { cost: provider.cost(operation, resolution), label: `${provider.id}/${provider.model(operation)}` };
+}
+
+/**
+ * Projected generation cost of one tool call, for the budget gate. A misconfigured
+ * provider prices at zero here — the tool call itself then fails with the config error.
+ */
+export function estimateToolCost(toolName: string, input: Record<string, any>): number {
+  try {
+    // Local cutouts are free; auto may fall back to the provider, so price it like one
+    const cutoutCost = (method: unknown) => (method === 'local' ? 0 : providerCost('remove_background').cost);
+    const bgRemoval = input.removeBg ? cutoutCost(input.removeBgMethod ?? process.env.BG_REMOVAL_METHOD) : 0;
+    switch (toolName) {
+      case 'generate_product_photo':
+        return providerCost('edit', input.resolution ?? '2K').cost + bgRemoval;
+      case 'generate_asset':
+        return providerCost('generate', input.resolution ?? '1K').cost + bgRemoval;
+      case 'remove_background':
+        return cutoutCost(input.method ?? process.env.BG_REMOVAL_METHOD);
+      case 'start_generation':
+        return (input.variants ?? 1) * estimateToolCost(input.tool, input.params ?? {});
+      default:
+        return 0;
+    }
+  } catch (error) {
+    console.warn(`[estimate-cost] Could not price ${toolName}:`, error);
+    return 0;
+  }
+}
+
 export async function estimateCost(input: EstimateCostInput): Promise<any> {
   const numProductPhotos = input.numProductPhotos ?? 1;
   const numAssets = input.numAssets ?? 0;
@@ -35,18 +70,18 @@ export async function estimateCost(input: EstimateCostInput): Promise<any> {
   const breakdown: Array<{ item: string; cost: number }> = [];
 
   if (numProductPhotos > 0) {
-    const cost = numProductPhotos * COSTS.productPhoto2K;
-    breakdown.push({ item: `${numProductPhotos}x product photo (2K)`, cost });
+    const { cost, label } = providerCost('edit', '2K');
+    breakdown.push({ item: `${numProductPhotos}x product photo (2K, ${label})`, cost: numProductPhotos * cost });
   }
 
   if (numAssets > 0) {
-    const cost = numAssets * COSTS.assetT2I_1K;
-    breakdown.push({ item: `${numAssets}x asset (1K)`, cost });
+    const { cost, label } = providerCost('generate', '1K');
+    breakdown.push({ item: `${numAssets}x asset (1K, ${label})`, cost: numAssets * cost });
   }
 
   if (numBgRemovals > 0) {
-    const cost = numBgRemovals * COSTS.bgRemoval;
-    breakdown.push({ item: `${numBgRemovals}x background removal`, cost });
+    const { cost, label } = providerCost('remove_background');
+    breakdown.push({ item: `${numBgRemovals}x background removal (${label})`, cost: numBgRemovals * cost });
   }
 
   const assetGeneration = breakdown.reduce((sum, b) => sum + b.cost, 0);
@@ -54,6 +89,14 @@ export async function estimateCost(input: EstimateCostInput): Promise<any> {
   const totalMin = assetGeneration + COSTS.agentInferenceMin + COSTS.libraryAndScreenshots.min;
   const totalMax = assetGeneration + COSTS.agentInferenceMax + COSTS.libraryAndScreenshots.max;
 
+  // Hard caps: generation tools are denied once a budget runs out
+  const budget = getBudgetStatus();
+  const budgetNote = !budget
+    ? ''
+    : totalMax > budget.remaining
+      ? ` Only $${budget.remaining.toFixed(2)} of budget left (${formatBudgetStatus(budget)}) — scope the concept down or ask the user to raise the budget.`
+      : ` Budget: ${formatBudgetStatus(budget)}.`;
+
   return {
     estimate: {
       assetGeneration: Math.round(assetGeneration * 100) / 100,
@@ -62,6 +105,7 @@ export async function estimateCost(input: EstimateCostInput): Promise<any> {
       totalRange: `$${totalMin.toFixed(2)}-${totalMax.toFixed(2)}`,
     },
     breakdown,
-    message: `Estimated cost for this concept: $${totalMin.toFixed(2)}-${totalMax.toFixed(2)} (asset generation: $${assetGeneration.toFixed(2)}, agent: $${COSTS.agentInferenceMin}-${COSTS.agentInferenceMax}, library/screenshots: $${COSTS.libraryAndScreenshots.min.toFixed(2)}-${COSTS.libraryAndScreenshots.max.toFixed(2)})`,
+    budget: budget ? { remaining: Math.round(budget.remaining * 100) / 100, scopes: budget.scopes } : undefined,
+    message: `Estimated cost for this concept: $${totalMin.toFixed(2)}-${totalMax.toFixed(2)} (asset generation: $${assetGeneration.toFixed(2)}, agent: $${COSTS.agentInferenceMin}-${COSTS.agentInferenceMax}, library/screenshots: $${COSTS.libraryAndScreenshots.min.toFixed(2)}-${COSTS.libraryAndScreenshots.max.toFixed(2)})${budgetNote}`,
   };
 }
@@ -1,47 +1,570 @@
 /**
  * export_ad tool
  *
- * Export a frame as a final PNG to disk.
+ * Export one or more frames to disk in delivery formats:
+ * - png — lossless raster (default)
+ * - jpg / webp — re-encoded from the PNG render with sharp; with maxKB, quality is
+ *   binary-searched down until each file fits the platform's size cap
+ * - svg — Figma's SVG export, written as-is
+ * - pdf — one contact sheet covering every exported frame
+ *
+ * With platforms, each frame is also checked against that platform's spec (aspect
+ * ratio, its own safe zones, text coverage, file-size cap), rendered at every platform
+ * size it fits, and written into one zip bundle per platform with a manifest.json.
+ * Frames that fail a platform's checks are left out of its bundle and reported.
+ *
+ * Files are named from a pattern ("{brand}_{angle}_{format}_{size}" by default) and
+ * recorded in an export-manifest.json sidecar in the output directory: dimensions,
+ * byte size, SHA-256 and the concept metadata complete_concept logged for the frame.
  */
 
 import { z } from 'zod';
-import { writeFileSync, mkdirSync } from 'fs';
-import { dirname, resolve } from 'path';
+import { createHash } from 'crypto';
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
 import { homedir } from 'os';
+import sharp from 'sharp';
 import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import type { ConceptSummary } from '../session-persistence.js';
+import { getAssetOutputDir, getSessionState } from '../session-state.js';
+import { AD_FORMATS } from './adapt-ad.js';
+import { renderContactSheet } from './contact-sheet.js';
+import { lintForPlatform } from './frame-lint.js';
+import { PLATFORM_IDS, PLATFORM_SPECS, type PlatformId, type PlatformFileFormat } from './platform-specs.js';
+import { createZip } from './zip-archive.js';
+
+const FILE_FORMATS = ['png', 'jpg', 'webp', 'svg', 'pdf'] as const;
+type FileFormat = typeof FILE_FORMATS[number];
+
+const DEFAULT_NAMING = '{brand}_{angle}_{format}_{size}';
+const NAMING_TOKENS = ['brand', 'product', 'angle', 'format', 'size', 'frame'] as const;
+type NamingToken = typeof NAMING_TOKENS[number];
+
+const DEFAULT_QUALITY = 90;
+
+/** Lowest quality the maxKB search will go to before giving up */
+const MIN_QUALITY = 40;
+
+const MANIFEST_FILE = 'export-manifest.json';
+
+const FALLBACK_EXPORT_DIR = join(process.cwd(), 'data', 'exports');
 
 export const exportAdSchema = z.object({
-  frameId: z.string().describe('Frame ID to export'),
-  outputPath: z.string().describe('Absolute file path for the exported PNG'),
+  frameId: z.string().optional().describe('Frame ID to export'),
+  frameIds: z.array(z.string()).optional().describe('Several frames to export in one call (e.g. the frames adapt_ad created)'),
+  outputPath: z.string().optional().describe('Absolute file path for a single export (one frame, one format). The format is taken from the extension.'),
+  outputDir: z.string().optional().describe('Directory for pattern-named exports. Default: the session\'s exports folder'),
+  formats: z.array(z.enum(FILE_FORMATS)).optional().describe('File formats to write. pdf produces one contact sheet of all frames. Default: ["png"], or none when platforms is set. Inside platform bundles, the first format the platform accepts is used'),
+  platforms: z.array(z.enum(PLATFORM_IDS)).optional().describe(`Write a validated zip bundle per ad platform: ${PLATFORM_IDS.join(', ')}`),
   scale: z.number().optional().describe('Export scale. Default: 2 (2x for high-res)'),
+  maxKB: z.number().positive().optional().describe('File size cap in KB for jpg/webp — quality is lowered until each file fits. Platform bundles also apply the platform\'s own cap'),
+  quality: z.number().min(1).max(100).optional().describe(`Starting jpg/webp quality. Default: ${DEFAULT_QUALITY}`),
+  naming: z.string().optional().describe(`File name pattern. Tokens: ${NAMING_TOKENS.map(t => `{${t}}`).join(' ')}. Default: "${DEFAULT_NAMING}"`),
+  angle: z.string().optional().describe('Concept angle for {angle} and the manifest. Default: the angle complete_concept recorded for the frame'),
 });
 
 export type ExportAdInput = z.infer<typeof exportAdSchema>;
 
+interface ManifestEntry {
+  file: string;
+  path: string;
+  format: FileFormat | 'zip';
+  frameIds: string[];
+  frameNames: string[];
+  placement: string;
+  width?: number;
+  height?: number;
+  scale?: number;
+  quality?: number;
+  pages?: number;
+  platform?: PlatformId;
+  /** Files inside a platform bundle, besides its manifest.json */
+  entries?: number;
+  bytes: number;
+  sha256: string;
+  brand: string;
+  product: string;
+  angle: string;
+  concept?: Pick<ConceptSummary, 'angle' | 'formatCategory' | 'execution' | 'keyDecisions' | 'completedAt'>;
+  exportedAt: string;
+}
+
+interface ExportManifest {
+  updatedAt: string;
+  files: ManifestEntry[];
+}
+
+interface FrameExport {
+  frame: SerializedNode;
+  angle: string;
+  concept?: ConceptSummary;
+  /** PNG render at the export scale, when a raster format or the contact sheet needs it */
+  raster?: Buffer;
+}
+
+function resolveHome(filePath: string): string {
+  return filePath.startsWith('~') ? resolve(homedir(), filePath.slice(2)) : filePath;
+}
+
+function formatFromExtension(filePath: string): FileFormat | undefined {
+  const ext = extname(filePath).slice(1).toLowerCase();
+  if (ext === 'jpeg') return 'jpg';
+  return (FILE_FORMATS as readonly string[]).includes(ext) ? ext as FileFormat : undefined;
+}
+
+/**
+ * Placement label for a frame size: "9x16", "1.91x1", ... or "custom"
+ */
+function placementLabel(width: number, height: number): string {
+  const ratio = width / height;
+  const match = Object.entries(AD_FORMATS).find(([, f]) => Math.abs(f.width / f.height - ratio) / ratio < 0.01);
+  return match ? match[0].replace(':', 'x') : 'custom';
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
+
+function renderName(pattern: string, tokens: Record<NamingToken, string>): string {
+  return pattern.replace(/\{(\w+)\}/g, (_, token: string) => slug(tokens[token as NamingToken]));
+}
+
+/**
+ * Next free path in this export call — repeated names (same angle and placement) get _2, _3, ...
+ */
+function claimPath(dir: string, name: string, ext: string, claimed: Set<string>): string {
+  let candidate = join(dir, `${name}.${ext}`);
+  for (let n = 2; claimed.has(candidate); n++) {
+    candidate = join(dir, `${name}_${n}.${ext}`);
+  }
+  claimed.add(candidate);
+  return candidate;
+}
+
+/**
+ * Encode a PNG render as jpg/webp. With maxKB, binary-search the highest quality that fits.
+ */
+async function encodeLossy(
+  raster: Buffer,
+  format: 'jpg' | 'webp',
+  quality: number,
+  maxKB?: number,
+): Promise<{ data: Buffer; quality: number; fits: boolean }> {
+  const encode = (q: number) => {
+    const image = sharp(raster).flatten({ background: '#FFFFFF' });
+    return (format === 'jpg' ? image.jpeg({ quality: q, mozjpeg: true }) : image.webp({ quality: q })).toBuffer();
+  };
+
+  const first = await encode(quality);
+  if (!maxKB || first.length <= maxKB * 1024) return { data: first, quality, fits: true };
+
+  let best: { data: Buffer; quality: number } | null = null;
+  let low = MIN_QUALITY;
+  let high = quality - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const data = await encode(mid);
+    if (data.length <= maxKB * 1024) {
+      best = { data, quality: mid };
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (best) return { ...best, fits: true };
+
+  return { data: await encode(MIN_QUALITY), quality: MIN_QUALITY, fits: false };
+}
+
+/**
+ * Merge entries into each directory's manifest, replacing entries for re-exported files
+ */
+function writeManifests(entries: ManifestEntry[]): string[] {
+  const byDir = new Map<string, ManifestEntry[]>();
+  for (const entry of entries) {
+    const dir = dirname(entry.path);
+    byDir.set(dir, [...(byDir.get(dir) ?? []), entry]);
+  }
+
+  const written: string[] = [];
+  for (const [dir, dirEntries] of byDir) {
+    const manifestPath = join(dir, MANIFEST_FILE);
+    let manifest: ExportManifest = { updatedAt: '', files: [] };
+    if (existsSync(manifestPath)) {
+      try {
+        manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+      } catch {
+        console.warn(`[Export] Replacing unreadable manifest ${manifestPath}`);
+      }
+    }
+    const replaced = new Set(dirEntries.map(e => e.file));
+    manifest.files = [...manifest.files.filter(e => !replaced.has(e.file)), ...dirEntries];
+    manifest.updatedAt = new Date().toISOString();
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    written.push(manifestPath);
+  }
+  return written;
+}
+
+function conceptMetadata(concept?: ConceptSummary): ManifestEntry['concept'] {
+  if (!concept) return undefined;
+  const { angle, formatCategory, execution, keyDecisions, completedAt } = concept;
+  return { angle, formatCategory, execution, keyDecisions, completedAt };
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+interface BundleFile {
+  file: string;
+  frameId: string;
+  frameName: string;
+  width: number;
+  height: number;
+  format: PlatformFileFormat;
+  quality?: number;
+  bytes: number;
+  sha256: string;
+  angle: string;
+}
+
+interface PlatformBundle {
+  platform: PlatformId;
+  files: Array<{ name: string; data: Buffer; info: BundleFile }>;
+  rejected: Array<{ frameId: string; frameName: string; reasons: string[] }>;
+  /** Frames whose shape isn't one of the platform's sizes — not an error in a mixed export */
+  skipped: Array<{ frameId: string; frameName: string; reason: string }>;
+  warnings: string[];
+}
+
+/**
+ * Validate every frame against a platform and render it at each platform size it fits
+ */
+async function buildPlatformBundle(
+  platform: PlatformId,
+  frames: FrameExport[],
+  options: { naming: string; brand: string; product: string; formats?: FileFormat[]; quality: number; maxKB?: number },
+  bridge: Bridge,
+): Promise<PlatformBundle> {
+  const spec = PLATFORM_SPECS[platform];
+  const preferred = options.formats?.find((f): f is PlatformFileFormat => (spec.formats as string[]).includes(f)) ?? spec.formats[0];
+  const maxKB = Math.min(spec.maxKB, options.maxKB ?? Infinity);
+  const bundle: PlatformBundle = { platform, files: [], rejected: [], skipped: [], warnings: [] };
+  const claimed = new Set<string>();
+
+  for (const { frame, angle } of frames) {
+    const check = lintForPlatform(frame, spec);
+    if (check.sizes.length === 0) {
+      bundle.skipped.push({ frameId: frame.id, frameName: frame.name, reason: check.errors[0] });
+      continue;
+    }
+    if (check.errors.length > 0) {
+      bundle.rejected.push({ frameId: frame.id, frameName: frame.name, reasons: check.errors });
+      continue;
+    }
+    bundle.warnings.push(...check.warnings.map(w => `${frame.name}: ${w}`));
+
+    const reasons: string[] = [];
+    for (const size of check.sizes) {
+      const result = await bridge.sendCommand({
+        type: 'export_node', nodeId: frame.id, format: 'PNG', scale: size.width / frame.width,
+      });
+      let raster: Buffer = Buffer.from(result.base64, 'base64');
+      const meta = await sharp(raster).metadata();
+      // Within the aspect tolerance a frame can render a pixel or two off the platform size
+      if (meta.width !== size.width || meta.height !== size.height) {
+        raster = await sharp(raster).resize(size.width, size.height, { fit: 'fill' }).png().toBuffer();
+      }
+
+      let format = preferred;
+      let data: Buffer = raster;
+      let usedQuality: number | undefined;
+      if (format === 'png' && data.length > maxKB * 1024 && (spec.formats as string[]).includes('jpg')) {
+        bundle.warnings.push(`${frame.name} ${size.width}x${size.height} png is over ${spec.name}'s ${maxKB} KB cap — bundled as jpg`);
+        format = 'jpg';
+      }
+      if (format === 'jpg') {
+        const encoded = await encodeLossy(raster, 'jpg', options.quality, maxKB);
+        data = encoded.data;
+        usedQuality = encoded.quality;
+      }
+      if (data.length > maxKB * 1024) {
+        reasons.push(`${size.width}x${size.height} ${format} is ${Math.round(data.length / 1024)} KB (over ${spec.name}'s ${maxKB} KB cap)`);
+        continue;
+      }
+
+      const name = basename(claimPath('', renderName(options.naming, {
+        brand: options.brand, product: options.product, angle, format: platform, size: `${size.width}x${size.height}`, frame: frame.name,
+      }), format, claimed));
+      bundle.files.push({
+        name,
+        data,
+        info: {
+          file: name,
+          frameId: frame.id,
+          frameName: frame.name,
+          width: size.width,
+          height: size.height,
+          format,
+          quality: usedQuality,
+          bytes: data.length,
+          sha256: sha256(data),
+          angle,
+        },
+      });
+    }
+    if (reasons.length > 0) {
+      bundle.rejected.push({ frameId: frame.id, frameName: frame.name, reasons });
+    }
+  }
+
+  return bundle;
+}
+
 export async function exportAd(input: ExportAdInput, bridge: Bridge): Promise<any> {
   const scale = input.scale || 2;
+  const quality = input.quality ?? DEFAULT_QUALITY;
+  const naming = input.naming ?? DEFAULT_NAMING;
+
+  const frameIds = [...new Set([...(input.frameId ? [input.frameId] : []), ...(input.frameIds ?? [])])];
+  if (frameIds.length === 0) {
+    throw new Error('Pass frameId or frameIds');
+  }
+
+  const unknownTokens = [...naming.matchAll(/\{(\w+)\}/g)]
+    .map(m => m[1])
+    .filter(t => !(NAMING_TOKENS as readonly string[]).includes(t));
+  if (unknownTokens.length > 0) {
+    throw new Error(`Unknown naming tokens: ${unknownTokens.join(', ')}. Available: ${NAMING_TOKENS.map(t => `{${t}}`).join(' ')}`);
+  }
+
+  // outputPath: one explicit file. Otherwise pattern-named files in outputDir.
+  let formats: FileFormat[];
+  let outputPath: string | undefined;
+  const platforms = [...new Set(input.platforms ?? [])];
+  if (input.outputPath) {
+    if (platforms.length > 0) {
+      throw new Error('outputPath writes a single file — use outputDir for platform bundles');
+    }
+    outputPath = resolveHome(input.outputPath);
+    formats = [formatFromExtension(outputPath) ?? input.formats?.[0] ?? 'png'];
+    if (frameIds.length > 1 || (input.formats && input.formats.length > 1)) {
+      throw new Error('outputPath writes a single file — use outputDir to export several frames or formats');
+    }
+  } else {
+    // With platforms and no explicit formats, only the bundles are written
+    formats = [...new Set<FileFormat>(input.formats ?? (platforms.length > 0 ? [] : ['png']))];
+  }
+
+  let outputDir: string;
+  if (outputPath) {
+    outputDir = dirname(outputPath);
+  } else if (input.outputDir) {
+    outputDir = resolveHome(input.outputDir);
+  } else {
+    try {
+      outputDir = join(getAssetOutputDir(), 'exports');
+    } catch {
+      // No active session — use fallback directory
+      outputDir = FALLBACK_EXPORT_DIR;
+    }
+  }
+  mkdirSync(outputDir, { recursive: true });
+
+  const session = getSessionState();
+  const brand = session?.brand ?? 'ad';
+  const product = session?.product ?? 'product';
+  const needsRaster = formats.some(f => f !== 'svg');
+
+  // Render every frame once
+  const frames: FrameExport[] = [];
+  for (const frameId of frameIds) {
+    const frame: SerializedNode = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+    if (!frame || !frame.id) {
+      throw new Error(`Failed to serialize frame ${frameId}`);
+    }
+    const concept = session?.conceptSummaries.find(c => c.frameId === frameId);
+    const entry: FrameExport = { frame, concept, angle: input.angle ?? concept?.angle ?? 'ad' };
+    if (needsRaster) {
+      const result = await bridge.sendCommand({ type: 'export_node', nodeId: frameId, format: 'PNG', scale });
+      entry.raster = Buffer.from(result.base64, 'base64');
+    }
+    frames.push(entry);
+  }
+
+  const exportedAt = new Date().toISOString();
+  const claimed = new Set<string>();
+  const entries: ManifestEntry[] = [];
+  const sizeWarnings: string[] = [];
+
+  const record = (
+    path: string,
+    format: ManifestEntry['format'],
+    data: Buffer,
+    sources: FrameExport[],
+    details: Partial<ManifestEntry> & Pick<ManifestEntry, 'placement' | 'angle'>,
+  ) => {
+    writeFileSync(path, data);
+    entries.push({
+      file: basename(path),
+      path,
+      format,
+      frameIds: sources.map(s => s.frame.id),
+      frameNames: sources.map(s => s.frame.name),
+      bytes: data.length,
+      sha256: sha256(data),
+      brand,
+      product,
+      exportedAt,
+      ...details,
+    });
+  };
+
+  for (const item of frames) {
+    const { frame, angle } = item;
+    const placement = placementLabel(frame.width, frame.height);
+
+    for (const format of formats) {
+      if (format === 'pdf') continue;
+
+      let data: Buffer;
+      let width = Math.round(frame.width * scale);
+      let height = Math.round(frame.height * scale);
+      let usedQuality: number | undefined;
+
+      if (format === 'svg') {
+        const result = await bridge.sendCommand({ type: 'export_node', nodeId: frame.id, format: 'SVG', scale: 1 });
+        data = Buffer.from(result.base64, 'base64');
+        width = Math.round(frame.width);
+        height = Math.round(frame.height);
+      } else if (format === 'png') {
+        data = item.raster!;
+        if (input.maxKB && data.length > input.maxKB * 1024) {
+          sizeWarnings.push(`${frame.name} png is ${Math.round(data.length / 1024)} KB (over ${input.maxKB} KB — PNG can't be tuned, use jpg or webp)`);
+        }
+      } else {
+        const encoded = await encodeLossy(item.raster!, format, quality, input.maxKB);
+        data = encoded.data;
+        usedQuality = encoded.quality;
+        if (!encoded.fits) {
+          sizeWarnings.push(`${frame.name} ${format} is ${Math.round(data.length / 1024)} KB at quality ${MIN_QUALITY} (over ${input.maxKB} KB)`);
+        }
+      }
+
+      const path = outputPath ?? claimPath(outputDir, renderName(naming, {
+        brand, product, angle, format: placement, size: `${width}x${height}`, frame: frame.name,
+      }), format, claimed);
+
+      record(path, format, data, [item], {
+        placement,
+        width,
+        height,
+        scale: format === 'svg' ? undefined : scale,
+        quality: usedQuality,
+        angle,
+        concept: conceptMetadata(item.concept),
+      });
+    }
+  }
+
+  if (formats.includes('pdf')) {
+    const angles = [...new Set(frames.map(f => f.angle))];
+    const angle = angles.length === 1 ? angles[0] : 'mixed';
+    const sheet = await renderContactSheet(
+      frames.map(f => ({
+        image: f.raster!,
+        title: f.frame.name,
+        subtitle: `${Math.round(f.frame.width)}x${Math.round(f.frame.height)} - ${placementLabel(f.frame.width, f.frame.height)} - ${f.angle}`,
+      })),
+      `${brand} / ${product} - ${exportedAt.slice(0, 10)}`,
+    );
+    const path = outputPath ?? claimPath(outputDir, renderName(naming, {
+      brand, product, angle, format: 'contact-sheet', size: `${frames.length}-frames`, frame: 'contact-sheet',
+    }), 'pdf', claimed);
+
+    record(path, 'pdf', sheet.data, frames, {
+      placement: 'contact-sheet',
+      width: sheet.pageWidth,
+      height: sheet.pageHeight,
+      pages: sheet.pages,
+      angle,
+    });
+  }
+
+  const platformWarnings: string[] = [];
+  const rejections: string[] = [];
+  const bundles: Array<{ platform: PlatformId; path?: string; files: BundleFile[]; rejected: PlatformBundle['rejected'] }> = [];
+
+  for (const platform of platforms) {
+    const spec = PLATFORM_SPECS[platform];
+    const bundle = await buildPlatformBundle(platform, frames, {
+      naming, brand, product, formats: input.formats, quality, maxKB: input.maxKB,
+    }, bridge);
+    platformWarnings.push(...bundle.warnings.map(w => `${spec.name}: ${w}`));
+    rejections.push(...bundle.rejected.map(r => `${spec.name}: ${r.frameName} — ${r.reasons.join('; ')}`));
+    if (bundle.files.length === 0 && bundle.rejected.length === 0) {
+      const sizes = spec.sizes.map(s => `${s.width}x${s.height}`).join(', ');
+      rejections.push(`${spec.name}: no frame matches its sizes (${sizes}) — adapt_ad or a custom frame first`);
+    }
+
+    if (bundle.files.length === 0) {
+      bundles.push({ platform, files: [], rejected: bundle.rejected });
+      continue;
+    }
 
-  // Resolve ~ to home directory
-  const outputPath = input.outputPath.startsWith('~')
-    ? resolve(homedir(), input.outputPath.slice(2))
-    : input.outputPath;
+    const included = frames.filter(f => bundle.files.some(b => b.info.frameId === f.frame.id));
+    const angles = [...new Set(included.map(f => f.angle))];
+    const angle = angles.length === 1 ? angles[0] : 'mixed';
+    const bundleManifest = {
+      platform,
+      spec,
+      brand,
+      product,
+      exportedAt,
+      files: bundle.files.map(b => b.info),
+      rejected: bundle.rejected,
+      skipped: bundle.skipped,
+      warnings: bundle.warnings,
+    };
+    const zip = createZip([
+      ...bundle.files.map(b => ({ name: b.name, data: b.data })),
+      { name: 'manifest.json', data: Buffer.from(JSON.stringify(bundleManifest, null, 2)) },
+    ]);
+    const path = claimPath(outputDir, renderName(naming, {
+      brand, product, angle, format: platform, size: 'bundle', frame: platform,
+    }), 'zip', claimed);
 
-  // Export node as PNG
-  const result = await bridge.sendCommand({
-    type: 'export_node',
-    nodeId: input.frameId,
-    format: 'PNG',
-    scale,
-  });
+    record(path, 'zip', zip, included, {
+      placement: platform,
+      platform,
+      entries: bundle.files.length,
+      angle,
+    });
+    bundles.push({ platform, path, files: bundle.files.map(b => b.info), rejected: bundle.rejected });
+  }
 
-  // Ensure output directory exists
-  mkdirSync(dirname(outputPath), { recursive: true });
+  if (entries.length === 0) {
+    throw new Error(`Nothing exported — every frame was rejected:\n${rejections.join('\n')}`);
+  }
 
-  // Write to disk
-  writeFileSync(outputPath, Buffer.from(result.base64, 'base64'));
+  const manifests = writeManifests(entries);
+  const listing = entries
+    .map(e => `${e.file} (${e.entries !== undefined ? `${e.entries} file${e.entries === 1 ? '' : 's'}` : `${e.width}x${e.height}`}, ` +
+      `${Math.round(e.bytes / 1024)} KB${e.quality ? `, q${e.quality}` : ''})`)
+    .join(', ');
 
   return {
-    outputPath,
-    message: `Exported to ${outputPath} (${scale}x scale)`,
+    outputPath: entries[0]?.path,
+    files: entries.map(({ path, format, width, height, bytes, quality, sha256: checksum }) => ({
+      path, format, width, height, bytes, quality, sha256: checksum,
+    })),
+    ...(bundles.length > 0 ? { bundles } : {}),
+    manifest: manifests.length === 1 ? manifests[0] : manifests,
+    message: `Exported ${entries.length} file${entries.length === 1 ? '' : 's'} to ${outputDir}: ${listing}` +
+      (sizeWarnings.length > 0 ? `\nSIZE WARNINGS: ${sizeWarnings.join('; ')}` : '') +
+      (rejections.length > 0 ? `\nPLATFORM REJECTIONS: ${rejections.join('; ')}` : '') +
+      (platformWarnings.length > 0 ? `\nPLATFORM WARNINGS: ${platformWarnings.join('; ')}` : ''),
   };
 }
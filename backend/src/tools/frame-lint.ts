@@ -0,0 +1,466 @@
+/**
+ * Deterministic design lint over a SerializedNode tree
+ *
+ * Checks the measurable Tier 1 rules from the system prompt against serialize_frame
+ * output, so they don't depend on the agent eyeballing a screenshot:
+ * - Text size: 32px floor for all copy (24px for text named as fine print), 40px for
+ *   primary copy — headlines, subheads, body, CTAs, recognized by layer name
+ * - Safe zones: nothing critical under platform UI overlays (by default, Meta Stories'
+ *   250px top/bottom bands on 9:16 frames)
+ * - 8px grid: auto-layout spacing and padding
+ * - Contrast: text color against the solid/gradient fills painted beneath it
+ * - Overflow: text or content frames extending past the frame edge
+ * - Overlap: text nodes colliding with each other
+ *
+ * Errors are hard failures (the export gate blocks on them); warnings are reported
+ * but don't block. Anything the tree can't prove — gradient approximations, bleeding
+ * products — stays a warning; text over an image is left to check_contrast, which
+ * measures the rendered pixels.
+ */
+
+import type { SerializedNode, SerializedPaint } from '../../../shared/protocol.js';
+import { contrastRatio, snap8 } from './utils.js';
+import {
+  PLATFORM_SPECS,
+  hasSafeZone,
+  matchingSizes,
+  safeZoneFor,
+  type PlatformSize,
+  type PlatformSpec,
+  type SafeZone,
+} from './platform-specs.js';
+
+export type LintRule = 'text-size' | 'safe-zone' | 'grid' | 'contrast' | 'overflow' | 'text-overlap';
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  nodeId: string;
+  nodeName: string;
+  message: string;
+}
+
+export interface LintReport {
+  frameId: string;
+  frameName: string;
+  passed: boolean;
+  errors: LintFinding[];
+  warnings: LintFinding[];
+}
+
+export interface LintOptions {
+  /** Overlay bands to keep critical elements out of (default: Meta Stories' on 9:16 frames) */
+  safeZone?: SafeZone;
+  /** Label for safe-zone messages (default: "story") */
+  safeZoneName?: string;
+}
+
+/** Type size minimums (px) from the Typography design rules */
+const MIN_PRIMARY_TEXT = 40;
+const MIN_SECONDARY_TEXT = 32;
+const MIN_FINE_PRINT = 24;
+
+/**
+ * Copy roles by layer name (the node's or its parent's, so split-stack lines inherit
+ * "Headline Stack"). apply_typography's roles map onto them: headline, subhead and
+ * body are primary, label is secondary, fine_print is fine print.
+ */
+const PRIMARY_NAME = /headline|heading|title|hero|sub-?head|body|cta|call[\s_-]*to[\s_-]*action|button|offer|price/i;
+const FINE_PRINT_NAME = /fine[\s_-]*print|disclaimer|legal|terms|footnote|copyright/i;
+/** Unrenamed text layers are named after their characters — footnote markers give fine print away */
+const FINE_PRINT_TEXT = /^\s*[*†‡©]/;
+
+/**
+ * WCAG AA contrast. Ads are viewed scaled down, so normal-text AA (4.5) is the target;
+ * below the large-text minimum (3) is a hard failure.
+ */
+export const MIN_CONTRAST = 4.5;
+export const MIN_CONTRAST_HARD = 3;
+
+/** Rounding tolerance for geometry comparisons (px) */
+const TOLERANCE = 1;
+
+type RGB = { r: number; g: number; b: number };
+type RGBA = RGB & { a: number };
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A visible node with its frame-relative box and effective (inherited) opacity */
+export interface PlacedNode {
+  node: SerializedNode;
+  box: Box;
+  opacity: number;
+  depth: number;
+  parent?: SerializedNode;
+}
+
+/**
+ * Visible nodes in paint order (pre-order: parents before children, earlier siblings first),
+ * with boxes relative to the root frame. Children of groups are positioned in the
+ * group's own container space, as in Figma.
+ */
+export function flattenVisible(root: SerializedNode): PlacedNode[] {
+  const placed: PlacedNode[] = [];
+  const visit = (
+    node: SerializedNode,
+    origin: { x: number; y: number },
+    opacity: number,
+    depth: number,
+    parent?: SerializedNode,
+  ) => {
+    if (node.visible === false) return;
+    const box = depth === 0
+      ? { x: 0, y: 0, width: node.width, height: node.height }
+      : { x: origin.x + node.x, y: origin.y + node.y, width: node.width, height: node.height };
+    const effectiveOpacity = opacity * (node.opacity ?? 1);
+    placed.push({ node, box, opacity: effectiveOpacity, depth, parent });
+
+    const isGroup = node.type === 'GROUP' || node.type === 'BOOLEAN_OPERATION';
+    const childOrigin = isGroup ? origin : { x: box.x, y: box.y };
+    for (const child of node.children ?? []) visit(child, childOrigin, effectiveOpacity, depth + 1, node);
+  };
+  visit(root, { x: 0, y: 0 }, 1, 0);
+  return placed;
+}
+
+function finding(rule: LintRule, severity: LintSeverity, node: SerializedNode, message: string): LintFinding {
+  return { rule, severity, nodeId: node.id, nodeName: node.name, message };
+}
+
+function visiblePaints(paints: SerializedPaint[] | undefined): SerializedPaint[] {
+  return (paints ?? []).filter(p => p.visible !== false && (p.opacity ?? 1) > 0);
+}
+
+function isFullBleed(box: Box, frame: Box): boolean {
+  return box.x <= TOLERANCE && box.y <= TOLERANCE &&
+    box.x + box.width >= frame.width - TOLERANCE && box.y + box.height >= frame.height - TOLERANCE;
+}
+
+function hasImageFill(node: SerializedNode): boolean {
+  return visiblePaints(node.fills).some(p => p.type === 'IMAGE');
+}
+
+function overlapArea(a: Box, b: Box): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > TOLERANCE && h > TOLERANCE ? w * h : 0;
+}
+
+function containsPoint(box: Box, x: number, y: number): boolean {
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ─── Rules ───
+
+type CopyRole = 'primary' | 'secondary' | 'fine-print';
+
+/**
+ * Copy role from the layer names. Secondary when nothing marks it, so unrecognized
+ * copy between the secondary and primary minimums only warns.
+ */
+function copyRole(text: SerializedNode, parent?: SerializedNode): CopyRole {
+  const names = [text.name, parent?.name ?? ''];
+  if (names.some(name => FINE_PRINT_NAME.test(name)) || FINE_PRINT_TEXT.test(text.characters ?? '')) return 'fine-print';
+  return names.some(name => PRIMARY_NAME.test(name)) ? 'primary' : 'secondary';
+}
+
+function checkTextSize(item: PlacedNode): LintFinding | null {
+  const { node: text } = item;
+  const size = text.fontSize;
+  if (size === undefined) return null;
+  const role = copyRole(text, item.parent);
+  if (role === 'fine-print') {
+    return size < MIN_FINE_PRINT
+      ? finding('text-size', 'error', text, `"${text.name}" is ${size}px — below the ${MIN_FINE_PRINT}px floor even for fine print`)
+      : null;
+  }
+  if (size < MIN_SECONDARY_TEXT) {
+    return finding('text-size', 'error', text, `"${text.name}" is ${size}px — below the ${MIN_SECONDARY_TEXT}px floor for ad copy (name the layer "Fine print" or "Disclaimer" if it is one: ${MIN_FINE_PRINT}px+)`);
+  }
+  if (size < MIN_PRIMARY_TEXT) {
+    return role === 'primary'
+      ? finding('text-size', 'error', text, `"${text.name}" is ${size}px — primary copy needs ${MIN_PRIMARY_TEXT}px+`)
+      : finding('text-size', 'warning', text, `"${text.name}" is ${size}px — secondary copy only (customer-facing copy needs ${MIN_PRIMARY_TEXT}px+)`);
+  }
+  return null;
+}
+
+function checkSafeZone(item: PlacedNode, frame: Box, zone: SafeZone, zoneName: string): LintFinding | null {
+  const { node, box } = item;
+  const isText = node.type === 'TEXT';
+  // Products count as critical; full-bleed backgrounds and decoration may sit in the bands
+  if (!isText && (!hasImageFill(node) || isFullBleed(box, frame))) return null;
+
+  const bands: string[] = [];
+  if (zone.top > 0 && box.y < zone.top - TOLERANCE && box.y + box.height > 0) {
+    bands.push(`top by ${Math.round(zone.top - box.y)}px`);
+  }
+  const bottomEdge = frame.height - zone.bottom;
+  if (zone.bottom > 0 && box.y + box.height > bottomEdge + TOLERANCE && box.y < frame.height) {
+    bands.push(`bottom by ${Math.round(box.y + box.height - bottomEdge)}px`);
+  }
+  if (zone.left > 0 && box.x < zone.left - TOLERANCE && box.x + box.width > 0) {
+    bands.push(`left by ${Math.round(zone.left - box.x)}px`);
+  }
+  const rightEdge = frame.width - zone.right;
+  if (zone.right > 0 && box.x + box.width > rightEdge + TOLERANCE && box.x < frame.width) {
+    bands.push(`right by ${Math.round(box.x + box.width - rightEdge)}px`);
+  }
+  if (bands.length === 0) return null;
+
+  const sides = (['top', 'bottom', 'left', 'right'] as const)
+    .filter(side => zone[side] > 0)
+    .map(side => `${side} ${zone[side]}px`)
+    .join(', ');
+  return finding(
+    'safe-zone',
+    isText ? 'error' : 'warning',
+    node,
+    `"${node.name}" reaches into the ${zoneName} safe zone [${sides}] (${bands.join(', ')})`,
+  );
+}
+
+function checkGrid(node: SerializedNode): LintFinding[] {
+  if (!node.layoutMode || node.layoutMode === 'NONE') return [];
+
+  const values: Array<[string, number | undefined]> = [
+    ['paddingTop', node.paddingTop],
+    ['paddingRight', node.paddingRight],
+    ['paddingBottom', node.paddingBottom],
+    ['paddingLeft', node.paddingLeft],
+  ];
+  // SPACE_BETWEEN ignores itemSpacing; in a split-and-stack headline it's line leading, not layout spacing
+  const children = node.children ?? [];
+  const isLineStack = children.length > 0 && children.every(c => c.type === 'TEXT');
+  if (node.primaryAxisAlignItems !== 'SPACE_BETWEEN' && !isLineStack) {
+    values.unshift(['itemSpacing', node.itemSpacing]);
+  }
+
+  const offGrid = values
+    .filter(([, value]) => value !== undefined && round(value) % 8 !== 0)
+    .map(([property, value]) => `${property} ${round(value!)} (use ${snap8(value!)})`);
+
+  return offGrid.length > 0
+    ? [finding('grid', 'warning', node, `"${node.name}" is off the 8px grid: ${offGrid.join(', ')}`)]
+    : [];
+}
+
+function checkOverflow(item: PlacedNode, frame: Box): LintFinding | null {
+  const { node, box } = item;
+  const sides: string[] = [];
+  if (box.x < -TOLERANCE) sides.push(`left by ${Math.round(-box.x)}px`);
+  if (box.y < -TOLERANCE) sides.push(`top by ${Math.round(-box.y)}px`);
+  if (box.x + box.width > frame.width + TOLERANCE) sides.push(`right by ${Math.round(box.x + box.width - frame.width)}px`);
+  if (box.y + box.height > frame.height + TOLERANCE) sides.push(`bottom by ${Math.round(box.y + box.height - frame.height)}px`);
+  if (sides.length === 0) return null;
+
+  // Text gets cut off; a content frame hanging off the edge is usually a layout slip.
+  // Images and shapes bleed on purpose, so they aren't checked.
+  if (node.type === 'TEXT') {
+    return finding('overflow', 'error', node, `"${node.name}" is cut off by the frame edge (${sides.join(', ')})`);
+  }
+  if (node.type === 'FRAME' && !hasImageFill(node)) {
+    return finding('overflow', 'warning', node, `"${node.name}" extends past the frame edge (${sides.join(', ')})`);
+  }
+  return null;
+}
+
+/**
+ * Candidate colors of one paint at the given effective opacity (gradients: one per stop)
+ */
+function paintColors(paint: SerializedPaint, opacity: number): RGBA[] {
+  const alpha = (paint.opacity ?? 1) * opacity;
+  if (paint.type === 'SOLID' && paint.color) return [{ ...paint.color, a: alpha }];
+  if (paint.type.startsWith('GRADIENT') && paint.gradientStops) {
+    return paint.gradientStops.map(s => ({ r: s.color.r, g: s.color.g, b: s.color.b, a: s.color.a * alpha }));
+  }
+  return [];
+}
+
+function blend(top: RGBA, bottom: RGB): RGB {
+  return {
+    r: top.r * top.a + bottom.r * (1 - top.a),
+    g: top.g * top.a + bottom.g * (1 - top.a),
+    b: top.b * top.a + bottom.b * (1 - top.a),
+  };
+}
+
+/**
+ * Colors painted beneath the center of a text node, composited from the first opaque
+ * layer up. Returns null when an image (or nothing opaque) is underneath, since the
+ * tree alone can't tell what it looks like.
+ */
+function backgroundColors(placed: PlacedNode[], textIndex: number): { colors: RGB[]; approximate: boolean } | null {
+  const { box } = placed[textIndex];
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+
+  // Top-down until an opaque layer; each entry is one paint's candidate colors
+  const layers: RGBA[][] = [];
+  let approximate = false;
+  let base: RGB[] | null = null;
+
+  for (let i = textIndex - 1; i >= 0 && !base; i--) {
+    const { node, box: layerBox, opacity } = placed[i];
+    if (node.type === 'TEXT' || !containsPoint(layerBox, cx, cy)) continue;
+
+    for (const paint of [...visiblePaints(node.fills)].reverse()) {
+      if (paint.type === 'IMAGE' || paint.type === 'VIDEO' || paint.type === 'PATTERN') return null;
+      const colors = paintColors(paint, opacity);
+      if (colors.length === 0) continue;
+      if (colors.length > 1) approximate = true;
+      if (colors.every(c => c.a >= 1)) {
+        base = colors;
+        break;
+      }
+      layers.push(colors);
+    }
+  }
+  if (!base) return null;
+
+  let composite: RGB[] = base;
+  for (const layer of layers.reverse()) {
+    composite = composite.flatMap(bottom => layer.map(top => blend(top, bottom)));
+  }
+  return { colors: composite, approximate };
+}
+
+function checkContrast(placed: PlacedNode[], textIndex: number): LintFinding | null {
+  const { node, opacity } = placed[textIndex];
+  const fill = [...visiblePaints(node.fills)].reverse().find(p => p.type === 'SOLID' && p.color);
+  if (!fill) return null;
+
+  const background = backgroundColors(placed, textIndex);
+  if (!background) return null;
+
+  const textColor: RGBA = { ...fill.color!, a: (fill.opacity ?? 1) * opacity };
+  const ratio = Math.min(...background.colors.map(bg => contrastRatio(blend(textColor, bg), bg)));
+  if (ratio >= MIN_CONTRAST) return null;
+
+  // Gradient backgrounds are judged on their worst stop, which may not sit behind the text
+  const hard = ratio < MIN_CONTRAST_HARD && !background.approximate;
+  const where = background.approximate ? ' against its gradient background (worst stop)' : '';
+  return finding(
+    'contrast',
+    hard ? 'error' : 'warning',
+    node,
+    `"${node.name}" has a ${ratio.toFixed(2)}:1 contrast ratio${where} — needs ${MIN_CONTRAST}:1`,
+  );
+}
+
+// ─── Lint ───
+
+/**
+ * Lint a serialized ad frame. The root node is the frame being checked.
+ */
+export function lintSerializedFrame(frame: SerializedNode, options: LintOptions = {}): LintReport {
+  const placed = flattenVisible(frame);
+  const frameBox = placed[0].box;
+  const zone = options.safeZone ?? safeZoneFor(PLATFORM_SPECS['meta-stories'], frame.width, frame.height);
+  const zoneName = options.safeZoneName ?? 'story';
+  const findings: LintFinding[] = [];
+  const texts: PlacedNode[] = [];
+
+  placed.forEach((item, index) => {
+    const { node } = item;
+    findings.push(...checkGrid(node));
+    if (index === 0) return;
+
+    const overflow = checkOverflow(item, frameBox);
+    if (overflow) findings.push(overflow);
+
+    if (hasSafeZone(zone)) {
+      const safeZone = checkSafeZone(item, frameBox, zone, zoneName);
+      if (safeZone) findings.push(safeZone);
+    }
+
+    if (node.type === 'TEXT' && (node.characters ?? '').trim() !== '') {
+      texts.push(item);
+      const size = checkTextSize(item);
+      if (size) findings.push(size);
+      const contrast = checkContrast(placed, index);
+      if (contrast) findings.push(contrast);
+    }
+  });
+
+  for (let i = 0; i < texts.length; i++) {
+    for (let j = i + 1; j < texts.length; j++) {
+      if (overlapArea(texts[i].box, texts[j].box) > 0) {
+        findings.push(finding(
+          'text-overlap',
+          'error',
+          texts[j].node,
+          `"${texts[j].node.name}" overlaps "${texts[i].node.name}"`,
+        ));
+      }
+    }
+  }
+
+  const errors = findings.filter(f => f.severity === 'error');
+  const warnings = findings.filter(f => f.severity === 'warning');
+  return { frameId: frame.id, frameName: frame.name, passed: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Check a frame against a platform spec: which of its sizes the frame's shape can
+ * export to, the platform's own safe zones, and how much of the image is text.
+ * `errors` mean the frame can't be delivered to this platform as-is.
+ */
+export function lintForPlatform(
+  frame: SerializedNode,
+  spec: PlatformSpec,
+): { sizes: PlatformSize[]; errors: string[]; warnings: string[] } {
+  const sizes = matchingSizes(spec, frame.width, frame.height);
+  if (sizes.length === 0) {
+    const accepted = spec.sizes.map(s => `${s.width}x${s.height}`).join(', ');
+    return {
+      sizes,
+      errors: [`${Math.round(frame.width)}x${Math.round(frame.height)} doesn't match any ${spec.name} size (${accepted}) — adapt_ad or a custom frame first`],
+      warnings: [],
+    };
+  }
+
+  const report = lintSerializedFrame(frame, {
+    safeZone: safeZoneFor(spec, frame.width, frame.height),
+    safeZoneName: spec.name,
+  });
+  const zoneFindings = [...report.errors, ...report.warnings].filter(f => f.rule === 'safe-zone');
+  const errors = zoneFindings.filter(f => f.severity === 'error').map(f => f.message);
+  const warnings = zoneFindings.filter(f => f.severity === 'warning').map(f => f.message);
+
+  if (spec.maxTextRatio !== undefined) {
+    const frameBox = { x: 0, y: 0, width: frame.width, height: frame.height };
+    const textArea = flattenVisible(frame)
+      .filter(p => p.node.type === 'TEXT' && (p.node.characters ?? '').trim() !== '')
+      .reduce((sum, p) => sum + overlapArea(p.box, frameBox), 0);
+    const ratio = textArea / (frame.width * frame.height);
+    if (ratio > spec.maxTextRatio) {
+      warnings.push(
+        `text covers ${Math.round(ratio * 100)}% of the image — ${spec.name} recommends under ${Math.round(spec.maxTextRatio * 100)}%`,
+      );
+    }
+  }
+
+  return { sizes, errors, warnings };
+}
+
+/**
+ * One line per finding, errors first, for agent consumption
+ */
+export function summarizeLint(report: LintReport): string {
+  const lines = [
+    ...report.errors.map(f => `ERROR [${f.rule}] ${f.message} (${f.nodeId})`),
+    ...report.warnings.map(f => `WARNING [${f.rule}] ${f.message} (${f.nodeId})`),
+  ];
+  return lines.length > 0 ? lines.join('\n') : 'No lint findings';
+}
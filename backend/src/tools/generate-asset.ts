@@ -1,9 +1,11 @@
 /**
  * generate_asset tool
  *
- * Uses fal.ai Nano Banana Pro T2I API to generate assets from text prompts.
+ * Generates assets from text prompts through the configured generate provider
+ * (fal.ai Nano Banana Pro T2I by default).
  * Supports backgrounds, UI elements, props, textures, and people with
- * type-specific prompt engineering.
+ * type-specific prompt engineering. Identical requests are served from the
+ * generation cache at zero cost.
  *
  * Pattern from terminal workflow: asset-generation skill
  */
@@ -11,9 +13,11 @@
 import { z } from 'zod';
 import { mkdirSync, readFileSync } from 'fs';
 import path from 'path';
-import { uploadFile, downloadImage, fal } from '../fal-client.js';
+import { getImageProvider } from '../providers/index.js';
+import { withGenerationCache } from '../generation-cache.js';
 import { getSessionState } from '../session-state.js';
 import { getImageDimensions } from './image-analysis.js';
+import { BG_REMOVAL_METHODS, cutOutBackground } from './remove-background.js';
 
 // Type-specific prompt prefixes for better results
 const TYPE_PREFIXES: Record<string, (prompt: string) => string> = {
@@ -30,17 +34,26 @@ export const generateAssetSchema = z.object({
   aspectRatio: z.enum(['9:16', '1:1', '16:9', '4:3', '3:4', '4:5', '5:4', '3:2', '2:3', '21:9']).optional().describe('Default: 9:16'),
   resolution: z.enum(['1K', '2K']).optional().describe('Default: 1K'),
   removeBg: z.boolean().optional().describe('Remove background after generation. Default: false'),
+  removeBgMethod: z.enum(BG_REMOVAL_METHODS).optional().describe('How removeBg cuts out: provider (AI model), local (free heuristic for plain/white backdrops), auto. Default: provider'),
   seed: z.number().optional().describe('Seed for reproducibility'),
   name: z.string().optional().describe('Output filename without extension'),
+  fresh: z.boolean().optional().describe('Skip the generation cache and make a new take of the same request. Default: false'),
 });
 
 export type GenerateAssetInput = z.infer<typeof generateAssetSchema>;
 
-export async function generateAsset(input: GenerateAssetInput): Promise<any> {
+/**
+ * options.variant: index within a start_generation job with several variants —
+ * names the file _v{n} and keys the cache per variant, so each is a distinct take
+ */
+export async function generateAsset(input: GenerateAssetInput, options: { variant?: number } = {}): Promise<any> {
   const aspectRatio = input.aspectRatio || '9:16';
   const resolution = input.resolution || '1K';
   const removeBg = input.removeBg || false;
-  const name = input.name || `${input.type}_${Date.now()}`;
+  const baseName = input.name || `${input.type}_${Date.now()}`;
+  const name = options.variant !== undefined ? `${baseName}_v${options.variant + 1}` : baseName;
+  // Seeded variants step the seed so each is reproducible and distinct
+  const seed = input.seed !== undefined && options.variant ? input.seed + options.variant : input.seed;
 
   try {
     // 1. Build prompt with type-specific prefix
@@ -53,60 +66,41 @@ export async function generateAsset(input: GenerateAssetInput): Promise<any> {
     const outputDir = path.join(process.cwd(), 'data', 'assets', sessionId);
     mkdirSync(outputDir, { recursive: true });
 
-    // 3. Call fal.ai T2I API
-    console.log(`[generate-asset] Generating ${input.type}: "${input.prompt.slice(0, 50)}..."`);
-    const apiInput: any = {
-      prompt: fullPrompt,
-      num_images: 1,
-      aspect_ratio: aspectRatio,
-      resolution: resolution,
-      output_format: 'png',
-    };
-
-    if (input.seed !== undefined) {
-      apiInput.seed = input.seed;
-    }
-
-    const result = await fal.subscribe('fal-ai/nano-banana-pro', {
-      input: apiInput,
-    }) as { data: { images: Array<{ url: string }> } };
-
-    if (!result.data?.images?.[0]?.url) {
-      throw new Error('No image URL in fal.ai response');
-    }
-
-    const generatedUrl = result.data.images[0].url;
-
-    // 4. Download generated image
-    const outputFilename = `${name}.png`;
-    const outputPath = path.join(outputDir, outputFilename);
-    await downloadImage(generatedUrl, outputPath);
-
-    let finalPath = outputPath;
-    let totalCost = 0.06; // Base cost for T2I API
-
-    // 5. Optional background removal
+    // 3. Generate with the configured text-to-image provider, unless the same
+    //    request is already cached
+    const provider = getImageProvider('generate');
+    const outputPath = path.join(outputDir, `${name}.png`);
+    console.log(`[generate-asset] Generating ${input.type} with ${provider.id}/${provider.model('generate')}: "${input.prompt.slice(0, 50)}..."`);
+    const generated = await withGenerationCache(
+      {
+        operation: 'generate',
+        provider: provider.id,
+        model: provider.model('generate'),
+        prompt: fullPrompt,
+        aspectRatio,
+        resolution,
+        seed,
+        variant: options.variant,
+      },
+      outputPath,
+      () => provider.generate({ prompt: fullPrompt, aspectRatio, resolution, seed, outputPath }),
+      { bypass: input.fresh },
+    );
+
+    let finalPath = generated.path;
+    let totalCost = generated.cost;
+    let savedCost = generated.savedCost;
+
+    // 4. Optional background removal
     if (removeBg) {
       console.log(`[generate-asset] Removing background...`);
-      const bgRemoveUrl = await uploadFile(outputPath);
-      const bgResult = await fal.subscribe('fal-ai/bria/background/remove', {
-        input: {
-          image_url: bgRemoveUrl,
-        },
-      }) as { data: { image: { url: string } } };
-
-      if (!bgResult.data?.image?.url) {
-        throw new Error('No image URL in background removal response');
-      }
-
-      const nobgFilename = `${name}_nobg.png`;
-      const nobgPath = path.join(outputDir, nobgFilename);
-      await downloadImage(bgResult.data.image.url, nobgPath);
-      finalPath = nobgPath;
-      totalCost += 0.03; // Background removal cost
+      const cutout = await cutOutBackground(generated.path, path.join(outputDir, `${name}_nobg.png`), input.removeBgMethod, {}, input.fresh);
+      finalPath = cutout.path;
+      totalCost += cutout.cost;
+      savedCost += cutout.savedCost;
     }
 
-    // 6. Get final image dimensions
+    // 5. Get final image dimensions
     const dims = await getImageDimensions(readFileSync(finalPath));
 
     return {
@@ -114,7 +108,12 @@ export async function generateAsset(input: GenerateAssetInput): Promise<any> {
       width: dims.width,
       height: dims.height,
       cost: totalCost,
-      message: `Generated ${input.type}${removeBg ? ' (background removed)' : ''}: ${dims.width}x${dims.height}px at ${finalPath}`,
+      provider: generated.provider,
+      model: generated.model,
+      cached: generated.cached,
+      savedCost,
+      message: `${generated.cached ? 'Reused cached' : 'Generated'} ${input.type}${removeBg ? ' (background removed)' : ''}: ${dims.width}x${dims.height}px at ${finalPath}` +
+        (savedCost > 0 ? ` — saved $${savedCost.toFixed(2)} (pass fresh: true for a new take)` : ''),
     };
   } catch (err: any) {
     console.error(`[generate-asset] Error:`, err);
@@ -1,9 +1,10 @@
 /**
  * generate_product_photo tool
  *
- * Uses fal.ai Nano Banana Pro Edit API to generate product photography
- * from reference images + scene prompt. Handles upload, generation,
- * optional background removal, and download.
+ * Generates product photography from reference images + scene prompt through
+ * the configured edit provider (fal.ai Nano Banana Pro Edit by default), with
+ * optional background removal through the remove_background provider.
+ * Identical requests are served from the generation cache at zero cost.
  *
  * Pattern from terminal workflow: product-photography skill
  */
@@ -11,9 +12,11 @@
 import { z } from 'zod';
 import { mkdirSync, readFileSync } from 'fs';
 import path from 'path';
-import { uploadFile, downloadImage, fal } from '../fal-client.js';
+import { getImageProvider } from '../providers/index.js';
+import { withGenerationCache } from '../generation-cache.js';
 import { getSessionState } from '../session-state.js';
 import { getImageDimensions } from './image-analysis.js';
+import { BG_REMOVAL_METHODS, cutOutBackground } from './remove-background.js';
 
 const REALISM_SUFFIX = `\n\nApply realism properties to the scene and product, such as: raw and detailed textures, realistic materials, skin pores, consistent lighting patterns, shadows, the laws of physics, and subtle signs of imperfection (wrinkles, bruises, micro-tears, etc.) Do not change, morph, or improvise the physical or brand details of the product in the second image. Do not defy the laws of physics where realism is implied.`;
 
@@ -23,16 +26,23 @@ export const generateProductPhotoSchema = z.object({
   aspectRatio: z.enum(['9:16', '1:1', '16:9', '4:3', '3:4', '4:5', '5:4', '3:2', '2:3', '21:9']).optional().describe('Default: 9:16'),
   resolution: z.enum(['1K', '2K']).optional().describe('Default: 2K'),
   removeBg: z.boolean().optional().describe('Remove background after generation. Default: false'),
+  removeBgMethod: z.enum(BG_REMOVAL_METHODS).optional().describe('How removeBg cuts out: provider (AI model), local (free heuristic for plain/white backdrops), auto. Default: provider'),
   name: z.string().optional().describe('Output filename without extension'),
+  fresh: z.boolean().optional().describe('Skip the generation cache and make a new take of the same request. Default: false'),
 });
 
 export type GenerateProductPhotoInput = z.infer<typeof generateProductPhotoSchema>;
 
-export async function generateProductPhoto(input: GenerateProductPhotoInput): Promise<any> {
+/**
+ * options.variant: index within a start_generation job with several variants —
+ * names the file _v{n} and keys the cache per variant, so each is a distinct take
+ */
+export async function generateProductPhoto(input: GenerateProductPhotoInput, options: { variant?: number } = {}): Promise<any> {
   const aspectRatio = input.aspectRatio || '9:16';
   const resolution = input.resolution || '2K';
   const removeBg = input.removeBg || false;
-  const name = input.name || `product_${Date.now()}`;
+  const baseName = input.name || `product_${Date.now()}`;
+  const name = options.variant !== undefined ? `${baseName}_v${options.variant + 1}` : baseName;
 
   try {
     // 1. Get session ID and prepare output directory
@@ -41,64 +51,44 @@ export async function generateProductPhoto(input: GenerateProductPhotoInput): Pr
     const outputDir = path.join(process.cwd(), 'data', 'assets', sessionId);
     mkdirSync(outputDir, { recursive: true });
 
-    // 2. Upload all reference images (parallelize)
-    console.log(`[generate-product-photo] Uploading ${input.referenceImages.length} reference images...`);
-    const imageUrls = await Promise.all(
-      input.referenceImages.map((imgPath) => uploadFile(imgPath))
-    );
-
-    // 3. Append realism suffix to prompt
+    // 2. Append realism suffix to prompt
     const fullPrompt = input.prompt + REALISM_SUFFIX;
 
-    // 4. Call fal.ai Edit API
-    console.log(`[generate-product-photo] Generating product photo: "${input.prompt.slice(0, 60)}..."`);
-    const result = await fal.subscribe('fal-ai/nano-banana-pro/edit', {
-      input: {
+    // 3. Generate with the configured edit provider (uploads references as needed),
+    //    unless the same request is already cached
+    const provider = getImageProvider('edit');
+    const outputPath = path.join(outputDir, `${name}.png`);
+    console.log(`[generate-product-photo] Generating product photo with ${provider.id}/${provider.model('edit')}: "${input.prompt.slice(0, 60)}..."`);
+    const generated = await withGenerationCache(
+      {
+        operation: 'edit',
+        provider: provider.id,
+        model: provider.model('edit'),
         prompt: fullPrompt,
-        image_urls: imageUrls,
-        aspect_ratio: aspectRatio,
-        resolution: resolution,
-        num_images: 1,
-        output_format: 'png',
+        aspectRatio,
+        resolution,
+        images: input.referenceImages,
+        variant: options.variant,
       },
-    }) as { data: { images: Array<{ url: string }> } };
-
-    if (!result.data?.images?.[0]?.url) {
-      throw new Error('No image URL in fal.ai response');
-    }
-
-    const generatedUrl = result.data.images[0].url;
-
-    // 5. Download generated image
-    const outputFilename = `${name}.png`;
-    const outputPath = path.join(outputDir, outputFilename);
-    await downloadImage(generatedUrl, outputPath);
+      outputPath,
+      () => provider.edit({ prompt: fullPrompt, referenceImages: input.referenceImages, aspectRatio, resolution, outputPath }),
+      { bypass: input.fresh },
+    );
 
-    let finalPath = outputPath;
-    let totalCost = 0.12; // Base cost for Edit API
+    let finalPath = generated.path;
+    let totalCost = generated.cost;
+    let savedCost = generated.savedCost;
 
-    // 6. Optional background removal
+    // 4. Optional background removal
     if (removeBg) {
       console.log(`[generate-product-photo] Removing background...`);
-      const bgRemoveUrl = await uploadFile(outputPath);
-      const bgResult = await fal.subscribe('fal-ai/bria/background/remove', {
-        input: {
-          image_url: bgRemoveUrl,
-        },
-      }) as { data: { image: { url: string } } };
-
-      if (!bgResult.data?.image?.url) {
-        throw new Error('No image URL in background removal response');
-      }
-
-      const nobgFilename = `${name}_nobg.png`;
-      const nobgPath = path.join(outputDir, nobgFilename);
-      await downloadImage(bgResult.data.image.url, nobgPath);
-      finalPath = nobgPath;
-      totalCost += 0.03; // Background removal cost
+      const cutout = await cutOutBackground(generated.path, path.join(outputDir, `${name}_nobg.png`), input.removeBgMethod, {}, input.fresh);
+      finalPath = cutout.path;
+      totalCost += cutout.cost;
+      savedCost += cutout.savedCost;
     }
 
-    // 7. Get final image dimensions
+    // 5. Get final image dimensions
     const dims = await getImageDimensions(readFileSync(finalPath));
 
     return {
@@ -106,7 +96,12 @@ export async function generateProductPhoto(input: GenerateProductPhotoInput): Pr
       width: dims.width,
       height: dims.height,
       cost: totalCost,
-      message: `Generated product photo${removeBg ? ' (background removed)' : ''}: ${dims.width}x${dims.height}px at ${finalPath}`,
+      provider: generated.provider,
+      model: generated.model,
+      cached: generated.cached,
+      savedCost,
+      message: `${generated.cached ? 'Reused cached' : 'Generated'} product photo${removeBg ? ' (background removed)' : ''}: ${dims.width}x${dims.height}px at ${finalPath}` +
+        (savedCost > 0 ? ` — saved $${savedCost.toFixed(2)} (pass fresh: true for a new take)` : ''),
     };
   } catch (err: any) {
     console.error(`[generate-product-photo] Error:`, err);
@@ -0,0 +1,105 @@
+/**
+ * Generation queue tools
+ *
+ * start_generation queues generate_product_photo, generate_asset or
+ * remove_background in the background (optionally N variants at once) and
+ * returns a job ID immediately; check_generations reports on the jobs and can
+ * wait for them. The queue itself lives in generation-jobs.ts.
+ */
+
+import { z } from 'zod';
+import type { Bridge } from '../bridge.js';
+import {
+  GENERATION_TOOLS,
+  formatGenerationJob,
+  getGenerationJobs,
+  markGenerationsReported,
+  startGenerationJob,
+  waitForGenerations,
+  type GenerationTool,
+} from '../generation-jobs.js';
+import { generateProductPhotoSchema } from './generate-product-photo.js';
+import { generateAssetSchema } from './generate-asset.js';
+import { removeBackgroundSchema } from './remove-background.js';
+
+const PARAM_SCHEMAS: Record<GenerationTool, z.ZodTypeAny> = {
+  generate_product_photo: generateProductPhotoSchema,
+  generate_asset: generateAssetSchema,
+  remove_background: removeBackgroundSchema,
+};
+
+const MAX_VARIANTS = 4;
+const MAX_WAIT_SECONDS = 60;
+
+// ─── start_generation ───
+
+export const startGenerationSchema = z.object({
+  tool: z.enum(GENERATION_TOOLS).describe('Generation tool to run in the background'),
+  params: z.record(z.string(), z.any()).describe('Input for that tool — the same fields as calling it directly'),
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional().describe('Distinct takes to generate in parallel (not for remove_background). Default: 1'),
+  label: z.string().optional().describe('Short name for the generation tray (default: the prompt)'),
+});
+
+export type StartGenerationInput = z.infer<typeof startGenerationSchema>;
+
+export async function startGeneration(input: StartGenerationInput, bridge: Bridge): Promise<any> {
+  const variants = input.variants ?? 1;
+  if (input.tool === 'remove_background' && variants > 1) {
+    return { error: true, message: 'remove_background has no variants — start one job per image.' };
+  }
+
+  const parsed = PARAM_SCHEMAS[input.tool].safeParse(input.params);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || 'params'}: ${i.message}`).join('; ');
+    return { error: true, message: `Invalid params for ${input.tool}: ${issues}` };
+  }
+
+  const job = startGenerationJob(bridge, input.tool, parsed.data as Record<string, any>, variants, input.label);
+  return {
+    jobId: job.id,
+    status: job.status,
+    variants,
+    estimatedCost: Math.round(job.estimatedCost * variants * 100) / 100,
+    message: `Started ${job.id}: ${variants} variant${variants > 1 ? 's' : ''} of ${input.tool} in the background. ` +
+      `Keep building — you'll be notified when it finishes, or call check_generations({ jobIds: ["${job.id}"], waitSeconds: 30 }) when you need the images.`,
+  };
+}
+
+// ─── check_generations ───
+
+export const checkGenerationsSchema = z.object({
+  jobIds: z.array(z.string()).optional().describe('Jobs to check (default: every job this session)'),
+  waitSeconds: z.number().min(0).max(MAX_WAIT_SECONDS).optional().describe(`Wait up to this long for the jobs to finish (max ${MAX_WAIT_SECONDS}). Default: 0`),
+});
+
+export type CheckGenerationsInput = z.infer<typeof checkGenerationsSchema>;
+
+export async function checkGenerations(input: CheckGenerationsInput): Promise<any> {
+  const ids = input.jobIds ?? [];
+  await waitForGenerations(ids, (input.waitSeconds ?? 0) * 1000);
+
+  const list = getGenerationJobs(ids);
+  const unknown = ids.filter(id => !list.some(j => j.id === id));
+  if (list.length === 0) {
+    return {
+      jobs: [],
+      message: unknown.length > 0 ? `Unknown job IDs: ${unknown.join(', ')}` : 'No generation jobs this session.',
+    };
+  }
+
+  markGenerationsReported(list);
+  const pending = list.filter(j => j.status === 'queued' || j.status === 'running');
+  return {
+    jobs: list.map(j => ({
+      jobId: j.id,
+      tool: j.tool,
+      label: j.label,
+      status: j.status,
+      cost: Math.round(j.cost * 100) / 100,
+      variants: j.variants,
+    })),
+    pending: pending.length,
+    unknown: unknown.length > 0 ? unknown : undefined,
+    message: list.map(formatGenerationJob).join('\n'),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * get_brand_tokens tool
+ *
+ * Returns a brand's structured design tokens (palette, fonts, type roles, radii,
+ * logo paths) from brand/tokens.json. No Bridge needed — reads from filesystem.
+ */
+
+import { z } from 'zod';
+import { getSessionState } from '../session-state.js';
+import { loadBrandTokens } from './brand-tokens.js';
+
+export const getBrandTokensSchema = z.object({
+  brand: z.string().optional().describe('Brand name (default: the active session brand)'),
+});
+
+export type GetBrandTokensInput = z.infer<typeof getBrandTokensSchema>;
+
+export async function getBrandTokens(input: GetBrandTokensInput): Promise<any> {
+  const brand = input.brand ?? getSessionState()?.brand;
+  if (!brand) {
+    throw new Error('No brand given and no active session. Pass brand or select a brand first.');
+  }
+
+  const tokens = loadBrandTokens(brand);
+  if (!tokens) {
+    throw new Error(
+      `Brand "${brand}" has no brand/tokens.json. Use read_brand_data for its markdown guidelines and pass hex colors.`
+    );
+  }
+
+  const colorRefs = Object.entries(tokens.colors).map(([name, hex]) => `brand.${name} ${hex}`);
+  const fontRefs = Object.entries(tokens.fonts ?? {}).map(([name, font]) => `brand.${name} ${font.family}`);
+
+  return {
+    brand: tokens.brand,
+    colors: tokens.colors,
+    fonts: tokens.fonts ?? {},
+    typography: tokens.typography ?? {},
+    radii: tokens.radii ?? {},
+    logos: tokens.logoPaths,
+    message: `${tokens.brand} tokens — colors: ${colorRefs.join(', ')}` +
+      (fontRefs.length > 0 ? `; fonts: ${fontRefs.join(', ')}` : '') +
+      `. Pass these references (e.g. fontColor: "brand.${Object.keys(tokens.colors)[0]}") instead of hex values.`,
+  };
+}
@@ -2,8 +2,9 @@
  * Image analysis utilities
  *
  * Uses sharp for server-side image processing: trimming transparent pixels,
- * reading dimensions, etc. These are helpers consumed by other tools
- * (e.g., place-product), not standalone agent tools.
+ * reading dimensions, local background removal for flat backgrounds, etc.
+ * These are helpers consumed by other tools (e.g., place-product,
+ * remove-background), not standalone agent tools.
  */
 
 import sharp from 'sharp';
@@ -43,3 +44,274 @@ export async function getImageDimensions(imageBuffer: Buffer): Promise<{ width:
   const metadata = await sharp(imageBuffer).metadata();
   return { width: metadata.width || 0, height: metadata.height || 0 };
 }
+
+// ─── Local background removal ───
+
+export interface FlatBackgroundOptions {
+  /** Max RGB distance from the background color still counted as background. Default: 30 */
+  tolerance?: number;
+  /** Inward edge feather radius in px (0 = hard edge). Default: 1.5 */
+  feather?: number;
+  /** Share of border pixels that must match the background color. Default: 0.9 */
+  minBorderMatch?: number;
+}
+
+export interface FlatBackgroundAnalysis {
+  backgroundColor: { r: number; g: number; b: number };
+  /** Share of border pixels within tolerance of the background color, 0-1 */
+  borderMatch: number;
+  /** True when borderMatch clears the threshold — the heuristic can be trusted */
+  flat: boolean;
+  /** Every border pixel is already transparent — there's no backdrop left to remove */
+  alreadyCutOut: boolean;
+}
+
+export interface FlatBackgroundResult extends FlatBackgroundAnalysis {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  /** Share of the image made transparent, 0-1 */
+  removedFraction: number;
+  /** Stray opaque specks cleared */
+  specksRemoved: number;
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_TOLERANCE = 30;
+const DEFAULT_FEATHER = 1.5;
+const DEFAULT_MIN_BORDER_MATCH = 0.9;
+/** Alpha below this counts as already transparent */
+const TRANSPARENT_ALPHA = 16;
+/** Edge pixels within tolerance × this of the background color count as fringe */
+const FRINGE_FACTOR = 4;
+
+async function readRgba(imageBuffer: Buffer): Promise<RawImage> {
+  const { data, info } = await sharp(imageBuffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function colorDistance(data: Buffer, offset: number, color: { r: number; g: number; b: number }): number {
+  const dr = data[offset] - color.r;
+  const dg = data[offset + 1] - color.g;
+  const db = data[offset + 2] - color.b;
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+/** Pixel indices along the image edge, each once */
+function borderIndices(width: number, height: number): number[] {
+  const indices: number[] = [];
+  for (let x = 0; x < width; x++) {
+    indices.push(x);
+    if (height > 1) indices.push((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    indices.push(y * width);
+    if (width > 1) indices.push(y * width + width - 1);
+  }
+  return indices;
+}
+
+function analyzeBorder(image: RawImage, tolerance: number, minBorderMatch: number): FlatBackgroundAnalysis {
+  const border = borderIndices(image.width, image.height).filter(i => image.data[i * 4 + 3] >= TRANSPARENT_ALPHA);
+  // No opaque border pixel means a cutout, not a black backdrop — flooding from an
+  // empty median would eat dark subject pixels next to the transparency
+  if (border.length === 0) {
+    return { backgroundColor: { r: 0, g: 0, b: 0 }, borderMatch: 0, flat: false, alreadyCutOut: true };
+  }
+
+  // Per-channel median of the opaque border pixels
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  for (const i of border) {
+    for (let c = 0; c < 3; c++) histograms[c][image.data[i * 4 + c]]++;
+  }
+  const median = (histogram: Uint32Array): number => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen * 2 >= border.length) return v;
+    }
+    return 255;
+  };
+  const backgroundColor = { r: median(histograms[0]), g: median(histograms[1]), b: median(histograms[2]) };
+
+  const matching = border.filter(i => colorDistance(image.data, i * 4, backgroundColor) <= tolerance).length;
+  const borderMatch = matching / border.length;
+  return { backgroundColor, borderMatch, flat: borderMatch >= minBorderMatch, alreadyCutOut: false };
+}
+
+/**
+ * Check whether an image sits on a flat, uniform background (e.g. a white studio
+ * sweep) that removeFlatBackground can cut out reliably.
+ */
+export async function analyzeFlatBackground(imageBuffer: Buffer, options: FlatBackgroundOptions = {}): Promise<FlatBackgroundAnalysis> {
+  const image = await readRgba(imageBuffer);
+  return analyzeBorder(image, options.tolerance ?? DEFAULT_TOLERANCE, options.minBorderMatch ?? DEFAULT_MIN_BORDER_MATCH);
+}
+
+/**
+ * Mark background pixels: flood fill from the border through pixels close to the
+ * background color (or already transparent). Background-colored areas inside the
+ * subject aren't reachable from the edge, so they stay opaque.
+ */
+function floodBackground(image: RawImage, color: { r: number; g: number; b: number }, tolerance: number): Uint8Array {
+  const { data, width, height } = image;
+  const background = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const isBackground = (i: number) =>
+    data[i * 4 + 3] < TRANSPARENT_ALPHA || colorDistance(data, i * 4, color) <= tolerance;
+
+  for (const i of borderIndices(width, height)) {
+    if (!background[i] && isBackground(i)) {
+      background[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const neighbors = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbors) {
+      if (n < 0 || n >= width * height || background[n] || !isBackground(n)) continue;
+      background[n] = 1;
+      queue[tail++] = n;
+    }
+  }
+
+  return background;
+}
+
+/**
+ * Alpha cleanup: drop opaque components much smaller than the subject (dust, noise,
+ * stray shadow flecks). Components at least 2% of the largest one are kept, so
+ * multi-part subjects survive. Returns the number of specks cleared.
+ */
+function removeSpecks(background: Uint8Array, width: number, height: number): number {
+  const total = width * height;
+  const labels = new Int32Array(total).fill(-1);
+  const queue = new Int32Array(total);
+  const sizes: number[] = [];
+
+  for (let start = 0; start < total; start++) {
+    if (background[start] || labels[start] !== -1) continue;
+    const label = sizes.length;
+    let head = 0;
+    let tail = 0;
+    labels[start] = label;
+    queue[tail++] = start;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const neighbors = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbors) {
+        if (n < 0 || n >= total || background[n] || labels[n] !== -1) continue;
+        labels[n] = label;
+        queue[tail++] = n;
+      }
+    }
+    sizes.push(tail);
+  }
+
+  if (sizes.length <= 1) return 0;
+  const minSize = Math.max(16, Math.max(...sizes) * 0.02);
+  const specks = new Set(sizes.flatMap((size, label) => (size < minSize ? [label] : [])));
+  for (let i = 0; i < total; i++) {
+    if (labels[i] !== -1 && specks.has(labels[i])) background[i] = 1;
+  }
+  return specks.size;
+}
+
+/**
+ * Cut the subject out of an image on a flat background (plain white studio shots,
+ * solid backdrops) without a remote API. Background is flood-filled from the border,
+ * specks are cleared, the edge is feathered inward, and semi-transparent edge pixels
+ * have the background color un-mixed so no light halo is left on dark canvases.
+ *
+ * An image whose border is already fully transparent is returned unchanged (as PNG).
+ * Throws when the border isn't uniform enough to trust the heuristic, or when
+ * nothing would be left of the subject.
+ */
+export async function removeFlatBackground(imageBuffer: Buffer, options: FlatBackgroundOptions = {}): Promise<FlatBackgroundResult> {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const feather = options.feather ?? DEFAULT_FEATHER;
+  const image = await readRgba(imageBuffer);
+  const { width, height, data } = image;
+
+  const analysis = analyzeBorder(image, tolerance, options.minBorderMatch ?? DEFAULT_MIN_BORDER_MATCH);
+  if (analysis.alreadyCutOut) {
+    const buffer = await sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+    return { ...analysis, buffer, width, height, removedFraction: 0, specksRemoved: 0 };
+  }
+  if (!analysis.flat) {
+    throw new Error(
+      `Background isn't flat enough for local removal — only ${Math.round(analysis.borderMatch * 100)}% of the border ` +
+        `matches rgb(${analysis.backgroundColor.r}, ${analysis.backgroundColor.g}, ${analysis.backgroundColor.b}). Use the provider method.`,
+    );
+  }
+
+  const background = floodBackground(image, analysis.backgroundColor, tolerance);
+  const specksRemoved = removeSpecks(background, width, height);
+
+  const total = width * height;
+  let removedCount = 0;
+  const mask = Buffer.alloc(total);
+  for (let i = 0; i < total; i++) {
+    if (background[i]) removedCount++;
+    else mask[i] = 255;
+  }
+  if (removedCount > total * 0.99) {
+    throw new Error('Local removal would erase the whole image — the subject matches the background color. Use the provider method.');
+  }
+
+  // Feather inward only: blur the mask, then never exceed the hard mask
+  let alpha = mask;
+  if (feather > 0) {
+    const blurred = await sharp(mask, { raw: { width, height, channels: 1 } })
+      .blur(Math.max(0.3, feather))
+      .extractChannel(0)
+      .raw()
+      .toBuffer();
+    alpha = Buffer.alloc(total);
+    for (let i = 0; i < total; i++) alpha[i] = Math.min(mask[i], blurred[i]);
+  }
+
+  const { r: br, g: bg, b: bb } = analysis.backgroundColor;
+  const out = Buffer.alloc(total * 4);
+  for (let i = 0; i < total; i++) {
+    const o = i * 4;
+    const a = Math.min(alpha[i], data[o + 3]);
+    out[o + 3] = a;
+    if (a === 0) continue;
+    // Only the background-tinted fringe gets un-mixed; strongly colored pixels in the
+    // feather band would be over-corrected into a dark outline
+    if (a === 255 || colorDistance(data, o, analysis.backgroundColor) > tolerance * FRINGE_FACTOR) {
+      out[o] = data[o];
+      out[o + 1] = data[o + 1];
+      out[o + 2] = data[o + 2];
+      continue;
+    }
+    // Decontaminate: observed = a*subject + (1-a)*background → solve for subject
+    const f = a / 255;
+    out[o] = Math.max(0, Math.min(255, Math.round((data[o] - (1 - f) * br) / f)));
+    out[o + 1] = Math.max(0, Math.min(255, Math.round((data[o + 1] - (1 - f) * bg) / f)));
+    out[o + 2] = Math.max(0, Math.min(255, Math.round((data[o + 2] - (1 - f) * bb) / f)));
+  }
+
+  const buffer = await sharp(out, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return {
+    ...analysis,
+    buffer,
+    width,
+    height,
+    removedFraction: removedCount / total,
+    specksRemoved,
+  };
+}
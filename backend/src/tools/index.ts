@@ -17,16 +17,23 @@ export { updateNode, updateNodeSchema } from './update-node.js';
 export { deleteNode, deleteNodeSchema } from './delete-node.js';
 export { createShape, createShapeSchema } from './create-shape.js';
 export { duplicateFrame, duplicateFrameSchema } from './duplicate-frame.js';
+export { adaptAd, adaptAdSchema } from './adapt-ad.js';
+export { buildVariantMatrix, buildVariantMatrixSchema } from './variant-matrix.js';
+export { lintFrame, lintFrameSchema } from './lint-frame.js';
+export { checkContrast, checkContrastSchema } from './check-contrast.js';
 export { exportAd, exportAdSchema } from './export-ad.js';
+export { checkVariety, checkVarietySchema } from './check-variety.js';
 export { completeConcept, completeConceptSchema } from './complete-concept.js';
 export { logLearning, logLearningSchema } from './log-learning.js';
 export { readBrandData, readBrandDataSchema } from './read-brand-data.js';
+export { getBrandTokens, getBrandTokensSchema } from './get-brand-tokens.js';
 export { browseAdLibrary, browseAdLibrarySchema } from './browse-ad-library.js';
 export { reorderChildren, reorderChildrenSchema } from './reorder-children.js';
 
 // Phase 4: Batch operations
 export { batchUpdate, batchUpdateSchema } from './batch-update.js';
-export { saveCheckpoint, saveCheckpointSchema, restoreCheckpoint, restoreCheckpointSchema, listCheckpoints, listCheckpointsSchema, clearCheckpoints } from './checkpoint.js';
+export { saveCheckpoint, saveCheckpointSchema, restoreCheckpoint, restoreCheckpointSchema, listCheckpoints, listCheckpointsSchema, pruneCheckpoints, pruneCheckpointsSchema, clearCheckpoints } from './checkpoint.js';
+export { diffCheckpoints, diffCheckpointsSchema } from './diff-checkpoints.js';
 
 // Phase 5a: Batch pipeline + DSL operations
 export { batchPipeline, batchPipelineSchema } from './batch-pipeline.js';
@@ -43,3 +50,5 @@ export { generateProductPhoto, generateProductPhotoSchema } from './generate-pro
 export { generateAsset, generateAssetSchema } from './generate-asset.js';
 export { removeBackground, removeBackgroundSchema } from './remove-background.js';
 export { estimateCost, estimateCostSchema } from './estimate-cost.js';
+export { browseAssets, browseAssetsSchema, reuseAsset, reuseAssetSchema } from './asset-library.js';
+export { startGeneration, startGenerationSchema, checkGenerations, checkGenerationsSchema } from './generation-queue.js';
@@ -0,0 +1,43 @@
+/**
+ * lint_frame tool
+ *
+ * Runs the deterministic design lint (text size, story safe zones, 8px grid,
+ * contrast, overflow, overlapping text) on a frame's serialize_frame output.
+ * export_ad runs the same lint in its pre-tool-use gate and is blocked on errors.
+ */
+
+import { z } from 'zod';
+import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { lintSerializedFrame, summarizeLint, type LintReport } from './frame-lint.js';
+
+export const lintFrameSchema = z.object({
+  frameId: z.string().describe('Frame ID to lint'),
+});
+
+export type LintFrameInput = z.infer<typeof lintFrameSchema>;
+
+/**
+ * Serialize a frame through the bridge and lint it. Shared with the export gate.
+ */
+export async function runFrameLint(frameId: string, bridge: Bridge): Promise<LintReport> {
+  const serialized: SerializedNode = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+  if (!serialized || !serialized.id) {
+    throw new Error(`Failed to serialize frame ${frameId}`);
+  }
+  return lintSerializedFrame(serialized);
+}
+
+export async function lintFrame(input: LintFrameInput, bridge: Bridge): Promise<any> {
+  const report = await runFrameLint(input.frameId, bridge);
+  const { errors, warnings } = report;
+
+  return {
+    message: report.passed
+      ? `Lint passed for "${report.frameName}"` + (warnings.length > 0 ? ` with ${warnings.length} warnings` : '')
+      : `Lint FAILED for "${report.frameName}": ${errors.length} errors, ${warnings.length} warnings. ` +
+        'Fix the errors before export_ad — the export gate blocks on them.',
+    ...report,
+    summary: summarizeLint(report),
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Structural diff between two SerializedNode trees
+ *
+ * Used by diff_checkpoints. Nodes are matched by id first; restore_checkpoint
+ * rebuilds nodes with fresh ids, so anything left unmatched is paired by
+ * (name, type) among the children of already-matched parents.
+ *
+ * Reports:
+ * - added / removed nodes
+ * - moved nodes (different parent, or reordered relative to their siblings)
+ * - property-level changes (geometry, fills, text, auto-layout, ...)
+ */
+
+import type { SerializedNode, SerializedPaint, SerializedEffect } from '../../../shared/protocol.js';
+import { rgbToHex } from './utils.js';
+
+export interface NodeRef {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+}
+
+export interface PropertyChange {
+  property: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface NodeDiff {
+  added: NodeRef[];
+  removed: NodeRef[];
+  moved: Array<NodeRef & { from: { parent: string; index: number }; to: { parent: string; index: number } }>;
+  changed: Array<NodeRef & { changes: PropertyChange[] }>;
+}
+
+/** Properties compared on every matched node pair, in report order */
+const COMPARED_PROPERTIES: Array<keyof SerializedNode> = [
+  'name', 'x', 'y', 'width', 'height', 'rotation', 'visible', 'locked', 'opacity',
+  'fills', 'strokes', 'strokeWeight', 'cornerRadius', 'effects',
+  'layoutMode', 'layoutPositioning', 'itemSpacing',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'primaryAxisAlignItems', 'counterAxisAlignItems', 'primaryAxisSizingMode', 'counterAxisSizingMode',
+  'layoutSizingHorizontal', 'layoutSizingVertical', 'clipsContent',
+  'characters', 'fontSize', 'fontName', 'textAlignHorizontal', 'textAlignVertical', 'textAutoResize',
+  'lineHeight', 'letterSpacing', 'textCase', 'textDecoration',
+];
+
+interface IndexedNode {
+  node: SerializedNode;
+  parentId: string | null;
+  index: number;
+  path: string;
+}
+
+function indexTree(root: SerializedNode): Map<string, IndexedNode> {
+  const map = new Map<string, IndexedNode>();
+  const visit = (node: SerializedNode, parentId: string | null, index: number, parentPath: string) => {
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    map.set(node.id, { node, parentId, index, path });
+    (node.children ?? []).forEach((child, i) => visit(child, node.id, i, path));
+  };
+  visit(root, null, 0, '');
+  return map;
+}
+
+function ref(entry: IndexedNode): NodeRef {
+  return { id: entry.node.id, name: entry.node.name, type: entry.node.type, path: entry.path };
+}
+
+/**
+ * Compact, comparable representation of a paint (e.g. "SOLID #FF0000 @50%")
+ */
+export function describePaint(paint: SerializedPaint): string {
+  if (paint.visible === false) return `${paint.type} (hidden)`;
+  const opacity = paint.opacity !== undefined && paint.opacity < 1 ? ` @${Math.round(paint.opacity * 100)}%` : '';
+  if (paint.type === 'SOLID' && paint.color) return `SOLID ${rgbToHex(paint.color)}${opacity}`;
+  if (paint.type.startsWith('GRADIENT') && paint.gradientStops) {
+    const stops = paint.gradientStops
+      .map(s => `${rgbToHex(s.color)}${s.color.a < 1 ? `/${Math.round(s.color.a * 100)}%` : ''}@${Math.round(s.position * 100)}`)
+      .join(' → ');
+    return `${paint.type} ${stops}${opacity}`;
+  }
+  if (paint.type === 'IMAGE') return `IMAGE ${paint.scaleMode ?? 'FILL'} ${paint.imageHash?.slice(0, 8) ?? ''}${opacity}`.trim();
+  return paint.type;
+}
+
+function describeEffect(effect: SerializedEffect): string {
+  if (effect.visible === false) return `${effect.type} (hidden)`;
+  const parts: string[] = [effect.type];
+  if (effect.radius !== undefined) parts.push(`r${round(effect.radius)}`);
+  if (effect.offset) parts.push(`(${round(effect.offset.x)},${round(effect.offset.y)})`);
+  if (effect.spread) parts.push(`spread ${round(effect.spread)}`);
+  if (effect.color) parts.push(`${rgbToHex(effect.color)}/${Math.round(effect.color.a * 100)}%`);
+  return parts.join(' ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Normalize a property value for comparison and reporting
+ */
+function normalize(property: keyof SerializedNode, value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+  if (property === 'fills' || property === 'strokes') return (value as SerializedPaint[]).map(describePaint);
+  if (property === 'effects') return (value as SerializedEffect[]).map(describeEffect);
+  if (typeof value === 'number') return round(value);
+  return value;
+}
+
+/** Defaults the plugin omits when serializing — treat a missing value as the default */
+const IMPLICIT_DEFAULTS: Partial<Record<keyof SerializedNode, unknown>> = {
+  rotation: 0,
+  visible: true,
+  locked: false,
+  opacity: 1,
+};
+
+function compareNodes(before: SerializedNode, after: SerializedNode): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const property of COMPARED_PROPERTIES) {
+    const from = normalize(property, before[property] ?? IMPLICIT_DEFAULTS[property]);
+    const to = normalize(property, after[property] ?? IMPLICIT_DEFAULTS[property]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ property, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diff two serialized trees. `before` and `after` should be the same frame at two points in time.
+ */
+export function diffSerializedNodes(before: SerializedNode, after: SerializedNode): NodeDiff {
+  const beforeIndex = indexTree(before);
+  const afterIndex = indexTree(after);
+
+  // before id → after id
+  const matches = new Map<string, string>();
+  matches.set(before.id, after.id);
+  for (const id of beforeIndex.keys()) {
+    if (id !== before.id && afterIndex.has(id)) matches.set(id, id);
+  }
+
+  // Pair leftovers by (name, type) under matched parents, top-down
+  const matchedAfter = new Set(matches.values());
+  const pairChildren = (beforeNode: SerializedNode, afterNode: SerializedNode) => {
+    const candidates = (afterNode.children ?? []).filter(c => !matchedAfter.has(c.id));
+    for (const child of beforeNode.children ?? []) {
+      if (matches.has(child.id)) continue;
+      const i = candidates.findIndex(c => c.name === child.name && c.type === child.type);
+      if (i >= 0) {
+        matches.set(child.id, candidates[i].id);
+        matchedAfter.add(candidates[i].id);
+        candidates.splice(i, 1);
+      }
+    }
+    for (const child of beforeNode.children ?? []) {
+      const matchedId = matches.get(child.id);
+      const counterpart = matchedId ? afterIndex.get(matchedId)?.node : undefined;
+      if (counterpart) pairChildren(child, counterpart);
+    }
+  };
+  pairChildren(before, after);
+
+  // Siblings that stayed under the same parent but changed relative order.
+  // The longest run that kept its order counts as stationary; the rest moved.
+  const reordered = new Set<string>();
+  for (const [id, entry] of beforeIndex) {
+    const afterId = matches.get(id);
+    if (!afterId) continue;
+    const stayed = (entry.node.children ?? []).filter(c => {
+      const childAfter = afterIndex.get(matches.get(c.id) ?? '');
+      return childAfter?.parentId === afterId;
+    });
+    const afterPositions = stayed.map(c => afterIndex.get(matches.get(c.id)!)!.index);
+    const keep = longestIncreasingSubsequence(afterPositions);
+    stayed.forEach((c, i) => {
+      if (!keep.has(i)) reordered.add(c.id);
+    });
+  }
+
+  const diff: NodeDiff = { added: [], removed: [], moved: [], changed: [] };
+
+  for (const [id, entry] of beforeIndex) {
+    const afterId = matches.get(id);
+    const afterEntry = afterId ? afterIndex.get(afterId) : undefined;
+    if (!afterEntry) {
+      diff.removed.push(ref(entry));
+      continue;
+    }
+
+    if (id !== before.id) {
+      const expectedParent = entry.parentId ? matches.get(entry.parentId) : null;
+      if (expectedParent !== afterEntry.parentId || reordered.has(id)) {
+        diff.moved.push({
+          ...ref(afterEntry),
+          from: { parent: beforeIndex.get(entry.parentId!)?.path ?? '', index: entry.index },
+          to: { parent: afterIndex.get(afterEntry.parentId!)?.path ?? '', index: afterEntry.index },
+        });
+      }
+    }
+
+    const changes = compareNodes(entry.node, afterEntry.node);
+    if (changes.length > 0) {
+      diff.changed.push({ ...ref(afterEntry), changes });
+    }
+  }
+
+  for (const [id, entry] of afterIndex) {
+    if (!matchedAfter.has(id)) diff.added.push(ref(entry));
+  }
+
+  return diff;
+}
+
+/**
+ * Indices (into `values`) of one longest strictly increasing subsequence
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let best = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) best = i;
+  }
+
+  const result = new Set<number>();
+  for (let i = best; i !== -1; i = previous[i]) result.add(i);
+  return result;
+}
+
+/**
+ * One-line-per-change text rendering of a diff, for agent consumption
+ */
+export function summarizeDiff(diff: NodeDiff): string {
+  const lines: string[] = [];
+  const fmt = (v: unknown) => (v === undefined ? '∅' : JSON.stringify(v));
+
+  for (const n of diff.added) lines.push(`+ ${n.type} "${n.path}" (${n.id})`);
+  for (const n of diff.removed) lines.push(`- ${n.type} "${n.path}" (${n.id})`);
+  for (const n of diff.moved) {
+    lines.push(`~ moved ${n.type} "${n.name}" (${n.id}): ${n.from.parent}[${n.from.index}] → ${n.to.parent}[${n.to.index}]`);
+  }
+  for (const n of diff.changed) {
+    for (const c of n.changes) {
+      lines.push(`* ${n.type} "${n.path}" (${n.id}) ${c.property}: ${fmt(c.from)} → ${fmt(c.to)}`);
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No differences';
+}
@@ -33,9 +33,9 @@ export const placeProductSchema = z.object({
 export type PlaceProductInput = z.infer<typeof placeProductSchema>;
 
 /** Position preset to x/y calculator */
-type PositionCalculator = (parentW: number, parentH: number, prodW: number, prodH: number, padding: number) => { x: number; y: number };
+export type PositionCalculator = (parentW: number, parentH: number, prodW: number, prodH: number, padding: number) => { x: number; y: number };
 
-const POSITION_PRESETS: Record<string, PositionCalculator> = {
+export const POSITION_PRESETS: Record<string, PositionCalculator> = {
   'center': (pw, ph, w, h) => ({
     x: (pw - w) / 2,
     y: (ph - h) / 2,
@@ -0,0 +1,156 @@
+/**
+ * Ad platform spec registry
+ *
+ * Creative sizes, upload formats, file-size caps and UI overlay zones per placement.
+ * build_ad_skeleton sizes frames and pads them from these safe zones, lint_frame checks
+ * story frames against Meta Stories' zones, and export_ad validates and bundles frames
+ * per platform.
+ *
+ * Safe zones are the bands covered by platform UI (profile header, CTA, caption,
+ * action buttons), in px at the spec's first size. Values follow each platform's
+ * published ad specs; check them against the current docs when a platform changes its UI.
+ */
+
+export interface SafeZone {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface PlatformSize {
+  width: number;
+  height: number;
+}
+
+export type PlatformFileFormat = 'jpg' | 'png';
+
+export interface PlatformSpec {
+  name: string;
+  /** Accepted creative sizes; the first is the default for build_ad_skeleton */
+  sizes: PlatformSize[];
+  /** Accepted upload formats, preferred first */
+  formats: PlatformFileFormat[];
+  maxKB: number;
+  /** UI overlay bands at sizes[0] */
+  safeZone: SafeZone;
+  /** Share of the image that text boxes may cover before delivery suffers */
+  maxTextRatio?: number;
+}
+
+const NO_SAFE_ZONE: SafeZone = { top: 0, bottom: 0, left: 0, right: 0 };
+
+export const PLATFORM_SPECS = {
+  'meta-feed': {
+    name: 'Meta Feed',
+    sizes: [{ width: 1080, height: 1350 }, { width: 1080, height: 1080 }, { width: 1200, height: 628 }],
+    formats: ['jpg', 'png'],
+    maxKB: 30720,
+    safeZone: NO_SAFE_ZONE,
+    maxTextRatio: 0.2,
+  },
+  'meta-stories': {
+    name: 'Meta Stories',
+    sizes: [{ width: 1080, height: 1920 }],
+    formats: ['jpg', 'png'],
+    maxKB: 30720,
+    // ~14% top (profile header) and bottom (CTA sticker)
+    safeZone: { top: 250, bottom: 250, left: 0, right: 0 },
+    maxTextRatio: 0.2,
+  },
+  'meta-reels': {
+    name: 'Meta Reels',
+    sizes: [{ width: 1080, height: 1920 }],
+    formats: ['jpg', 'png'],
+    maxKB: 30720,
+    // 14% top, 35% bottom (caption + CTA), 6% sides
+    safeZone: { top: 270, bottom: 670, left: 65, right: 65 },
+    maxTextRatio: 0.2,
+  },
+  tiktok: {
+    name: 'TikTok',
+    sizes: [{ width: 1080, height: 1920 }],
+    formats: ['jpg', 'png'],
+    maxKB: 500,
+    // Top tabs, caption + CTA at the bottom, like/comment/share rail on the right
+    safeZone: { top: 150, bottom: 440, left: 60, right: 140 },
+  },
+  'google-display': {
+    name: 'Google Display',
+    sizes: [
+      { width: 300, height: 250 },
+      { width: 336, height: 280 },
+      { width: 728, height: 90 },
+      { width: 300, height: 600 },
+      { width: 160, height: 600 },
+      { width: 320, height: 50 },
+      { width: 320, height: 100 },
+      { width: 468, height: 60 },
+      { width: 970, height: 250 },
+      { width: 250, height: 250 },
+      { width: 200, height: 200 },
+    ],
+    formats: ['jpg', 'png'],
+    maxKB: 150,
+    safeZone: NO_SAFE_ZONE,
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    sizes: [
+      { width: 1200, height: 627 },
+      { width: 1200, height: 1200 },
+      { width: 720, height: 900 },
+      { width: 628, height: 1200 },
+    ],
+    formats: ['jpg', 'png'],
+    maxKB: 5120,
+    safeZone: NO_SAFE_ZONE,
+  },
+  pinterest: {
+    name: 'Pinterest',
+    sizes: [{ width: 1000, height: 1500 }, { width: 1000, height: 1000 }],
+    formats: ['png', 'jpg'],
+    maxKB: 20480,
+    safeZone: NO_SAFE_ZONE,
+  },
+} satisfies Record<string, PlatformSpec>;
+
+export type PlatformId = keyof typeof PLATFORM_SPECS;
+
+export const PLATFORM_IDS = Object.keys(PLATFORM_SPECS) as [PlatformId, ...PlatformId[]];
+
+/** Relative aspect-ratio difference still treated as the same shape */
+const ASPECT_TOLERANCE = 0.01;
+
+export function getPlatformSpec(platform: PlatformId): PlatformSpec {
+  return PLATFORM_SPECS[platform];
+}
+
+/**
+ * The platform's sizes that a width x height frame can be exported to without distortion
+ */
+export function matchingSizes(spec: PlatformSpec, width: number, height: number): PlatformSize[] {
+  const ratio = width / height;
+  return spec.sizes.filter(s => Math.abs(s.width / s.height - ratio) / ratio < ASPECT_TOLERANCE);
+}
+
+/**
+ * A platform's safe zone scaled to a frame of the given size. Zero when the frame's
+ * shape isn't the one the zones were defined for.
+ */
+export function safeZoneFor(spec: PlatformSpec, width: number, height: number): SafeZone {
+  const base = spec.sizes[0];
+  if (matchingSizes({ ...spec, sizes: [base] }, width, height).length === 0) return NO_SAFE_ZONE;
+  const sx = width / base.width;
+  const sy = height / base.height;
+  return {
+    top: Math.round(spec.safeZone.top * sy),
+    bottom: Math.round(spec.safeZone.bottom * sy),
+    left: Math.round(spec.safeZone.left * sx),
+    right: Math.round(spec.safeZone.right * sx),
+  };
+}
+
+export function hasSafeZone(zone: SafeZone): boolean {
+  return zone.top > 0 || zone.bottom > 0 || zone.left > 0 || zone.right > 0;
+}
@@ -20,7 +20,7 @@ const PROJECT_ROOT = path.resolve(__dirname, '..', '..', '..', '..');
 const DEFAULT_BRAND_ROOT = path.join(PROJECT_ROOT, 'brands');
 const DEFAULT_LEARNINGS_PATH = path.join(PROJECT_ROOT, '.claude', 'taste', 'learnings.md');
 
-function getBrandRoot(): string {
+export function getBrandRoot(): string {
   return process.env.BRAND_DATA_ROOT || DEFAULT_BRAND_ROOT;
 }
 
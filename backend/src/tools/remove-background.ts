@@ -1,51 +1,136 @@
 /**
  * remove_background tool
  *
- * Uses fal.ai BRIA background removal API to remove backgrounds from images.
- * Saves the result in the same directory with a _nobg suffix.
+ * Removes backgrounds from images, by one of three methods:
+ * - provider: the configured remove_background provider (fal.ai BRIA by default)
+ * - local: flat-background heuristic in image-analysis.ts — free and offline, for
+ *   plain white studio shots and solid backdrops
+ * - auto: local when the background is flat enough (or already transparent),
+ *   otherwise — or when local removal fails — the provider
+ * Default: BG_REMOVAL_METHOD, else provider. The removeBg flags on the generation
+ * tools go through the same cutOutBackground helper.
+ * Saves the result as PNG in the same directory with a _nobg suffix. Provider
+ * cutouts of identical image content come from the generation cache at zero cost.
  *
  * Pattern from terminal workflow: image-manipulation skill (background removal)
  */
 
 import { z } from 'zod';
 import path from 'path';
-import { uploadFile, downloadImage, fal } from '../fal-client.js';
+import { readFileSync, writeFileSync } from 'fs';
+import { getImageProvider } from '../providers/index.js';
+import { withGenerationCache } from '../generation-cache.js';
+import { analyzeFlatBackground, removeFlatBackground, type FlatBackgroundOptions } from './image-analysis.js';
+
+export const BG_REMOVAL_METHODS = ['provider', 'local', 'auto'] as const;
+
+export type BgRemovalMethod = typeof BG_REMOVAL_METHODS[number];
 
 export const removeBackgroundSchema = z.object({
   imagePath: z.string().describe('Absolute path to image file'),
+  method: z.enum(BG_REMOVAL_METHODS).optional().describe('provider = AI model (paid), local = flat-background heuristic (free, plain/white backdrops only), auto = local if the backdrop is flat, else provider. Default: provider (or BG_REMOVAL_METHOD)'),
+  tolerance: z.number().min(1).max(120).optional().describe('Local only: how far a color may drift from the backdrop and still be removed. Default: 30'),
+  feather: z.number().min(0).max(8).optional().describe('Local only: edge softening radius in px. Default: 1.5'),
 });
 
 export type RemoveBackgroundInput = z.infer<typeof removeBackgroundSchema>;
 
-export async function removeBackground(input: RemoveBackgroundInput): Promise<any> {
-  try {
-    // 1. Upload image to fal storage
-    console.log(`[remove-background] Uploading image: ${path.basename(input.imagePath)}`);
-    const imageUrl = await uploadFile(input.imagePath);
-
-    // 2. Call background removal API
-    console.log(`[remove-background] Removing background...`);
-    const result = await fal.subscribe('fal-ai/bria/background/remove', {
-      input: {
-        image_url: imageUrl,
-      },
-    }) as { data: { image: { url: string } } };
-
-    if (!result.data?.image?.url) {
-      throw new Error('No image URL in background removal response');
+export interface CutoutResult {
+  path: string;
+  cost: number;
+  method: 'provider' | 'local';
+  provider: string;
+  model: string;
+  /** Why auto picked the provider, or what local cleaned up */
+  note?: string;
+  /** Served from the generation cache */
+  cached: boolean;
+  savedCost: number;
+}
+
+function defaultMethod(): BgRemovalMethod {
+  const configured = process.env.BG_REMOVAL_METHOD as BgRemovalMethod | undefined;
+  return configured && BG_REMOVAL_METHODS.includes(configured) ? configured : 'provider';
+}
+
+/**
+ * Cut out the subject of imagePath into outputPath with the chosen method
+ */
+export async function cutOutBackground(
+  imagePath: string,
+  outputPath: string,
+  method: BgRemovalMethod = defaultMethod(),
+  options: FlatBackgroundOptions = {},
+  fresh = false,
+): Promise<CutoutResult> {
+  let fallbackNote: string | undefined;
+
+  if (method !== 'provider') {
+    const source = readFileSync(imagePath);
+    const analysis = method === 'auto' ? await analyzeFlatBackground(source, options) : null;
+    if (!analysis || analysis.flat || analysis.alreadyCutOut) {
+      try {
+        const cutout = await removeFlatBackground(source, options);
+        writeFileSync(outputPath, cutout.buffer);
+        const { r, g, b } = cutout.backgroundColor;
+        return {
+          path: outputPath,
+          cost: 0,
+          method: 'local',
+          provider: 'local',
+          model: 'flat-background',
+          cached: false,
+          savedCost: 0,
+          note: cutout.alreadyCutOut
+            ? 'Border is already transparent — kept the image as is'
+            : `Removed rgb(${r}, ${g}, ${b}) backdrop locally (${Math.round(cutout.removedFraction * 100)}% of the image` +
+              (cutout.specksRemoved > 0 ? `, ${cutout.specksRemoved} specks cleaned` : '') + ')',
+        };
+      } catch (err: any) {
+        // Explicit local has no fallback; auto must not lose an already-paid generation to it
+        if (method === 'local') throw err;
+        fallbackNote = `Local removal failed (${err.message || String(err)}) — used the provider`;
+      }
+    } else {
+      fallbackNote = `Backdrop not flat (${Math.round(analysis.borderMatch * 100)}% of the border matches) — used the provider`;
     }
+  }
 
-    // 3. Download result to same directory with _nobg suffix
+  const provider = getImageProvider('remove_background');
+  const cutout = await withGenerationCache(
+    { operation: 'remove_background', provider: provider.id, model: provider.model('remove_background'), images: [imagePath] },
+    outputPath,
+    () => provider.removeBackground({ imagePath, outputPath }),
+    { bypass: fresh },
+  );
+  return { ...cutout, method: 'provider', note: fallbackNote };
+}
+
+export async function removeBackground(input: RemoveBackgroundInput): Promise<any> {
+  try {
+    // 1. Output goes next to the input with a _nobg suffix — always PNG, cutouts need alpha
     const parsedPath = path.parse(input.imagePath);
-    const outputFilename = `${parsedPath.name}_nobg${parsedPath.ext}`;
-    const outputPath = path.join(parsedPath.dir, outputFilename);
+    const outputPath = path.join(parsedPath.dir, `${parsedPath.name}_nobg.png`);
 
-    await downloadImage(result.data.image.url, outputPath);
+    // 2. Remove with the chosen method
+    const method = input.method ?? defaultMethod();
+    console.log(`[remove-background] Removing background (${method}): ${path.basename(input.imagePath)}`);
+    const cutout = await cutOutBackground(input.imagePath, outputPath, method, {
+      tolerance: input.tolerance,
+      feather: input.feather,
+    });
 
     return {
-      imagePath: outputPath,
-      cost: 0.03,
-      message: `Background removed: ${outputPath}`,
+      imagePath: cutout.path,
+      cost: cutout.cost,
+      method: cutout.method,
+      provider: cutout.provider,
+      model: cutout.model,
+      cached: cutout.cached,
+      savedCost: cutout.savedCost,
+      message: `Background removed${cutout.cached ? ' (cached)' : ''}: ${cutout.path}` +
+        (cutout.note ? ` — ${cutout.note}` : '') +
+        (cutout.savedCost > 0 ? ` — saved $${cutout.savedCost.toFixed(2)}` : ''),
     };
   } catch (err: any) {
     console.error(`[remove-background] Error:`, err);
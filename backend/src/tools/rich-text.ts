@@ -0,0 +1,249 @@
+/**
+ * Rich text spans for add_text and apply_typography
+ *
+ * Text can carry inline styling, turned into character-range runs that the plugin
+ * applies with setRangeFontName / setRangeFills / setRangeFontSize /
+ * setRangeTextDecoration after the node is created:
+ *
+ *   **bold**            weight 700 in the node's font family
+ *   ==highlight==       highlight color (element highlightColor, else brand accent)
+ *   __underline__       underline
+ *   ~~strike~~          strikethrough
+ *   [text]{attrs}       attrs separated by spaces or commas: a hex or brand.* color,
+ *                       a size like 64px, a weight like 700, bold, underline,
+ *                       strike, highlight
+ *
+ * Markers nest. A marker without a closing partner stays literal text, and a
+ * backslash escapes the next character ("\*\*" is two asterisks).
+ *
+ * The same runs can be given as an array ({ text, fontWeight, fontColor, ... })
+ * instead of markup — the pieces are joined as-is.
+ */
+
+import { z } from 'zod';
+import type { SerializedPaint, SerializedTextRun } from '../../../shared/protocol.js';
+import { hexToSolidPaint, weightToStyle } from './utils.js';
+import { getActiveBrandTokens, resolveColor } from './brand-tokens.js';
+
+/** Highlight color when neither the element nor the brand (accent) sets one */
+const DEFAULT_HIGHLIGHT = '#FFD60A';
+
+const TOGGLES: Record<string, (style: SpanStyle, ctx: RichTextContext) => SpanStyle> = {
+  '**': style => ({ ...style, fontWeight: 700 }),
+  '==': (style, ctx) => ({ ...style, color: highlightColor(ctx) }),
+  '__': style => ({ ...style, textDecoration: 'UNDERLINE' }),
+  '~~': style => ({ ...style, textDecoration: 'STRIKETHROUGH' }),
+};
+
+export const textRunSchema = z.object({
+  text: z.string(),
+  fontWeight: z.number().optional().describe('Weight for this run, e.g. 700'),
+  fontStyle: z.string().optional().describe('Exact style name for this run, e.g. "Bold Italic". Bypasses fontWeight.'),
+  fontColor: z.string().optional().describe('Hex or brand token for this run'),
+  fontSize: z.number().optional().describe('Font size for this run in px'),
+  underline: z.boolean().optional(),
+  strikethrough: z.boolean().optional(),
+});
+
+export type TextRunInput = z.infer<typeof textRunSchema>;
+
+export interface RichTextContext {
+  /** Font family of the node — weight changes stay in it */
+  fontFamily: string;
+  highlightColor?: string;
+  /** Palette warnings collector, as for resolveColor */
+  warnings: string[];
+  /** Field name used in palette warnings */
+  field: string;
+}
+
+export interface RichText {
+  /** Plain text with the markup removed */
+  characters: string;
+  /** Styled ranges of characters; empty when nothing is styled */
+  textRuns: SerializedTextRun[];
+}
+
+interface SpanStyle {
+  fontWeight?: number;
+  fontStyle?: string;
+  color?: string;
+  fontSize?: number;
+  textDecoration?: 'UNDERLINE' | 'STRIKETHROUGH';
+}
+
+interface Piece {
+  text: string;
+  style: SpanStyle;
+}
+
+function highlightColor(ctx: RichTextContext): string {
+  if (ctx.highlightColor) return ctx.highlightColor;
+  const colors = getActiveBrandTokens()?.colors;
+  return colors?.accent ?? colors?.primary ?? DEFAULT_HIGHLIGHT;
+}
+
+function parseAttributes(attrs: string, span: string, style: SpanStyle, ctx: RichTextContext): SpanStyle {
+  const next = { ...style };
+  for (const token of attrs.split(/[\s,]+/).filter(Boolean)) {
+    const lower = token.toLowerCase();
+    if (token.startsWith('#') || token.startsWith('brand.')) next.color = token;
+    else if (/^\d+(\.\d+)?px$/.test(lower)) next.fontSize = parseFloat(lower);
+    else if (/^[1-9]00$/.test(lower)) next.fontWeight = Number(lower);
+    else if (lower === 'bold') next.fontWeight = 700;
+    else if (lower === 'underline') next.textDecoration = 'UNDERLINE';
+    else if (lower === 'strike' || lower === 'strikethrough') next.textDecoration = 'STRIKETHROUGH';
+    else if (lower === 'highlight') next.color = highlightColor(ctx);
+    else {
+      throw new Error(
+        `Unknown attribute "${token}" in ${span}. Use a hex or brand.* color, a size like 64px, ` +
+        'a weight like 700, bold, underline, strike or highlight.',
+      );
+    }
+  }
+  return next;
+}
+
+/**
+ * Parse markup from `pos` until `stop` (or the end when stop is null). Returns
+ * the index after the stop marker, or null when it never appears before one of
+ * the enclosing stops — the caller then treats its opening marker as literal.
+ */
+function parseInline(
+  src: string,
+  pos: number,
+  style: SpanStyle,
+  stop: string | null,
+  outer: string[],
+  ctx: RichTextContext,
+  out: Piece[],
+): number | null {
+  const push = (text: string) => {
+    const last = out[out.length - 1];
+    if (last && last.style === style) last.text += text;
+    else out.push({ text, style });
+  };
+
+  let i = pos;
+  while (i < src.length) {
+    if (src[i] === '\\' && i + 1 < src.length) {
+      push(src[i + 1]);
+      i += 2;
+      continue;
+    }
+    if (stop && src.startsWith(stop, i)) return i + stop.length;
+    if (outer.some(o => src.startsWith(o, i))) return null;
+
+    const marker = Object.keys(TOGGLES).find(m => src.startsWith(m, i));
+    if (marker) {
+      const inner: Piece[] = [];
+      const end = parseInline(src, i + marker.length, TOGGLES[marker](style, ctx), marker, stop ? [stop, ...outer] : outer, ctx, inner);
+      if (end !== null) {
+        out.push(...inner);
+        i = end;
+        continue;
+      }
+    }
+
+    if (src[i] === '[') {
+      // Find the closing bracket first — the attributes after it style the contents
+      const closeAt = parseInline(src, i + 1, style, ']', [], ctx, []);
+      if (closeAt !== null && src[closeAt] === '{') {
+        const attrsEnd = src.indexOf('}', closeAt);
+        if (attrsEnd !== -1) {
+          const span = src.slice(i, attrsEnd + 1);
+          const spanStyle = parseAttributes(src.slice(closeAt + 1, attrsEnd), span, style, ctx);
+          const inner: Piece[] = [];
+          parseInline(src, i + 1, spanStyle, ']', [], ctx, inner);
+          out.push(...inner);
+          i = attrsEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    push(marker ?? src[i]);
+    i += marker ? marker.length : 1;
+  }
+  return stop ? null : i;
+}
+
+function toRun(start: number, end: number, style: SpanStyle, ctx: RichTextContext): SerializedTextRun | null {
+  const run: SerializedTextRun = { start, end };
+  if (style.fontStyle || style.fontWeight) {
+    run.fontName = { family: ctx.fontFamily, style: style.fontStyle || weightToStyle(style.fontWeight!) };
+  }
+  if (style.fontSize) run.fontSize = style.fontSize;
+  if (style.color) {
+    const { type, color, opacity } = hexToSolidPaint(resolveColor(style.color, ctx.warnings, ctx.field));
+    const paint: SerializedPaint = { type, color };
+    if (opacity !== undefined) paint.opacity = opacity;
+    run.fills = [paint];
+  }
+  if (style.textDecoration) run.textDecoration = style.textDecoration;
+  return Object.keys(run).length > 2 ? run : null;
+}
+
+function piecesToRichText(pieces: Piece[], ctx: RichTextContext): RichText {
+  let characters = '';
+  const textRuns: SerializedTextRun[] = [];
+  for (const piece of pieces) {
+    const start = characters.length;
+    characters += piece.text;
+    const run = piece.text.length > 0 ? toRun(start, characters.length, piece.style, ctx) : null;
+    if (run) textRuns.push(run);
+  }
+  return { characters, textRuns };
+}
+
+/**
+ * Strip span markup from text and return the plain characters plus styled runs
+ */
+export function parseRichText(markup: string, ctx: RichTextContext): RichText {
+  const pieces: Piece[] = [];
+  parseInline(markup, 0, {}, null, [], ctx, pieces);
+  return piecesToRichText(pieces, ctx);
+}
+
+/**
+ * Join an array of runs into plain characters plus styled runs
+ */
+export function runsToRichText(runs: TextRunInput[], ctx: RichTextContext): RichText {
+  return piecesToRichText(runs.map(run => ({
+    text: run.text,
+    style: {
+      fontWeight: run.fontWeight,
+      fontStyle: run.fontStyle,
+      color: run.fontColor,
+      fontSize: run.fontSize,
+      textDecoration: run.underline ? 'UNDERLINE' : run.strikethrough ? 'STRIKETHROUGH' : undefined,
+    },
+  })), ctx);
+}
+
+/**
+ * Runs for each line of a text that was split into separate nodes (split-stack),
+ * shifted to start at 0. Lines are located in order; a line that can't be found
+ * (e.g. collapsed whitespace) gets no runs.
+ */
+export function runsForLines(characters: string, runs: SerializedTextRun[], lines: string[]): SerializedTextRun[][] {
+  let cursor = 0;
+  return lines.map(line => {
+    const start = characters.indexOf(line, cursor);
+    if (start === -1) return [];
+    const end = start + line.length;
+    cursor = end;
+    return runs
+      .filter(run => run.end > start && run.start < end)
+      .map(run => ({ ...run, start: Math.max(run.start, start) - start, end: Math.min(run.end, end) - start }));
+  });
+}
+
+/**
+ * Warnings for run fonts the plugin had to substitute
+ */
+export function formatRunFontFallbacks(
+  fallbacks: Array<{ requested: { family: string; style: string }; applied: { family: string; style: string } }> | undefined,
+): string[] {
+  return (fallbacks ?? []).map(f => `span ${f.requested.family}/${f.requested.style} → ${f.applied.family}/${f.applied.style}`);
+}
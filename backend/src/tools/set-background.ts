@@ -6,18 +6,19 @@
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
-import { hexToRgb, hexToRgba, readFileAsBase64, rotationToGradientTransform } from './utils.js';
+import { hexToRgba, hexToSolidPaint, readFileAsBase64, rotationToGradientTransform } from './utils.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
 
 export const setBackgroundSchema = z.object({
   frameId: z.string().describe('Frame ID to set background on'),
   type: z.enum(['solid', 'gradient', 'image']).describe('Background type'),
-  color: z.string().optional().describe('Hex color for solid background (e.g., #FF0000)'),
+  color: z.string().optional().describe('Hex color or brand token for solid background (e.g., #FF0000, "brand.background")'),
   gradient: z
     .object({
       stops: z.array(
         z.object({
           position: z.number().min(0).max(1).describe('Position 0-1'),
-          color: z.string().describe('Hex color for this stop'),
+          color: z.string().describe('Hex color or brand token for this stop ("brand.primary/50" for 50% opacity)'),
         }),
       ),
       rotation: z.number().optional().describe('Gradient rotation in degrees (default: 180 = top to bottom)'),
@@ -31,12 +32,14 @@ export const setBackgroundSchema = z.object({
 export type SetBackgroundInput = z.infer<typeof setBackgroundSchema>;
 
 export async function setBackground(input: SetBackgroundInput, bridge: Bridge): Promise<any> {
+  const paletteWarnings: string[] = [];
+
   if (input.type === 'solid') {
     if (!input.color) {
       throw new Error('solid background requires color parameter');
     }
 
-    const color = hexToRgb(input.color);
+    const paint = hexToSolidPaint(resolveColor(input.color, paletteWarnings));
 
     await bridge.sendCommand({
       type: 'figma_call',
@@ -44,13 +47,13 @@ export async function setBackground(input: SetBackgroundInput, bridge: Bridge):
       args: [
         input.frameId,
         {
-          fills: [{ type: 'SOLID', color }],
+          fills: [paint],
         },
       ],
     });
 
     return {
-      message: `Set solid background: ${input.color}`,
+      message: `Set solid background: ${input.color}${formatPaletteWarnings(paletteWarnings)}`,
     };
   } else if (input.type === 'gradient') {
     if (!input.gradient || !input.gradient.stops || input.gradient.stops.length < 2) {
@@ -59,7 +62,7 @@ export async function setBackground(input: SetBackgroundInput, bridge: Bridge):
 
     const gradientStops = input.gradient.stops.map((stop) => ({
       position: stop.position,
-      color: hexToRgba(stop.color),
+      color: hexToRgba(resolveColor(stop.color, paletteWarnings, `gradient stop ${stop.position}`)),
     }));
 
     const rotation = input.gradient.rotation ?? 180;
@@ -83,7 +86,7 @@ export async function setBackground(input: SetBackgroundInput, bridge: Bridge):
     });
 
     return {
-      message: `Set gradient background: ${input.gradient.stops.length} stops, ${rotation}° rotation`,
+      message: `Set gradient background: ${input.gradient.stops.length} stops, ${rotation}° rotation${formatPaletteWarnings(paletteWarnings)}`,
     };
   } else if (input.type === 'image') {
     if (!input.imagePath) {
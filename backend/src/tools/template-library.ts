@@ -5,9 +5,17 @@
  * and apply them as starting points for new concepts.
  *
  * Data storage: backend/data/templates/
- *   - index.json — array of TemplateEntry objects
+ *   - index.db — SQLite index with thumbnail fingerprints (data/template-index.ts)
  *   - {templateId}/frame.json — serialized frame data
  *   - {templateId}/thumbnail.png — screenshot
+ *
+ * Image bytes are kept in the shared image store (image-store.ts), so a template
+ * applied in another file still gets its images.
+ *
+ * Slots: nodes named {{name}} (e.g. "{{headline}}", "{{product}}", "{{bg}}") or passed
+ * explicitly to save_template are stored on the entry by child-index path — node IDs
+ * change on every apply. apply_template fills them (copy, image, color) in the same
+ * call and returns the slot → node ID map of the new frame.
  */
 
 import { z } from 'zod';
@@ -15,6 +23,26 @@ import { v4 as uuidv4 } from 'uuid';
 import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { storeFrameImages, restoreFrame } from '../image-store.js';
+import {
+  TEMPLATES_DIR,
+  indexTemplate,
+  syncTemplateIndex,
+  getTemplate,
+  countTemplates,
+  listTemplateNames,
+  queryTemplates,
+  markTemplateUsed,
+  fingerprintImage,
+  type TemplateEntry,
+  type TemplateSlot,
+  type SlotKind,
+  type ImageFingerprint,
+} from '../data/template-index.js';
+import { batchUpdate, type BatchUpdateInput } from './batch-update.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
+import { readFileAsBase64, findPath, followPath } from './utils.js';
 
 type ToolResult = {
   content: Array<
@@ -24,37 +52,61 @@ type ToolResult = {
   isError?: boolean;
 };
 
-type TemplateEntry = {
-  templateId: string;
-  name: string;
-  formatCategory?: string;
-  brand?: string;
-  dimensions?: { width: number; height: number };
-  tags?: string[];
-  description?: string;
-  thumbnailPath: string;
-  framePath: string;
-  createdAt: string;
-};
-
-const TEMPLATES_DIR = join(process.cwd(), 'backend', 'data', 'templates');
-const INDEX_PATH = join(TEMPLATES_DIR, 'index.json');
+const SLOT_NAME = /\{\{\s*([\w.-]+)\s*\}\}/;
 
 function ensureTemplatesDir() {
   mkdirSync(TEMPLATES_DIR, { recursive: true });
 }
 
-function readIndex(): TemplateEntry[] {
-  if (!existsSync(INDEX_PATH)) return [];
-  try {
-    return JSON.parse(readFileSync(INDEX_PATH, 'utf8'));
-  } catch {
-    return [];
+function inferSlotKind(node: SerializedNode): SlotKind {
+  if (node.type === 'TEXT') return 'text';
+  if (node.fills?.some(p => p.type === 'IMAGE')) return 'image';
+  return 'color';
+}
+
+/**
+ * Slots from nodes named {{name}} plus the explicit definitions (which win on a
+ * name clash). Duplicate {{name}} nodes keep the first in tree order.
+ */
+function collectSlots(
+  root: SerializedNode,
+  explicit: NonNullable<SaveTemplateInput['slots']>,
+  warnings: string[],
+): TemplateSlot[] {
+  const slots = new Map<string, TemplateSlot>();
+
+  const walk = (node: SerializedNode, nodePath: number[]) => {
+    const match = SLOT_NAME.exec(node.name);
+    if (match) {
+      const name = match[1];
+      if (slots.has(name)) {
+        warnings.push(`Slot "${name}" is on more than one node — kept the first ("${slots.get(name)!.nodeName}")`);
+      } else {
+        slots.set(name, { name, kind: inferSlotKind(node), path: nodePath, nodeName: node.name });
+      }
+    }
+    (node.children ?? []).forEach((child, i) => walk(child, [...nodePath, i]));
+  };
+  walk(root, []);
+
+  for (const def of explicit) {
+    const nodePath = findPath(root, def.nodeId);
+    if (!nodePath) {
+      throw new Error(`Slot "${def.name}": node ${def.nodeId} is not inside frame "${root.name}"`);
+    }
+    const node = followPath(root, nodePath)!;
+    const kind = def.kind ?? inferSlotKind(node);
+    if (kind === 'text' && node.type !== 'TEXT') {
+      throw new Error(`Slot "${def.name}": ${def.nodeId} is a ${node.type}, not a TEXT node`);
+    }
+    slots.set(def.name, { name: def.name, kind, path: nodePath, nodeName: node.name });
   }
+
+  return [...slots.values()];
 }
 
-function writeIndex(entries: TemplateEntry[]) {
-  writeFileSync(INDEX_PATH, JSON.stringify(entries, null, 2), 'utf8');
+function describeSlots(slots: TemplateSlot[]): string {
+  return slots.map(s => `${s.name} (${s.kind})`).join(', ');
 }
 
 // ─── save_template ───
@@ -66,6 +118,12 @@ export const saveTemplateSchema = z.object({
   brand: z.string().optional().describe('Brand this template was designed for'),
   tags: z.array(z.string()).optional().describe('Searchable tags (e.g., ["dark", "story", "IG"])'),
   description: z.string().optional().describe('Brief description of the template layout and style'),
+  slots: z.array(z.object({
+    name: z.string().describe('Slot name apply_template fills by (e.g., "headline")'),
+    nodeId: z.string().describe('Node in the frame the slot points at'),
+    kind: z.enum(['text', 'image', 'color']).optional()
+      .describe('What the slot fills. Default: text for TEXT nodes, image for nodes with an image fill, color otherwise'),
+  })).optional().describe('Extra slot definitions. Nodes named {{name}} (e.g., "{{headline}}", "{{product}}", "{{bg}}") are detected automatically'),
 });
 
 export type SaveTemplateInput = z.infer<typeof saveTemplateSchema>;
@@ -87,8 +145,12 @@ export async function saveTemplate(input: SaveTemplateInput, bridge: Bridge): Pr
     throw new Error(`Failed to serialize frame ${input.frameId}`);
   }
 
+  const warnings: string[] = [];
+  const slots = collectSlots(serialized, input.slots ?? [], warnings);
+
   const framePath = join(templateDir, 'frame.json');
   writeFileSync(framePath, JSON.stringify(serialized, null, 2), 'utf8');
+  const images = await storeFrameImages(bridge, serialized);
 
   // 2. Take a thumbnail screenshot
   const exported = await bridge.sendCommand({
@@ -108,8 +170,8 @@ export async function saveTemplate(input: SaveTemplateInput, bridge: Bridge): Pr
     ? { width: serialized.width, height: serialized.height }
     : undefined;
 
-  // 4. Update index
-  const index = readIndex();
+  // 4. Update index (fingerprints the thumbnail)
+  await syncTemplateIndex();
   const entry: TemplateEntry = {
     templateId,
     name: input.name,
@@ -118,71 +180,95 @@ export async function saveTemplate(input: SaveTemplateInput, bridge: Bridge): Pr
     dimensions,
     tags: input.tags,
     description: input.description,
+    slots: slots.length > 0 ? slots : undefined,
     thumbnailPath: `${templateId}/thumbnail.png`,
     framePath: `${templateId}/frame.json`,
     createdAt: new Date().toISOString(),
   };
-  index.push(entry);
-  writeIndex(index);
+  await indexTemplate(entry);
+
+  if (images.missing.length > 0) {
+    warnings.push(`${images.missing.length} image(s) could not be read — they won't appear when applied in another file`);
+  }
 
   return {
     templateId,
     name: input.name,
-    message: `Template "${input.name}" saved (${templateId})`,
+    slots: slots.map(s => ({ name: s.name, kind: s.kind, nodeName: s.nodeName })),
+    message: `Template "${input.name}" saved (${templateId})` +
+      (slots.length > 0 ? ` with slots: ${describeSlots(slots)}` : '') +
+      (warnings.length > 0 ? `. WARNINGS: ${warnings.join('; ')}` : ''),
   };
 }
 
 // ─── browse_templates ───
 
 export const browseTemplatesSchema = z.object({
-  query: z.string().optional().describe('Search query (matches name, tags, description)'),
+  query: z.string().optional().describe('Search query (matches name, tags, description and format category by word prefix)'),
   formatCategory: z.string().optional().describe('Filter by format category'),
   brand: z.string().optional().describe('Filter by brand'),
+  aspectRatio: z.string().optional().describe('Filter by aspect ratio: "9:16", "4:5", "1:1", ... (within 2%)'),
+  width: z.number().optional().describe('Filter by exact frame width in px'),
+  height: z.number().optional().describe('Filter by exact frame height in px'),
+  sort: z.enum(['recent', 'usage']).optional().describe('recent (default) or usage — most applied first'),
+  similarTo: z.string().optional()
+    .describe('Rank by visual similarity (layout + palette) to a template ID, a frame ID on the canvas, or an absolute screenshot path'),
   limit: z.number().optional().describe('Max results (default: 10)'),
 });
 
 export type BrowseTemplatesInput = z.infer<typeof browseTemplatesSchema>;
 
-export async function browseTemplates(input: BrowseTemplatesInput): Promise<ToolResult> {
-  const index = readIndex();
-  const limit = input.limit || 10;
-
-  // Filter
-  let matches = index;
-
-  if (input.formatCategory) {
-    matches = matches.filter(t =>
-      t.formatCategory?.toLowerCase() === input.formatCategory!.toLowerCase()
-    );
+/**
+ * Fingerprint for similarTo: a saved template's, an image file's, or a canvas frame's export
+ */
+async function resolveSimilarTo(value: string, bridge: Bridge): Promise<ImageFingerprint> {
+  const known = getTemplate(value);
+  if (known) {
+    if (!known.phash) throw new Error(`Template "${known.name}" has no thumbnail to compare`);
+    return { phash: known.phash, dominantColors: known.dominantColors ?? [] };
   }
+  if (existsSync(value)) return fingerprintImage(value);
 
-  if (input.brand) {
-    matches = matches.filter(t =>
-      t.brand?.toLowerCase() === input.brand!.toLowerCase()
-    );
+  // Same export settings as save_template thumbnails, so hashes compare like for like
+  const exported = await bridge.sendCommand({ type: 'export_node', nodeId: value, format: 'PNG', scale: 0.5 });
+  if (!exported?.base64) {
+    throw new Error(`"${value}" is neither a template ID, an image path nor an exportable frame`);
   }
+  return fingerprintImage(Buffer.from(exported.base64, 'base64'));
+}
 
-  if (input.query) {
-    const q = input.query.toLowerCase();
-    matches = matches.filter(t => {
-      const searchable = [
-        t.name,
-        t.description || '',
-        ...(t.tags || []),
-        t.formatCategory || '',
-      ].join(' ').toLowerCase();
-      return searchable.includes(q);
+export async function browseTemplates(input: BrowseTemplatesInput, bridge: Bridge): Promise<ToolResult> {
+  const limit = input.limit || 10;
+
+  let matches;
+  let total;
+  try {
+    await syncTemplateIndex();
+    const similarTo = input.similarTo ? await resolveSimilarTo(input.similarTo, bridge) : undefined;
+    matches = queryTemplates({
+      brand: input.brand,
+      formatCategory: input.formatCategory,
+      text: input.query,
+      width: input.width,
+      height: input.height,
+      aspectRatio: input.aspectRatio,
+      similarTo,
+      sort: input.sort,
+      limit,
     });
+    total = countTemplates();
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: `Error searching templates: ${err instanceof Error ? err.message : String(err)}` }],
+      isError: true,
+    };
   }
 
-  // Limit results
-  matches = matches.slice(0, limit);
-
   if (matches.length === 0) {
     return {
       content: [{
         type: 'text',
-        text: `No templates found${input.query ? ` matching "${input.query}"` : ''}. Total templates: ${index.length}`,
+        text: `No templates found${input.query ? ` matching "${input.query}"` : ''}. Total templates: ${total}`,
       }],
     };
   }
@@ -191,16 +277,21 @@ export async function browseTemplates(input: BrowseTemplatesInput): Promise<Tool
   const content: ToolResult['content'] = [];
   content.push({
     type: 'text',
-    text: `Found ${matches.length} template${matches.length !== 1 ? 's' : ''} (${index.length} total):`,
+    text: `Found ${matches.length} template${matches.length !== 1 ? 's' : ''} (${total} total)` +
+      (input.similarTo ? ', most similar first' : input.sort === 'usage' ? ', most used first' : '') + ':',
   });
 
-  for (const t of matches) {
+  for (const { template: t, distance } of matches) {
     // Text description
-    const dims = t.dimensions ? `${t.dimensions.width}x${t.dimensions.height}` : 'unknown';
+    const dims = t.dimensions ? `${t.dimensions.width}x${t.dimensions.height}${t.aspectRatio ? `, ${t.aspectRatio}` : ''}` : 'unknown';
     const meta: string[] = [];
     if (t.formatCategory) meta.push(t.formatCategory);
     if (t.brand) meta.push(t.brand);
     if (t.tags?.length) meta.push(`tags: ${t.tags.join(', ')}`);
+    if (t.slots?.length) meta.push(`slots: ${describeSlots(t.slots)}`);
+    if (t.dominantColors?.length) meta.push(`colors: ${t.dominantColors.join(' ')}`);
+    meta.push(`used ${t.usageCount}×`);
+    if (distance !== undefined) meta.push(`distance: ${distance}`);
 
     content.push({
       type: 'text',
@@ -228,21 +319,86 @@ export async function browseTemplates(input: BrowseTemplatesInput): Promise<Tool
 
 // ─── apply_template ───
 
+const scaleModeSchema = z.enum(['FILL', 'FIT', 'CROP', 'TILE']);
+
+const slotValueSchema = z.union([
+  z.string(),
+  z.object({
+    text: z.string().optional().describe('New copy (text slots)'),
+    imagePath: z.string().optional().describe('Absolute path of an image to place (image and color slots)'),
+    scaleMode: scaleModeSchema.optional().describe('Image scale mode (default: the template image\'s, else FILL)'),
+    color: z.string().optional().describe('Hex color or brand token — text color on text slots, solid fill otherwise'),
+  }),
+]);
+
 export const applyTemplateSchema = z.object({
   templateId: z.string().describe('Template ID to apply'),
   x: z.number().optional().describe('X position for the new frame (default: 0)'),
   y: z.number().optional().describe('Y position for the new frame (default: 0)'),
   name: z.string().optional().describe('Override the frame name'),
+  slots: z.record(z.string(), slotValueSchema).optional()
+    .describe('Values by slot name. A string fills the slot by its kind — copy for text, image path for image, hex or brand token for color. An object sets several at once, e.g. { text: "Ship faster", color: "brand.accent" }'),
 });
 
 export type ApplyTemplateInput = z.infer<typeof applyTemplateSchema>;
 
+type SlotFill = {
+  slot: TemplateSlot;
+  text?: string;
+  imagePath?: string;
+  scaleMode?: z.infer<typeof scaleModeSchema>;
+  color?: string; // resolved hex
+};
+
+/**
+ * Check the slot values against the template before anything is created, so a
+ * typo doesn't leave a half-filled frame on the canvas.
+ */
+function resolveSlotFills(
+  entry: TemplateEntry,
+  template: SerializedNode,
+  values: NonNullable<ApplyTemplateInput['slots']>,
+  paletteWarnings: string[],
+): SlotFill[] {
+  const slots = entry.slots ?? [];
+  const fills: SlotFill[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const slot = slots.find(s => s.name === name);
+    if (!slot) {
+      throw new Error(
+        `Template "${entry.name}" has no slot "${name}". Slots: ${describeSlots(slots) || 'none — name nodes {{slot}} and save the template again'}`
+      );
+    }
+
+    const fill: SlotFill = typeof value === 'string'
+      ? { slot, ...(slot.kind === 'text' ? { text: value } : slot.kind === 'image' ? { imagePath: value } : { color: value }) }
+      : { slot, ...value };
+
+    if (fill.text !== undefined && slot.kind !== 'text') {
+      throw new Error(`Slot "${name}" is an ${slot.kind} slot — it takes no text`);
+    }
+    if (fill.imagePath !== undefined) {
+      if (slot.kind === 'text') throw new Error(`Slot "${name}" is a text slot — it takes no image`);
+      if (fill.color !== undefined) throw new Error(`Slot "${name}": imagePath and color both replace the fill — pass one`);
+      if (!existsSync(fill.imagePath)) throw new Error(`Slot "${name}": image not found: ${fill.imagePath}`);
+      fill.scaleMode ??= followPath(template, slot.path)?.fills?.find(p => p.type === 'IMAGE')?.scaleMode ?? 'FILL';
+    }
+    if (fill.color !== undefined) {
+      fill.color = resolveColor(fill.color, paletteWarnings, `slot ${name}`);
+    }
+    fills.push(fill);
+  }
+
+  return fills;
+}
+
 export async function applyTemplate(input: ApplyTemplateInput, bridge: Bridge): Promise<any> {
   // 1. Read template data
-  const index = readIndex();
-  const entry = index.find(t => t.templateId === input.templateId);
+  await syncTemplateIndex();
+  const entry = getTemplate(input.templateId);
   if (!entry) {
-    const available = index.map(t => `${t.name} (${t.templateId.substring(0, 8)}...)`).join(', ');
+    const available = listTemplateNames().map(t => `${t.name} (${t.templateId.substring(0, 8)}...)`).join(', ');
     throw new Error(
       `Template "${input.templateId}" not found. Available: ${available || 'none'}`
     );
@@ -253,7 +409,9 @@ export async function applyTemplate(input: ApplyTemplateInput, bridge: Bridge):
     throw new Error(`Template frame data missing at ${framePath}`);
   }
 
-  const serialized = JSON.parse(readFileSync(framePath, 'utf8'));
+  const serialized = JSON.parse(readFileSync(framePath, 'utf8')) as SerializedNode;
+  const paletteWarnings: string[] = [];
+  const slotFills = resolveSlotFills(entry, serialized, input.slots ?? {}, paletteWarnings);
 
   // 2. Extract dimensions
   const width = serialized.width || 1080;
@@ -278,17 +436,59 @@ export async function applyTemplate(input: ApplyTemplateInput, bridge: Bridge):
   const newFrameId = frameResult.id;
 
   // 4. Restore the serialized node tree into the new frame
-  await bridge.sendCommand({
-    type: 'restore_checkpoint',
-    frameId: newFrameId,
-    serialized,
-  });
+  const restored = await restoreFrame(bridge, newFrameId, serialized);
+  const warnings: string[] = [...(restored?.warnings ?? [])];
+
+  // 5. Map slots to the new node IDs and fill them
+  const slotNodeIds: Record<string, string> = {};
+  if (entry.slots?.length) {
+    const applied = await bridge.sendCommand({ type: 'serialize_frame', frameId: newFrameId }) as SerializedNode;
+    for (const slot of entry.slots) {
+      const node = applied?.id ? followPath(applied, slot.path) : null;
+      if (node) slotNodeIds[slot.name] = node.id;
+      else warnings.push(`Slot "${slot.name}" ("${slot.nodeName}") not found in the applied frame`);
+    }
+  }
+
+  const updates: BatchUpdateInput['updates'] = [];
+  for (const fill of slotFills) {
+    const nodeId = slotNodeIds[fill.slot.name];
+    if (!nodeId) continue;
+
+    if (fill.imagePath !== undefined) {
+      await bridge.sendCommand({
+        type: 'image_data',
+        base64: readFileAsBase64(fill.imagePath),
+        targetNodeId: nodeId,
+        scaleMode: fill.scaleMode!,
+      });
+    }
+    const properties: BatchUpdateInput['updates'][number]['properties'] = {};
+    if (fill.text !== undefined) properties.characters = fill.text;
+    if (fill.color !== undefined) {
+      if (fill.slot.kind === 'text') properties.fontColor = fill.color;
+      else properties.fillColor = fill.color;
+    }
+    if (Object.keys(properties).length > 0) updates.push({ nodeId, properties });
+  }
+
+  if (updates.length > 0) {
+    const result = await batchUpdate({ updates }, bridge);
+    for (const error of result.errors ?? []) warnings.push(typeof error === 'string' ? error : JSON.stringify(error));
+  }
+
+  markTemplateUsed(entry.templateId);
+  const filled = slotFills.filter(f => slotNodeIds[f.slot.name]).map(f => f.slot.name);
 
   return {
     frameId: newFrameId,
     templateId: input.templateId,
     templateName: entry.name,
     dimensions: { width, height },
-    message: `Applied template "${entry.name}" → frame ${newFrameId} (${width}x${height})`,
+    slotNodeIds,
+    message: `Applied template "${entry.name}" → frame ${newFrameId} (${width}x${height})` +
+      (filled.length > 0 ? `, filled slots: ${filled.join(', ')}` : '') +
+      (warnings.length ? `. WARNINGS: ${warnings.join('; ')}` : '') +
+      formatPaletteWarnings(paletteWarnings),
   };
 }
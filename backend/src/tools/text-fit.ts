@@ -0,0 +1,184 @@
+/**
+ * Text fitting for apply_typography
+ *
+ * Picks the largest font size (within role bounds) at which a text block fits a
+ * box, and where its lines break. Words are measured once in the plugin at a
+ * reference size (measure_text) — glyph advances scale linearly with font size,
+ * so the binary search over sizes and the line breaking run here without further
+ * round-trips. apply_typography then reads back the created node and steps the
+ * size down if real layout came out larger than the estimate.
+ *
+ * Balanced breaking narrows the wrap width as far as it goes without adding a
+ * line, so lines come out even instead of one long line and a short orphan.
+ */
+
+import type { Bridge } from '../bridge.js';
+
+const REFERENCE_SIZE = 100;
+
+export type TypographyRole = 'headline' | 'subhead' | 'body' | 'label' | 'fine_print';
+
+/** Font size bounds per role — minimums follow the 40px/32px/24px legibility rules */
+export const ROLE_FIT_BOUNDS: Record<TypographyRole, { minSize: number; maxSize: number; maxLines?: number }> = {
+  headline: { minSize: 72, maxSize: 200, maxLines: 3 },
+  subhead: { minSize: 40, maxSize: 72, maxLines: 3 },
+  body: { minSize: 40, maxSize: 56 },
+  label: { minSize: 32, maxSize: 48, maxLines: 1 },
+  fine_print: { minSize: 24, maxSize: 32 },
+};
+
+export interface FitBounds {
+  maxWidth: number;
+  maxHeight?: number;
+  maxLines?: number;
+  minSize: number;
+  maxSize: number;
+  balance: boolean;
+  /** Gap between lines as a fraction of font size (split-stack headlines) */
+  lineGapRatio: number;
+}
+
+export interface TextMetrics {
+  /** Words per paragraph with their width at REFERENCE_SIZE */
+  paragraphs: Array<Array<{ text: string; width: number }>>;
+  spaceWidth: number;
+  lineHeight: number;
+  fontApplied?: { family: string; style: string };
+}
+
+export interface TextFit {
+  fontSize: number;
+  lines: string[];
+  /** Widest line and block height at fontSize (estimated) */
+  width: number;
+  height: number;
+  /** Wrap width the lines were broken at */
+  wrapWidth: number;
+  /** True when even minSize doesn't fit the box */
+  overflow: boolean;
+  balanced: boolean;
+}
+
+/**
+ * Measure every word of the text (and a space) at the reference size, in one call
+ */
+export async function measureWords(bridge: Bridge, text: string, fontFamily: string, fontStyle: string): Promise<TextMetrics> {
+  const paragraphs = text.split('\n').map(p => p.split(/\s+/).filter(Boolean));
+  const unique = [...new Set(paragraphs.flat())];
+  const result = await bridge.sendCommand({
+    type: 'measure_text',
+    texts: [...unique, 'x', 'x x'],
+    fontFamily,
+    fontStyle,
+    fontSize: REFERENCE_SIZE,
+  });
+
+  const widths: number[] = result.widths;
+  const byWord = new Map(unique.map((word, i) => [word, widths[i]]));
+  const x = widths[unique.length];
+  return {
+    paragraphs: paragraphs.map(words => words.map(word => ({ text: word, width: byWord.get(word) ?? 0 }))),
+    spaceWidth: Math.max(0, widths[unique.length + 1] - 2 * x),
+    lineHeight: result.lineHeight,
+    fontApplied: result.fontApplied,
+  };
+}
+
+/**
+ * Greedy line breaking at a font size. Paragraph breaks are kept.
+ */
+export function breakLines(metrics: TextMetrics, fontSize: number, wrapWidth: number): { lines: string[]; width: number } {
+  const scale = fontSize / REFERENCE_SIZE;
+  const space = metrics.spaceWidth * scale;
+  const lines: string[] = [];
+  let widest = 0;
+
+  for (const words of metrics.paragraphs) {
+    let line: string[] = [];
+    let lineWidth = 0;
+    for (const word of words) {
+      const w = word.width * scale;
+      if (line.length > 0 && lineWidth + space + w > wrapWidth) {
+        lines.push(line.join(' '));
+        widest = Math.max(widest, lineWidth);
+        line = [];
+        lineWidth = 0;
+      }
+      lineWidth += (line.length > 0 ? space : 0) + w;
+      line.push(word.text);
+    }
+    lines.push(line.join(' '));
+    widest = Math.max(widest, lineWidth);
+  }
+  return { lines, width: Math.ceil(widest) };
+}
+
+function blockHeight(metrics: TextMetrics, fontSize: number, lineCount: number, lineGapRatio: number): number {
+  const lineHeight = metrics.lineHeight * fontSize / REFERENCE_SIZE;
+  return Math.ceil(lineCount * lineHeight + (lineCount - 1) * Math.round(fontSize * lineGapRatio));
+}
+
+function layoutAt(metrics: TextMetrics, fontSize: number, bounds: FitBounds): { lines: string[]; width: number; height: number; fits: boolean } {
+  const { lines, width } = breakLines(metrics, fontSize, bounds.maxWidth);
+  const height = blockHeight(metrics, fontSize, lines.length, bounds.lineGapRatio);
+  const fits = width <= bounds.maxWidth
+    && (bounds.maxHeight === undefined || height <= bounds.maxHeight)
+    && (bounds.maxLines === undefined || lines.length <= bounds.maxLines);
+  return { lines, width, height, fits };
+}
+
+/**
+ * Largest font size in [minSize, maxSize] whose lines fit the box, then balanced
+ * line breaks if asked for
+ */
+export function fitText(metrics: TextMetrics, bounds: FitBounds): TextFit {
+  let lo = Math.round(bounds.minSize);
+  let hi = Math.round(bounds.maxSize);
+  let best = layoutAt(metrics, lo, bounds);
+  let fontSize = lo;
+
+  if (best.fits) {
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      const attempt = layoutAt(metrics, mid, bounds);
+      if (attempt.fits) {
+        lo = mid;
+        best = attempt;
+        fontSize = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+  }
+
+  let lines = best.lines;
+  let width = best.width;
+  let wrapWidth = bounds.maxWidth;
+  let balanced = false;
+
+  if (bounds.balance && lines.length > 1) {
+    // Narrowest wrap width that keeps the same number of lines
+    let narrow = 1;
+    let wide = Math.floor(bounds.maxWidth);
+    while (narrow < wide) {
+      const mid = Math.floor((narrow + wide) / 2);
+      if (breakLines(metrics, fontSize, mid).lines.length <= lines.length) wide = mid;
+      else narrow = mid + 1;
+    }
+    const result = breakLines(metrics, fontSize, wide);
+    lines = result.lines;
+    width = result.width;
+    wrapWidth = wide;
+    balanced = true;
+  }
+
+  return {
+    fontSize,
+    lines,
+    width,
+    height: blockHeight(metrics, fontSize, lines.length, bounds.lineGapRatio),
+    wrapWidth,
+    overflow: !best.fits,
+    balanced,
+  };
+}
@@ -7,7 +7,8 @@
 
 import { z } from 'zod';
 import type { Bridge } from '../bridge.js';
-import { hexToRgb, hexToRgba } from './utils.js';
+import { hexToRgba, hexToSolidPaint } from './utils.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
 
 export const updateNodeSchema = z.object({
   nodeId: z.string().describe('ID of the node to update'),
@@ -22,8 +23,8 @@ export const updateNodeSchema = z.object({
     visible: z.boolean().optional().describe('Visibility'),
     name: z.string().optional().describe('Node name'),
     // Visual
-    fillColor: z.string().optional().describe('Hex color for solid fill'),
-    strokeColor: z.string().optional().describe('Hex color for stroke'),
+    fillColor: z.string().optional().describe('Hex color or brand token (e.g., "brand.primary") for solid fill'),
+    strokeColor: z.string().optional().describe('Hex color or brand token for stroke'),
     strokeWeight: z.number().optional().describe('Stroke weight'),
     cornerRadius: z.number().optional().describe('Corner radius'),
     // Auto-layout (FRAME only)
@@ -47,7 +48,7 @@ export const updateNodeSchema = z.object({
       .describe('AUTO=participates in auto-layout flow, ABSOLUTE=positioned by x/y ignoring auto-layout. Set on CHILD node.'),
     // Text
     fontSize: z.number().optional().describe('Font size'),
-    fontColor: z.string().optional().describe('Hex color for text'),
+    fontColor: z.string().optional().describe('Hex color or brand token for text'),
     characters: z.string().optional().describe('Replace text content'),
     textAlignHorizontal: z.enum(['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED']).optional().describe('Text horizontal alignment'),
     textAutoResize: z.enum(['NONE', 'WIDTH_AND_HEIGHT', 'HEIGHT']).optional().describe('Text auto-resize mode'),
@@ -59,6 +60,7 @@ export type UpdateNodeInput = z.infer<typeof updateNodeSchema>;
 export async function updateNode(input: UpdateNodeInput, bridge: Bridge): Promise<any> {
   const props: any = {};
   const p = input.properties;
+  const paletteWarnings: string[] = [];
 
   // Position & dimensions
   if (p.x !== undefined) props.x = p.x;
@@ -72,10 +74,10 @@ export async function updateNode(input: UpdateNodeInput, bridge: Bridge): Promis
 
   // Visual properties
   if (p.fillColor) {
-    props.fills = [{ type: 'SOLID', color: hexToRgb(p.fillColor) }];
+    props.fills = [hexToSolidPaint(resolveColor(p.fillColor, paletteWarnings, 'fillColor'))];
   }
   if (p.strokeColor) {
-    props.strokes = [{ type: 'SOLID', color: hexToRgb(p.strokeColor) }];
+    props.strokes = [hexToSolidPaint(resolveColor(p.strokeColor, paletteWarnings, 'strokeColor'))];
   }
   if (p.strokeWeight !== undefined) props.strokeWeight = p.strokeWeight;
   if (p.cornerRadius !== undefined) props.cornerRadius = p.cornerRadius;
@@ -99,7 +101,7 @@ export async function updateNode(input: UpdateNodeInput, bridge: Bridge): Promis
   // Text properties
   if (p.fontSize !== undefined) props.fontSize = p.fontSize;
   if (p.fontColor) {
-    props.fills = [{ type: 'SOLID', color: hexToRgb(p.fontColor) }];
+    props.fills = [hexToSolidPaint(resolveColor(p.fontColor, paletteWarnings, 'fontColor'))];
   }
   if (p.characters !== undefined) props.characters = p.characters;
   if (p.textAlignHorizontal !== undefined) props.textAlignHorizontal = p.textAlignHorizontal;
@@ -124,6 +126,6 @@ export async function updateNode(input: UpdateNodeInput, bridge: Bridge): Promis
   if (p.textAlignHorizontal !== undefined || p.textAutoResize !== undefined) changes.push('text-layout');
 
   return {
-    message: `Updated ${changes.length > 0 ? changes.join(', ') : 'properties'}`,
+    message: `Updated ${changes.length > 0 ? changes.join(', ') : 'properties'}${formatPaletteWarnings(paletteWarnings)}`,
   };
 }
@@ -6,6 +6,7 @@
  */
 
 import { readFileSync } from 'fs';
+import type { SerializedNode } from '../../../shared/protocol.js';
 
 /**
  * Convert hex color to Figma RGB object (values 0-1)
@@ -47,6 +48,39 @@ export function hexToRgba(hex: string): { r: number; g: number; b: number; a: nu
   return { ...rgb, a };
 }
 
+/**
+ * Solid paint from 6 or 8 character hex. 8-char alpha becomes the paint opacity.
+ */
+export function hexToSolidPaint(hex: string): { type: 'SOLID'; color: { r: number; g: number; b: number }; opacity?: number } {
+  const { r, g, b, a } = hexToRgba(hex);
+  return a < 1 ? { type: 'SOLID', color: { r, g, b }, opacity: a } : { type: 'SOLID', color: { r, g, b } };
+}
+
+/**
+ * Convert Figma RGB object (values 0-1) to uppercase 6-char hex with #
+ */
+export function rgbToHex(color: { r: number; g: number; b: number }): string {
+  const toHex = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0');
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`.toUpperCase();
+}
+
+/**
+ * WCAG relative luminance of an RGB color (values 0-1)
+ */
+export function relativeLuminance(color: { r: number; g: number; b: number }): number {
+  const channel = (v: number) => (v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * WCAG contrast ratio between two RGB colors (1 to 21)
+ */
+export function contrastRatio(a: { r: number; g: number; b: number }, b: { r: number; g: number; b: number }): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
 /**
  * Convert font weight number to Figma style string
  */
@@ -103,3 +137,25 @@ export function rotationToGradientTransform(
     [-sin, cos, ty],
   ];
 }
+
+/**
+ * Child-index path from root to the node, or null if it isn't in the tree.
+ * Paths survive duplicate_frame and template restores, where node IDs don't.
+ */
+export function findPath(root: SerializedNode, nodeId: string): number[] | null {
+  if (root.id === nodeId) return [];
+  const children = root.children ?? [];
+  for (let i = 0; i < children.length; i++) {
+    const rest = findPath(children[i], nodeId);
+    if (rest) return [i, ...rest];
+  }
+  return null;
+}
+
+export function followPath(root: SerializedNode, nodePath: number[]): SerializedNode | null {
+  let node: SerializedNode | undefined = root;
+  for (const i of nodePath) {
+    node = node?.children?.[i];
+  }
+  return node ?? null;
+}
@@ -0,0 +1,227 @@
+/**
+ * build_variant_matrix tool
+ *
+ * A/B test grid from one finished ad: every combination of the given axes
+ * (headline copy, background fill, product image) as its own frame.
+ * Each cell is a duplicate_frame copy of the base, placed in a grid to the right
+ * of it — the last axis runs along the columns, the others down the rows — and
+ * updated with one batch_update. Nodes are matched in the copy by their position
+ * in the tree, so the axes reference node IDs of the base frame.
+ *
+ * Cells are named "{base} — {axis}{n} · {axis}{n}" (1-based), and the manifest
+ * mapping frames to values is returned and saved in the session's matrices folder.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { Bridge } from '../bridge.js';
+import type { SerializedNode } from '../../../shared/protocol.js';
+import { getAssetOutputDir } from '../session-state.js';
+import { duplicateFrame } from './duplicate-frame.js';
+import { batchUpdate, type BatchUpdateInput } from './batch-update.js';
+import { readFileAsBase64, findPath, followPath } from './utils.js';
+import { resolveColor, formatPaletteWarnings } from './brand-tokens.js';
+
+const MAX_CELLS = 36;
+
+const AXIS_LABELS = { text: 'T', background: 'B', image: 'P' } as const;
+
+const axisSchema = z.object({
+  kind: z.enum(['text', 'background', 'image'])
+    .describe('text: replace a text node\'s copy. background: solid fill (hex or brand token) on the frame, or on a background layer via nodeId. image: image file into a node (e.g. the Product frame)'),
+  nodeId: z.string().optional().describe('Node in the base frame to vary. Required for text and image; background defaults to the frame itself'),
+  values: z.array(z.string()).min(1).max(10).describe('Copies, fills or absolute image paths — one per variant'),
+  name: z.string().max(12).optional().describe('Short axis label used in frame names (default: T, B or P by kind)'),
+  scaleMode: z.enum(['FILL', 'FIT', 'CROP', 'TILE']).optional()
+    .describe('Image axes: scale mode for the placed images (default: the base node\'s image, else FIT)'),
+});
+
+export const buildVariantMatrixSchema = z.object({
+  frameId: z.string().describe('Base ad frame to vary'),
+  axes: z.array(axisSchema).min(1).max(3).describe('Axes of variation; the grid holds every combination'),
+  gap: z.number().optional().describe('Gap between frames in px. Default: 100'),
+});
+
+export type BuildVariantMatrixInput = z.infer<typeof buildVariantMatrixSchema>;
+
+type Axis = z.infer<typeof axisSchema>;
+
+/** An axis checked against the base frame, background values resolved to hex */
+interface ResolvedAxis {
+  /** Child-index path of the varied node, to find it in each copy */
+  path: number[];
+  values: string[];
+  scaleMode?: NonNullable<Axis['scaleMode']>;
+}
+
+export interface MatrixCell {
+  frameId: string;
+  name: string;
+  row: number;
+  column: number;
+  /** Value index per axis, 0-based, in axis order */
+  indices: number[];
+  /** Value per axis label */
+  values: Record<string, string>;
+}
+
+async function serializeFrame(bridge: Bridge, frameId: string): Promise<SerializedNode> {
+  const serialized = await bridge.sendCommand({ type: 'serialize_frame', frameId });
+  if (!serialized || !serialized.id) {
+    throw new Error(`Failed to serialize frame ${frameId}`);
+  }
+  return serialized as SerializedNode;
+}
+
+/**
+ * Every combination of value indices, first axis slowest
+ */
+function combinations(sizes: number[]): number[][] {
+  return sizes.reduce<number[][]>(
+    (combos, size) => combos.flatMap(c => Array.from({ length: size }, (_, i) => [...c, i])),
+    [[]],
+  );
+}
+
+function axisLabels(axes: Axis[]): string[] {
+  const labels = axes.map(a => a.name || AXIS_LABELS[a.kind]);
+  // Two axes of one kind without names would make ambiguous frame names
+  return labels.map((label, i) => labels.indexOf(label) !== i || labels.lastIndexOf(label) !== i ? `${label}${i + 1}-` : label);
+}
+
+/**
+ * Check every axis against the base frame before the first copy is made, so a bad
+ * node ID, image path or brand token doesn't leave a half-built grid on the canvas
+ */
+function validateAxes(axes: Axis[], base: SerializedNode, paletteWarnings: string[]): ResolvedAxis[] {
+  return axes.map((axis, i) => {
+    const nodeId = axis.nodeId ?? (axis.kind === 'background' ? base.id : undefined);
+    if (!nodeId) throw new Error(`Axis ${i + 1} (${axis.kind}) needs a nodeId`);
+
+    const nodePath = findPath(base, nodeId);
+    if (!nodePath) throw new Error(`Axis ${i + 1}: node ${nodeId} is not inside frame "${base.name}"`);
+
+    const node = followPath(base, nodePath)!;
+    if (axis.kind === 'text' && node.type !== 'TEXT') {
+      throw new Error(`Axis ${i + 1}: ${nodeId} is a ${node.type}, not a TEXT node`);
+    }
+    if (axis.kind === 'image') {
+      const missing = axis.values.filter(p => !fs.existsSync(p));
+      if (missing.length > 0) throw new Error(`Axis ${i + 1}: image not found: ${missing.join(', ')}`);
+      const scaleMode = axis.scaleMode ?? node.fills?.find(p => p.type === 'IMAGE')?.scaleMode ?? 'FIT';
+      return { path: nodePath, values: axis.values, scaleMode };
+    }
+    if (axis.kind === 'background') {
+      const values = axis.values.map(v => resolveColor(v, paletteWarnings, `axis ${i + 1} background`));
+      return { path: nodePath, values };
+    }
+    return { path: nodePath, values: axis.values };
+  });
+}
+
+function saveManifest(base: SerializedNode, manifest: object): string | undefined {
+  try {
+    const dir = path.join(getAssetOutputDir(), 'matrices');
+    fs.mkdirSync(dir, { recursive: true });
+    const slug = base.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'frame';
+    const file = path.join(dir, `${slug}_${Date.now()}.json`);
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2), 'utf-8');
+    return file;
+  } catch {
+    // No active session — the manifest is still in the tool result
+    return undefined;
+  }
+}
+
+export async function buildVariantMatrix(input: BuildVariantMatrixInput, bridge: Bridge): Promise<any> {
+  const gap = input.gap ?? 100;
+  const base = await serializeFrame(bridge, input.frameId);
+  if (base.type !== 'FRAME') {
+    throw new Error(`build_variant_matrix needs a FRAME, got ${base.type} (${input.frameId})`);
+  }
+
+  const sizes = input.axes.map(a => a.values.length);
+  const total = sizes.reduce((a, b) => a * b, 1);
+  if (total > MAX_CELLS) {
+    return {
+      error: true,
+      message: `${sizes.join(' × ')} = ${total} frames — the limit is ${MAX_CELLS}. Drop values or split the matrix.`,
+    };
+  }
+
+  const paletteWarnings: string[] = [];
+  const resolved = validateAxes(input.axes, base, paletteWarnings);
+  const labels = axisLabels(input.axes);
+  const columns = sizes[sizes.length - 1];
+  const cells: MatrixCell[] = [];
+  const warnings: string[] = [];
+
+  for (const [n, indices] of combinations(sizes).entries()) {
+    const row = Math.floor(n / columns);
+    const column = n % columns;
+    const name = `${base.name} — ${indices.map((v, i) => `${labels[i]}${v + 1}`).join(' · ')}`;
+
+    const { duplicateId } = await duplicateFrame({
+      frameId: input.frameId,
+      newName: name,
+      offsetX: (base.width + gap) * (column + 1),
+    }, bridge);
+    const clone = await serializeFrame(bridge, duplicateId);
+
+    const updates: BatchUpdateInput['updates'] = [
+      { nodeId: duplicateId, properties: { y: base.y + (base.height + gap) * row } },
+    ];
+    for (const [i, axis] of input.axes.entries()) {
+      const target = followPath(clone, resolved[i].path);
+      if (!target) {
+        warnings.push(`${name}: ${labels[i]} node missing in the copy`);
+        continue;
+      }
+      const value = resolved[i].values[indices[i]];
+      if (axis.kind === 'text') {
+        updates.push({ nodeId: target.id, properties: { characters: value } });
+      } else if (axis.kind === 'background') {
+        updates.push({ nodeId: target.id, properties: { fillColor: value } });
+      } else {
+        await bridge.sendCommand({
+          type: 'image_data',
+          base64: readFileAsBase64(value),
+          targetNodeId: target.id,
+          scaleMode: resolved[i].scaleMode!,
+        });
+      }
+    }
+
+    const result = await batchUpdate({ updates }, bridge);
+    for (const error of result.errors ?? []) warnings.push(`${name}: ${typeof error === 'string' ? error : JSON.stringify(error)}`);
+
+    cells.push({
+      frameId: duplicateId,
+      name,
+      row,
+      column,
+      indices,
+      values: Object.fromEntries(indices.map((v, i) => [labels[i], input.axes[i].values[v]])),
+    });
+  }
+
+  const manifest = {
+    baseFrameId: base.id,
+    baseName: base.name,
+    axes: input.axes.map((a, i) => ({ label: labels[i], kind: a.kind, nodeId: a.nodeId ?? base.id, values: a.values })),
+    cells,
+    createdAt: new Date().toISOString(),
+  };
+  const manifestPath = saveManifest(base, manifest);
+
+  return {
+    ...manifest,
+    manifestPath,
+    warnings,
+    message: `Built ${sizes.join(' × ')} matrix from "${base.name}": ${cells.length} frames in ${total / columns} row${total / columns === 1 ? '' : 's'} × ${columns} column${columns === 1 ? '' : 's'}` +
+      (warnings.length > 0 ? `. ${warnings.length} warning${warnings.length === 1 ? '' : 's'} — check warnings` : '') +
+      '. Lint or screenshot a few cells before exporting — longer copy can overflow.' +
+      formatPaletteWarnings(paletteWarnings),
+  };
+}
@@ -11,7 +11,8 @@
  * - Monitor selection changes and relay to UI
  */
 
-import type { PluginCommand, PluginResponse, NodeInfo, SerializedNode, SerializedPaint, SerializedEffect } from '../../shared/protocol';
+import type { PluginCommand, PluginResponse, NodeInfo } from '../../shared/protocol';
+import { serializeNode, restoreFrame, loadFontWithFallback, loadTextFonts, applyTextRuns } from './serialization';
 
 // Show UI panel
 figma.showUI(__html__, {
@@ -51,6 +52,15 @@ figma.ui.onmessage = async (msg: PluginCommand) => {
       case 'batch_operations':
         await handleBatchOperations(msg);
         break;
+      case 'measure_text':
+        await handleMeasureText(msg);
+        break;
+      case 'read_images':
+        await handleReadImages(msg);
+        break;
+      case 'find_missing_images':
+        await handleFindMissingImages(msg);
+        break;
       default: {
         const unhandled = msg as PluginCommand;
         sendError(unhandled.id, `Unknown command type: ${(unhandled as any).type}`);
@@ -157,9 +167,11 @@ async function handleFigmaCall(msg: Extract<PluginCommand, { type: 'figma_call'
       // Set font size
       if (opts.fontSize) text.fontSize = opts.fontSize;
 
-      // Set text color via fills (fontColor from tool → fills array)
+      // Set text color via fills (fontColor from tool → fills array; fontOpacity from 8-digit hex)
       if (opts.fontColor) {
-        text.fills = [{ type: 'SOLID', color: opts.fontColor }];
+        text.fills = [opts.fontOpacity !== undefined
+          ? { type: 'SOLID', color: opts.fontColor, opacity: opts.fontOpacity }
+          : { type: 'SOLID', color: opts.fontColor }];
       }
 
       // Set text auto-resize for proper sizing
@@ -185,7 +197,16 @@ async function handleFigmaCall(msg: Extract<PluginCommand, { type: 'figma_call'
       // Apply remaining properties (position, etc.)
       await applyNodeProperties(text, opts);
 
-      return { id: text.id, fontApplied: { family: fontFamily, style: fontStyle } };
+      // Rich text runs go last — setting characters or the node font resets them
+      const runFontFallbacks = Array.isArray(opts.textRuns) && opts.textRuns.length > 0
+        ? await applyTextRuns(text, opts.textRuns)
+        : [];
+
+      return {
+        id: text.id,
+        fontApplied: { family: fontFamily, style: fontStyle },
+        runFontFallbacks: runFontFallbacks.length > 0 ? runFontFallbacks : undefined,
+      };
     },
     createRectangle: async (opts: any) => {
       const rect = figma.createRectangle();
@@ -317,325 +338,33 @@ async function handleRestoreCheckpoint(msg: Extract<PluginCommand, { type: 'rest
   const targetFrame = figma.getNodeById(frameId) as FrameNode;
   if (!targetFrame) throw new Error(`Frame not found: ${frameId}`);
 
-  // Step 1: Collect image hashes from the existing tree before clearing
-  // (image data survives in Figma's image store by hash)
-  const existingImageHashes = new Set<string>();
-  collectImageHashes(targetFrame, existingImageHashes);
-
-  // Step 2: Clear all children
-  while (targetFrame.children.length > 0) {
-    targetFrame.children[0].remove();
-  }
-
-  // Step 3: Restore frame properties from serialized root
-  await restoreNodeProperties(targetFrame, serialized);
-
-  // Step 4: Recursively rebuild children
-  if (serialized.children) {
-    for (const childData of serialized.children) {
-      await rebuildNode(childData, targetFrame);
-    }
-  }
-
-  sendResult(id, { success: true, frameId, childrenRestored: serialized.children?.length ?? 0 });
-}
+  const { missingImages, warnings } = await restoreFrame(targetFrame, serialized, msg.images ?? {});
 
-function collectImageHashes(node: SceneNode, hashes: Set<string>): void {
-  if ('fills' in node) {
-    const fills = (node as any).fills;
-    if (fills !== figma.mixed && Array.isArray(fills)) {
-      for (const fill of fills) {
-        if (fill.type === 'IMAGE' && fill.imageHash) {
-          hashes.add(fill.imageHash);
-        }
-      }
-    }
-  }
-  if ('children' in node) {
-    for (const child of (node as ChildrenMixin).children) {
-      collectImageHashes(child as SceneNode, hashes);
-    }
-  }
-}
-
-async function rebuildNode(data: SerializedNode, parent: FrameNode | GroupNode): Promise<SceneNode> {
-  let node: SceneNode;
-
-  switch (data.type) {
-    case 'FRAME': {
-      const frame = figma.createFrame();
-      parent.appendChild(frame);
-      // Apply properties and then rebuild children
-      await restoreNodeProperties(frame, data);
-      if (data.children) {
-        for (const childData of data.children) {
-          await rebuildNode(childData, frame);
-        }
-      }
-      node = frame;
-      break;
-    }
-    case 'TEXT': {
-      const text = figma.createText();
-      // Load font before appending and setting properties
-      const fontFamily = data.fontName?.family || 'Inter';
-      const fontStyle = data.fontName?.style || 'Regular';
-      try {
-        await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
-      } catch {
-        // Fallback to Inter/Regular
-        try {
-          await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-        } catch {
-          // Last resort — continue without font loaded
-        }
-      }
-      parent.appendChild(text);
-      await restoreNodeProperties(text, data);
-      node = text;
-      break;
-    }
-    case 'RECTANGLE': {
-      const rect = figma.createRectangle();
-      parent.appendChild(rect);
-      await restoreNodeProperties(rect, data);
-      node = rect;
-      break;
-    }
-    case 'ELLIPSE': {
-      const ellipse = figma.createEllipse();
-      parent.appendChild(ellipse);
-      await restoreNodeProperties(ellipse, data);
-      node = ellipse;
-      break;
-    }
-    default: {
-      // For unsupported types, create a rectangle placeholder
-      const placeholder = figma.createRectangle();
-      parent.appendChild(placeholder);
-      placeholder.name = `[${data.type}] ${data.name}`;
-      placeholder.resize(data.width || 100, data.height || 100);
-      placeholder.x = data.x || 0;
-      placeholder.y = data.y || 0;
-      node = placeholder;
-      break;
-    }
-  }
-
-  return node;
+  sendResult(id, {
+    success: true,
+    frameId,
+    childrenRestored: serialized.children?.length ?? 0,
+    missingImages: missingImages.length > 0 ? missingImages : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  });
 }
 
-async function restoreNodeProperties(node: SceneNode, data: SerializedNode): Promise<void> {
-  // Name
-  if (data.name) node.name = data.name;
-
-  // Position and dimensions
-  const ln = node as SceneNode & LayoutMixin;
-  if (data.x !== undefined) ln.x = data.x;
-  if (data.y !== undefined) ln.y = data.y;
-  if (data.width !== undefined && data.height !== undefined) {
-    ln.resize(data.width, data.height);
-  }
-  if (data.rotation !== undefined) ln.rotation = data.rotation;
-
-  // Visibility and locked state
-  if (data.visible === false) node.visible = false;
-  if (data.locked === true) node.locked = true;
-
-  // Opacity
-  if (data.opacity !== undefined) {
-    (node as BlendMixin).opacity = data.opacity;
-  }
-
-  // Fills — restore solid, gradient, and image fills
-  if (data.fills && 'fills' in node) {
-    const restoredFills: Paint[] = [];
-    for (const fill of data.fills) {
-      const paint = restorePaint(fill);
-      if (paint) restoredFills.push(paint);
-    }
-    if (restoredFills.length > 0) {
-      (node as GeometryMixin).fills = restoredFills;
-    }
-  }
-
-  // Strokes
-  if (data.strokes && 'strokes' in node) {
-    const restoredStrokes: Paint[] = [];
-    for (const stroke of data.strokes) {
-      const paint = restorePaint(stroke);
-      if (paint) restoredStrokes.push(paint);
-    }
-    if (restoredStrokes.length > 0) {
-      (node as GeometryMixin).strokes = restoredStrokes;
-    }
-  }
-
-  // Stroke weight
-  if (data.strokeWeight !== undefined && 'strokeWeight' in node) {
-    (node as GeometryMixin).strokeWeight = data.strokeWeight;
-  }
-
-  // Corner radius
-  if (data.cornerRadius !== undefined && 'cornerRadius' in node) {
-    (node as RectangleNode | FrameNode).cornerRadius = data.cornerRadius;
-  }
-
-  // Effects
-  if (data.effects && 'effects' in node) {
-    const restoredEffects: Effect[] = data.effects.map(e => restoreEffect(e));
-    (node as BlendMixin).effects = restoredEffects;
-  }
-
-  // Layout positioning (must be set before auto-layout props to avoid conflicts)
-  if (data.layoutPositioning !== undefined) {
-    (node as any).layoutPositioning = data.layoutPositioning;
-  }
-
-  // Layout sizing
-  if (data.layoutSizingHorizontal !== undefined) {
-    (node as any).layoutSizingHorizontal = data.layoutSizingHorizontal;
-  }
-  if (data.layoutSizingVertical !== undefined) {
-    (node as any).layoutSizingVertical = data.layoutSizingVertical;
-  }
-
-  // Auto-layout properties (FRAME only)
-  if (node.type === 'FRAME') {
-    const frame = node as FrameNode;
-
-    // Set layoutMode first — this enables auto-layout
-    if (data.layoutMode !== undefined) {
-      frame.layoutMode = data.layoutMode as 'NONE' | 'HORIZONTAL' | 'VERTICAL';
-    }
-
-    if (data.layoutMode && data.layoutMode !== 'NONE') {
-      if (data.itemSpacing !== undefined) frame.itemSpacing = data.itemSpacing;
-      if (data.paddingTop !== undefined) frame.paddingTop = data.paddingTop;
-      if (data.paddingRight !== undefined) frame.paddingRight = data.paddingRight;
-      if (data.paddingBottom !== undefined) frame.paddingBottom = data.paddingBottom;
-      if (data.paddingLeft !== undefined) frame.paddingLeft = data.paddingLeft;
-      if (data.primaryAxisAlignItems !== undefined) {
-        frame.primaryAxisAlignItems = data.primaryAxisAlignItems as 'MIN' | 'MAX' | 'CENTER' | 'SPACE_BETWEEN';
-      }
-      if (data.counterAxisAlignItems !== undefined) {
-        frame.counterAxisAlignItems = data.counterAxisAlignItems as 'MIN' | 'MAX' | 'CENTER';
-      }
-      if (data.primaryAxisSizingMode !== undefined) {
-        frame.primaryAxisSizingMode = data.primaryAxisSizingMode as 'FIXED' | 'AUTO';
-      }
-      if (data.counterAxisSizingMode !== undefined) {
-        frame.counterAxisSizingMode = data.counterAxisSizingMode as 'FIXED' | 'AUTO';
-      }
-    }
-
-    // Layout sizing for child frames inside auto-layout parents
-    if (data.layoutSizingHorizontal !== undefined) {
-      frame.layoutSizingHorizontal = data.layoutSizingHorizontal as 'FIXED' | 'HUG' | 'FILL';
-    }
-    if (data.layoutSizingVertical !== undefined) {
-      frame.layoutSizingVertical = data.layoutSizingVertical as 'FIXED' | 'HUG' | 'FILL';
-    }
-
-    // Clips content
-    if (data.clipsContent !== undefined) frame.clipsContent = data.clipsContent;
-
-    // ALWAYS re-apply dimensions after layout mode changes — layoutMode triggers HUG which shrinks
-    if (data.width !== undefined && data.height !== undefined) {
-      frame.resize(data.width, data.height);
-    }
-  }
-
-  // Text properties (TEXT only)
-  if (node.type === 'TEXT') {
-    const text = node as TextNode;
-
-    // Font must be loaded before setting text properties
-    if (data.fontName) {
-      try {
-        await figma.loadFontAsync(data.fontName);
-        text.fontName = data.fontName;
-      } catch {
-        // Fallback — font already loaded in rebuildNode
-      }
-    }
-
-    if (data.characters !== undefined) text.characters = data.characters;
-    if (data.fontSize !== undefined) text.fontSize = data.fontSize as number;
-    if (data.textAlignHorizontal !== undefined) {
-      text.textAlignHorizontal = data.textAlignHorizontal as 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
-    }
-    if (data.textAlignVertical !== undefined) {
-      text.textAlignVertical = data.textAlignVertical as 'TOP' | 'CENTER' | 'BOTTOM';
-    }
-    if (data.textAutoResize !== undefined) {
-      text.textAutoResize = data.textAutoResize as 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE';
-    }
-    if (data.lineHeight !== undefined) {
-      text.lineHeight = data.lineHeight as LineHeight;
-    }
-    if (data.letterSpacing !== undefined) {
-      text.letterSpacing = data.letterSpacing as LetterSpacing;
-    }
-    if (data.textCase !== undefined) {
-      text.textCase = data.textCase as TextCase;
-    }
-    if (data.textDecoration !== undefined) {
-      text.textDecoration = data.textDecoration as TextDecoration;
+async function handleReadImages(msg: Extract<PluginCommand, { type: 'read_images' }>) {
+  const images: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const hash of msg.hashes) {
+    const image = figma.getImageByHash(hash);
+    if (!image) {
+      missing.push(hash);
+      continue;
     }
+    images[hash] = figma.base64Encode(await image.getBytesAsync());
   }
+  sendResult(msg.id, { images, missing });
 }
 
-function restorePaint(fill: SerializedPaint): Paint | null {
-  if (fill.type === 'SOLID' && fill.color) {
-    return {
-      type: 'SOLID',
-      color: fill.color,
-      opacity: fill.opacity ?? 1,
-      visible: fill.visible ?? true,
-    } as SolidPaint;
-  }
-
-  if (fill.type.startsWith('GRADIENT') && fill.gradientStops) {
-    return {
-      type: fill.type as GradientPaint['type'],
-      gradientStops: fill.gradientStops.map(s => ({
-        position: s.position,
-        color: s.color,
-      })),
-      gradientTransform: fill.gradientTransform as Transform || [[1, 0, 0], [0, 1, 0]],
-      opacity: fill.opacity ?? 1,
-      visible: fill.visible ?? true,
-    } as GradientPaint;
-  }
-
-  if (fill.type === 'IMAGE' && fill.imageHash) {
-    return {
-      type: 'IMAGE',
-      imageHash: fill.imageHash,
-      scaleMode: (fill.scaleMode || 'FILL') as ImagePaint['scaleMode'],
-      imageTransform: fill.imageTransform as Transform || [[1, 0, 0], [0, 1, 0]],
-      opacity: fill.opacity ?? 1,
-      visible: fill.visible ?? true,
-    } as ImagePaint;
-  }
-
-  // Unsupported paint type — skip
-  return null;
-}
-
-function restoreEffect(data: SerializedEffect): Effect {
-  const base: any = {
-    type: data.type,
-    visible: data.visible ?? true,
-  };
-
-  if (data.radius !== undefined) base.radius = data.radius;
-  if (data.color !== undefined) base.color = data.color;
-  if (data.offset !== undefined) base.offset = data.offset;
-  if (data.spread !== undefined) base.spread = data.spread;
-
-  return base as Effect;
+async function handleFindMissingImages(msg: Extract<PluginCommand, { type: 'find_missing_images' }>) {
+  sendResult(msg.id, { missing: msg.hashes.filter(hash => !figma.getImageByHash(hash)) });
 }
 
 async function handleGetSelection(msg: Extract<PluginCommand, { type: 'get_selection' }>) {
@@ -678,6 +407,31 @@ async function handleImageData(msg: Extract<PluginCommand, { type: 'image_data'
   sendResult(id, { success: true, imageHash: image.hash });
 }
 
+/**
+ * Measure strings on a throwaway text node: unwrapped width of each, plus the
+ * height of one line. Used by the backend's text fitting.
+ */
+async function handleMeasureText(msg: Extract<PluginCommand, { type: 'measure_text' }>) {
+  const { id, texts, fontFamily, fontStyle, fontSize } = msg;
+  const fontApplied = await loadFontWithFallback(fontFamily, fontStyle);
+
+  const probe = figma.createText();
+  try {
+    probe.fontName = fontApplied;
+    probe.fontSize = fontSize;
+    probe.textAutoResize = 'WIDTH_AND_HEIGHT';
+    const widths = texts.map(text => {
+      if (!text) return 0;
+      probe.characters = text;
+      return probe.width;
+    });
+    probe.characters = 'Hg';
+    sendResult(id, { widths, lineHeight: probe.height, fontApplied });
+  } finally {
+    probe.remove();
+  }
+}
+
 async function handleBatchUpdate(msg: Extract<PluginCommand, { type: 'batch_update' }>) {
   const { id, updates } = msg;
   const errors: Array<{ nodeId: string; error: string }> = [];
@@ -1086,13 +840,8 @@ async function applyNodeProperties(node: SceneNode, props: any) {
       await figma.loadFontAsync(fontName);
       text.fontName = fontName;
     } else if (props.characters !== undefined || props.fontSize !== undefined) {
-      // Must load the existing font before changing characters or fontSize
-      const currentFont = text.fontName;
-      if (currentFont !== figma.mixed) {
-        await figma.loadFontAsync(currentFont);
-      } else {
-        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-      }
+      // Must load the existing font(s) before changing characters or fontSize
+      await loadTextFonts(text);
     }
 
     if (props.fontSize !== undefined) text.fontSize = props.fontSize;
@@ -1117,147 +866,6 @@ function mapWeightToStyle(weight: number): string {
   return 'Black';
 }
 
-function serializeNode(node: SceneNode, maxDepth: number, currentDepth = 0): SerializedNode {
-  // Cast to LayoutMixin for position/rotation access (most SceneNodes implement this)
-  const ln = node as SceneNode & LayoutMixin;
-  const base: SerializedNode = {
-    id: node.id,
-    type: node.type,
-    name: node.name,
-    x: ln.x,
-    y: ln.y,
-    width: ln.width,
-    height: ln.height,
-    rotation: ln.rotation !== 0 ? ln.rotation : undefined,
-    visible: !node.visible ? false : undefined,
-    locked: node.locked ? true : undefined,
-  };
-
-  // Visual properties — use 'as any' for mixed comparisons since
-  // Figma's type narrowing with figma.mixed is unreliable across node types
-  const geoNode = node as any;
-  if ('fills' in node) {
-    const fills = geoNode.fills;
-    if (fills !== figma.mixed && Array.isArray(fills)) {
-      base.fills = (fills as Paint[]).map(serializePaint);
-    }
-  }
-  if ('strokes' in node) {
-    const strokes = geoNode.strokes;
-    if (strokes !== figma.mixed && Array.isArray(strokes)) {
-      base.strokes = (strokes as Paint[]).map(serializePaint);
-    }
-  }
-  if ('strokeWeight' in node) {
-    base.strokeWeight = geoNode.strokeWeight as number;
-  }
-  if ('cornerRadius' in node) {
-    const cr = geoNode.cornerRadius;
-    if (cr !== figma.mixed) {
-      base.cornerRadius = cr as number;
-    }
-  }
-  if ('effects' in node) {
-    const effects = geoNode.effects;
-    if (effects !== figma.mixed && Array.isArray(effects)) {
-      base.effects = (effects as Effect[]).map(serializeEffect);
-    }
-  }
-  if ('opacity' in node && (node as BlendMixin).opacity !== 1) {
-    base.opacity = (node as BlendMixin).opacity;
-  }
-
-  // Auto-layout properties (FRAME)
-  if (node.type === 'FRAME') {
-    const frame = node as FrameNode;
-    base.layoutMode = frame.layoutMode as SerializedNode['layoutMode'];
-    base.layoutPositioning = frame.layoutPositioning;
-    if (frame.layoutMode !== 'NONE') {
-      base.itemSpacing = frame.itemSpacing;
-      base.paddingTop = frame.paddingTop;
-      base.paddingRight = frame.paddingRight;
-      base.paddingBottom = frame.paddingBottom;
-      base.paddingLeft = frame.paddingLeft;
-      base.primaryAxisAlignItems = frame.primaryAxisAlignItems;
-      base.counterAxisAlignItems = frame.counterAxisAlignItems;
-      base.primaryAxisSizingMode = frame.primaryAxisSizingMode;
-      base.counterAxisSizingMode = frame.counterAxisSizingMode;
-      base.layoutSizingHorizontal = frame.layoutSizingHorizontal;
-      base.layoutSizingVertical = frame.layoutSizingVertical;
-    }
-    base.clipsContent = frame.clipsContent;
-  }
-
-  // Text properties (TEXT)
-  if (node.type === 'TEXT') {
-    const text = node as TextNode;
-    const textAny = text as any; // for mixed-type comparisons
-    base.characters = text.characters;
-    base.fontSize = text.fontSize as number;
-    base.fontName = textAny.fontName !== figma.mixed ? text.fontName as { family: string; style: string } : undefined;
-    base.textAlignHorizontal = text.textAlignHorizontal;
-    base.textAlignVertical = text.textAlignVertical;
-    base.textAutoResize = text.textAutoResize;
-    const lh = textAny.lineHeight;
-    base.lineHeight = lh !== figma.mixed ? lh as SerializedNode['lineHeight'] : undefined;
-    const ls = textAny.letterSpacing;
-    base.letterSpacing = ls !== figma.mixed ? ls as SerializedNode['letterSpacing'] : undefined;
-  }
-
-  // Children (recursive, depth-limited)
-  if ('children' in node && currentDepth < maxDepth) {
-    base.children = (node as ChildrenMixin).children.map(child =>
-      serializeNode(child as SceneNode, maxDepth, currentDepth + 1)
-    );
-  }
-
-  return base;
-}
-
-function serializePaint(paint: Paint): SerializedPaint {
-  const base: SerializedPaint = {
-    type: paint.type,
-    visible: paint.visible,
-    opacity: paint.opacity,
-  };
-
-  if (paint.type === 'SOLID') {
-    base.color = (paint as SolidPaint).color;
-  } else if (paint.type.startsWith('GRADIENT')) {
-    const gp = paint as GradientPaint;
-    base.gradientStops = gp.gradientStops.map(s => ({ position: s.position, color: { ...s.color } }));
-    base.gradientTransform = gp.gradientTransform;
-  } else if (paint.type === 'IMAGE') {
-    const ip = paint as ImagePaint;
-    base.imageHash = ip.imageHash ?? undefined;
-    base.scaleMode = ip.scaleMode;
-    base.imageTransform = ip.imageTransform;
-  }
-  // VIDEO, PATTERN — serialize type only (no additional data needed)
-
-  return base;
-}
-
-function serializeEffect(effect: Effect): SerializedEffect {
-  const base: SerializedEffect = {
-    type: effect.type,
-    visible: effect.visible,
-    radius: 'radius' in effect ? (effect as any).radius : undefined,
-  };
-
-  if ('color' in effect) {
-    base.color = (effect as any).color;
-  }
-  if ('offset' in effect) {
-    base.offset = (effect as any).offset;
-  }
-  if ('spread' in effect) {
-    base.spread = (effect as any).spread;
-  }
-
-  return base;
-}
-
 function sendResult(id: string, data: any) {
   figma.ui.postMessage({
     type: 'result',
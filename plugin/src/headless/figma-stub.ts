@@ -0,0 +1,637 @@
+/**
+ * Figma stub — the parts of the figma.* API that serialization.ts uses, in Node
+ *
+ * Nodes are property bags holding Figma's defaults for a new node. Values are
+ * copied in and out the way the real API does, so paints and effects are never
+ * shared between nodes. A few of Figma's rules are enforced because the restore
+ * order depends on them:
+ * - text can't change until every font it uses is loaded
+ * - HUG only on auto-layout frames and text; FILL and ABSOLUTE only inside
+ *   auto-layout frames, whose flow children ignore x/y
+ * - resize() turns the HUG axes of an auto-layout frame FIXED
+ * - shadows need color, offset, radius and blendMode
+ *
+ * Paints and effects read back with Figma's defaults for their optional fields.
+ *
+ * There is no layout engine and no text measurement: nothing moves or resizes
+ * on its own. Used by roundtrip.ts; not part of the plugin bundle.
+ */
+
+type Props = Record<string, unknown>;
+
+interface CharStyle {
+  fontName: FontName;
+  fontSize: number;
+  fills: Paint[];
+  textDecoration: TextDecoration;
+}
+
+interface StubState {
+  id: string;
+  type: string;
+  parent: StubState | null;
+  children?: StubState[];
+  props: Props;
+  /** TEXT: style of each character, and of new characters when the node is empty */
+  chars?: CharStyle[];
+  textStyle?: CharStyle;
+  /** INSTANCE */
+  mainComponent?: StubState;
+  /** COMPONENT: definitions (value is the default); INSTANCE: current values */
+  componentProps?: Record<string, { type: ComponentPropertyType; value: string | boolean }>;
+  proxy: any;
+}
+
+export interface FigmaStub {
+  api: PluginAPI;
+  /** Plain-data view of a node and its subtree, for diffing */
+  snapshot(node: BaseNode): Record<string, unknown>;
+}
+
+const FRAME_LIKE = new Set(['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE']);
+const CONTAINERS = new Set([...FRAME_LIKE, 'GROUP', 'BOOLEAN_OPERATION', 'PAGE']);
+const PER_CORNER = new Set(['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'RECTANGLE']);
+const UNIFORM_CORNER = new Set(['ELLIPSE', 'POLYGON', 'STAR', 'VECTOR']);
+const CORNER_KEYS = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'];
+const FONT_BOUND_KEYS = new Set(['fontSize', 'textDecoration', 'lineHeight', 'letterSpacing', 'textCase']);
+
+const AVAILABLE_FONTS: FontName[] = [
+  ...['Regular', 'Italic', 'Medium', 'SemiBold', 'Bold', 'Black'].map(style => ({ family: 'Inter', style })),
+  ...['Regular', 'Italic', 'Bold'].map(style => ({ family: 'Playfair Display', style })),
+];
+
+const WHITE: SolidPaint = { type: 'SOLID', color: { r: 1, g: 1, b: 1 }, opacity: 1, visible: true, blendMode: 'NORMAL' };
+const GRAY: SolidPaint = { type: 'SOLID', color: { r: 0.85, g: 0.85, b: 0.85 }, opacity: 1, visible: true, blendMode: 'NORMAL' };
+const BLACK: SolidPaint = { type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 1, visible: true, blendMode: 'NORMAL' };
+
+function copy<T>(value: T): T {
+  return typeof value === 'object' && value !== null ? structuredClone(value) : value;
+}
+
+function fontKey(font: FontName): string {
+  return `${font.family}/${font.style}`;
+}
+
+function defaultProps(type: string): Props {
+  const props: Props = {
+    name: type === 'PAGE' ? 'Page 1' : type.charAt(0) + type.slice(1).toLowerCase().replace('_', ' '),
+    visible: true,
+    locked: false,
+    x: 0,
+    y: 0,
+    width: 100,
+    height: type === 'LINE' ? 0 : 100,
+    rotation: 0,
+    opacity: 1,
+    blendMode: CONTAINERS.has(type) ? 'PASS_THROUGH' : 'NORMAL',
+    effects: [],
+    layoutPositioning: 'AUTO',
+    layoutSizingHorizontal: 'FIXED',
+    layoutSizingVertical: 'FIXED',
+    componentPropertyReferences: null,
+  };
+  if (type !== 'GROUP' && type !== 'PAGE') {
+    Object.assign(props, {
+      strokes: [],
+      strokeWeight: 1,
+      strokeAlign: type === 'VECTOR' || type === 'LINE' || type === 'BOOLEAN_OPERATION' ? 'CENTER' : 'INSIDE',
+      strokeCap: 'NONE',
+      strokeJoin: 'MITER',
+      dashPattern: [],
+    });
+    // TEXT fills live on the characters
+    if (type !== 'TEXT') props.fills = [FRAME_LIKE.has(type) ? WHITE : GRAY];
+  }
+  if (type !== 'GROUP' && type !== 'BOOLEAN_OPERATION' && type !== 'PAGE') {
+    props.constraints = { horizontal: 'MIN', vertical: 'MIN' };
+  }
+  if (PER_CORNER.has(type)) for (const key of CORNER_KEYS) props[key] = 0;
+  if (UNIFORM_CORNER.has(type)) props.cornerRadius = 0;
+  if (FRAME_LIKE.has(type)) {
+    Object.assign(props, {
+      layoutMode: 'NONE',
+      itemSpacing: 0,
+      paddingTop: 0,
+      paddingRight: 0,
+      paddingBottom: 0,
+      paddingLeft: 0,
+      primaryAxisAlignItems: 'MIN',
+      counterAxisAlignItems: 'MIN',
+      primaryAxisSizingMode: 'AUTO',
+      counterAxisSizingMode: 'FIXED',
+      clipsContent: true,
+    });
+  }
+  if (type === 'TEXT') {
+    Object.assign(props, {
+      textAlignHorizontal: 'LEFT',
+      textAlignVertical: 'TOP',
+      textAutoResize: 'WIDTH_AND_HEIGHT',
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { value: 0, unit: 'PERCENT' },
+      textCase: 'ORIGINAL',
+    });
+  }
+  if (type === 'POLYGON') props.pointCount = 3;
+  if (type === 'STAR') Object.assign(props, { pointCount: 5, innerRadius: 0.382 });
+  if (type === 'VECTOR') Object.assign(props, { vectorNetwork: { vertices: [], segments: [], regions: [] }, vectorPaths: [] });
+  if (type === 'BOOLEAN_OPERATION') props.booleanOperation = 'UNION';
+  return props;
+}
+
+/** Content-derived image hash (Figma uses SHA-1; any stable digest will do here) */
+function hashBytes(bytes: Uint8Array): string {
+  let hex = '';
+  for (let seed = 0; seed < 5; seed++) {
+    let h = 0x811c9dc5 ^ seed;
+    for (const byte of bytes) h = Math.imul(h ^ byte, 0x01000193);
+    hex += (h >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+/** Paints read back with every optional field */
+function normalizePaints(paints: readonly Paint[]): Paint[] {
+  return paints.map(paint => ({ visible: true, opacity: 1, blendMode: 'NORMAL', ...paint }) as Paint);
+}
+
+/** Check effects like Figma does, and fill in the optional fields it reads back */
+function normalizeEffects(effects: Effect[]): Effect[] {
+  return effects.map((effect, i) => {
+    const shadow = effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW';
+    for (const key of shadow ? ['color', 'offset', 'radius', 'blendMode'] : ['radius']) {
+      if ((effect as any)[key] === undefined) throw new Error(`Required value missing at [${i}].${key}`);
+    }
+    if (shadow) return { spread: 0, ...(effect.type === 'DROP_SHADOW' ? { showShadowBehindNode: false } : {}), ...effect } as Effect;
+    if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') return { blurType: 'NORMAL', ...(effect as object) } as Effect;
+    return effect;
+  });
+}
+
+export function createFigmaStub(): FigmaStub {
+  const MIXED = Symbol('figma.mixed');
+  const registry = new Map<string, StubState>();
+  const images = new Map<string, Uint8Array>();
+  const loadedFonts = new Set<string>();
+  let nextId = 1;
+  let nextPropertyId = 1;
+
+  // ─── Tree ───
+
+  function detach(state: StubState): void {
+    if (!state.parent) return;
+    const siblings = state.parent.children!;
+    siblings.splice(siblings.indexOf(state), 1);
+    state.parent = null;
+  }
+
+  function insert(parent: StubState, child: StubState, index = parent.children!.length): void {
+    if (!parent.children) throw new Error(`${parent.type} can't have children`);
+    if (child.type === 'PAGE') throw new Error('A page can only be a child of the document');
+    detach(child);
+    parent.children.splice(index, 0, child);
+    child.parent = parent;
+  }
+
+  function unregister(state: StubState): void {
+    registry.delete(state.id);
+    state.children?.forEach(unregister);
+  }
+
+  function isAutoLayout(state: StubState | null): boolean {
+    return !!state && FRAME_LIKE.has(state.type) && state.props.layoutMode !== 'NONE';
+  }
+
+  /** Bounds of a group-like node: the union of its children */
+  function childBounds(state: StubState) {
+    const kids = state.children!.map(c => c.proxy);
+    if (kids.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const x = Math.min(...kids.map(k => k.x));
+    const y = Math.min(...kids.map(k => k.y));
+    return {
+      x,
+      y,
+      width: Math.max(...kids.map(k => k.x + k.width)) - x,
+      height: Math.max(...kids.map(k => k.y + k.height)) - y,
+    };
+  }
+
+  // ─── Text ───
+
+  function charRange(state: StubState, start: number, end: number): CharStyle[] {
+    if (start < 0 || end > state.chars!.length || start > end) {
+      throw new Error(`Range [${start}, ${end}) outside of text of length ${state.chars!.length}`);
+    }
+    return state.chars!.slice(start, end);
+  }
+
+  function requireFonts(fonts: FontName[]): void {
+    for (const font of fonts) {
+      if (!loadedFonts.has(fontKey(font))) {
+        throw new Error(`Cannot write to node with unloaded font "${font.family} ${font.style}"`);
+      }
+    }
+  }
+
+  function nodeFonts(state: StubState): FontName[] {
+    return state.chars!.length > 0 ? state.chars!.map(c => c.fontName) : [state.textStyle!.fontName];
+  }
+
+  function uniform<K extends keyof CharStyle>(state: StubState, key: K): CharStyle[K] | symbol {
+    if (state.chars!.length === 0) return copy(state.textStyle![key]);
+    const first = JSON.stringify(state.chars![0][key]);
+    return state.chars!.every(c => JSON.stringify(c[key]) === first) ? copy(state.chars![0][key]) : MIXED;
+  }
+
+  function setStyle<K extends keyof CharStyle>(state: StubState, key: K, value: CharStyle[K], start = 0, end = state.chars!.length): void {
+    for (let i = start; i < end; i++) state.chars![i] = { ...state.chars![i], [key]: copy(value) };
+    if (start === 0 && end === state.chars!.length) state.textStyle = { ...state.textStyle!, [key]: copy(value) };
+  }
+
+  function segments(state: StubState, fields: string[]) {
+    for (const field of fields) {
+      if (!['fontName', 'fontSize', 'fills', 'textDecoration'].includes(field)) {
+        throw new Error(`Styled segment field "${field}" isn't modelled by the stub`);
+      }
+    }
+    const characters = state.props.characters as string;
+    const keyOf = (c: CharStyle) => JSON.stringify(fields.map(f => (c as any)[f]));
+    const result: any[] = [];
+    state.chars!.forEach((style, i) => {
+      const last = result[result.length - 1];
+      if (last && last.key === keyOf(style)) {
+        last.end = i + 1;
+      } else {
+        result.push({ key: keyOf(style), start: i, end: i + 1, style });
+      }
+    });
+    return result.map(({ start, end, style }) => ({
+      characters: characters.slice(start, end),
+      start,
+      end,
+      ...Object.fromEntries(fields.map(f => [f, copy((style as any)[f])])),
+    }));
+  }
+
+  // ─── Auto-layout sizing ───
+
+  /** HUG on an axis of an auto-layout frame is that axis' sizing mode being AUTO */
+  function axisSizingKey(state: StubState, axis: 'Horizontal' | 'Vertical'): string {
+    const primary = (state.props.layoutMode === 'HORIZONTAL') === (axis === 'Horizontal');
+    return primary ? 'primaryAxisSizingMode' : 'counterAxisSizingMode';
+  }
+
+  function getLayoutSizing(state: StubState, axis: 'Horizontal' | 'Vertical'): string {
+    if (isAutoLayout(state) && state.props[axisSizingKey(state, axis)] === 'AUTO') return 'HUG';
+    return state.props[`layoutSizing${axis}`] as string;
+  }
+
+  function setLayoutSizing(state: StubState, axis: 'Horizontal' | 'Vertical', value: string): void {
+    if (value === 'HUG' && !isAutoLayout(state) && state.type !== 'TEXT') {
+      throw new Error('HUG can only be set on auto-layout frames and text nodes');
+    }
+    if (value === 'FILL' && !isAutoLayout(state.parent)) {
+      throw new Error('FILL can only be set on children of auto-layout frames');
+    }
+    if (isAutoLayout(state)) state.props[axisSizingKey(state, axis)] = value === 'HUG' ? 'AUTO' : 'FIXED';
+    state.props[`layoutSizing${axis}`] = value === 'HUG' && state.type !== 'TEXT' ? 'FIXED' : value;
+  }
+
+  // ─── Nodes ───
+
+  function create(type: string, parent: StubState | null = page): StubState {
+    const state: StubState = {
+      id: `${nextId++}:1`,
+      type,
+      parent: null,
+      children: CONTAINERS.has(type) ? [] : undefined,
+      props: defaultProps(type),
+      proxy: null,
+    };
+    if (type === 'TEXT') {
+      state.props.characters = '';
+      state.chars = [];
+      state.textStyle = { fontName: { family: 'Inter', style: 'Regular' }, fontSize: 12, fills: [BLACK], textDecoration: 'NONE' };
+    }
+    if (type === 'COMPONENT') state.componentProps = {};
+    state.proxy = new Proxy(state, handler);
+    registry.set(state.id, state);
+    if (parent) insert(parent, state);
+    return state;
+  }
+
+  function cloneTree(source: StubState, parent: StubState | null): StubState {
+    const state = create(source.type === 'COMPONENT' ? 'INSTANCE' : source.type, parent);
+    state.props = copy(source.props);
+    if (source.chars) {
+      state.chars = copy(source.chars);
+      state.textStyle = copy(source.textStyle);
+    }
+    for (const child of source.children ?? []) cloneTree(child, state);
+    return state;
+  }
+
+  function methods(state: StubState): Record<string, (...args: any[]) => unknown> {
+    const common: Record<string, (...args: any[]) => unknown> = {
+      remove() {
+        detach(state);
+        unregister(state);
+      },
+      resize(width: number, height: number) {
+        if (state.type === 'GROUP' || state.type === 'BOOLEAN_OPERATION') {
+          throw new Error(`${state.type}.resize isn't modelled by the stub`);
+        }
+        if (width < 0.01 || (height < 0.01 && !(state.type === 'LINE' && height === 0))) {
+          throw new Error(`Invalid size ${width}x${height}`);
+        }
+        state.props.width = width;
+        state.props.height = height;
+        if (isAutoLayout(state)) {
+          state.props.primaryAxisSizingMode = 'FIXED';
+          state.props.counterAxisSizingMode = 'FIXED';
+        }
+      },
+    };
+    if (state.children) {
+      common.appendChild = (child: any) => insert(state, registry.get(child.id)!);
+      common.insertChild = (index: number, child: any) => insert(state, registry.get(child.id)!, index);
+    }
+    if (state.type === 'TEXT') {
+      Object.assign(common, {
+        getStyledTextSegments: (fields: string[]) => segments(state, fields),
+        getRangeAllFontNames: (start: number, end: number) => {
+          const seen = new Map(charRange(state, start, end).map(c => [fontKey(c.fontName), c.fontName]));
+          return [...seen.values()].map(copy);
+        },
+        setRangeFontName: (start: number, end: number, font: FontName) => {
+          requireFonts([...charRange(state, start, end).map(c => c.fontName), font]);
+          setStyle(state, 'fontName', font, start, end);
+        },
+        setRangeFontSize: (start: number, end: number, size: number) => {
+          requireFonts(charRange(state, start, end).map(c => c.fontName));
+          setStyle(state, 'fontSize', size, start, end);
+        },
+        setRangeFills: (start: number, end: number, fills: Paint[]) => {
+          charRange(state, start, end);
+          setStyle(state, 'fills', normalizePaints(fills), start, end);
+        },
+        setRangeTextDecoration: (start: number, end: number, decoration: TextDecoration) => {
+          requireFonts(charRange(state, start, end).map(c => c.fontName));
+          setStyle(state, 'textDecoration', decoration, start, end);
+        },
+      });
+    }
+    if (state.type === 'COMPONENT') {
+      Object.assign(common, {
+        createInstance: () => {
+          const instance = cloneTree(state, page);
+          instance.mainComponent = state;
+          instance.componentProps = copy(state.componentProps);
+          return instance.proxy;
+        },
+        // Figma makes names unique with the id of the new property
+        addComponentProperty: (name: string, type: ComponentPropertyType, defaultValue: string | boolean) => {
+          const unique = type === 'VARIANT' ? name : `${name}#${nextPropertyId++}:0`;
+          state.componentProps![unique] = { type, value: defaultValue };
+          return unique;
+        },
+      });
+    }
+    if (state.type === 'INSTANCE') {
+      common.setProperties = (values: Record<string, string | boolean>) => {
+        for (const [name, value] of Object.entries(values)) {
+          if (!state.componentProps?.[name]) throw new Error(`Component property "${name}" doesn't exist`);
+          state.componentProps[name].value = value;
+        }
+      };
+    }
+    if (state.type === 'VECTOR') {
+      common.setVectorNetworkAsync = async (network: VectorNetwork) => {
+        state.props.vectorNetwork = copy(network);
+        // Flattened path per segment — enough for vectorPaths to follow the network
+        state.props.vectorPaths = network.segments.length === 0 ? [] : [{
+          windingRule: network.regions?.[0]?.windingRule ?? 'NONE',
+          data: network.segments.map(s => {
+            const a = network.vertices[s.start];
+            const b = network.vertices[s.end];
+            return `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+          }).join(' '),
+        }];
+      };
+    }
+    return common;
+  }
+
+  function readable(state: StubState): string[] {
+    const keys = ['id', 'type', 'parent', ...Object.keys(state.props), ...Object.keys(methods(state))];
+    if (state.children) keys.push('children');
+    if (PER_CORNER.has(state.type)) keys.push('cornerRadius');
+    if (state.type === 'TEXT') keys.push('fontName', 'fontSize', 'fills', 'textDecoration');
+    if (state.type === 'INSTANCE') keys.push('mainComponent', 'componentProperties');
+    if (state.type === 'COMPONENT') keys.push('key', 'componentPropertyDefinitions');
+    return keys;
+  }
+
+  const handler: ProxyHandler<StubState> = {
+    has(state, key) {
+      return readable(state).includes(key as string);
+    },
+
+    get(state, key) {
+      if (typeof key === 'symbol') return undefined;
+      switch (key) {
+        case 'id':
+        case 'type':
+          return state[key];
+        case 'parent':
+          return state.parent?.proxy ?? null;
+        case 'children':
+          return state.children?.map(c => c.proxy);
+        case 'removed':
+          return !registry.has(state.id);
+      }
+      if ((state.type === 'GROUP' || state.type === 'BOOLEAN_OPERATION') && ['x', 'y', 'width', 'height'].includes(key)) {
+        return (childBounds(state) as any)[key];
+      }
+      if (key === 'cornerRadius' && PER_CORNER.has(state.type)) {
+        const radii = CORNER_KEYS.map(k => state.props[k]);
+        return radii.every(r => r === radii[0]) ? radii[0] : MIXED;
+      }
+      if (state.type === 'TEXT' && ['fontName', 'fontSize', 'fills', 'textDecoration'].includes(key)) {
+        return uniform(state, key as keyof CharStyle);
+      }
+      if (key === 'layoutSizingHorizontal' || key === 'layoutSizingVertical') {
+        return getLayoutSizing(state, key === 'layoutSizingHorizontal' ? 'Horizontal' : 'Vertical');
+      }
+      if (state.type === 'INSTANCE' && key === 'mainComponent') return state.mainComponent?.proxy ?? null;
+      if (state.type === 'INSTANCE' && key === 'componentProperties') return copy(state.componentProps ?? {});
+      if (state.type === 'COMPONENT' && key === 'key') return `key-${state.id}`;
+      if (state.type === 'COMPONENT' && key === 'componentPropertyDefinitions') {
+        return Object.fromEntries(Object.entries(state.componentProps!).map(([name, p]) => [name, { type: p.type, defaultValue: p.value }]));
+      }
+      const method = methods(state)[key];
+      if (method) return method;
+      return copy(state.props[key]);
+    },
+
+    set(state, key, value) {
+      if (typeof key === 'symbol' || !readable(state).includes(key) || ['id', 'type', 'parent', 'children'].includes(key)) {
+        throw new Error(`Cannot set ${String(key)} on ${state.type}`);
+      }
+      // Flow children of auto-layout frames are placed by the layout
+      if ((key === 'x' || key === 'y') && isAutoLayout(state.parent) && state.props.layoutPositioning !== 'ABSOLUTE') {
+        return true;
+      }
+      if ((state.type === 'GROUP' || state.type === 'BOOLEAN_OPERATION') && (key === 'x' || key === 'y')) {
+        const delta = value - (childBounds(state) as any)[key];
+        for (const child of state.children!) child.proxy[key] = child.proxy[key] + delta;
+        return true;
+      }
+      if (key === 'layoutPositioning' && value === 'ABSOLUTE' && !isAutoLayout(state.parent)) {
+        throw new Error('ABSOLUTE positioning can only be set on children of auto-layout frames');
+      }
+      if (key === 'layoutSizingHorizontal' || key === 'layoutSizingVertical') {
+        setLayoutSizing(state, key === 'layoutSizingHorizontal' ? 'Horizontal' : 'Vertical', value);
+        return true;
+      }
+      if (key === 'cornerRadius' && PER_CORNER.has(state.type)) {
+        for (const k of CORNER_KEYS) state.props[k] = value;
+        return true;
+      }
+      if (key === 'componentPropertyReferences' && value) {
+        let owner = state.parent;
+        while (owner && owner.type !== 'COMPONENT') owner = owner.parent;
+        for (const name of Object.values(value) as string[]) {
+          if (!owner?.componentProps?.[name]) throw new Error(`Component property "${name}" isn't defined on the containing component`);
+        }
+      }
+      if (key === 'effects') value = normalizeEffects(value);
+      if (key === 'fills' || key === 'strokes') value = normalizePaints(value);
+      if (state.type === 'TEXT') {
+        if (key === 'characters') {
+          requireFonts(nodeFonts(state));
+          const style = state.chars![0] ?? state.textStyle!;
+          state.props.characters = value;
+          state.chars = Array.from({ length: value.length }, () => copy(style));
+          state.textStyle = copy(style);
+          return true;
+        }
+        if (key === 'fontName') {
+          requireFonts([value]);
+          setStyle(state, 'fontName', value);
+          return true;
+        }
+        if (FONT_BOUND_KEYS.has(key)) requireFonts(nodeFonts(state));
+        if (key === 'fontSize' || key === 'textDecoration' || key === 'fills') {
+          setStyle(state, key, value);
+          return true;
+        }
+      }
+      state.props[key] = copy(value);
+      return true;
+    },
+  };
+
+  const page = create('PAGE', null);
+
+  // ─── figma.* ───
+
+  const shapeCreators = Object.fromEntries(
+    ['Frame', 'Component', 'Text', 'Rectangle', 'Ellipse', 'Line', 'Polygon', 'Star', 'Vector'].map(name => [
+      `create${name}`,
+      () => create(name.toUpperCase()).proxy,
+    ]),
+  );
+
+  function wrap(type: string, nodes: readonly SceneNode[], parent: BaseNode, index?: number): StubState {
+    if (nodes.length === 0) throw new Error('First argument must be an array of at least one node');
+    const parentState = registry.get(parent.id)!;
+    const state = create(type, null);
+    insert(parentState, state, index);
+    for (const node of nodes) insert(state, registry.get(node.id)!);
+    return state;
+  }
+
+  function booleanOp(operation: BooleanOperationNode['booleanOperation']) {
+    return (nodes: readonly SceneNode[], parent: BaseNode, index?: number) => {
+      const state = wrap('BOOLEAN_OPERATION', nodes, parent, index);
+      state.props.booleanOperation = operation;
+      return state.proxy;
+    };
+  }
+
+  const api = {
+    mixed: MIXED,
+    get currentPage() {
+      return page.proxy;
+    },
+    ...shapeCreators,
+    getNodeById: (id: string) => registry.get(id)?.proxy ?? null,
+    group: (nodes: readonly SceneNode[], parent: BaseNode, index?: number) => wrap('GROUP', nodes, parent, index).proxy,
+    union: booleanOp('UNION'),
+    subtract: booleanOp('SUBTRACT'),
+    intersect: booleanOp('INTERSECT'),
+    exclude: booleanOp('EXCLUDE'),
+    combineAsVariants: (components: readonly ComponentNode[], parent: BaseNode, index?: number) => {
+      const set = wrap('COMPONENT_SET', components, parent, index);
+      // The set takes the components' bounds; their positions become relative to it
+      const bounds = childBounds(set);
+      for (const child of set.children!) {
+        child.props.x = (child.props.x as number) - bounds.x;
+        child.props.y = (child.props.y as number) - bounds.y;
+      }
+      Object.assign(set.props, bounds);
+      return set.proxy;
+    },
+    importComponentByKeyAsync: async (key: string) => {
+      throw new Error(`Component ${key} isn't published in an enabled library`);
+    },
+    loadFontAsync: async (font: FontName) => {
+      if (!AVAILABLE_FONTS.some(f => fontKey(f) === fontKey(font))) {
+        throw new Error(`The font "${font.family} ${font.style}" could not be loaded`);
+      }
+      loadedFonts.add(fontKey(font));
+    },
+    listAvailableFontsAsync: async () => AVAILABLE_FONTS.map(fontName => ({ fontName: copy(fontName) })),
+    createImage: (bytes: Uint8Array) => {
+      const hash = hashBytes(bytes);
+      images.set(hash, bytes);
+      return { hash, getBytesAsync: async () => images.get(hash)! };
+    },
+    getImageByHash: (hash: string) => (images.has(hash) ? { hash, getBytesAsync: async () => images.get(hash)! } : null),
+    base64Encode: (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)),
+    base64Decode: (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0)),
+  };
+
+  function snapshot(node: BaseNode): Record<string, unknown> {
+    const state = registry.get(node.id);
+    if (!state) throw new Error(`Node ${node.id} was removed`);
+    const view: Record<string, unknown> = { type: state.type };
+    for (const key of Object.keys(state.props)) view[key] = state.proxy[key];
+    if (state.type === 'TEXT') {
+      view.textSegments = state.proxy.getStyledTextSegments(['fontName', 'fontSize', 'fills', 'textDecoration']);
+    }
+    // Property names carry ids that change on every restore — compare them without
+    const unsuffixed = (props: Record<string, unknown> | null | undefined) =>
+      props && Object.fromEntries(Object.entries(props).map(([k, v]) => [k.replace(/#[^#]*$/, ''), typeof v === 'string' ? v.replace(/#[^#]*$/, '') : v]));
+    view.componentPropertyReferences = unsuffixed(state.props.componentPropertyReferences as Record<string, unknown> | null);
+    if (state.type === 'COMPONENT') view.componentPropertyDefinitions = unsuffixed(state.componentProps);
+    if (state.type === 'INSTANCE') {
+      view.mainComponent = state.mainComponent?.props.name;
+      view.componentProperties = unsuffixed(state.componentProps);
+    }
+    if (state.children) view.children = state.children.map(c => snapshot(c.proxy));
+    return view;
+  }
+
+  return { api: api as unknown as PluginAPI, snapshot };
+}
+
+/**
+ * Create a stub and make it the `figma` global — serialization.ts reads it from there
+ */
+export function installFigmaStub(): FigmaStub {
+  const stub = createFigmaStub();
+  (globalThis as any).figma = stub.api;
+  return stub;
+}
@@ -0,0 +1,480 @@
+/**
+ * Round-trip harness — serialize → restore → compare, without Figma
+ *
+ * Builds fixture scenes on the Figma stub with ordinary plugin API calls, saves
+ * each frame with serializeNode and restores it with restoreFrame — in place, as
+ * restore_checkpoint does, or into a new file with the image bytes, as
+ * apply_template does. The restored scene is then diffed against the original
+ * and every property that didn't survive is listed.
+ *
+ * Usage: npm run roundtrip
+ */
+
+import type { SerializedNode } from '../../../shared/protocol';
+import { serializeNode, restoreFrame } from '../serialization';
+import { installFigmaStub } from './figma-stub';
+import type { FigmaStub } from './figma-stub';
+
+// Runs in Node; the plugin's typings only know the Figma sandbox
+declare const process: { exit(code: number): never };
+
+interface Fixture {
+  name: string;
+  /** Restore into a fresh file (template) instead of over the original frame (checkpoint) */
+  newFile?: boolean;
+  build(): Promise<FrameNode>;
+}
+
+const TEXT_FONTS: FontName[] = [
+  { family: 'Inter', style: 'Regular' },
+  { family: 'Inter', style: 'Bold' },
+  { family: 'Playfair Display', style: 'Italic' },
+];
+
+function solid(r: number, g: number, b: number, opacity = 1): SolidPaint {
+  return { type: 'SOLID', color: { r, g, b }, opacity };
+}
+
+function frame(name: string, width: number, height: number): FrameNode {
+  const node = figma.createFrame();
+  node.name = name;
+  node.resize(width, height);
+  return node;
+}
+
+function rect(parent: FrameNode | GroupNode, name: string, x: number, y: number, width: number, height: number): RectangleNode {
+  const node = figma.createRectangle();
+  parent.appendChild(node);
+  node.name = name;
+  node.x = x;
+  node.y = y;
+  node.resize(width, height);
+  return node;
+}
+
+async function text(parent: FrameNode | ComponentNode, name: string, characters: string): Promise<TextNode> {
+  for (const font of TEXT_FONTS) await figma.loadFontAsync(font);
+  const node = figma.createText();
+  parent.appendChild(node);
+  node.name = name;
+  node.characters = characters;
+  return node;
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    name: 'auto-layout',
+    async build() {
+      const root = frame('Auto layout', 1080, 1350);
+      root.layoutMode = 'VERTICAL';
+      root.itemSpacing = 24;
+      root.paddingTop = 80;
+      root.paddingRight = 64;
+      root.paddingBottom = 96;
+      root.paddingLeft = 64;
+      root.primaryAxisAlignItems = 'SPACE_BETWEEN';
+      root.counterAxisAlignItems = 'CENTER';
+      root.primaryAxisSizingMode = 'FIXED';
+      root.clipsContent = false;
+
+      const headline = await text(root, 'Headline', 'Your gums are talking');
+      headline.layoutSizingHorizontal = 'FILL';
+      headline.textAutoResize = 'HEIGHT';
+
+      const row = figma.createFrame();
+      root.appendChild(row);
+      row.name = 'CTA row';
+      row.layoutMode = 'HORIZONTAL';
+      row.itemSpacing = 12;
+      row.paddingLeft = 20;
+      row.paddingRight = 20;
+      row.counterAxisAlignItems = 'CENTER';
+      row.layoutSizingHorizontal = 'HUG';
+      row.layoutSizingVertical = 'HUG';
+      row.fills = [];
+      rect(row, 'Icon', 0, 0, 32, 32);
+      await text(row, 'Label', 'Shop now');
+
+      const spacer = figma.createFrame();
+      root.appendChild(spacer);
+      spacer.name = 'Spacer';
+      spacer.resize(100, 40);
+      spacer.layoutSizingHorizontal = 'FILL';
+      return root;
+    },
+  },
+  {
+    name: 'absolute children',
+    async build() {
+      const root = frame('Absolute', 1080, 1920);
+      root.layoutMode = 'VERTICAL';
+      root.primaryAxisSizingMode = 'FIXED';
+      root.counterAxisSizingMode = 'FIXED';
+      await text(root, 'Flow text', 'In the flow');
+
+      const badge = figma.createEllipse();
+      root.appendChild(badge);
+      badge.name = 'Badge';
+      badge.layoutPositioning = 'ABSOLUTE';
+      badge.x = 860;
+      badge.y = 120;
+      badge.resize(160, 160);
+      badge.rotation = 15;
+      badge.constraints = { horizontal: 'MAX', vertical: 'MIN' };
+
+      const plain = figma.createFrame();
+      root.appendChild(plain);
+      plain.name = 'Pinned panel';
+      plain.layoutPositioning = 'ABSOLUTE';
+      plain.x = 40;
+      plain.y = 1600;
+      plain.resize(1000, 280);
+      plain.constraints = { horizontal: 'STRETCH', vertical: 'MAX' };
+      const stretched = rect(plain, 'Stretched', 0, 0, 1000, 4);
+      stretched.constraints = { horizontal: 'STRETCH', vertical: 'MIN' };
+      const scaled = rect(plain, 'Scaled', 400, 100, 200, 120);
+      scaled.constraints = { horizontal: 'SCALE', vertical: 'CENTER' };
+      return root;
+    },
+  },
+  {
+    name: 'gradients with transforms',
+    async build() {
+      const root = frame('Gradients', 1080, 1080);
+      root.fills = [
+        solid(0.04, 0.04, 0.04),
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientTransform: [[0.6, 0.8, -0.2], [-0.8, 0.6, 0.6]],
+          gradientStops: [
+            { position: 0, color: { r: 0, g: 0, b: 0, a: 0 } },
+            { position: 0.65, color: { r: 0, g: 0, b: 0, a: 0.4 } },
+            { position: 1, color: { r: 0, g: 0, b: 0, a: 0.85 } },
+          ],
+          opacity: 0.9,
+        },
+      ];
+      const glow = rect(root, 'Glow', 140, 140, 800, 800);
+      glow.fills = [{
+        type: 'GRADIENT_RADIAL',
+        gradientTransform: [[0.5, 0, 0.25], [0, 0.5, 0.25]],
+        gradientStops: [
+          { position: 0, color: { r: 1, g: 0.84, b: 0.04, a: 1 } },
+          { position: 1, color: { r: 1, g: 0.84, b: 0.04, a: 0 } },
+        ],
+      }];
+      glow.strokes = [{
+        type: 'GRADIENT_ANGULAR',
+        gradientTransform: [[1, 0, 0], [0, 1, 0]],
+        gradientStops: [
+          { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+          { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+        ],
+      }];
+      glow.strokeWeight = 6;
+      glow.strokeAlign = 'OUTSIDE';
+      const hidden = rect(root, 'Hidden layers', 0, 980, 1080, 100);
+      hidden.fills = [solid(1, 1, 1, 0.5), { ...solid(1, 0, 0), visible: false }];
+      hidden.opacity = 0.6;
+      hidden.blendMode = 'MULTIPLY';
+      return root;
+    },
+  },
+  {
+    name: 'effects',
+    async build() {
+      const root = frame('Effects', 1080, 1080);
+      const card = rect(root, 'Card', 120, 120, 840, 840);
+      card.effects = [
+        { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 24 }, radius: 48, spread: -8, visible: true, blendMode: 'MULTIPLY' },
+        { type: 'INNER_SHADOW', color: { r: 1, g: 1, b: 1, a: 0.3 }, offset: { x: 0, y: 1 }, radius: 0, spread: 0, visible: true, blendMode: 'NORMAL' },
+        { type: 'LAYER_BLUR', blurType: 'NORMAL', radius: 4, visible: false },
+      ];
+      const glass = figma.createFrame();
+      root.appendChild(glass);
+      glass.name = 'Glass';
+      glass.x = 200;
+      glass.y = 700;
+      glass.resize(680, 160);
+      glass.fills = [solid(1, 1, 1, 0.12)];
+      glass.effects = [{ type: 'BACKGROUND_BLUR', blurType: 'NORMAL', radius: 30, visible: true }];
+      return root;
+    },
+  },
+  {
+    name: 'corner radii',
+    async build() {
+      const root = frame('Corners', 1080, 1080);
+      root.topLeftRadius = 48;
+      root.topRightRadius = 48;
+      root.clipsContent = true;
+      const uniform = rect(root, 'Pill', 100, 100, 400, 96);
+      uniform.cornerRadius = 48;
+      const mixed = rect(root, 'Tab', 100, 300, 400, 200);
+      mixed.topLeftRadius = 24;
+      mixed.topRightRadius = 24;
+      mixed.bottomRightRadius = 0;
+      mixed.bottomLeftRadius = 8;
+      const star = figma.createStar();
+      root.appendChild(star);
+      star.name = 'Burst';
+      star.x = 600;
+      star.y = 100;
+      star.resize(300, 300);
+      star.pointCount = 12;
+      star.innerRadius = 0.7;
+      star.cornerRadius = 6;
+      return root;
+    },
+  },
+  {
+    name: 'text properties',
+    async build() {
+      const root = frame('Text', 1080, 1080);
+      root.layoutMode = 'VERTICAL';
+      root.itemSpacing = 16;
+      root.primaryAxisSizingMode = 'FIXED';
+
+      const title = await text(root, 'Title', 'Sonic clean');
+      title.fontName = { family: 'Playfair Display', style: 'Italic' };
+      title.fontSize = 96;
+      title.lineHeight = { value: 110, unit: 'PERCENT' };
+      title.letterSpacing = { value: -2, unit: 'PERCENT' };
+      title.textCase = 'UPPER';
+      title.textAlignHorizontal = 'CENTER';
+      title.fills = [solid(0.98, 0.96, 0.9)];
+
+      const body = await text(root, 'Body', 'Two minutes, twice a day. No more guessing.');
+      body.fontSize = 32;
+      body.lineHeight = { value: 44, unit: 'PIXELS' };
+      body.letterSpacing = { value: 0.5, unit: 'PIXELS' };
+      body.textAutoResize = 'HEIGHT';
+      body.textAlignVertical = 'BOTTOM';
+      body.layoutSizingHorizontal = 'FILL';
+      body.textDecoration = 'UNDERLINE';
+
+      // Rich text: bold and highlighted ranges, a size change and a strikethrough
+      const rich = await text(root, 'Rich', 'Was $129, now $89 — this week only');
+      rich.fontSize = 40;
+      rich.setRangeTextDecoration(0, 8, 'STRIKETHROUGH');
+      rich.setRangeFontName(14, 17, { family: 'Inter', style: 'Bold' });
+      rich.setRangeFontSize(14, 17, 56);
+      rich.setRangeFills(14, 17, [solid(1, 0.84, 0.04)]);
+      rich.setRangeFontName(20, 34, { family: 'Playfair Display', style: 'Italic' });
+      return root;
+    },
+  },
+  {
+    name: 'vectors, groups and boolean operations',
+    async build() {
+      const root = frame('Shapes', 1080, 1080);
+      const arrow = figma.createVector();
+      root.appendChild(arrow);
+      arrow.name = 'Arrow';
+      await arrow.setVectorNetworkAsync({
+        vertices: [{ x: 0, y: 20 }, { x: 80, y: 20 }, { x: 60, y: 0 }, { x: 60, y: 40 }],
+        segments: [{ start: 0, end: 1 }, { start: 2, end: 1 }, { start: 1, end: 3 }],
+      });
+      arrow.x = 100;
+      arrow.y = 100;
+      arrow.resize(80, 40);
+      arrow.strokes = [solid(1, 1, 1)];
+      arrow.strokeWeight = 4;
+      arrow.strokeCap = 'ROUND';
+      arrow.strokeJoin = 'ROUND';
+
+      const divider = figma.createLine();
+      root.appendChild(divider);
+      divider.name = 'Divider';
+      divider.x = 100;
+      divider.y = 300;
+      divider.resize(880, 0);
+      divider.strokes = [solid(1, 1, 1, 0.4)];
+      divider.dashPattern = [12, 8];
+
+      const hex = figma.createPolygon();
+      root.appendChild(hex);
+      hex.name = 'Hex';
+      hex.pointCount = 6;
+      hex.x = 100;
+      hex.y = 400;
+      hex.resize(120, 120);
+
+      const a = rect(root, 'Left', 300, 400, 200, 200);
+      const b = rect(root, 'Right', 400, 450, 200, 200);
+      const logo = figma.group([a, b], root);
+      logo.name = 'Logo';
+      logo.opacity = 0.8;
+
+      const base = rect(root, 'Base', 700, 400, 240, 240);
+      const hole = figma.createEllipse();
+      root.appendChild(hole);
+      hole.name = 'Hole';
+      hole.x = 760;
+      hole.y = 460;
+      hole.resize(120, 120);
+      const ring = figma.subtract([base, hole], root);
+      ring.name = 'Ring';
+      ring.fills = [solid(0.2, 0.6, 1)];
+      return root;
+    },
+  },
+  {
+    name: 'components and instances',
+    async build() {
+      const root = frame('Components', 1080, 1080);
+      const button = figma.createComponent();
+      root.appendChild(button);
+      button.name = 'Button';
+      button.x = 100;
+      button.y = 100;
+      button.resize(240, 64);
+      button.cornerRadius = 32;
+      button.fills = [solid(0.1, 0.1, 0.1)];
+      await text(button, 'Label', 'Buy now');
+      const showIcon = button.addComponentProperty('Show icon', 'BOOLEAN', true);
+      const icon = figma.createEllipse();
+      button.appendChild(icon);
+      icon.name = 'Icon';
+      icon.x = 200;
+      icon.y = 20;
+      icon.resize(24, 24);
+      icon.componentPropertyReferences = { visible: showIcon };
+
+      const instance = button.createInstance();
+      root.appendChild(instance);
+      instance.x = 100;
+      instance.y = 300;
+      instance.fills = [solid(1, 0.84, 0.04)];
+      instance.setProperties({ [showIcon]: false });
+      const label = instance.children[0] as TextNode;
+      label.characters = 'Get yours';
+      return root;
+    },
+  },
+  {
+    name: 'images in another file',
+    newFile: true,
+    async build() {
+      const root = frame('Images', 1080, 1080);
+      const bytes = Uint8Array.from({ length: 256 }, (_, i) => (i * 37) % 256);
+      const image = figma.createImage(bytes);
+      const photo = rect(root, 'Photo', 0, 0, 1080, 720);
+      photo.fills = [
+        { type: 'IMAGE', imageHash: image.hash, scaleMode: 'CROP', imageTransform: [[0.8, 0, 0.1], [0, 0.8, 0.05]] },
+        solid(0, 0, 0, 0.2),
+      ];
+      return root;
+    },
+  },
+];
+
+type Difference = { path: string; before: unknown; after: unknown };
+
+function diff(before: unknown, after: unknown, path: string, out: Difference[]): void {
+  if (typeof before === 'number' && typeof after === 'number') {
+    if (Math.abs(before - after) > 1e-6) out.push({ path, before, after });
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length !== after.length) {
+      out.push({ path: `${path}.length`, before: before.length, after: after.length });
+    }
+    for (let i = 0; i < Math.min(before.length, after.length); i++) diff(before[i], after[i], `${path}[${i}]`, out);
+    return;
+  }
+  if (before && after && typeof before === 'object' && typeof after === 'object' && !Array.isArray(before) && !Array.isArray(after)) {
+    const b = before as Record<string, unknown>;
+    const a = after as Record<string, unknown>;
+    const label = (node: Record<string, unknown>) => (typeof node.name === 'string' && 'type' in node ? ` "${node.name}"` : '');
+    for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+      const child = key === 'children' ? path : `${path}.${key}`;
+      if (key === 'children' && Array.isArray(b.children) && Array.isArray(a.children)) {
+        if (b.children.length !== a.children.length) {
+          out.push({ path: `${path}.children.length`, before: b.children.length, after: a.children.length });
+        }
+        b.children.forEach((c, i) => {
+          if (a.children && (a.children as unknown[])[i]) {
+            diff(c, (a.children as unknown[])[i], `${path} › ${i}${label(c as Record<string, unknown>)}`, out);
+          }
+        });
+        continue;
+      }
+      diff(b[key], a[key], child, out);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) out.push({ path, before, after });
+}
+
+async function collectImages(serialized: SerializedNode): Promise<Record<string, string>> {
+  const images: Record<string, string> = {};
+  const walk = async (node: SerializedNode) => {
+    for (const paint of node.fills ?? []) {
+      const image = paint.imageHash ? figma.getImageByHash(paint.imageHash) : null;
+      if (image) images[image.hash] = figma.base64Encode(await image.getBytesAsync());
+    }
+    for (const child of node.children ?? []) await walk(child);
+  };
+  await walk(serialized);
+  return images;
+}
+
+async function roundTrip(fixture: Fixture): Promise<{ differences: Difference[]; warnings: string[] }> {
+  let stub: FigmaStub = installFigmaStub();
+  const original = await fixture.build();
+  const before = stub.snapshot(original);
+  // Through JSON, as a checkpoint file or the WebSocket would deliver it
+  const serialized: SerializedNode = JSON.parse(JSON.stringify(serializeNode(original, 10)));
+
+  let target = original;
+  let images: Record<string, string> = {};
+  if (fixture.newFile) {
+    images = await collectImages(serialized);
+    stub = installFigmaStub();
+    target = figma.createFrame();
+    for (const font of TEXT_FONTS) await figma.loadFontAsync(font);
+  }
+  const { warnings } = await restoreFrame(target, serialized, images);
+
+  const differences: Difference[] = [];
+  diff(before, stub.snapshot(target), fixture.name, differences);
+  return { differences, warnings };
+}
+
+function show(value: unknown): string {
+  return value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+async function main() {
+  let failed = 0;
+  for (const fixture of FIXTURES) {
+    let result: { differences: Difference[]; warnings: string[] };
+    try {
+      result = await roundTrip(fixture);
+    } catch (error: any) {
+      failed++;
+      console.log(`✗ ${fixture.name} — ${error.message || error}`);
+      continue;
+    }
+    const { differences, warnings } = result;
+    if (differences.length === 0 && warnings.length === 0) {
+      console.log(`✓ ${fixture.name}`);
+      continue;
+    }
+    failed++;
+    console.log(`✗ ${fixture.name}`);
+    for (const d of differences) console.log(`    ${d.path}: ${show(d.before)} → ${show(d.after)}`);
+    for (const w of warnings) console.log(`    warning: ${w}`);
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} of ${FIXTURES.length} fixtures did not survive serialize → restore`);
+  }
+  console.log(`[Roundtrip] OK — ${FIXTURES.length} fixtures`);
+}
+
+main().catch(error => {
+  console.error('[Roundtrip] FAILED:', error.message || error);
+  process.exit(1);
+});
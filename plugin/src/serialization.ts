@@ -0,0 +1,982 @@
+/**
+ * Serialization — Figma nodes ⇄ SerializedNode
+ *
+ * The mapping behind serialize_frame, restore_checkpoint and apply_template,
+ * kept apart from the command handlers so it only touches the `figma` global.
+ * src/headless/roundtrip.ts runs it in Node against a stubbed `figma` to check
+ * that fixture scenes survive serialize → restore → serialize.
+ */
+
+import type { SerializedNode, SerializedPaint, SerializedEffect, SerializedTextRun } from '../../shared/protocol';
+
+/**
+ * State of one restore. Components rebuilt from the tree get new ids, so the
+ * instances pointing at them are resolved here rather than by node id.
+ */
+interface RestoreContext {
+  warnings: string[];
+  /** Rebuilt components, by their saved id */
+  components: Map<string, ComponentNode>;
+  /** Saved ids of every component in the tree */
+  componentIds: Set<string>;
+  /** Instances met before their component — rebuilt once the rest of the tree is */
+  pending: Array<{ data: SerializedNode; placeholder: SceneNode }>;
+  /** Saved component property name → name of the re-created property */
+  propertyNames: Map<string, string>;
+}
+
+/**
+ * Replace the children and properties of `target` with a serialized tree.
+ * Images the file lacks are created from `images` (hash → base64) first.
+ */
+export async function restoreFrame(
+  target: FrameNode,
+  serialized: SerializedNode,
+  images: Record<string, string> = {},
+): Promise<{ missingImages: string[]; warnings: string[] }> {
+  // Step 1: Make sure every image the tree references exists in this file.
+  // Bytes sent by the backend's image store re-create the ones it doesn't have.
+  const warnings: string[] = [];
+  const missingImages = ensureImages(serialized, images);
+  if (missingImages.length > 0) {
+    warnings.push(`${missingImages.length} image fill${missingImages.length === 1 ? '' : 's'} skipped — image not in this file and no bytes stored`);
+  }
+
+  // Step 2: Clear all children
+  while (target.children.length > 0) {
+    target.children[0].remove();
+  }
+
+  // Step 3: Restore frame properties from serialized root
+  await restoreNodeProperties(target, serialized);
+
+  // Step 4: Recursively rebuild children, then the instances that were waiting for
+  // a component further down the tree
+  const ctx: RestoreContext = { warnings, components: new Map(), componentIds: new Set(), pending: [], propertyNames: new Map() };
+  const collectComponents = (data: SerializedNode) => {
+    if (data.type === 'COMPONENT') ctx.componentIds.add(data.id);
+    data.children?.forEach(collectComponents);
+  };
+  collectComponents(serialized);
+
+  if (serialized.children) {
+    for (const childData of serialized.children) {
+      await rebuildNode(childData, target, ctx);
+    }
+  }
+  for (const { data, placeholder } of ctx.pending) {
+    const parent = placeholder.parent as BaseNode & ChildrenMixin;
+    const index = parent.children.indexOf(placeholder);
+    const instance = await rebuildInstance(data, parent, ctx);
+    if (instance) {
+      parent.insertChild(index, instance);
+      restorePropertyReferences(instance, data, ctx);
+    }
+    placeholder.remove();
+  }
+
+  return { missingImages, warnings };
+}
+
+/**
+ * Visit every paint in a serialized tree (fills, strokes, text runs, vector regions)
+ */
+function forEachSerializedPaint(data: SerializedNode, visit: (paint: SerializedPaint) => void): void {
+  for (const paint of data.fills ?? []) visit(paint);
+  for (const paint of data.strokes ?? []) visit(paint);
+  for (const run of data.textRuns ?? []) for (const paint of run.fills ?? []) visit(paint);
+  for (const region of data.vectorNetwork?.regions ?? []) for (const paint of region.fills ?? []) visit(paint);
+  for (const child of data.children ?? []) forEachSerializedPaint(child, visit);
+}
+
+/**
+ * Create images the file lacks from the bytes provided. Figma hashes images by
+ * content, so the original hash normally comes back; if not, paints are
+ * re-pointed at the new one. Returns the hashes still missing.
+ */
+function ensureImages(serialized: SerializedNode, images: Record<string, string>): string[] {
+  const hashes = new Set<string>();
+  forEachSerializedPaint(serialized, paint => {
+    if (paint.type === 'IMAGE' && paint.imageHash) hashes.add(paint.imageHash);
+  });
+
+  const remap = new Map<string, string>();
+  const missing: string[] = [];
+  for (const hash of hashes) {
+    if (figma.getImageByHash(hash)) continue;
+    if (images[hash]) {
+      const image = figma.createImage(figma.base64Decode(images[hash]));
+      if (image.hash !== hash) remap.set(hash, image.hash);
+      continue;
+    }
+    missing.push(hash);
+  }
+
+  if (remap.size > 0) {
+    forEachSerializedPaint(serialized, paint => {
+      if (paint.imageHash && remap.has(paint.imageHash)) paint.imageHash = remap.get(paint.imageHash);
+    });
+  }
+  return missing;
+}
+
+/** Leaf shapes rebuilt by creating the node and restoring its properties */
+const SHAPE_FACTORIES: Record<string, () => SceneNode> = {
+  RECTANGLE: () => figma.createRectangle(),
+  ELLIPSE: () => figma.createEllipse(),
+  LINE: () => figma.createLine(),
+  POLYGON: () => figma.createPolygon(),
+  STAR: () => figma.createStar(),
+  VECTOR: () => figma.createVector(),
+};
+
+/**
+ * Rebuild the children of a group-like node directly in `parent` — groups and
+ * boolean operations are formed around existing nodes, and their children's
+ * positions are already relative to the containing frame
+ */
+async function rebuildOperands(data: SerializedNode, parent: BaseNode & ChildrenMixin, ctx: RestoreContext): Promise<SceneNode[]> {
+  const nodes: SceneNode[] = [];
+  for (const childData of data.children ?? []) {
+    const child = await rebuildNode(childData, parent, ctx);
+    if (child) nodes.push(child);
+  }
+  return nodes;
+}
+
+async function rebuildNode(data: SerializedNode, parent: BaseNode & ChildrenMixin, ctx: RestoreContext): Promise<SceneNode | null> {
+  let node: SceneNode;
+
+  switch (data.type) {
+    case 'FRAME':
+    case 'COMPONENT': {
+      const frame = data.type === 'COMPONENT' ? figma.createComponent() : figma.createFrame();
+      parent.appendChild(frame);
+      if (frame.type === 'COMPONENT') {
+        ctx.components.set(data.id, frame);
+        // Before the children, whose layers may be bound to these properties
+        addComponentProperties(frame, data, ctx);
+      }
+      // Apply properties and then rebuild children
+      await restoreNodeProperties(frame, data);
+      if (data.children) {
+        for (const childData of data.children) {
+          await rebuildNode(childData, frame, ctx);
+        }
+      }
+      node = frame;
+      break;
+    }
+    case 'TEXT': {
+      const text = figma.createText();
+      // Load font before appending and setting properties
+      const fontFamily = data.fontName?.family || 'Inter';
+      const fontStyle = data.fontName?.style || 'Regular';
+      try {
+        await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
+      } catch {
+        // Fallback to Inter/Regular
+        try {
+          await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+        } catch {
+          // Last resort — continue without font loaded
+        }
+      }
+      parent.appendChild(text);
+      await restoreNodeProperties(text, data);
+      node = text;
+      break;
+    }
+    case 'RECTANGLE':
+    case 'ELLIPSE':
+    case 'LINE':
+    case 'POLYGON':
+    case 'STAR':
+    case 'VECTOR': {
+      const shape = SHAPE_FACTORIES[data.type]();
+      parent.appendChild(shape);
+      // Geometry first — restoreNodeProperties then scales it to the saved size
+      if (shape.type === 'VECTOR') await restoreVectorGeometry(shape, data, ctx.warnings);
+      if ((shape.type === 'POLYGON' || shape.type === 'STAR') && data.pointCount !== undefined) shape.pointCount = data.pointCount;
+      if (shape.type === 'STAR' && data.innerRadius !== undefined) shape.innerRadius = data.innerRadius;
+      await restoreNodeProperties(shape, data);
+      node = shape;
+      break;
+    }
+    case 'GROUP': {
+      const children = await rebuildOperands(data, parent, ctx);
+      if (children.length === 0) return null; // Figma has no empty groups
+      const group = figma.group(children, parent, parent.children.indexOf(children[0]));
+      await restoreNodeProperties(group, data, { geometry: false });
+      node = group;
+      break;
+    }
+    case 'BOOLEAN_OPERATION': {
+      const operands = await rebuildOperands(data, parent, ctx);
+      if (operands.length === 0) return null;
+      const index = parent.children.indexOf(operands[0]);
+      const operation = data.booleanOperation ?? 'UNION';
+      const combined = operation === 'SUBTRACT' ? figma.subtract(operands, parent, index)
+        : operation === 'INTERSECT' ? figma.intersect(operands, parent, index)
+        : operation === 'EXCLUDE' ? figma.exclude(operands, parent, index)
+        : figma.union(operands, parent, index);
+      await restoreNodeProperties(combined, data, { geometry: false });
+      node = combined;
+      break;
+    }
+    case 'COMPONENT_SET': {
+      const variants = (await rebuildOperands(data, parent, ctx)).filter((n): n is ComponentNode => n.type === 'COMPONENT');
+      if (variants.length === 0) return null;
+      const set = figma.combineAsVariants(variants, parent, parent.children.indexOf(variants[0]));
+      addComponentProperties(set, data, ctx);
+      await restoreNodeProperties(set, data);
+      // Variants were placed relative to the old parent — put them back inside the set
+      for (const [i, variant] of set.children.entries()) {
+        const saved = data.children?.[i];
+        if (saved) {
+          variant.x = saved.x;
+          variant.y = saved.y;
+        }
+      }
+      node = set;
+      break;
+    }
+    case 'INSTANCE': {
+      const instance = await rebuildInstance(data, parent, ctx);
+      if (!instance) return null;
+      node = instance;
+      break;
+    }
+    default: {
+      // For unsupported types, create a rectangle placeholder
+      const placeholder = figma.createRectangle();
+      parent.appendChild(placeholder);
+      placeholder.name = `[${data.type}] ${data.name}`;
+      placeholder.resize(data.width || 100, data.height || 100);
+      placeholder.x = data.x || 0;
+      placeholder.y = data.y || 0;
+      ctx.warnings.push(`${data.type} "${data.name}" can't be rebuilt — placeholder rectangle`);
+      node = placeholder;
+      break;
+    }
+  }
+
+  restorePropertyReferences(node, data, ctx);
+  return node;
+}
+
+/**
+ * Re-create the properties of a component or component set (variant properties
+ * come back with the variant names). Figma suffixes the names with a new id,
+ * so the new names are recorded for the layers and instances that use them.
+ */
+function addComponentProperties(node: ComponentNode | ComponentSetNode, data: SerializedNode, ctx: RestoreContext): void {
+  for (const [name, definition] of Object.entries(data.componentPropertyDefinitions ?? {})) {
+    if (definition.type === 'VARIANT') continue;
+    try {
+      ctx.propertyNames.set(name, node.addComponentProperty(name.replace(/#[^#]*$/, ''), definition.type as ComponentPropertyType, definition.defaultValue));
+    } catch (error: any) {
+      ctx.warnings.push(`Component "${data.name}": property "${name}" not restored (${error.message || error})`);
+    }
+  }
+}
+
+function restorePropertyReferences(node: SceneNode, data: SerializedNode, ctx: RestoreContext): void {
+  if (!data.componentPropertyReferences || !('componentPropertyReferences' in node)) return;
+  const references = Object.fromEntries(
+    Object.entries(data.componentPropertyReferences).map(([field, name]) => [field, ctx.propertyNames.get(name) ?? name]),
+  );
+  try {
+    node.componentPropertyReferences = references;
+  } catch (error: any) {
+    ctx.warnings.push(`Layer "${data.name}": component property links not restored (${error.message || error})`);
+  }
+}
+
+async function restoreVectorGeometry(vector: VectorNode, data: SerializedNode, warnings: string[]): Promise<void> {
+  if (data.vectorNetwork) {
+    try {
+      const network = {
+        ...data.vectorNetwork,
+        regions: data.vectorNetwork.regions?.map(region => ({
+          ...region,
+          fills: region.fills?.map(restorePaint).filter((p): p is Paint => p !== null),
+        })),
+      };
+      await vector.setVectorNetworkAsync(network as unknown as VectorNetwork);
+      return;
+    } catch {
+      // Fall through to the flattened paths
+    }
+  }
+  if (data.vectorPaths) {
+    vector.vectorPaths = data.vectorPaths;
+  } else {
+    warnings.push(`Vector "${data.name}" has no geometry saved`);
+  }
+}
+
+/**
+ * Instances come back as instances of their main component (rebuilt from the
+ * same tree, local, or imported by key when published), with component
+ * properties and per-layer overrides re-applied. Without the component they
+ * become a detached frame copy.
+ */
+async function rebuildInstance(data: SerializedNode, parent: BaseNode & ChildrenMixin, ctx: RestoreContext): Promise<SceneNode | null> {
+  const { warnings } = ctx;
+  let main: ComponentNode | null = data.mainComponentId ? ctx.components.get(data.mainComponentId) ?? null : null;
+  if (!main && data.mainComponentId && ctx.componentIds.has(data.mainComponentId)) {
+    // The component is rebuilt later in this tree — hold the spot until it is
+    const placeholder = figma.createFrame();
+    parent.appendChild(placeholder);
+    ctx.pending.push({ data, placeholder });
+    return placeholder;
+  }
+  if (!main && data.mainComponentId) {
+    const found = figma.getNodeById(data.mainComponentId);
+    if (found && found.type === 'COMPONENT') main = found;
+  }
+  if (!main && data.componentKey) {
+    try {
+      main = await figma.importComponentByKeyAsync(data.componentKey);
+    } catch {
+      // Not published, or not in an enabled library
+    }
+  }
+  if (!main) {
+    warnings.push(`Instance "${data.name}": main component not found — restored as a detached frame`);
+    return rebuildNode({ ...data, type: 'FRAME' }, parent, ctx);
+  }
+
+  const instance = main.createInstance();
+  parent.appendChild(instance);
+  if (data.componentProperties && Object.keys(data.componentProperties).length > 0) {
+    const properties = Object.fromEntries(
+      Object.entries(data.componentProperties).map(([name, value]) => [ctx.propertyNames.get(name) ?? name, value]),
+    );
+    try {
+      instance.setProperties(properties);
+    } catch (error: any) {
+      warnings.push(`Instance "${data.name}": component properties not applied (${error.message || error})`);
+    }
+  }
+  await restoreNodeProperties(instance, data);
+  await restoreInstanceOverrides(instance, data.children ?? [], data.name, warnings);
+  return instance;
+}
+
+/**
+ * Re-apply overrides to the layers of an instance, matched by position. Layer
+ * geometry follows the component, so only styling and content are restored.
+ */
+async function restoreInstanceOverrides(
+  node: ChildrenMixin,
+  children: SerializedNode[],
+  instanceName: string,
+  warnings: string[],
+): Promise<void> {
+  for (const [i, childData] of children.entries()) {
+    const child = node.children[i];
+    if (!child || child.type !== childData.type) {
+      warnings.push(`Instance "${instanceName}": layer "${childData.name}" no longer matches the component — override skipped`);
+      continue;
+    }
+    try {
+      await restoreNodeProperties(child, childData, { geometry: false });
+    } catch {
+      // Property not overridable on this layer — keep the component's value
+    }
+    if ('children' in child && childData.children) {
+      await restoreInstanceOverrides(child as ChildrenMixin, childData.children, instanceName, warnings);
+    }
+  }
+}
+
+/**
+ * geometry: false skips position, size and rotation — for groups and boolean
+ * operations (bounds follow their children) and instance layers (follow the component)
+ */
+async function restoreNodeProperties(node: SceneNode, data: SerializedNode, opts: { geometry?: boolean } = {}): Promise<void> {
+  const geometry = opts.geometry ?? true;
+
+  // Name
+  if (data.name) node.name = data.name;
+
+  // Layout positioning first — flow children of auto-layout frames ignore x/y
+  if (data.layoutPositioning !== undefined) {
+    (node as any).layoutPositioning = data.layoutPositioning;
+  }
+
+  // Position and dimensions
+  const ln = node as SceneNode & LayoutMixin;
+  if (geometry) {
+    if (data.x !== undefined) ln.x = data.x;
+    if (data.y !== undefined) ln.y = data.y;
+    if (data.width !== undefined && data.height !== undefined) {
+      // Lines have no height
+      ln.resize(data.width, node.type === 'LINE' ? 0 : data.height);
+    }
+    if (data.rotation !== undefined) ln.rotation = data.rotation;
+  }
+
+  // Visibility and locked state
+  if (data.visible === false) node.visible = false;
+  if (data.locked === true) node.locked = true;
+
+  // Opacity and blend mode
+  if (data.opacity !== undefined) {
+    (node as BlendMixin).opacity = data.opacity;
+  }
+  if (data.blendMode !== undefined && 'blendMode' in node) {
+    (node as BlendMixin).blendMode = data.blendMode as BlendMode;
+  }
+
+  // Fills — restore solid, gradient, and image fills
+  if (data.fills && 'fills' in node) {
+    const restoredFills: Paint[] = [];
+    for (const fill of data.fills) {
+      const paint = restorePaint(fill);
+      if (paint) restoredFills.push(paint);
+    }
+    // An empty list is a real value (transparent frame), not a missing one
+    if (restoredFills.length > 0 || data.fills.length === 0) {
+      (node as GeometryMixin).fills = restoredFills;
+    }
+  }
+
+  // Strokes
+  if (data.strokes && 'strokes' in node) {
+    const restoredStrokes: Paint[] = [];
+    for (const stroke of data.strokes) {
+      const paint = restorePaint(stroke);
+      if (paint) restoredStrokes.push(paint);
+    }
+    if (restoredStrokes.length > 0 || data.strokes.length === 0) {
+      (node as GeometryMixin).strokes = restoredStrokes;
+    }
+  }
+
+  // Stroke weight and style
+  if (data.strokeWeight !== undefined && 'strokeWeight' in node) {
+    (node as GeometryMixin).strokeWeight = data.strokeWeight;
+  }
+  if (data.strokeAlign !== undefined && 'strokeAlign' in node) {
+    (node as GeometryMixin).strokeAlign = data.strokeAlign;
+  }
+  if (data.strokeCap !== undefined && 'strokeCap' in node) {
+    (node as GeometryMixin).strokeCap = data.strokeCap as StrokeCap;
+  }
+  if (data.strokeJoin !== undefined && 'strokeJoin' in node) {
+    (node as GeometryMixin).strokeJoin = data.strokeJoin;
+  }
+  if (data.dashPattern !== undefined && 'dashPattern' in node) {
+    (node as GeometryMixin).dashPattern = data.dashPattern;
+  }
+
+  // Corner radius — uniform, or per corner when it was mixed
+  if (data.cornerRadius !== undefined && 'cornerRadius' in node) {
+    (node as RectangleNode | FrameNode).cornerRadius = data.cornerRadius;
+  }
+  if (data.cornerRadii !== undefined && 'topLeftRadius' in node) {
+    const corners = node as RectangleNode | FrameNode;
+    [corners.topLeftRadius, corners.topRightRadius, corners.bottomRightRadius, corners.bottomLeftRadius] = data.cornerRadii;
+  }
+
+  // Constraints (children of non-auto-layout frames)
+  if (data.constraints !== undefined && 'constraints' in node) {
+    (node as ConstraintMixin).constraints = { ...data.constraints };
+  }
+
+  // Effects
+  if (data.effects && 'effects' in node) {
+    const restoredEffects: Effect[] = data.effects.map(e => restoreEffect(e));
+    (node as BlendMixin).effects = restoredEffects;
+  }
+
+  const frameLike = node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'INSTANCE';
+
+  // Layout sizing — frames set theirs below, once layoutMode allows HUG
+  if (!frameLike && data.layoutSizingHorizontal !== undefined) {
+    (node as any).layoutSizingHorizontal = data.layoutSizingHorizontal;
+  }
+  if (!frameLike && data.layoutSizingVertical !== undefined) {
+    (node as any).layoutSizingVertical = data.layoutSizingVertical;
+  }
+
+  // Auto-layout properties (frame-like nodes)
+  if (frameLike) {
+    const frame = node as FrameNode;
+
+    // Set layoutMode first — this enables auto-layout
+    if (data.layoutMode !== undefined) {
+      frame.layoutMode = data.layoutMode as 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+    }
+
+    if (data.layoutMode && data.layoutMode !== 'NONE') {
+      if (data.itemSpacing !== undefined) frame.itemSpacing = data.itemSpacing;
+      if (data.paddingTop !== undefined) frame.paddingTop = data.paddingTop;
+      if (data.paddingRight !== undefined) frame.paddingRight = data.paddingRight;
+      if (data.paddingBottom !== undefined) frame.paddingBottom = data.paddingBottom;
+      if (data.paddingLeft !== undefined) frame.paddingLeft = data.paddingLeft;
+      if (data.primaryAxisAlignItems !== undefined) {
+        frame.primaryAxisAlignItems = data.primaryAxisAlignItems as 'MIN' | 'MAX' | 'CENTER' | 'SPACE_BETWEEN';
+      }
+      if (data.counterAxisAlignItems !== undefined) {
+        frame.counterAxisAlignItems = data.counterAxisAlignItems as 'MIN' | 'MAX' | 'CENTER';
+      }
+    }
+
+    // Clips content
+    if (data.clipsContent !== undefined) frame.clipsContent = data.clipsContent;
+
+    // ALWAYS re-apply dimensions after layout mode changes — layoutMode triggers HUG which shrinks.
+    // resize() fixes both axes, so the sizing modes come after it.
+    if (geometry && data.width !== undefined && data.height !== undefined) {
+      frame.resize(data.width, data.height);
+    }
+    if (data.layoutMode && data.layoutMode !== 'NONE') {
+      if (data.primaryAxisSizingMode !== undefined) {
+        frame.primaryAxisSizingMode = data.primaryAxisSizingMode as 'FIXED' | 'AUTO';
+      }
+      if (data.counterAxisSizingMode !== undefined) {
+        frame.counterAxisSizingMode = data.counterAxisSizingMode as 'FIXED' | 'AUTO';
+      }
+    }
+
+    // Layout sizing (HUG on auto-layout frames, FILL inside auto-layout parents)
+    if (data.layoutSizingHorizontal !== undefined) {
+      frame.layoutSizingHorizontal = data.layoutSizingHorizontal as 'FIXED' | 'HUG' | 'FILL';
+    }
+    if (data.layoutSizingVertical !== undefined) {
+      frame.layoutSizingVertical = data.layoutSizingVertical as 'FIXED' | 'HUG' | 'FILL';
+    }
+  }
+
+  // Text properties (TEXT only)
+  if (node.type === 'TEXT') {
+    const text = node as TextNode;
+
+    // Font must be loaded before setting text properties
+    if (data.fontName) {
+      try {
+        await figma.loadFontAsync(data.fontName);
+        text.fontName = data.fontName;
+      } catch {
+        // Fallback — font already loaded in rebuildNode
+      }
+    }
+
+    // A node with mixed fonts needs every one of them loaded before it can change
+    await loadTextFonts(text);
+    if (data.characters !== undefined) text.characters = data.characters;
+    if (data.fontSize !== undefined) text.fontSize = data.fontSize as number;
+    if (data.textAlignHorizontal !== undefined) {
+      text.textAlignHorizontal = data.textAlignHorizontal as 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+    }
+    if (data.textAlignVertical !== undefined) {
+      text.textAlignVertical = data.textAlignVertical as 'TOP' | 'CENTER' | 'BOTTOM';
+    }
+    if (data.textAutoResize !== undefined) {
+      text.textAutoResize = data.textAutoResize as 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE';
+    }
+    if (data.lineHeight !== undefined) {
+      text.lineHeight = data.lineHeight as LineHeight;
+    }
+    if (data.letterSpacing !== undefined) {
+      text.letterSpacing = data.letterSpacing as LetterSpacing;
+    }
+    if (data.textCase !== undefined) {
+      text.textCase = data.textCase as TextCase;
+    }
+    if (data.textDecoration !== undefined) {
+      text.textDecoration = data.textDecoration as TextDecoration;
+    }
+
+    // Per-range styling last, on top of the node-level values above
+    if (data.textRuns && data.textRuns.length > 0) {
+      await applyTextRuns(text, data.textRuns);
+    }
+  }
+}
+
+function restorePaint(fill: SerializedPaint): Paint | null {
+  if (fill.type === 'SOLID' && fill.color) {
+    return {
+      type: 'SOLID',
+      color: fill.color,
+      opacity: fill.opacity ?? 1,
+      visible: fill.visible ?? true,
+    } as SolidPaint;
+  }
+
+  if (fill.type.startsWith('GRADIENT') && fill.gradientStops) {
+    return {
+      type: fill.type as GradientPaint['type'],
+      gradientStops: fill.gradientStops.map(s => ({
+        position: s.position,
+        color: s.color,
+      })),
+      gradientTransform: fill.gradientTransform as Transform || [[1, 0, 0], [0, 1, 0]],
+      opacity: fill.opacity ?? 1,
+      visible: fill.visible ?? true,
+    } as GradientPaint;
+  }
+
+  if (fill.type === 'IMAGE' && fill.imageHash) {
+    return {
+      type: 'IMAGE',
+      imageHash: fill.imageHash,
+      scaleMode: (fill.scaleMode || 'FILL') as ImagePaint['scaleMode'],
+      imageTransform: fill.imageTransform as Transform || [[1, 0, 0], [0, 1, 0]],
+      opacity: fill.opacity ?? 1,
+      visible: fill.visible ?? true,
+    } as ImagePaint;
+  }
+
+  // Unsupported paint type — skip
+  return null;
+}
+
+function restoreEffect(data: SerializedEffect): Effect {
+  const base: any = {
+    type: data.type,
+    visible: data.visible ?? true,
+  };
+
+  if (data.radius !== undefined) base.radius = data.radius;
+  if (data.color !== undefined) base.color = data.color;
+  if (data.offset !== undefined) base.offset = data.offset;
+  if (data.spread !== undefined) base.spread = data.spread;
+  // Shadows require a blend mode; checkpoints saved before it was serialized have none
+  if (data.blendMode !== undefined) base.blendMode = data.blendMode;
+  else if (data.type === 'DROP_SHADOW' || data.type === 'INNER_SHADOW') base.blendMode = 'NORMAL';
+
+  return base as Effect;
+}
+
+/**
+ * Load a font, falling back like createText: case-insensitive style → Regular →
+ * first style in the family → Inter/Regular. Returns the font actually loaded.
+ */
+export async function loadFontWithFallback(family: string, style: string): Promise<FontName> {
+  try {
+    await figma.loadFontAsync({ family, style });
+    return { family, style };
+  } catch {
+    try {
+      const available = await figma.listAvailableFontsAsync();
+      const familyFonts = available.filter(f => f.fontName.family === family);
+      if (familyFonts.length > 0) {
+        const match = familyFonts.find(f => f.fontName.style.toLowerCase() === style.toLowerCase())
+          || familyFonts.find(f => f.fontName.style === 'Regular')
+          || familyFonts[0];
+        await figma.loadFontAsync(match.fontName);
+        return match.fontName;
+      }
+    } catch { /* continue to Inter fallback */ }
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+    return { family: 'Inter', style: 'Regular' };
+  }
+}
+
+/**
+ * Load every font used in a text node (all runs when the font is mixed)
+ */
+export async function loadTextFonts(text: TextNode): Promise<void> {
+  const fonts = text.fontName !== figma.mixed
+    ? [text.fontName]
+    : text.getRangeAllFontNames(0, text.characters.length);
+  for (const font of fonts) {
+    try {
+      await figma.loadFontAsync(font);
+    } catch {
+      // Missing font — the mutation that needs it will report the error
+    }
+  }
+}
+
+/**
+ * Style character ranges of a text node (rich text). Each run's font is loaded
+ * with the same fallback as createText. Returns the run fonts that fell back.
+ */
+export async function applyTextRuns(
+  text: TextNode,
+  runs: SerializedTextRun[],
+): Promise<Array<{ requested: FontName; applied: FontName }>> {
+  const fallbacks: Array<{ requested: FontName; applied: FontName }> = [];
+  const length = text.characters.length;
+
+  for (const run of runs) {
+    const start = Math.max(0, run.start);
+    const end = Math.min(length, run.end);
+    if (end <= start) continue;
+
+    if (run.fontName) {
+      const applied = await loadFontWithFallback(run.fontName.family, run.fontName.style);
+      if (applied.family !== run.fontName.family || applied.style !== run.fontName.style) {
+        fallbacks.push({ requested: run.fontName, applied });
+      }
+      text.setRangeFontName(start, end, applied);
+    }
+    if (run.fontSize !== undefined) text.setRangeFontSize(start, end, run.fontSize);
+    if (run.fills) {
+      const fills = run.fills.map(restorePaint).filter((p): p is Paint => p !== null);
+      text.setRangeFills(start, end, fills);
+    }
+    if (run.textDecoration !== undefined) text.setRangeTextDecoration(start, end, run.textDecoration);
+  }
+
+  return fallbacks;
+}
+
+export function serializeNode(node: SceneNode, maxDepth: number, currentDepth = 0): SerializedNode {
+  // Cast to LayoutMixin for position/rotation access (most SceneNodes implement this)
+  const ln = node as SceneNode & LayoutMixin;
+  const base: SerializedNode = {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    x: ln.x,
+    y: ln.y,
+    width: ln.width,
+    height: ln.height,
+    rotation: ln.rotation !== 0 ? ln.rotation : undefined,
+    visible: !node.visible ? false : undefined,
+    locked: node.locked ? true : undefined,
+  };
+
+  // Visual properties — use 'as any' for mixed comparisons since
+  // Figma's type narrowing with figma.mixed is unreliable across node types
+  const geoNode = node as any;
+  if ('fills' in node) {
+    const fills = geoNode.fills;
+    if (fills !== figma.mixed && Array.isArray(fills)) {
+      base.fills = (fills as Paint[]).map(serializePaint);
+    }
+  }
+  if ('strokes' in node) {
+    const strokes = geoNode.strokes;
+    if (strokes !== figma.mixed && Array.isArray(strokes)) {
+      base.strokes = (strokes as Paint[]).map(serializePaint);
+    }
+  }
+  if ('strokeWeight' in node && geoNode.strokeWeight !== figma.mixed) {
+    base.strokeWeight = geoNode.strokeWeight as number;
+  }
+  if ('strokeAlign' in node && geoNode.strokes?.length > 0) {
+    base.strokeAlign = geoNode.strokeAlign;
+  }
+  if ('strokeCap' in node && geoNode.strokeCap !== figma.mixed && geoNode.strokeCap !== 'NONE') {
+    base.strokeCap = geoNode.strokeCap;
+  }
+  if ('strokeJoin' in node && geoNode.strokeJoin !== figma.mixed && geoNode.strokeJoin !== 'MITER') {
+    base.strokeJoin = geoNode.strokeJoin;
+  }
+  if ('dashPattern' in node && geoNode.dashPattern.length > 0) {
+    base.dashPattern = [...geoNode.dashPattern];
+  }
+  if ('cornerRadius' in node) {
+    const cr = geoNode.cornerRadius;
+    if (cr !== figma.mixed) {
+      base.cornerRadius = cr as number;
+    } else if ('topLeftRadius' in node) {
+      base.cornerRadii = [geoNode.topLeftRadius, geoNode.topRightRadius, geoNode.bottomRightRadius, geoNode.bottomLeftRadius];
+    }
+  }
+  if ('blendMode' in node && geoNode.blendMode !== 'PASS_THROUGH' && geoNode.blendMode !== 'NORMAL') {
+    base.blendMode = geoNode.blendMode;
+  }
+  if ('constraints' in node) {
+    const { horizontal, vertical } = geoNode.constraints as Constraints;
+    if (horizontal !== 'MIN' || vertical !== 'MIN') base.constraints = { horizontal, vertical };
+  }
+  if ('effects' in node) {
+    const effects = geoNode.effects;
+    if (effects !== figma.mixed && Array.isArray(effects)) {
+      base.effects = (effects as Effect[]).map(serializeEffect);
+    }
+  }
+  if ('opacity' in node && (node as BlendMixin).opacity !== 1) {
+    base.opacity = (node as BlendMixin).opacity;
+  }
+
+  // Children of auto-layout frames: absolute positioning and FILL / HUG sizing
+  const parent = node.parent;
+  if (parent && 'layoutMode' in parent && parent.layoutMode !== 'NONE') {
+    if (ln.layoutPositioning === 'ABSOLUTE') base.layoutPositioning = 'ABSOLUTE';
+    base.layoutSizingHorizontal = ln.layoutSizingHorizontal;
+    base.layoutSizingVertical = ln.layoutSizingVertical;
+  }
+
+  // Auto-layout properties (frame-like nodes)
+  if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'INSTANCE') {
+    const frame = node as FrameNode;
+    base.layoutMode = frame.layoutMode as SerializedNode['layoutMode'];
+    base.layoutPositioning = frame.layoutPositioning;
+    if (frame.layoutMode !== 'NONE') {
+      base.itemSpacing = frame.itemSpacing;
+      base.paddingTop = frame.paddingTop;
+      base.paddingRight = frame.paddingRight;
+      base.paddingBottom = frame.paddingBottom;
+      base.paddingLeft = frame.paddingLeft;
+      base.primaryAxisAlignItems = frame.primaryAxisAlignItems;
+      base.counterAxisAlignItems = frame.counterAxisAlignItems;
+      base.primaryAxisSizingMode = frame.primaryAxisSizingMode;
+      base.counterAxisSizingMode = frame.counterAxisSizingMode;
+      base.layoutSizingHorizontal = frame.layoutSizingHorizontal;
+      base.layoutSizingVertical = frame.layoutSizingVertical;
+    }
+    base.clipsContent = frame.clipsContent;
+  }
+
+  // Text properties (TEXT)
+  if (node.type === 'TEXT') {
+    const text = node as TextNode;
+    const textAny = text as any; // for mixed-type comparisons
+    base.characters = text.characters;
+    base.fontSize = textAny.fontSize !== figma.mixed ? text.fontSize as number : undefined;
+    base.fontName = textAny.fontName !== figma.mixed ? text.fontName as { family: string; style: string } : undefined;
+    const td = textAny.textDecoration;
+    base.textDecoration = td !== figma.mixed ? td as SerializedNode['textDecoration'] : undefined;
+
+    // Mixed styling: keep every run, and fill the node-level values left mixed
+    // from the longest run so consumers that ignore runs still see the main style
+    const segments = text.getStyledTextSegments(['fontName', 'fontSize', 'fills', 'textDecoration']);
+    if (segments.length > 1) {
+      base.textRuns = segments.map(s => ({
+        start: s.start,
+        end: s.end,
+        fontName: { family: s.fontName.family, style: s.fontName.style },
+        fontSize: s.fontSize,
+        fills: (s.fills as Paint[]).map(serializePaint),
+        textDecoration: s.textDecoration,
+      }));
+      const main = segments.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+      base.fontSize ??= main.fontSize;
+      base.fontName ??= { family: main.fontName.family, style: main.fontName.style };
+      base.fills ??= (main.fills as Paint[]).map(serializePaint);
+      base.textDecoration ??= main.textDecoration;
+    }
+    base.textAlignHorizontal = text.textAlignHorizontal;
+    base.textAlignVertical = text.textAlignVertical;
+    base.textAutoResize = text.textAutoResize;
+    const lh = textAny.lineHeight;
+    base.lineHeight = lh !== figma.mixed ? lh as SerializedNode['lineHeight'] : undefined;
+    const ls = textAny.letterSpacing;
+    base.letterSpacing = ls !== figma.mixed ? ls as SerializedNode['letterSpacing'] : undefined;
+    const tc = textAny.textCase;
+    base.textCase = tc !== figma.mixed && tc !== 'ORIGINAL' ? tc as SerializedNode['textCase'] : undefined;
+  }
+
+  // Geometry of vectors and parametric shapes
+  if (node.type === 'VECTOR') {
+    const network = node.vectorNetwork;
+    base.vectorNetwork = {
+      vertices: network.vertices.map(v => ({ ...v })),
+      segments: network.segments.map(s => ({
+        ...s,
+        tangentStart: s.tangentStart ? { ...s.tangentStart } : undefined,
+        tangentEnd: s.tangentEnd ? { ...s.tangentEnd } : undefined,
+      })),
+      regions: network.regions?.map(r => ({
+        windingRule: r.windingRule,
+        loops: r.loops.map(loop => [...loop]),
+        fills: r.fills ? (r.fills as Paint[]).map(serializePaint) : undefined,
+      })),
+    };
+    base.vectorPaths = node.vectorPaths.map(p => ({ windingRule: p.windingRule, data: p.data }));
+  }
+  if (node.type === 'POLYGON' || node.type === 'STAR') {
+    base.pointCount = node.pointCount;
+  }
+  if (node.type === 'STAR') {
+    base.innerRadius = node.innerRadius;
+  }
+  if (node.type === 'BOOLEAN_OPERATION') {
+    base.booleanOperation = node.booleanOperation;
+  }
+
+  // Instances reference their main component; the children below carry overrides
+  if (node.type === 'INSTANCE') {
+    const main = node.mainComponent;
+    if (main) {
+      base.mainComponentId = main.id;
+      base.componentKey = main.key || undefined;
+    }
+    const props = node.componentProperties;
+    if (Object.keys(props).length > 0) {
+      base.componentProperties = Object.fromEntries(Object.entries(props).map(([name, prop]) => [name, prop.value]));
+    }
+  }
+
+  // Component properties — variants don't own theirs, the set does
+  if ((node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET') || node.type === 'COMPONENT_SET') {
+    const definitions = node.componentPropertyDefinitions;
+    if (Object.keys(definitions).length > 0) {
+      base.componentPropertyDefinitions = Object.fromEntries(Object.entries(definitions).map(([name, d]) => [
+        name,
+        { type: d.type, defaultValue: d.defaultValue, variantOptions: d.variantOptions ? [...d.variantOptions] : undefined },
+      ]));
+    }
+  }
+  if ('componentPropertyReferences' in node && node.componentPropertyReferences) {
+    const references = Object.entries(node.componentPropertyReferences).filter(([, name]) => name);
+    if (references.length > 0) base.componentPropertyReferences = Object.fromEntries(references) as Record<string, string>;
+  }
+
+  // Children (recursive, depth-limited)
+  if ('children' in node && currentDepth < maxDepth) {
+    base.children = (node as ChildrenMixin).children.map(child =>
+      serializeNode(child as SceneNode, maxDepth, currentDepth + 1)
+    );
+  }
+
+  return base;
+}
+
+export function serializePaint(paint: Paint): SerializedPaint {
+  const base: SerializedPaint = {
+    type: paint.type,
+    visible: paint.visible,
+    opacity: paint.opacity,
+  };
+
+  if (paint.type === 'SOLID') {
+    base.color = (paint as SolidPaint).color;
+  } else if (paint.type.startsWith('GRADIENT')) {
+    const gp = paint as GradientPaint;
+    base.gradientStops = gp.gradientStops.map(s => ({ position: s.position, color: { ...s.color } }));
+    base.gradientTransform = gp.gradientTransform;
+  } else if (paint.type === 'IMAGE') {
+    const ip = paint as ImagePaint;
+    base.imageHash = ip.imageHash ?? undefined;
+    base.scaleMode = ip.scaleMode;
+    base.imageTransform = ip.imageTransform;
+  }
+  // VIDEO, PATTERN — serialize type only (no additional data needed)
+
+  return base;
+}
+
+function serializeEffect(effect: Effect): SerializedEffect {
+  const base: SerializedEffect = {
+    type: effect.type,
+    visible: effect.visible,
+    radius: 'radius' in effect ? (effect as any).radius : undefined,
+  };
+
+  if ('color' in effect) {
+    base.color = (effect as any).color;
+  }
+  if ('offset' in effect) {
+    base.offset = (effect as any).offset;
+  }
+  if ('spread' in effect) {
+    base.spread = (effect as any).spread;
+  }
+  if ('blendMode' in effect) {
+    base.blendMode = (effect as any).blendMode;
+  }
+
+  return base;
+}
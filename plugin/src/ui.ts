@@ -43,6 +43,7 @@ const brandSelector = document.getElementById('brandSelector') as HTMLSelectElem
 const newConceptBtn = document.getElementById('newConceptBtn') as HTMLButtonElement;
 const costDisplay = document.getElementById('costDisplay') as HTMLSpanElement;
 const debugToggle = document.getElementById('debugToggle') as HTMLButtonElement;
+const generationTray = document.getElementById('generationTray') as HTMLDivElement;
 
 let debugMode = false;
 
@@ -142,7 +143,13 @@ function handleUIUpdate(msg: UIUpdate) {
       addStatusMessage(`✓ ${msg.tool}: ${msg.summary}`);
       break;
     case 'cost_update':
-      updateCostDisplay(msg.spent, msg.budget);
+      updateCostDisplay(msg.spent, msg.budget, msg.conceptSpent, msg.conceptBudget);
+      break;
+    case 'budget_exceeded':
+      addBudgetPrompt(msg);
+      break;
+    case 'generation_progress':
+      updateGenerationTray(msg);
       break;
     case 'status':
       addStatusMessage(`[${msg.phase}] ${msg.message}`);
@@ -291,9 +298,115 @@ function addDebugMessage(message: string, raw: any) {
   scrollToBottom();
 }
 
-function updateCostDisplay(spent: number, budget: number) {
-  costDisplay.textContent = `$${spent.toFixed(2)}`;
-  costDisplay.title = `$${spent.toFixed(2)} of $${budget.toFixed(2)} budget`;
+function updateCostDisplay(spent: number, budget: number, conceptSpent?: number, conceptBudget?: number) {
+  costDisplay.textContent = `$${spent.toFixed(2)} / $${budget.toFixed(2)}`;
+  costDisplay.title = `$${spent.toFixed(2)} of $${budget.toFixed(2)} session budget` +
+    (conceptSpent !== undefined && conceptBudget !== undefined
+      ? `\n$${conceptSpent.toFixed(2)} of $${conceptBudget.toFixed(2)} concept budget`
+      : '');
+  const overBudget = spent >= budget || (conceptSpent !== undefined && conceptBudget !== undefined && conceptSpent >= conceptBudget);
+  costDisplay.classList.toggle('over-budget', overBudget);
+}
+
+/**
+ * A cap was hit: explain it and let the user approve a higher one (or leave it)
+ */
+function addBudgetPrompt(msg: Extract<UIUpdate, { type: 'budget_exceeded' }>) {
+  const div = document.createElement('div');
+  div.className = 'message budget';
+
+  const text = document.createElement('div');
+  text.textContent = msg.suggestedLimit === null
+    ? `${msg.message} The session is at its hard ceiling and can't be raised.`
+    : `${msg.message} Generation is paused until you raise the budget.`;
+  div.appendChild(text);
+
+  if (msg.suggestedLimit !== null) {
+    const suggestedLimit = msg.suggestedLimit;
+    const actions = document.createElement('div');
+    actions.className = 'budget-actions';
+
+    const raiseBtn = document.createElement('button');
+    raiseBtn.className = 'primary';
+    raiseBtn.textContent = `Raise ${msg.scope} budget to $${suggestedLimit.toFixed(2)}`;
+
+    const keepBtn = document.createElement('button');
+    keepBtn.textContent = 'Keep limit';
+
+    raiseBtn.addEventListener('click', () => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+      const action: UserAction = { type: 'budget_raise', scope: msg.scope, limit: suggestedLimit };
+      ws.send(JSON.stringify(action));
+      raiseBtn.disabled = true;
+      keepBtn.disabled = true;
+    });
+    keepBtn.addEventListener('click', () => {
+      raiseBtn.disabled = true;
+      keepBtn.disabled = true;
+      addStatusMessage(`Kept the ${msg.scope} budget at $${msg.limit.toFixed(2)}`);
+    });
+
+    actions.appendChild(raiseBtn);
+    actions.appendChild(keepBtn);
+    div.appendChild(actions);
+  }
+
+  chatContainer.appendChild(div);
+  scrollToBottom();
+}
+
+// ─── Generation Tray ───
+
+const GENERATION_ROW_LINGER_MS = 8000;
+
+/**
+ * One row per background generation job; finished rows stay briefly, then go
+ */
+function updateGenerationTray(msg: Extract<UIUpdate, { type: 'generation_progress' }>) {
+  let row = generationTray.querySelector<HTMLDivElement>(`[data-job-id="${msg.jobId}"]`);
+  if (!row) {
+    row = document.createElement('div');
+    row.className = 'generation-row';
+    row.dataset.jobId = msg.jobId;
+    generationTray.appendChild(row);
+  }
+  row.replaceChildren();
+  row.classList.toggle('failed', msg.status === 'failed');
+
+  const header = document.createElement('div');
+  header.className = 'generation-header';
+  const label = document.createElement('span');
+  label.className = 'generation-label';
+  label.textContent = msg.label;
+  label.title = `${msg.jobId}: ${msg.label}`;
+  const progress = document.createElement('span');
+  progress.className = 'generation-progress';
+  progress.textContent = (msg.status === 'queued' ? 'Queued' : `${msg.completed}/${msg.total}`) +
+    (msg.failed > 0 ? ` · ${msg.failed} failed` : '') +
+    (msg.cost > 0 ? ` · $${msg.cost.toFixed(2)}` : '');
+  header.appendChild(label);
+  header.appendChild(progress);
+  row.appendChild(header);
+
+  if (msg.thumbnails.length > 0) {
+    const thumbs = document.createElement('div');
+    thumbs.className = 'generation-thumbnails';
+    for (const thumbnail of msg.thumbnails) {
+      const img = document.createElement('img');
+      img.src = `data:image/jpeg;base64,${thumbnail}`;
+      thumbs.appendChild(img);
+    }
+    row.appendChild(thumbs);
+  }
+
+  generationTray.classList.add('active');
+  if (msg.status === 'done' || msg.status === 'failed') {
+    const finishedRow = row;
+    setTimeout(() => {
+      finishedRow.remove();
+      if (generationTray.childElementCount === 0) generationTray.classList.remove('active');
+    }, GENERATION_ROW_LINGER_MS);
+  }
 }
 
 function scrollToBottom() {
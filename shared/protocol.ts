@@ -43,6 +43,8 @@ export type PluginCommand =
       id: string;
       frameId: string;
       serialized: SerializedNode;
+      /** Image bytes (base64) by hash, for image fills the file doesn't have */
+      images?: Record<string, string>;
     }
   | {
       type: 'get_selection';
@@ -79,6 +81,27 @@ export type PluginCommand =
         newParent?: string;
         index?: number;
       }>;
+    }
+  | {
+      /** Unwrapped width of each string, and the single-line height, at one font size */
+      type: 'measure_text';
+      id: string;
+      texts: string[];
+      fontFamily: string;
+      fontStyle: string;
+      fontSize: number;
+    }
+  | {
+      /** Bytes (base64) of images by hash; hashes not in the file come back as missing */
+      type: 'read_images';
+      id: string;
+      hashes: string[];
+    }
+  | {
+      /** Which of the hashes the file has no image for */
+      type: 'find_missing_images';
+      id: string;
+      hashes: string[];
     };
 
 // ─── Plugin → Backend (responses) ───
@@ -108,6 +131,16 @@ export type PluginResponse =
 
 // ─── Backend → Plugin (streaming UI updates) ───
 
+/**
+ * Spending cap a budget message refers to (brand = per brand per calendar month)
+ */
+export type BudgetScope = 'session' | 'concept' | 'brand';
+
+/**
+ * Lifecycle of a background generation job (start_generation)
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
 /**
  * Streaming updates from backend to plugin UI
  * These render in the chat interface
@@ -133,8 +166,29 @@ export type UIUpdate =
     }
   | {
       type: 'cost_update';
+      spent: number; // session total
+      budget: number; // session limit
+      conceptSpent?: number;
+      conceptBudget?: number;
+    }
+  | {
+      type: 'budget_exceeded';
+      scope: BudgetScope;
       spent: number;
-      budget: number;
+      limit: number;
+      suggestedLimit: number | null; // null = at the hard ceiling, can't be raised
+      message: string;
+    }
+  | {
+      type: 'generation_progress'; // background generation job — drives the generation tray
+      jobId: string;
+      label: string;
+      status: GenerationJobStatus;
+      completed: number; // variants finished (succeeded or failed)
+      total: number;
+      failed: number;
+      cost: number;
+      thumbnails: string[]; // base64 JPEGs of finished variants
     }
   | {
       type: 'status';
@@ -177,6 +231,11 @@ export type UserAction =
   | {
       type: 'debug_toggle';
       enabled: boolean;
+    }
+  | {
+      type: 'budget_raise'; // user approved a higher cap
+      scope: BudgetScope;
+      limit: number;
     };
 
 // ─── Exports for convenience ───
@@ -204,6 +263,9 @@ export function isPluginCommand(msg: any): msg is PluginCommand {
       'image_data',
       'batch_update',
       'batch_operations',
+      'measure_text',
+      'read_images',
+      'find_missing_images',
     ].includes(msg.type)
   );
 }
@@ -234,6 +296,8 @@ export function isUIUpdate(msg: any): msg is UIUpdate {
       'tool_start',
       'tool_result',
       'cost_update',
+      'budget_exceeded',
+      'generation_progress',
       'status',
       'error_friendly',
       'error_debug',
@@ -249,11 +313,11 @@ export function isUserAction(msg: any): msg is UserAction {
     msg &&
     typeof msg === 'object' &&
     'type' in msg &&
-    ['user_message', 'brand_selected', 'new_concept', 'model_selected', 'debug_toggle'].includes(
+    ['user_message', 'brand_selected', 'new_concept', 'model_selected', 'debug_toggle', 'budget_raise'].includes(
       msg.type
     )
   );
 }
 
 // Re-export domain types for convenience
-export type { NodeInfo, SerializedNode, SerializedPaint, SerializedEffect, CanvasState } from './types.js';
+export type { NodeInfo, SerializedNode, SerializedPaint, SerializedEffect, SerializedTextRun, SerializedVectorNetwork, CanvasState } from './types.js';
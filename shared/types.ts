@@ -22,7 +22,9 @@ export interface NodeInfo {
 
 /**
  * Full recursive serialization of a Figma node
- * Used for checkpoint/restore functionality
+ * Used for checkpoint/restore functionality. Image fills reference Figma image
+ * hashes — the backend image store keeps the bytes so a restore can re-create
+ * images the file no longer has.
  */
 export interface SerializedNode {
   id: string;
@@ -41,6 +43,9 @@ export interface SerializedNode {
   strokes?: SerializedPaint[];
   strokeWeight?: number;
   strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  strokeCap?: string; // NONE, ROUND, SQUARE, ARROW_LINES, ARROW_EQUILATERAL, ...
+  strokeJoin?: 'MITER' | 'BEVEL' | 'ROUND';
+  dashPattern?: number[];
   cornerRadius?: number;
   cornerRadii?: [number, number, number, number]; // [topLeft, topRight, bottomRight, bottomLeft]
   effects?: SerializedEffect[];
@@ -77,10 +82,37 @@ export interface SerializedNode {
   letterSpacing?: { value: number; unit: 'PIXELS' | 'PERCENT' };
   textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE';
   textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  /** Per-range styling when a text node mixes fonts, sizes, colors or decorations */
+  textRuns?: SerializedTextRun[];
 
   // Image properties (for nodes with image fills)
   imageHash?: string; // Figma's internal image hash
 
+  // Vector geometry (VECTOR; network preferred on restore, paths as fallback)
+  vectorNetwork?: SerializedVectorNetwork;
+  vectorPaths?: Array<{ windingRule: 'NONZERO' | 'EVENODD' | 'NONE'; data: string }>;
+
+  // Shape parameters (POLYGON, STAR)
+  pointCount?: number;
+  innerRadius?: number;
+
+  // BOOLEAN_OPERATION — children are the operands
+  booleanOperation?: 'UNION' | 'INTERSECT' | 'SUBTRACT' | 'EXCLUDE';
+
+  // INSTANCE — main component reference; children hold the overrides
+  mainComponentId?: string;
+  componentKey?: string; // published components only, for importComponentByKeyAsync
+  componentProperties?: Record<string, string | boolean>;
+
+  // COMPONENT / COMPONENT_SET — property definitions, keyed by Figma's "Name#id"
+  componentPropertyDefinitions?: Record<string, {
+    type: string; // BOOLEAN, TEXT, INSTANCE_SWAP, VARIANT
+    defaultValue: string | boolean;
+    variantOptions?: string[];
+  }>;
+  // Layers of a component bound to its properties (visible, characters, mainComponent)
+  componentPropertyReferences?: Record<string, string>;
+
   // Constraints
   constraints?: {
     horizontal: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH' | 'SCALE';
@@ -91,6 +123,44 @@ export interface SerializedNode {
   children?: SerializedNode[];
 }
 
+/**
+ * Styling of the characters [start, end) of a TEXT node. Serialized runs carry
+ * every property; runs sent to createText set only what differs from the node.
+ */
+export interface SerializedTextRun {
+  start: number;
+  end: number;
+  fontName?: { family: string; style: string };
+  fontSize?: number;
+  fills?: SerializedPaint[];
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+}
+
+/**
+ * Vector network of a VECTOR node (mirrors Figma's VectorNetwork)
+ */
+export interface SerializedVectorNetwork {
+  vertices: Array<{
+    x: number;
+    y: number;
+    strokeCap?: string;
+    strokeJoin?: string;
+    cornerRadius?: number;
+    handleMirroring?: string;
+  }>;
+  segments: Array<{
+    start: number;
+    end: number;
+    tangentStart?: { x: number; y: number };
+    tangentEnd?: { x: number; y: number };
+  }>;
+  regions?: Array<{
+    windingRule: 'NONZERO' | 'EVENODD';
+    loops: number[][];
+    fills?: SerializedPaint[];
+  }>;
+}
+
 /**
  * Serialized paint (fill or stroke)
  */